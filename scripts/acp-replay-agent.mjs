@@ -0,0 +1,294 @@
+#!/usr/bin/env node
+/**
+ * Replay agent: plays the agent side of a recorded ACP trace over stdio.
+ *
+ * Add it as a custom agent with `node` as the command and
+ * `<repo>/scripts/acp-replay-agent.mjs <trace.jsonl>` as arguments. Traces
+ * are exported from the ACP inspector. Client messages are matched in
+ * recorded order by method (requests, notifications) or id (responses to
+ * agent requests); after each match the agent messages that followed it in
+ * the trace are sent back, with response ids mapped onto the live request
+ * ids. The `<vault>` placeholder of redacted traces is replaced by the
+ * working directory the client opens its session in.
+ *
+ * Options:
+ *   --agent <id>   Replay this agent when the trace holds several
+ *   --realtime     Keep the recorded gaps between agent messages
+ */
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+
+/** Written by the inspector's export in place of the vault path */
+const VAULT_PLACEHOLDER = "<vault>";
+
+/**
+ * @typedef {"request" | "response" | "notification" | "error"} TraceKind
+ * @typedef {{
+ *   direction: "outgoing" | "incoming";
+ *   kind: TraceKind;
+ *   agentId?: string;
+ *   method?: string;
+ *   timestamp: string | number;
+ *   payload: Record<string, unknown>;
+ * }} TraceEntry
+ * @typedef {{ message: Record<string, unknown>; delayMs: number }} Emission
+ * @typedef {{ emissions: Emission[]; mismatch?: string }} ReplayStep
+ */
+
+/**
+ * Parse an exported trace, one entry per line.
+ *
+ * @param {string} text
+ * @returns {TraceEntry[]}
+ */
+export function parseTrace(text) {
+	/** @type {TraceEntry[]} */
+	const entries = [];
+	const lines = text.split(/\r?\n/);
+	for (let i = 0; i < lines.length; i++) {
+		if (!lines[i].trim()) continue;
+		let entry;
+		try {
+			entry = JSON.parse(lines[i]);
+		} catch {
+			throw new Error(`Line ${i + 1} is not valid JSON`);
+		}
+		if (
+			(entry?.direction !== "incoming" && entry?.direction !== "outgoing") ||
+			typeof entry.payload !== "object" ||
+			entry.payload === null
+		) {
+			throw new Error(`Line ${i + 1} is not an ACP trace entry`);
+		}
+		entries.push(entry);
+	}
+	return entries;
+}
+
+/** @param {Record<string, unknown>} message @returns {TraceKind} */
+function kindOf(message) {
+	if (typeof message.method === "string") {
+		return "id" in message ? "request" : "notification";
+	}
+	return "error" in message ? "error" : "response";
+}
+
+/** @param {TraceKind} kind */
+function isResponse(kind) {
+	return kind === "response" || kind === "error";
+}
+
+/** @param {string | number} timestamp */
+function toTime(timestamp) {
+	return typeof timestamp === "number" ? timestamp : Date.parse(timestamp);
+}
+
+/**
+ * @param {unknown} value
+ * @param {string} vaultPath
+ * @returns {unknown}
+ */
+function restoreVaultPath(value, vaultPath) {
+	if (typeof value === "string") {
+		return value.replaceAll(VAULT_PLACEHOLDER, vaultPath);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => restoreVaultPath(item, vaultPath));
+	}
+	if (typeof value === "object" && value !== null) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [
+				key,
+				restoreVaultPath(item, vaultPath),
+			]),
+		);
+	}
+	return value;
+}
+
+/** @param {Record<string, unknown>} message */
+function describe(message) {
+	return typeof message.method === "string"
+		? `${kindOf(message)} ${message.method}`
+		: `response to #${String(message.id)}`;
+}
+
+/**
+ * Replay state for one connection.
+ *
+ * @param {TraceEntry[]} trace
+ * @param {{ agentId?: string }} [options]
+ */
+export function createTraceReplay(trace, options = {}) {
+	const agentId = options.agentId ?? trace[0]?.agentId;
+	const entries = trace.filter(
+		(entry) => !agentId || !entry.agentId || entry.agentId === agentId,
+	);
+	let cursor = 0;
+	/** @type {number | null} */
+	let lastTime = null;
+	/** Recorded client request id → id of the live request */
+	const requestIds = new Map();
+	/** @type {string | null} */
+	let vaultPath = null;
+
+	/** Send the agent messages up to the next one the client has to send */
+	const emitAgentTurn = () => {
+		/** @type {Emission[]} */
+		const emissions = [];
+		while (
+			cursor < entries.length &&
+			entries[cursor].direction === "incoming"
+		) {
+			const entry = entries[cursor++];
+			const message = /** @type {Record<string, unknown>} */ (
+				vaultPath === null
+					? { ...entry.payload }
+					: restoreVaultPath(entry.payload, vaultPath)
+			);
+			if (isResponse(entry.kind) && requestIds.has(message.id)) {
+				const recordedId = message.id;
+				message.id = requestIds.get(recordedId);
+				requestIds.delete(recordedId);
+			}
+			const time = toTime(entry.timestamp);
+			emissions.push({
+				message,
+				delayMs:
+					lastTime === null || Number.isNaN(time)
+						? 0
+						: Math.max(0, time - lastTime),
+			});
+			lastTime = Number.isNaN(time) ? lastTime : time;
+		}
+		return emissions;
+	};
+
+	/** @param {TraceEntry} entry @param {Record<string, unknown>} message */
+	const matches = (entry, message) => {
+		const kind = kindOf(message);
+		if (isResponse(entry.kind)) {
+			return isResponse(kind) && entry.payload.id === message.id;
+		}
+		return entry.kind === kind && entry.method === message.method;
+	};
+
+	return {
+		/** Agent messages sent before the client's first message */
+		start() {
+			return emitAgentTurn();
+		},
+
+		/**
+		 * Take a message from the client. Unexpected requests are answered
+		 * with an error and leave the replay where it was.
+		 *
+		 * @param {Record<string, unknown>} message
+		 * @returns {ReplayStep}
+		 */
+		receive(message) {
+			const expected = entries[cursor];
+			if (expected && matches(expected, message)) {
+				cursor++;
+				const time = toTime(expected.timestamp);
+				lastTime = Number.isNaN(time) ? lastTime : time;
+				if (expected.kind === "request") {
+					requestIds.set(expected.payload.id, message.id);
+				}
+				const params = /** @type {{ cwd?: unknown } | undefined} */ (
+					message.params
+				);
+				if (typeof params?.cwd === "string") {
+					vaultPath = params.cwd;
+				}
+				return { emissions: emitAgentTurn() };
+			}
+
+			const mismatch = expected
+				? `expected ${describe(expected.payload)}, got ${describe(message)}`
+				: `trace ended, got ${describe(message)}`;
+			if (kindOf(message) !== "request") {
+				return { emissions: [], mismatch };
+			}
+			return {
+				emissions: [
+					{
+						message: {
+							jsonrpc: "2.0",
+							id: message.id,
+							error: { code: -32603, message: `Replay diverged: ${mismatch}` },
+						},
+						delayMs: 0,
+					},
+				],
+				mismatch,
+			};
+		},
+
+		isFinished() {
+			return cursor >= entries.length;
+		},
+	};
+}
+
+/** @param {string[]} args */
+async function main(args) {
+	const agentIndex = args.indexOf("--agent");
+	const agentId = agentIndex === -1 ? undefined : args[agentIndex + 1];
+	const realtime = args.includes("--realtime");
+	const file = args.find(
+		(arg, index) =>
+			!arg.startsWith("--") && (agentIndex === -1 || index !== agentIndex + 1),
+	);
+	if (!file) {
+		console.error(
+			"Usage: acp-replay-agent.mjs <trace.jsonl> [--agent <id>] [--realtime]",
+		);
+		process.exit(2);
+	}
+
+	const replay = createTraceReplay(parseTrace(readFileSync(file, "utf8")), {
+		agentId,
+	});
+
+	let output = Promise.resolve();
+	/** @param {Emission[]} emissions */
+	const send = (emissions) => {
+		output = output.then(async () => {
+			for (const { message, delayMs } of emissions) {
+				if (realtime && delayMs > 0) {
+					await new Promise((done) => setTimeout(done, delayMs));
+				}
+				process.stdout.write(`${JSON.stringify(message)}\n`);
+			}
+		});
+	};
+
+	send(replay.start());
+	for await (const line of createInterface({ input: process.stdin })) {
+		if (!line.trim()) continue;
+		let message;
+		try {
+			message = JSON.parse(line);
+		} catch {
+			console.error(`[replay] Ignoring invalid JSON: ${line}`);
+			continue;
+		}
+		const { emissions, mismatch } = replay.receive(message);
+		if (mismatch) console.error(`[replay] ${mismatch}`);
+		send(emissions);
+	}
+	await output;
+}
+
+if (
+	process.argv[1] &&
+	resolve(process.argv[1]) === fileURLToPath(import.meta.url)
+) {
+	main(process.argv.slice(2)).catch((error) => {
+		console.error(`[replay] ${error instanceof Error ? error.message : error}`);
+		process.exit(1);
+	});
+}
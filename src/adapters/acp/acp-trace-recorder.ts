@@ -0,0 +1,201 @@
+import type * as acp from "@agentclientprotocol/sdk";
+import type {
+	AcpTraceDirection,
+	AcpTraceEntry,
+	AcpTraceKind,
+} from "../../domain/models/acp-trace";
+import { getLogger } from "../../shared/logger";
+
+/** Messages kept before the oldest are dropped */
+const DEFAULT_CAPACITY = 2000;
+
+/** Longer strings (usually base64 images or file contents) are shortened */
+const MAX_STRING_LENGTH = 4000;
+
+interface PendingRequest {
+	method?: string;
+	sessionId?: string;
+	timestamp: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function classify(message: Record<string, unknown>): AcpTraceKind {
+	if (typeof message.method === "string") {
+		return "id" in message ? "request" : "notification";
+	}
+	return "error" in message ? "error" : "response";
+}
+
+function findSessionId(message: Record<string, unknown>): string | undefined {
+	for (const key of ["params", "result"]) {
+		const part = message[key];
+		if (isRecord(part) && typeof part.sessionId === "string") {
+			return part.sessionId;
+		}
+	}
+	return undefined;
+}
+
+function shortenStrings(value: unknown): unknown {
+	if (typeof value === "string") {
+		return value.length > MAX_STRING_LENGTH
+			? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} characters)`
+			: value;
+	}
+	if (Array.isArray(value)) {
+		return value.map(shortenStrings);
+	}
+	if (isRecord(value)) {
+		const result: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			result[key] = shortenStrings(item);
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * Ring buffer of the JSON-RPC traffic of every agent connection.
+ *
+ * Responses are paired with the request of the same id so they carry its
+ * method, session and round-trip time. Recording never throws into the
+ * connection it observes.
+ */
+export class AcpTraceRecorder {
+	private entries: AcpTraceEntry[] = [];
+	private pending = new Map<string, PendingRequest>();
+	private listeners = new Set<() => void>();
+	private nextSeq = 1;
+
+	constructor(private readonly capacity = DEFAULT_CAPACITY) {}
+
+	/** Wrap a connection stream so every message passing through is recorded */
+	tap(agentId: string, stream: acp.Stream): acp.Stream {
+		const readable = stream.readable.pipeThrough(
+			new TransformStream<acp.AnyMessage, acp.AnyMessage>({
+				transform: (message, controller) => {
+					this.record(agentId, "incoming", message);
+					controller.enqueue(message);
+				},
+			}),
+		);
+		const outgoing = new TransformStream<acp.AnyMessage, acp.AnyMessage>({
+			transform: (message, controller) => {
+				this.record(agentId, "outgoing", message);
+				controller.enqueue(message);
+			},
+		});
+		outgoing.readable.pipeTo(stream.writable).catch((error) => {
+			getLogger().log("[AcpTraceRecorder] Outgoing stream closed:", error);
+		});
+		return { readable, writable: outgoing.writable };
+	}
+
+	record(
+		agentId: string,
+		direction: AcpTraceDirection,
+		message: unknown,
+		timestamp = Date.now(),
+	): void {
+		if (!isRecord(message)) return;
+		try {
+			this.push(this.toEntry(agentId, direction, message, timestamp));
+		} catch (error) {
+			getLogger().warn("[AcpTraceRecorder] Failed to record message:", error);
+		}
+	}
+
+	/** Recorded messages, oldest first */
+	getEntries(): AcpTraceEntry[] {
+		return this.entries.slice();
+	}
+
+	clear(): void {
+		this.entries = [];
+		this.pending.clear();
+		this.notify();
+	}
+
+	subscribe(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	// ── internal ───────────────────────────────────────────────────────
+
+	private toEntry(
+		agentId: string,
+		direction: AcpTraceDirection,
+		message: Record<string, unknown>,
+		timestamp: number,
+	): AcpTraceEntry {
+		const kind = classify(message);
+		const id =
+			typeof message.id === "string" || typeof message.id === "number"
+				? message.id
+				: undefined;
+		const entry: AcpTraceEntry = {
+			seq: this.nextSeq++,
+			timestamp,
+			agentId,
+			direction,
+			kind,
+			id,
+			method: typeof message.method === "string" ? message.method : undefined,
+			sessionId: findSessionId(message),
+			payload: shortenStrings(message),
+		};
+
+		if (id === undefined) return entry;
+
+		if (kind === "request") {
+			this.pending.set(`${agentId}:${direction}:${id}`, {
+				method: entry.method,
+				sessionId: entry.sessionId,
+				timestamp,
+			});
+			this.trimPending();
+			return entry;
+		}
+
+		// A response travels the other way from its request
+		const requestDirection = direction === "incoming" ? "outgoing" : "incoming";
+		const key = `${agentId}:${requestDirection}:${id}`;
+		const request = this.pending.get(key);
+		if (request) {
+			this.pending.delete(key);
+			entry.method = request.method;
+			entry.sessionId ??= request.sessionId;
+			entry.durationMs = timestamp - request.timestamp;
+		}
+		return entry;
+	}
+
+	private push(entry: AcpTraceEntry): void {
+		this.entries.push(entry);
+		if (this.entries.length > this.capacity) {
+			this.entries.splice(0, this.entries.length - this.capacity);
+		}
+		this.notify();
+	}
+
+	/** Requests that never got an answer must not pile up */
+	private trimPending(): void {
+		for (const key of this.pending.keys()) {
+			if (this.pending.size <= this.capacity) return;
+			this.pending.delete(key);
+		}
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+}
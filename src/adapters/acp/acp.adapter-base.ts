@@ -4,6 +4,7 @@ import type { PermissionOption } from "../../domain/models/chat-message";
 import type { ProcessError } from "../../domain/models/agent-error";
 import type { SessionUpdate } from "../../domain/models/session-update";
 import type { TerminalOutputSnapshot } from "../../domain/models/terminal-output";
+import type { AgentFileWrite } from "../../domain/models/file-write";
 import type {
 	ForkSessionResult,
 	ListSessionsResult,
@@ -12,12 +13,16 @@ import type {
 } from "../../domain/models/session-info";
 import { getLogger, type Logger } from "../../shared/logger";
 import { TerminalManager } from "./terminal-manager";
+import { VaultTextFiles } from "../obsidian/vault-text-files";
+import { getAgentMcpServerSettings } from "../obsidian/secret-storage.adapter";
+import { buildSessionMcpServers, mergeMcpServerSettings } from "./mcp-servers";
 import type AgentClientPlugin from "../../plugin";
 import {
 	cancelPendingPermissionRequestsOperation,
 	handlePermissionResponseOperation,
 } from "./permission-queue";
 import type { ExecutePolicyState } from "./execute-policy";
+import type { PathScopePolicyState } from "./path-scope-policy";
 import type {
 	PermissionQueueState,
 	TerminalPermissionMode,
@@ -49,6 +54,7 @@ export abstract class AcpAdapterBase {
 	protected sessionUpdateCallback: ((update: SessionUpdate) => void) | null =
 		null;
 	protected errorCallback: ((error: ProcessError) => void) | null = null;
+	protected fileWriteCallback: ((write: AgentFileWrite) => void) | null = null;
 
 	protected currentConfig: AgentConfig | null = null;
 	protected isInitializedFlag = false;
@@ -71,6 +77,7 @@ export abstract class AcpAdapterBase {
 	protected cancelRequestedForExecutePolicySessions = new Set<string>();
 
 	protected terminalManager: TerminalManager;
+	protected textFiles: VaultTextFiles;
 	protected currentMessageId: string | null = null;
 	protected pendingPermissionRequests = new Map<
 		string,
@@ -87,6 +94,10 @@ export abstract class AcpAdapterBase {
 		sessionId: string;
 		options: PermissionOption[];
 	}> = [];
+	protected policyRules = new Map<string, string>();
+	protected approvedPathToolCallIds = new Set<string>();
+	protected unapprovedPathToolCallIds = new Set<string>();
+	protected blockedPathToolCallIds = new Set<string>();
 
 	protected promptSessionUpdateCount = 0;
 	protected recentStderr = "";
@@ -95,12 +106,22 @@ export abstract class AcpAdapterBase {
 		this.logger = getLogger();
 		this.runtimeManager = plugin.runtimeManager;
 		this.terminalManager = new TerminalManager(plugin);
+		this.textFiles = new VaultTextFiles(
+			plugin.app,
+			() => plugin.settings.windowsWslMode,
+		);
 	}
 
 	abstract sessionUpdate(params: acp.SessionNotification): Promise<void>;
 	abstract requestPermission(
 		params: acp.RequestPermissionRequest,
 	): Promise<acp.RequestPermissionResponse>;
+	abstract readTextFile(
+		params: acp.ReadTextFileRequest,
+	): Promise<acp.ReadTextFileResponse>;
+	abstract writeTextFile(
+		params: acp.WriteTextFileRequest,
+	): Promise<acp.WriteTextFileResponse>;
 
 	protected get connection(): acp.ClientSideConnection | null {
 		return this.runtime?.connection ?? null;
@@ -136,6 +157,10 @@ export abstract class AcpAdapterBase {
 		this.errorCallback = callback;
 	}
 
+	onFileWrite(callback: (write: AgentFileWrite) => void): void {
+		this.fileWriteCallback = callback;
+	}
+
 	respondToPermission(requestId: string, optionId: string): Promise<void> {
 		if (!this.connection) {
 			throw new Error(
@@ -254,6 +279,10 @@ export abstract class AcpAdapterBase {
 		this.pendingSyntheticExecutePermissionToolCallIds.clear();
 		this.latestExecuteUpdates.clear();
 		this.cancelRequestedForExecutePolicySessions.clear();
+		this.policyRules.clear();
+		this.approvedPathToolCallIds.clear();
+		this.unapprovedPathToolCallIds.clear();
+		this.blockedPathToolCallIds.clear();
 	}
 
 	protected unbindCurrentSession(): void {
@@ -265,6 +294,7 @@ export abstract class AcpAdapterBase {
 
 	protected bindSession(sessionId: string): void {
 		this.unbindCurrentSession();
+		this.terminalManager.forgetRetiredTerminals(sessionId);
 		this.currentSessionId = sessionId;
 		this.blockedExecuteToolCallIds.clear();
 		this.grantedExecuteToolCallIds.clear();
@@ -299,6 +329,25 @@ export abstract class AcpAdapterBase {
 		);
 	}
 
+	/** Built-in, global and per-agent MCP servers the agent can connect to */
+	protected getSessionMcpServers(): acp.McpServer[] {
+		const settings = this.plugin.settings;
+		const capabilities =
+			this.runtime?.initResult.agentCapabilities?.mcpCapabilities;
+		const configured = buildSessionMcpServers({
+			servers: mergeMcpServerSettings(
+				settings.mcpServers ?? [],
+				getAgentMcpServerSettings(settings, this.currentAgentId ?? ""),
+			),
+			capabilities,
+			resolveSecret: (id) => this.plugin.app.secretStorage.getSecret(id),
+			logger: this.logger,
+		});
+		const vault = this.plugin.vaultMcpServer?.getSessionServer(capabilities);
+		if (!vault) return configured;
+		return [vault, ...configured.filter((s) => s.name !== vault.name)];
+	}
+
 	protected getExecutePolicyState(): ExecutePolicyState {
 		return {
 			blockedExecuteToolCallIds: this.blockedExecuteToolCallIds,
@@ -312,10 +361,19 @@ export abstract class AcpAdapterBase {
 		};
 	}
 
+	protected getPathScopePolicyState(): PathScopePolicyState {
+		return {
+			approvedPathToolCallIds: this.approvedPathToolCallIds,
+			unapprovedPathToolCallIds: this.unapprovedPathToolCallIds,
+			blockedPathToolCallIds: this.blockedPathToolCallIds,
+		};
+	}
+
 	protected getPermissionQueueState(): PermissionQueueState {
 		return {
 			pendingPermissionRequests: this.pendingPermissionRequests,
 			pendingPermissionQueue: this.pendingPermissionQueue,
+			policyRules: this.policyRules,
 		};
 	}
 
@@ -351,6 +409,7 @@ export abstract class AcpAdapterBase {
 			windowsWslMode: this.plugin.settings.windowsWslMode,
 			sessionId,
 			cwd,
+			mcpServers: this.getSessionMcpServers(),
 		});
 	}
 
@@ -365,6 +424,7 @@ export abstract class AcpAdapterBase {
 			windowsWslMode: this.plugin.settings.windowsWslMode,
 			sessionId,
 			cwd,
+			mcpServers: this.getSessionMcpServers(),
 		});
 	}
 
@@ -378,6 +438,7 @@ export abstract class AcpAdapterBase {
 			windowsWslMode: this.plugin.settings.windowsWslMode,
 			sessionId,
 			cwd,
+			mcpServers: this.getSessionMcpServers(),
 		});
 		this.bindSession(result.sessionId);
 		return result;
@@ -101,6 +101,7 @@ export async function loadSessionViaBridge(args: {
 	windowsWslMode: boolean;
 	sessionId: string;
 	cwd: string;
+	mcpServers: acp.McpServer[];
 }): Promise<LoadSessionResult> {
 	return await loadSessionOperation(args);
 }
@@ -111,6 +112,7 @@ export async function resumeSessionViaBridge(args: {
 	windowsWslMode: boolean;
 	sessionId: string;
 	cwd: string;
+	mcpServers: acp.McpServer[];
 }): Promise<ResumeSessionResult> {
 	return await resumeSessionOperation(args);
 }
@@ -121,6 +123,7 @@ export async function forkSessionViaBridge(args: {
 	windowsWslMode: boolean;
 	sessionId: string;
 	cwd: string;
+	mcpServers: acp.McpServer[];
 }): Promise<ForkSessionResult> {
 	return await forkSessionOperation(args);
 }
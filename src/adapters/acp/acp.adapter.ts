@@ -3,11 +3,20 @@ import * as acp from "@agentclientprotocol/sdk";
 import type {
 	AgentConfig,
 	IAgentClient,
+	AuthenticationResult,
 	InitializeResult,
 	NewSessionResult,
 } from "../../domain/ports/agent-client.port";
+import type { PathScope } from "../../domain/models/path-scope";
 import type { PromptContent } from "../../domain/models/prompt-content";
+import type { SessionUpdate } from "../../domain/models/session-update";
+import type { TerminalOutputListener } from "../../domain/models/terminal-output";
 import type AgentClientPlugin from "../../plugin";
+import {
+	findPathScopeViolations,
+	mergePathScopes,
+} from "../../shared/path-scope";
+import { getAgentPathScope } from "../obsidian/secret-storage.adapter";
 import { extractStderrErrorHint } from "./error-diagnostics";
 import {
 	authenticateOperation,
@@ -17,12 +26,26 @@ import {
 	setSessionModeOperation,
 	setSessionModelOperation,
 } from "./runtime-ops";
-import { requestPermissionOperation } from "./permission-queue";
+import {
+	requestPermissionOperation,
+	type TerminalPermissionMode,
+	type TerminalRuleContext,
+} from "./permission-queue";
 import {
 	handleExecuteToolCallPolicy as handleExecuteToolCallPolicyOperation,
 	recordTerminalPermissionDecision as recordTerminalPermissionDecisionOperation,
+	resolveTerminalPermissionMode,
 	withExecutionPolicyPrompt as withExecutionPolicyPromptOperation,
 } from "./execute-policy";
+import {
+	handlePathScopePolicy as handlePathScopePolicyOperation,
+	recordPathScopePermissionDecision as recordPathScopePermissionDecisionOperation,
+} from "./path-scope-policy";
+import {
+	createPermissionMemory,
+	type PermissionMemory,
+} from "./permission-grants";
+import { readTextFileOperation, writeTextFileOperation } from "./fs-bridge";
 import { routeSessionUpdate } from "./update-routing";
 import { AcpAdapterBase } from "./acp.adapter-base";
 import type { SessionHandler } from "./runtime-multiplexer";
@@ -41,6 +64,11 @@ export class AcpAdapter
 	extends AcpAdapterBase
 	implements IAgentClient, SessionHandler
 {
+	/** Answer requests from, and save "Always ..." choices to, the grant list */
+	rememberPermissionDecisions = true;
+	/** Let the agent write notes and run commands; off for hidden sessions */
+	allowWritesAndCommands = true;
+
 	constructor(plugin: AgentClientPlugin) {
 		super(plugin);
 	}
@@ -60,8 +88,11 @@ export class AcpAdapter
 				windowsWslMode: this.plugin.settings.windowsWslMode,
 				windowsWslDistribution: this.plugin.settings.windowsWslDistribution,
 				nodePath: this.plugin.settings.nodePath,
+				// The runtime is shared with chat views, so it follows the settings
 				terminalCapabilityEnabled:
-					this.getTerminalPermissionMode() !== "disabled",
+					resolveTerminalPermissionMode(
+						this.plugin.settings.terminalPermissionMode,
+					) !== "disabled",
 			});
 			this.runtime = runtime;
 			this.isInitializedFlag = true;
@@ -81,12 +112,13 @@ export class AcpAdapter
 			logger: this.logger,
 			workingDirectory,
 			windowsWslMode: this.plugin.settings.windowsWslMode,
+			mcpServers: this.getSessionMcpServers(),
 		});
 		this.bindSession(result.sessionId);
 		return result;
 	}
 
-	async authenticate(methodId: string): Promise<boolean> {
+	async authenticate(methodId: string): Promise<AuthenticationResult> {
 		return await authenticateOperation({
 			connection: this.connection,
 			logger: this.logger,
@@ -98,6 +130,7 @@ export class AcpAdapter
 		const policyContent = withExecutionPolicyPromptOperation(
 			content,
 			this.getTerminalPermissionMode(),
+			this.getTerminalRuleContext().rules.length > 0,
 		);
 		await sendPromptOperation({
 			connection: this.connection,
@@ -130,6 +163,7 @@ export class AcpAdapter
 	disconnect(): Promise<void> {
 		this.logger.log("[AcpAdapter] Disconnecting...");
 		this.cancelAllOperations();
+		this.terminalManager.forgetRetiredTerminals(null);
 		this.unbindCurrentSession();
 		this.releaseCurrentRuntime();
 		this.currentConfig = null;
@@ -166,6 +200,30 @@ export class AcpAdapter
 		});
 	}
 
+	subscribeTerminalOutput(
+		terminalId: string,
+		listener: TerminalOutputListener,
+	): () => void {
+		this.ensureTerminalEnabled();
+		const unsubscribe = this.terminalManager.subscribe(terminalId, listener);
+		if (!unsubscribe) {
+			throw new Error(`Terminal ${terminalId} not found`);
+		}
+		return unsubscribe;
+	}
+
+	stopTerminal(terminalId: string): Promise<void> {
+		this.ensureTerminalEnabled();
+		this.logger.log(`[AcpAdapter] Stopping terminal ${terminalId}`);
+		this.terminalManager.killTerminal(terminalId);
+		return Promise.resolve();
+	}
+
+	async writeTerminalInput(terminalId: string, data: string): Promise<void> {
+		this.ensureTerminalEnabled();
+		await this.terminalManager.writeInput(terminalId, data);
+	}
+
 	sessionUpdate(params: acp.SessionNotification): Promise<void> {
 		const update = params.update;
 		const sessionId = params.sessionId;
@@ -179,6 +237,7 @@ export class AcpAdapter
 				state: this.getExecutePolicyState(),
 				permissionState: this.getPermissionQueueState(),
 				terminalPermissionMode: this.getTerminalPermissionMode(),
+				terminalRules: this.getTerminalRuleContext(),
 				logger: this.logger,
 				connection: this.connection,
 				sessionUpdateCallback: this.sessionUpdateCallback,
@@ -190,19 +249,72 @@ export class AcpAdapter
 			return Promise.resolve();
 		}
 
-		if (this.sessionUpdateCallback) {
-			routeSessionUpdate(update, sessionId, this.sessionUpdateCallback);
+		const callback = this.sessionUpdateCallback;
+		if (callback) {
+			routeSessionUpdate(update, sessionId, (routed) => {
+				const annotated = this.withPathViolations(routed);
+				if (
+					handlePathScopePolicyOperation({
+						update: annotated,
+						sessionId,
+						state: this.getPathScopePolicyState(),
+						logger: this.logger,
+						sessionUpdateCallback: callback,
+						cancelSession: async (targetSessionId: string) => {
+							await this.cancel(targetSessionId);
+						},
+					})
+				) {
+					return;
+				}
+				callback(this.withPolicyRule(annotated));
+			});
 		}
 		return Promise.resolve();
 	}
 
+	async readTextFile(
+		params: acp.ReadTextFileRequest,
+	): Promise<acp.ReadTextFileResponse> {
+		return await readTextFileOperation({
+			params,
+			logger: this.logger,
+			files: this.textFiles,
+			pathScope: this.getPathScope(),
+		});
+	}
+
+	async writeTextFile(
+		params: acp.WriteTextFileRequest,
+	): Promise<acp.WriteTextFileResponse> {
+		if (!this.allowWritesAndCommands) {
+			throw new Error("Note writes are turned off for this session.");
+		}
+		return await writeTextFileOperation({
+			params,
+			logger: this.logger,
+			files: this.textFiles,
+			onFileWrite: this.fileWriteCallback,
+			pathScope: this.getPathScope(),
+		});
+	}
+
 	async requestPermission(
 		params: acp.RequestPermissionRequest,
 	): Promise<acp.RequestPermissionResponse> {
 		const response = await requestPermissionOperation({
 			params,
 			logger: this.logger,
-			terminalPermissionMode: this.plugin.settings.terminalPermissionMode,
+			terminalPermissionMode: this.getTerminalPermissionMode(),
+			terminalRules: this.getTerminalRuleContext(),
+			permissionMemory: this.getPermissionMemory(),
+			pathViolations: params.toolCall
+				? findPathScopeViolations(
+						this.getPathScope(),
+						params.toolCall,
+						(path) => this.textFiles.toVaultPath(path),
+					)
+				: [],
 			state: this.getPermissionQueueState(),
 			sessionUpdateCallback: this.sessionUpdateCallback,
 		});
@@ -211,9 +323,82 @@ export class AcpAdapter
 			response,
 			state: this.getExecutePolicyState(),
 		});
+		recordPathScopePermissionDecisionOperation({
+			params,
+			response,
+			state: this.getPathScopePolicyState(),
+		});
 		return response;
 	}
 
+	protected getTerminalPermissionMode(): TerminalPermissionMode {
+		return this.allowWritesAndCommands
+			? super.getTerminalPermissionMode()
+			: "disabled";
+	}
+
+	private getTerminalRuleContext(): TerminalRuleContext {
+		return {
+			rules: this.plugin.settings.terminalCommandRules ?? [],
+			workingDirectory: this.currentConfig?.workingDirectory ?? null,
+		};
+	}
+
+	private getPathScope(): PathScope {
+		const settings = this.plugin.settings;
+		return mergePathScopes(
+			settings.pathScope,
+			this.currentAgentId
+				? getAgentPathScope(settings, this.currentAgentId)
+				: undefined,
+		);
+	}
+
+	/**
+	 * Mark tool calls that touch files outside the agent's path scope. Updates
+	 * without a kind are checked as reads so follow-ups of read tools are not
+	 * flagged as writes.
+	 */
+	private withPathViolations(update: SessionUpdate): SessionUpdate {
+		if (update.type !== "tool_call" && update.type !== "tool_call_update") {
+			return update;
+		}
+		const pathViolations = findPathScopeViolations(
+			this.getPathScope(),
+			{ ...update, kind: update.kind ?? "read" },
+			(path) => this.textFiles.toVaultPath(path),
+		);
+		return pathViolations.length > 0 ? { ...update, pathViolations } : update;
+	}
+
+	/** Attach the terminal rule that decided the tool call, if one did */
+	private withPolicyRule(update: SessionUpdate): SessionUpdate {
+		if (update.type !== "tool_call" && update.type !== "tool_call_update") {
+			return update;
+		}
+		const policyRule = this.policyRules.get(update.toolCallId);
+		if (!policyRule) {
+			return update;
+		}
+		if (update.status === "completed" || update.status === "failed") {
+			this.policyRules.delete(update.toolCallId);
+		}
+		return { ...update, policyRule };
+	}
+
+	private getPermissionMemory(): PermissionMemory | undefined {
+		if (!this.rememberPermissionDecisions || !this.currentAgentId) {
+			return undefined;
+		}
+		return createPermissionMemory({
+			agentId: this.currentAgentId,
+			getGrants: () => this.plugin.settings.permissionGrants ?? [],
+			saveGrants: (permissionGrants) =>
+				this.plugin.settingsStore.updateSettings({ permissionGrants }),
+			logger: this.logger,
+		});
+	}
+
 	private extractStderrErrorHint(): string | null {
 		return extractStderrErrorHint(this.recentStderr);
 	}
@@ -7,6 +7,7 @@ import type {
 } from "../../domain/ports/agent-client.port";
 import type { ProcessError } from "../../domain/models/agent-error";
 import { getLogger, type Logger } from "../../shared/logger";
+import type { AcpTraceRecorder } from "./acp-trace-recorder";
 import { RuntimeMultiplexer } from "./runtime-multiplexer";
 import { initializeOperation } from "./process-lifecycle";
 import {
@@ -48,7 +49,8 @@ export class AgentRuntimeManager {
 	private initPromises = new Map<string, Promise<AgentRuntime>>();
 	private logger: Logger;
 
-	constructor() {
+	/** @param trace - Records the traffic of every runtime's connection */
+	constructor(private readonly trace?: AcpTraceRecorder) {
 		this.logger = getLogger();
 	}
 
@@ -172,7 +174,10 @@ export class AgentRuntimeManager {
 				multiplexer.broadcastError(error);
 			},
 			clientFactory: (stream) =>
-				new acp.ClientSideConnection(() => multiplexer, stream),
+				new acp.ClientSideConnection(
+					() => multiplexer,
+					this.trace ? this.trace.tap(config.id, stream) : stream,
+				),
 			onStderrData: (chunk: string) => {
 				multiplexer.broadcastStderrData(chunk);
 			},
@@ -1,4 +1,9 @@
 import { Platform } from "obsidian";
+import { AcpErrorCode } from "../../domain/models/agent-error";
+import {
+	extractErrorCode,
+	extractErrorMessage,
+} from "../../shared/acp-error-utils";
 
 export function getSpawnErrorInfo(
 	error: Error,
@@ -52,3 +57,73 @@ export function extractStderrErrorHint(stderr: string): string | null {
 
 	return null;
 }
+
+export function getAuthenticationErrorInfo(error: unknown): {
+	title: string;
+	message: string;
+	suggestion: string;
+} {
+	const code = extractErrorCode(error);
+	const message = extractErrorMessage(error);
+
+	if (code === AcpErrorCode.METHOD_NOT_FOUND) {
+		return {
+			title: "Sign-in not supported",
+			message,
+			suggestion:
+				"This agent cannot sign in from Obsidian. Run its own login command in a terminal, then restart the agent.",
+		};
+	}
+
+	if (code === AcpErrorCode.INVALID_PARAMS) {
+		return {
+			title: "Sign-in method unavailable",
+			message,
+			suggestion:
+				"The agent no longer offers this method. Restart the agent and choose another one.",
+		};
+	}
+
+	const lower = message.toLowerCase();
+	if (/api[ _-]?key/.test(lower)) {
+		return {
+			title: "API key required",
+			message,
+			suggestion:
+				"Add the API key in the agent's settings (or its environment variables), then restart the agent.",
+		};
+	}
+
+	if (/timed? ?out|timeout/.test(lower)) {
+		return {
+			title: "Sign-in timed out",
+			message,
+			suggestion:
+				"Finish the steps in the browser window or terminal the agent opened, then try again.",
+		};
+	}
+
+	if (/enotfound|econnrefused|econnreset|network|fetch failed/.test(lower)) {
+		return {
+			title: "Sign-in could not reach the server",
+			message,
+			suggestion:
+				"Check your internet connection and proxy settings, then try again.",
+		};
+	}
+
+	if (/cancel|denied|declined|aborted/.test(lower)) {
+		return {
+			title: "Sign-in cancelled",
+			message,
+			suggestion: "Try again and approve the sign-in when asked.",
+		};
+	}
+
+	return {
+		title: "Sign-in failed",
+		message,
+		suggestion:
+			"Try again or choose another sign-in method. If it keeps failing, check the agent's documentation on logging in.",
+	};
+}
@@ -0,0 +1,51 @@
+import type { PromptContent } from "../../domain/models/prompt-content";
+import type { TerminalPermissionMode } from "./permission-queue";
+
+export function resolveTerminalPermissionMode(
+	mode: unknown,
+): TerminalPermissionMode {
+	if (
+		mode === "disabled" ||
+		mode === "prompt_once" ||
+		mode === "always_allow" ||
+		mode === "always_deny"
+	) {
+		return mode;
+	}
+	return "disabled";
+}
+
+export function withExecutionPolicyPrompt(
+	content: PromptContent[],
+	mode: TerminalPermissionMode,
+	hasCommandRules = false,
+): PromptContent[] {
+	const modePolicy =
+		mode === "disabled"
+			? "Client policy: terminal/command execution is disabled. Do not use execute/shell/terminal tools. Use Obsidian file-editing tools only."
+			: `Client policy: terminal/command execution is enabled. Permission mode is "${mode}". ${
+					mode === "prompt_once"
+						? "Request ACP session/request_permission before execute/shell/terminal calls so the user can allow or deny each command."
+						: mode === "always_allow"
+							? "Terminal permission requests are auto-approved by client settings."
+							: "Terminal permission requests are auto-denied by client settings; do not execute commands."
+				}`;
+	const policy =
+		hasCommandRules && mode !== "disabled"
+			? `${modePolicy} Client rules may still allow, prompt for or deny specific commands, so a command can be decided differently from this mode.`
+			: modePolicy;
+	const next = [...content];
+	const textIndex = next.findIndex((item) => item.type === "text");
+	if (textIndex >= 0) {
+		const block = next[textIndex];
+		if (block.type === "text") {
+			next[textIndex] = {
+				type: "text",
+				text: `${policy}\n\n${block.text}`,
+			};
+		}
+		return next;
+	}
+
+	return [{ type: "text", text: policy }, ...next];
+}
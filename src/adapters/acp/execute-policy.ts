@@ -1,5 +1,4 @@
 import * as acp from "@agentclientprotocol/sdk";
-import type { PromptContent } from "../../domain/models/prompt-content";
 import type { SessionUpdate } from "../../domain/models/session-update";
 import type { Logger } from "../../shared/logger";
 import { AcpTypeConverter } from "./acp-type-converter";
@@ -7,8 +6,17 @@ import {
 	requestPermissionOperation,
 	type PermissionQueueState,
 	type TerminalPermissionMode,
+	type TerminalRuleContext,
 } from "./permission-queue";
+import {
+	describeTerminalRule,
+	matchTerminalRuleForRawInput,
+} from "./terminal-command-policy";
 export { recordTerminalPermissionDecision } from "./execute-permission-decision";
+export {
+	resolveTerminalPermissionMode,
+	withExecutionPolicyPrompt,
+} from "./execute-policy-prompt";
 
 type ExecuteToolCallUpdate = Extract<
 	acp.SessionUpdate,
@@ -29,56 +37,13 @@ export interface ExecutePolicyState {
 	cancelRequestedForExecutePolicySessions: Set<string>;
 }
 
-export function resolveTerminalPermissionMode(
-	mode: unknown,
-): TerminalPermissionMode {
-	if (
-		mode === "disabled" ||
-		mode === "prompt_once" ||
-		mode === "always_allow" ||
-		mode === "always_deny"
-	) {
-		return mode;
-	}
-	return "disabled";
-}
-
-export function withExecutionPolicyPrompt(
-	content: PromptContent[],
-	mode: TerminalPermissionMode,
-): PromptContent[] {
-	const policy =
-		mode === "disabled"
-			? "Client policy: terminal/command execution is disabled. Do not use execute/shell/terminal tools. Use Obsidian file-editing tools only."
-			: `Client policy: terminal/command execution is enabled. Permission mode is "${mode}". ${
-					mode === "prompt_once"
-						? "Request ACP session/request_permission before execute/shell/terminal calls so the user can allow or deny each command."
-						: mode === "always_allow"
-							? "Terminal permission requests are auto-approved by client settings."
-							: "Terminal permission requests are auto-denied by client settings; do not execute commands."
-				}`;
-	const next = [...content];
-	const textIndex = next.findIndex((item) => item.type === "text");
-	if (textIndex >= 0) {
-		const block = next[textIndex];
-		if (block.type === "text") {
-			next[textIndex] = {
-				type: "text",
-				text: `${policy}\n\n${block.text}`,
-			};
-		}
-		return next;
-	}
-
-	return [{ type: "text", text: policy }, ...next];
-}
-
 export function handleExecuteToolCallPolicy(args: {
 	update: acp.SessionUpdate;
 	sessionId: string;
 	state: ExecutePolicyState;
 	permissionState: PermissionQueueState;
 	terminalPermissionMode: TerminalPermissionMode;
+	terminalRules: TerminalRuleContext;
 	logger: Logger;
 	connection: acp.ClientSideConnection | null;
 	sessionUpdateCallback: ((update: SessionUpdate) => void) | null;
@@ -90,6 +55,7 @@ export function handleExecuteToolCallPolicy(args: {
 		state,
 		permissionState,
 		terminalPermissionMode,
+		terminalRules,
 		logger,
 		connection,
 		sessionUpdateCallback,
@@ -149,11 +115,11 @@ export function handleExecuteToolCallPolicy(args: {
 		return true;
 	}
 
-	if (terminalPermissionMode === "always_deny") {
+	if (state.rejectedExecuteToolCallIds.has(toolCallId)) {
 		blockExecuteToolCallByPolicy({
 			update,
 			sessionId,
-			reason: "terminal permission mode is always deny",
+			reason: "execute permission denied by user",
 			wasBlocked,
 			state,
 			logger,
@@ -164,12 +130,31 @@ export function handleExecuteToolCallPolicy(args: {
 		return true;
 	}
 
-	if (terminalPermissionMode === "prompt_once") {
-		if (state.rejectedExecuteToolCallIds.has(toolCallId)) {
+	if (state.grantedExecuteToolCallIds.has(toolCallId)) {
+		if (isToolCallStatusFinal(update.status)) {
+			forgetExecuteToolCall(state, toolCallId);
+		}
+		return false;
+	}
+
+	const ruleMatch = matchTerminalRuleForRawInput(
+		update.rawInput,
+		terminalRules.rules,
+		terminalRules.workingDirectory,
+	);
+	if (ruleMatch) {
+		logger.log("[AcpAdapter] Terminal rule matched execute tool call:", {
+			sessionId,
+			toolCallId,
+			rule: ruleMatch.rule,
+		});
+		const policyRule = describeTerminalRule(ruleMatch.rule, ruleMatch.reason);
+		if (ruleMatch.action === "deny") {
 			blockExecuteToolCallByPolicy({
 				update,
 				sessionId,
-				reason: "execute permission denied by user",
+				reason: `rule ${policyRule}`,
+				policyRule,
 				wasBlocked,
 				state,
 				logger,
@@ -179,16 +164,32 @@ export function handleExecuteToolCallPolicy(args: {
 			});
 			return true;
 		}
-
-		if (state.grantedExecuteToolCallIds.has(toolCallId)) {
+		permissionState.policyRules.set(toolCallId, policyRule);
+		if (ruleMatch.action === "allow") {
+			state.grantedExecuteToolCallIds.add(toolCallId);
 			if (isToolCallStatusFinal(update.status)) {
-				state.grantedExecuteToolCallIds.delete(toolCallId);
-				state.pendingSyntheticExecutePermissionToolCallIds.delete(toolCallId);
-				state.latestExecuteUpdates.delete(toolCallId);
+				forgetExecuteToolCall(state, toolCallId);
 			}
 			return false;
 		}
+	}
+
+	if (ruleMatch?.action !== "ask" && terminalPermissionMode === "always_deny") {
+		blockExecuteToolCallByPolicy({
+			update,
+			sessionId,
+			reason: "terminal permission mode is always deny",
+			wasBlocked,
+			state,
+			logger,
+			connection,
+			sessionUpdateCallback,
+			cancelSession,
+		});
+		return true;
+	}
 
+	if (ruleMatch?.action === "ask" || terminalPermissionMode === "prompt_once") {
 		ensureSyntheticExecutePermissionRequest({
 			toolCallId,
 			sessionId,
@@ -211,10 +212,21 @@ export function handleExecuteToolCallPolicy(args: {
 	return false;
 }
 
+function forgetExecuteToolCall(
+	state: ExecutePolicyState,
+	toolCallId: string,
+): void {
+	state.grantedExecuteToolCallIds.delete(toolCallId);
+	state.pendingSyntheticExecutePermissionToolCallIds.delete(toolCallId);
+	state.latestExecuteUpdates.delete(toolCallId);
+}
+
 function blockExecuteToolCallByPolicy(args: {
 	update: ExecuteToolCallUpdate;
 	sessionId: string;
 	reason: string;
+	/** Terminal rule that denied the call, shown on the tool call */
+	policyRule?: string;
 	wasBlocked: boolean;
 	state: ExecutePolicyState;
 	logger: Logger;
@@ -226,6 +238,7 @@ function blockExecuteToolCallByPolicy(args: {
 		update,
 		sessionId,
 		reason,
+		policyRule,
 		wasBlocked,
 		state,
 		logger,
@@ -259,6 +272,7 @@ function blockExecuteToolCallByPolicy(args: {
 		content: AcpTypeConverter.toToolCallContent(update.content),
 		locations: update.locations ?? undefined,
 		rawInput: update.rawInput as { [k: string]: unknown } | undefined,
+		policyRule,
 	});
 
 	if (
@@ -401,9 +415,7 @@ function handleSyntheticExecutePermissionOutcome(args: {
 		state.grantedExecuteToolCallIds.add(toolCallId);
 		const latest = state.latestExecuteUpdates.get(toolCallId);
 		if (latest && isToolCallStatusFinal(latest.update.status)) {
-			state.grantedExecuteToolCallIds.delete(toolCallId);
-			state.pendingSyntheticExecutePermissionToolCallIds.delete(toolCallId);
-			state.latestExecuteUpdates.delete(toolCallId);
+			forgetExecuteToolCall(state, toolCallId);
 		}
 		return;
 	}
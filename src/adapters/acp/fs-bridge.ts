@@ -0,0 +1,101 @@
+import * as acp from "@agentclientprotocol/sdk";
+
+import type { AgentFileWrite } from "../../domain/models/file-write";
+import type { PathScope } from "../../domain/models/path-scope";
+import type { Logger } from "../../shared/logger";
+import {
+	checkPathScope,
+	describePathScopeViolation,
+	type PathAccess,
+} from "../../shared/path-scope";
+
+/**
+ * Vault-backed text file access used to serve the ACP client `fs/*` methods.
+ * Implemented by {@link VaultTextFiles} in the Obsidian adapter layer.
+ */
+export interface TextFileAccess {
+	toVaultPath(path: string): string | null;
+	read(vaultPath: string): Promise<string>;
+	/** Returns the content before the write, or null for a new file */
+	write(vaultPath: string, content: string): Promise<string | null>;
+}
+
+function resolveVaultPathOrThrow(files: TextFileAccess, path: string): string {
+	const vaultPath = files.toVaultPath(path);
+	if (!vaultPath) {
+		throw new Error(`Path is outside the vault (vault-only policy): ${path}`);
+	}
+	return vaultPath;
+}
+
+function ensureInPathScope(
+	scope: PathScope | undefined,
+	path: string,
+	vaultPath: string,
+	access: PathAccess,
+): void {
+	const reason = scope ? checkPathScope(scope, vaultPath, access) : null;
+	if (reason) {
+		throw new Error(
+			`Path is not allowed by the agent's path scope: ${describePathScopeViolation({ path, reason })}`,
+		);
+	}
+}
+
+/**
+ * Apply the optional 1-based `line` / `limit` window of `fs/read_text_file`.
+ */
+export function sliceTextLines(
+	content: string,
+	line?: number | null,
+	limit?: number | null,
+): string {
+	if (line == null && limit == null) {
+		return content;
+	}
+	const lines = content.split("\n");
+	const start = Math.max(0, (line ?? 1) - 1);
+	const end = limit != null ? start + Math.max(0, limit) : lines.length;
+	return lines.slice(start, end).join("\n");
+}
+
+export async function readTextFileOperation(args: {
+	params: acp.ReadTextFileRequest;
+	logger: Logger;
+	files: TextFileAccess;
+	pathScope?: PathScope;
+}): Promise<acp.ReadTextFileResponse> {
+	const { params, logger, files, pathScope } = args;
+	const vaultPath = resolveVaultPathOrThrow(files, params.path);
+	ensureInPathScope(pathScope, params.path, vaultPath, "read");
+	logger.log(`[AcpAdapter] fs/read_text_file: ${vaultPath}`, {
+		line: params.line,
+		limit: params.limit,
+	});
+
+	const content = await files.read(vaultPath);
+	return { content: sliceTextLines(content, params.line, params.limit) };
+}
+
+export async function writeTextFileOperation(args: {
+	params: acp.WriteTextFileRequest;
+	logger: Logger;
+	files: TextFileAccess;
+	onFileWrite: ((write: AgentFileWrite) => void) | null;
+	pathScope?: PathScope;
+}): Promise<acp.WriteTextFileResponse> {
+	const { params, logger, files, onFileWrite, pathScope } = args;
+	const vaultPath = resolveVaultPathOrThrow(files, params.path);
+	ensureInPathScope(pathScope, params.path, vaultPath, "write");
+	logger.log(`[AcpAdapter] fs/write_text_file: ${vaultPath}`);
+
+	const previousContent = await files.write(vaultPath, params.content);
+	onFileWrite?.({
+		sessionId: params.sessionId,
+		vaultPath,
+		rawPath: params.path,
+		previousContent,
+		content: params.content,
+	});
+	return {};
+}
@@ -0,0 +1,109 @@
+import type * as acp from "@agentclientprotocol/sdk";
+
+import type { McpServerSettings } from "../../domain/models/agent-config";
+import type { McpCapabilities } from "../../domain/ports/agent-client.port";
+import type { Logger } from "../../shared/logger";
+
+/**
+ * Merge global and per-agent MCP servers. A per-agent server replaces a
+ * global one with the same name.
+ */
+export function mergeMcpServerSettings(
+	global: McpServerSettings[],
+	perAgent: McpServerSettings[],
+): McpServerSettings[] {
+	const agentNames = new Set(perAgent.map((server) => server.name.trim()));
+	return [
+		...global.filter((server) => !agentNames.has(server.name.trim())),
+		...perAgent,
+	];
+}
+
+function resolveSecretValues(
+	server: McpServerSettings,
+	resolveSecret: (secretId: string) => string | null,
+): Array<{ name: string; value: string }> {
+	const values: Array<{ name: string; value: string }> = [];
+	for (const binding of server.secretBindings) {
+		const name = binding.envKey.trim();
+		const secretId = binding.secretId.trim();
+		if (!name || !secretId) continue;
+		const value = resolveSecret(secretId);
+		if (typeof value === "string" && value.length > 0) {
+			values.push({ name, value });
+		}
+	}
+	return values;
+}
+
+function isTransportSupported(
+	server: McpServerSettings,
+	capabilities: McpCapabilities | undefined,
+): boolean {
+	switch (server.transport) {
+		case "stdio":
+			return true;
+		case "http":
+			return capabilities?.http === true;
+		case "sse":
+			return capabilities?.sse === true;
+	}
+}
+
+/**
+ * Build the `mcpServers` list for session/new, load, resume and fork.
+ *
+ * Disabled or incomplete servers are skipped, as are http/sse servers the
+ * agent did not advertise support for in `initialize`.
+ */
+export function buildSessionMcpServers(args: {
+	servers: McpServerSettings[];
+	capabilities: McpCapabilities | undefined;
+	resolveSecret: (secretId: string) => string | null;
+	logger: Logger;
+}): acp.McpServer[] {
+	const { servers, capabilities, resolveSecret, logger } = args;
+	const result: acp.McpServer[] = [];
+
+	for (const server of servers) {
+		const name = server.name.trim();
+		if (!server.enabled || !name) continue;
+
+		if (!isTransportSupported(server, capabilities)) {
+			logger.log(
+				`[AcpAdapter] Skipping MCP server "${name}": agent does not support ${server.transport} transport`,
+			);
+			continue;
+		}
+
+		const secrets = resolveSecretValues(server, resolveSecret);
+		if (server.transport === "stdio") {
+			const command = server.command.trim();
+			if (!command) continue;
+			result.push({
+				name,
+				command,
+				args: server.args,
+				env: [
+					...server.env.map((entry) => ({
+						name: entry.key,
+						value: entry.value,
+					})),
+					...secrets,
+				],
+			});
+			continue;
+		}
+
+		const url = server.url.trim();
+		if (!url) continue;
+		result.push({
+			type: server.transport,
+			name,
+			url,
+			headers: [...server.headers, ...secrets],
+		});
+	}
+
+	return result;
+}
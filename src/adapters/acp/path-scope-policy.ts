@@ -0,0 +1,156 @@
+import type * as acp from "@agentclientprotocol/sdk";
+import type { SessionUpdate } from "../../domain/models/session-update";
+import type { Logger } from "../../shared/logger";
+import {
+	describePathScopeViolation,
+	isReadOnlyToolKind,
+} from "../../shared/path-scope";
+
+type ToolCallSessionUpdate = Extract<
+	SessionUpdate,
+	{ type: "tool_call" | "tool_call_update" }
+>;
+
+export interface PathScopePolicyState {
+	/** Tool calls the user allowed through a permission prompt */
+	approvedPathToolCallIds: Set<string>;
+	/** Tool calls that change files outside the scope and were not approved */
+	unapprovedPathToolCallIds: Set<string>;
+	blockedPathToolCallIds: Set<string>;
+}
+
+/**
+ * Stop the session when the agent runs tool calls against the path scope
+ * without asking.
+ *
+ * Forbidden paths are caught as soon as they show up, since no prompt can
+ * allow them. Other changes outside the scope are caught once the call
+ * runs without the user having allowed it. By then the agent may already
+ * have changed the files: the call is marked failed and the session is
+ * cancelled, but the change is not undone. Returns true when the update
+ * was handled here and must not be forwarded.
+ */
+export function handlePathScopePolicy(args: {
+	update: SessionUpdate;
+	sessionId: string;
+	state: PathScopePolicyState;
+	logger: Logger;
+	sessionUpdateCallback: ((update: SessionUpdate) => void) | null;
+	cancelSession: (sessionId: string) => Promise<void>;
+}): boolean {
+	const {
+		update,
+		sessionId,
+		state,
+		logger,
+		sessionUpdateCallback,
+		cancelSession,
+	} = args;
+	if (update.type !== "tool_call" && update.type !== "tool_call_update") {
+		return false;
+	}
+
+	const toolCallId = update.toolCallId;
+	const isFinal = update.status === "completed" || update.status === "failed";
+	if (state.blockedPathToolCallIds.has(toolCallId)) {
+		sessionUpdateCallback?.(
+			toBlockedUpdate(update, "already blocked by client policy"),
+		);
+		return true;
+	}
+	if (state.approvedPathToolCallIds.has(toolCallId)) {
+		if (isFinal) {
+			state.approvedPathToolCallIds.delete(toolCallId);
+		}
+		return false;
+	}
+
+	const violations = update.pathViolations ?? [];
+	const forbidden = violations.find(
+		(violation) => violation.reason === "forbidden",
+	);
+	const changesFiles =
+		(!!update.kind && !isReadOnlyToolKind(update.kind)) ||
+		(update.content?.some((item) => item.type === "diff") ?? false);
+	if (violations.length > 0 && changesFiles) {
+		state.unapprovedPathToolCallIds.add(toolCallId);
+	}
+
+	const isUnapprovedRun =
+		(update.status === "in_progress" || update.status === "completed") &&
+		state.unapprovedPathToolCallIds.has(toolCallId);
+	if (update.status === "failed" || (!forbidden && !isUnapprovedRun)) {
+		if (isFinal) {
+			state.unapprovedPathToolCallIds.delete(toolCallId);
+		}
+		return false;
+	}
+
+	const reason = forbidden
+		? describePathScopeViolation(forbidden)
+		: "change outside the path scope was not allowed";
+	state.unapprovedPathToolCallIds.delete(toolCallId);
+	state.blockedPathToolCallIds.add(toolCallId);
+	logger.warn("[AcpAdapter] Blocking tool call by path scope:", {
+		sessionId,
+		toolCallId,
+		reason,
+		title: update.title,
+	});
+	const hasRun =
+		update.status === "in_progress" || update.status === "completed";
+	sessionUpdateCallback?.(
+		hasRun
+			? toFailedUpdate(
+					update,
+					`ran outside the path scope: ${reason}; session stopped`,
+				)
+			: toBlockedUpdate(update, reason),
+	);
+	void cancelSession(sessionId).catch((error: unknown) => {
+		logger.warn(
+			`[AcpAdapter] Failed to cancel session after blocked tool call (${sessionId}):`,
+			error,
+		);
+	});
+	return true;
+}
+
+/** Remember tool calls the user allowed, so their updates pass */
+export function recordPathScopePermissionDecision(args: {
+	params: acp.RequestPermissionRequest;
+	response: acp.RequestPermissionResponse;
+	state: PathScopePolicyState;
+}): void {
+	const { params, response, state } = args;
+	const toolCallId = params.toolCall?.toolCallId;
+	if (!toolCallId || response.outcome.outcome !== "selected") {
+		return;
+	}
+	const optionId = response.outcome.optionId;
+	const kind = params.options.find(
+		(option) => option.optionId === optionId,
+	)?.kind;
+	if (kind === "allow_once" || kind === "allow_always") {
+		state.approvedPathToolCallIds.add(toolCallId);
+		state.unapprovedPathToolCallIds.delete(toolCallId);
+	}
+}
+
+function toBlockedUpdate(
+	update: ToolCallSessionUpdate,
+	reason: string,
+): SessionUpdate {
+	return toFailedUpdate(update, `blocked by client policy: ${reason}`);
+}
+
+function toFailedUpdate(
+	update: ToolCallSessionUpdate,
+	note: string,
+): SessionUpdate {
+	return {
+		...update,
+		title: update.title ? `${update.title} (${note})` : `Tool call ${note}`,
+		status: "failed",
+	};
+}
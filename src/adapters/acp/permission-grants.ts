@@ -0,0 +1,171 @@
+import * as acp from "@agentclientprotocol/sdk";
+import type {
+	PermissionDecision,
+	PermissionGrant,
+} from "../../domain/models/permission-grant";
+import { globToRegExp } from "../../shared/glob";
+import type { Logger } from "../../shared/logger";
+
+/** Remembered decisions for the agent a request comes from */
+export interface PermissionMemory {
+	find(toolCall: acp.ToolCallUpdate): PermissionGrant | null;
+	remember(toolCall: acp.ToolCallUpdate, decision: PermissionDecision): void;
+}
+
+function normalizePath(path: string): string {
+	return path.replace(/\\/g, "/").replace(/\/+$/, "");
+}
+
+function getLocationPaths(toolCall: acp.ToolCallUpdate): string[] {
+	return (toolCall.locations ?? [])
+		.map((location) => normalizePath(location.path))
+		.filter((path) => path.length > 0);
+}
+
+function getCommonDirectory(paths: string[]): string | null {
+	if (paths.length === 0) {
+		return null;
+	}
+	let common = paths[0].split("/").slice(0, -1);
+	for (const path of paths.slice(1)) {
+		const parts = path.split("/");
+		let i = 0;
+		while (i < common.length && common[i] === parts[i]) i++;
+		common = common.slice(0, i);
+	}
+	const dir = common.join("/");
+	return dir.length > 0 ? dir : null;
+}
+
+/**
+ * Where `suffix` appears in the title as a whole path (not inside a longer
+ * name like `data.md` for `a.md`), last occurrence first; -1 if nowhere.
+ */
+function findPathInTitle(title: string, suffix: string): number {
+	let index = title.lastIndexOf(suffix);
+	while (index !== -1) {
+		const before = title[index - 1] ?? "";
+		const after = title[index + suffix.length] ?? "";
+		if (!/[\w.-]/.test(before) && !/[\w/-]/.test(after)) {
+			return index;
+		}
+		index = index > 0 ? title.lastIndexOf(suffix, index - 1) : -1;
+	}
+	return -1;
+}
+
+/**
+ * Turn a title into a pattern that also matches other files: the longest
+ * trailing part of each location path found in the title becomes `*`.
+ */
+function toTitlePattern(title: string, paths: string[]): string {
+	let pattern = title;
+	for (const path of paths) {
+		const parts = path.split("/").filter((part) => part.length > 0);
+		for (let i = 0; i < parts.length; i++) {
+			const suffix = parts.slice(i).join("/");
+			const index = findPathInTitle(pattern, suffix);
+			if (index !== -1) {
+				pattern = `${pattern.slice(0, index)}*${pattern.slice(index + suffix.length)}`;
+				break;
+			}
+		}
+	}
+	return pattern;
+}
+
+export function createPermissionGrant(args: {
+	agentId: string;
+	toolCall: acp.ToolCallUpdate;
+	decision: PermissionDecision;
+	now?: number;
+}): PermissionGrant {
+	const { agentId, toolCall, decision, now = Date.now() } = args;
+	const paths = getLocationPaths(toolCall);
+	return {
+		id: `grant-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+		agentId,
+		decision,
+		toolKind: toolCall.kind ?? null,
+		titlePattern: toTitlePattern(toolCall.title ?? "", paths),
+		pathPrefix: getCommonDirectory(paths),
+		createdAt: now,
+	};
+}
+
+export function matchesPermissionGrant(
+	grant: PermissionGrant,
+	agentId: string,
+	toolCall: acp.ToolCallUpdate,
+): boolean {
+	if (grant.agentId !== agentId) return false;
+	if (grant.toolKind !== (toolCall.kind ?? null)) return false;
+	if (!globToRegExp(grant.titlePattern).test(toolCall.title ?? "")) {
+		return false;
+	}
+	if (grant.pathPrefix === null) return true;
+	const prefix = normalizePath(grant.pathPrefix);
+	const paths = getLocationPaths(toolCall);
+	return (
+		paths.length > 0 &&
+		paths.every((path) => path === prefix || path.startsWith(`${prefix}/`))
+	);
+}
+
+/** Whether two grants describe the same requests (a newer one replaces the older) */
+export function isSamePermissionScope(
+	a: PermissionGrant,
+	b: PermissionGrant,
+): boolean {
+	return (
+		a.agentId === b.agentId &&
+		a.toolKind === b.toolKind &&
+		a.titlePattern === b.titlePattern &&
+		a.pathPrefix === b.pathPrefix
+	);
+}
+
+/** The agent's option that carries out a remembered decision, if it offers one */
+export function selectGrantOption(
+	options: acp.PermissionOption[],
+	decision: PermissionDecision,
+): acp.PermissionOption | null {
+	const [always, once] =
+		decision === "allow"
+			? (["allow_always", "allow_once"] as const)
+			: (["reject_always", "reject_once"] as const);
+	return (
+		options.find((option) => option.kind === always) ??
+		options.find((option) => option.kind === once) ??
+		null
+	);
+}
+
+/**
+ * Permission memory for one agent backed by the grant list in settings.
+ * A new grant replaces an existing one with the same scope.
+ */
+export function createPermissionMemory(args: {
+	agentId: string;
+	getGrants: () => PermissionGrant[];
+	saveGrants: (grants: PermissionGrant[]) => Promise<void>;
+	logger: Logger;
+}): PermissionMemory {
+	const { agentId, getGrants, saveGrants, logger } = args;
+	return {
+		find: (toolCall) =>
+			getGrants().find((grant) =>
+				matchesPermissionGrant(grant, agentId, toolCall),
+			) ?? null,
+		remember: (toolCall, decision) => {
+			const grant = createPermissionGrant({ agentId, toolCall, decision });
+			logger.log("[AcpAdapter] Remembering permission decision:", grant);
+			const grants = getGrants().filter(
+				(existing) => !isSamePermissionScope(existing, grant),
+			);
+			saveGrants([...grants, grant]).catch((error: unknown) => {
+				logger.warn("[AcpAdapter] Failed to save permission grant:", error);
+			});
+		},
+	};
+}
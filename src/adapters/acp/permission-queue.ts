@@ -4,7 +4,18 @@ import type { PermissionOption } from "../../domain/models/chat-message";
 import type { SessionUpdate } from "../../domain/models/session-update";
 import { AcpTypeConverter } from "./acp-type-converter";
 import type { Logger } from "../../shared/logger";
-import { extractBaseCommands } from "./terminal-command-policy";
+import { describePathScopeViolation } from "../../shared/path-scope";
+import type { PathScopeViolation } from "../../domain/models/path-scope";
+import type {
+	TerminalCommandRule,
+	TerminalRuleMatch,
+} from "../../domain/models/terminal-command-rule";
+import { type PermissionMemory, selectGrantOption } from "./permission-grants";
+import {
+	describeTerminalRule,
+	extractBaseCommands,
+	matchTerminalRuleForRawInput,
+} from "./terminal-command-policy";
 
 export interface PendingPermissionRequest {
 	resolve: (response: acp.RequestPermissionResponse) => void;
@@ -23,6 +34,8 @@ export interface PendingPermissionQueueItem {
 export interface PermissionQueueState {
 	pendingPermissionRequests: Map<string, PendingPermissionRequest>;
 	pendingPermissionQueue: PendingPermissionQueueItem[];
+	/** Terminal rule that decided each tool call, by tool call id */
+	policyRules: Map<string, string>;
 }
 
 export type TerminalPermissionMode =
@@ -31,6 +44,12 @@ export type TerminalPermissionMode =
 	| "always_allow"
 	| "always_deny";
 
+/** User-defined terminal rules and the directory commands run in by default */
+export interface TerminalRuleContext {
+	rules: TerminalCommandRule[];
+	workingDirectory: string | null;
+}
+
 function normalizePermissionKind(
 	kind: unknown,
 	name: string,
@@ -94,6 +113,15 @@ function selectAllowOptionPreferAlways(
 	return option;
 }
 
+function selectAllowOptionPreferOnce(
+	options: acp.PermissionOption[],
+): acp.PermissionOption {
+	return (
+		options.find((option) => option.kind === "allow_once") ||
+		selectAllowOptionPreferAlways(options)
+	);
+}
+
 function selectRejectOption(
 	options: acp.PermissionOption[],
 ): acp.PermissionOption {
@@ -214,67 +242,144 @@ export function cancelPendingPermissionRequestsOperation(args: {
 	state.pendingPermissionQueue.length = 0;
 }
 
-export async function requestPermissionOperation(args: {
+/**
+ * Pick the option settings answer a request with, or null to ask the user.
+ *
+ * Order: forbidden paths are rejected; terminal rules and the terminal
+ * mode decide terminal requests, and an ask rule always prompts, even
+ * over a remembered grant; remembered grants decide the rest. A
+ * request touching files outside the agent's path scope is never allowed
+ * automatically.
+ */
+function selectAutomaticOption(args: {
 	params: acp.RequestPermissionRequest;
-	logger: Logger;
 	terminalPermissionMode: TerminalPermissionMode;
-	state: PermissionQueueState;
-	sessionUpdateCallback: ((update: SessionUpdate) => void) | null;
-}): Promise<acp.RequestPermissionResponse> {
+	ruleMatch: TerminalRuleMatch | null;
+	permissionMemory?: PermissionMemory;
+	pathViolations: PathScopeViolation[];
+}): { option: acp.PermissionOption; reason: string } | null {
 	const {
 		params,
-		logger,
 		terminalPermissionMode,
-		state,
-		sessionUpdateCallback,
+		ruleMatch,
+		permissionMemory,
+		pathViolations,
 	} = args;
+	const forbidden = pathViolations.find(
+		(violation) => violation.reason === "forbidden",
+	);
+	if (forbidden) {
+		return {
+			option: selectRejectOption(params.options),
+			reason: `path scope: ${describePathScopeViolation(forbidden)}`,
+		};
+	}
+	const mayAllow = pathViolations.length === 0;
 
-	logger.log("[AcpAdapter] Permission request received:", params);
-	const isTerminalRequest = isTerminalPermissionRequest(params);
-	if (isTerminalRequest) {
+	if (ruleMatch?.action === "deny") {
+		return {
+			option: selectRejectOption(params.options),
+			reason: `terminal rule ${describeTerminalRule(ruleMatch.rule)}`,
+		};
+	}
+	if (ruleMatch?.action === "allow" && mayAllow) {
+		return {
+			option: selectAllowOptionPreferOnce(params.options),
+			reason: `terminal rule ${describeTerminalRule(ruleMatch.rule)}`,
+		};
+	}
+
+	if (ruleMatch?.action === "ask") return null;
+	if (isTerminalPermissionRequest(params) && !ruleMatch) {
 		if (terminalPermissionMode === "disabled") {
-			const rejectOption = selectRejectOption(params.options);
-			logger.log(
-				"[AcpAdapter] Auto-denying terminal permission request because terminal mode is disabled:",
-				rejectOption,
-			);
 			return {
-				outcome: {
-					outcome: "selected",
-					optionId: rejectOption.optionId,
-				},
+				option: selectRejectOption(params.options),
+				reason: "terminal mode is disabled",
 			};
 		}
-
-		if (terminalPermissionMode === "always_allow") {
-			const allowOption = selectAllowOptionPreferAlways(params.options);
-			logger.log(
-				"[AcpAdapter] Auto-allowing terminal permission request by settings:",
-				allowOption,
-			);
+		if (terminalPermissionMode === "always_allow" && mayAllow) {
 			return {
-				outcome: {
-					outcome: "selected",
-					optionId: allowOption.optionId,
-				},
+				option: selectAllowOptionPreferAlways(params.options),
+				reason: "terminal mode is always allow",
 			};
 		}
-
 		if (terminalPermissionMode === "always_deny") {
-			const rejectOption = selectRejectOption(params.options);
-			logger.log(
-				"[AcpAdapter] Auto-denying terminal permission request by settings:",
-				rejectOption,
-			);
 			return {
-				outcome: {
-					outcome: "selected",
-					optionId: rejectOption.optionId,
-				},
+				option: selectRejectOption(params.options),
+				reason: "terminal mode is always deny",
 			};
 		}
 	}
 
+	const grant = params.toolCall
+		? permissionMemory?.find(params.toolCall)
+		: null;
+	const grantOption = grant
+		? selectGrantOption(params.options, grant.decision)
+		: null;
+	if (grant && grantOption && (grant.decision === "reject" || mayAllow)) {
+		return { option: grantOption, reason: `remembered grant ${grant.id}` };
+	}
+	return null;
+}
+
+export async function requestPermissionOperation(args: {
+	params: acp.RequestPermissionRequest;
+	logger: Logger;
+	terminalPermissionMode: TerminalPermissionMode;
+	terminalRules?: TerminalRuleContext;
+	permissionMemory?: PermissionMemory;
+	/** Files the request touches outside the agent's path scope */
+	pathViolations?: PathScopeViolation[];
+	state: PermissionQueueState;
+	sessionUpdateCallback: ((update: SessionUpdate) => void) | null;
+}): Promise<acp.RequestPermissionResponse> {
+	const {
+		params,
+		logger,
+		terminalPermissionMode,
+		terminalRules,
+		permissionMemory,
+		pathViolations = [],
+		state,
+		sessionUpdateCallback,
+	} = args;
+
+	logger.log("[AcpAdapter] Permission request received:", params);
+	const ruleMatch =
+		terminalRules &&
+		terminalPermissionMode !== "disabled" &&
+		isTerminalPermissionRequest(params)
+			? matchTerminalRuleForRawInput(
+					params.toolCall?.rawInput,
+					terminalRules.rules,
+					terminalRules.workingDirectory,
+				)
+			: null;
+	if (ruleMatch && params.toolCall) {
+		state.policyRules.set(
+			params.toolCall.toolCallId,
+			describeTerminalRule(ruleMatch.rule, ruleMatch.reason),
+		);
+	}
+	const automatic = selectAutomaticOption({
+		...args,
+		ruleMatch,
+		pathViolations,
+	});
+	if (automatic) {
+		logger.log(
+			`[AcpAdapter] Answering permission request by ${automatic.reason}:`,
+			automatic.option,
+		);
+		return {
+			outcome: {
+				outcome: "selected",
+				optionId: automatic.option.optionId,
+			},
+		};
+	}
+
 	const requestId = crypto.randomUUID();
 	const toolCallId = params.toolCall?.toolCallId || crypto.randomUUID();
 	const sessionId = params.sessionId;
@@ -312,15 +417,33 @@ export async function requestPermissionOperation(args: {
 			toolCallInfo?.content as acp.ToolCallContent[] | undefined,
 		),
 		rawInput: toolCallInfo?.rawInput as { [k: string]: unknown } | undefined,
+		pathViolations: pathViolations.length > 0 ? pathViolations : undefined,
+		policyRule: state.policyRules.get(toolCallId),
 		permissionRequest: permissionRequestData,
 	});
 
-	return await new Promise((resolve) => {
-		state.pendingPermissionRequests.set(requestId, {
-			resolve,
-			toolCallId,
-			sessionId,
-			options: normalizedOptions,
-		});
-	});
+	const response = await new Promise<acp.RequestPermissionResponse>(
+		(resolve) => {
+			state.pendingPermissionRequests.set(requestId, {
+				resolve,
+				toolCallId,
+				sessionId,
+				options: normalizedOptions,
+			});
+		},
+	);
+	const selected =
+		response.outcome.outcome === "selected"
+			? normalizedOptions.find(
+					(option) =>
+						"optionId" in response.outcome &&
+						option.optionId === response.outcome.optionId,
+				)
+			: undefined;
+	if (params.toolCall && selected?.kind === "allow_always") {
+		permissionMemory?.remember(params.toolCall, "allow");
+	} else if (params.toolCall && selected?.kind === "reject_always") {
+		permissionMemory?.remember(params.toolCall, "reject");
+	}
+	return response;
 }
@@ -30,6 +30,52 @@ export interface InitializeOperationResult {
 	initializeResult: InitializeResult;
 }
 
+/** Map the agent's initialize response onto the domain result */
+export function toInitializeResult(
+	initResult: acp.InitializeResponse,
+): InitializeResult {
+	const promptCaps = initResult.agentCapabilities?.promptCapabilities;
+	const mcpCaps = initResult.agentCapabilities?.mcpCapabilities;
+	const sessionCaps = initResult.agentCapabilities?.sessionCapabilities;
+	return {
+		protocolVersion: initResult.protocolVersion,
+		authMethods: initResult.authMethods || [],
+		promptCapabilities: {
+			image: promptCaps?.image ?? false,
+			audio: promptCaps?.audio ?? false,
+			embeddedContext: promptCaps?.embeddedContext ?? false,
+		},
+		agentCapabilities: {
+			loadSession: initResult.agentCapabilities?.loadSession ?? false,
+			sessionCapabilities: sessionCaps
+				? {
+						resume: sessionCaps.resume ?? undefined,
+						fork: sessionCaps.fork ?? undefined,
+						list: sessionCaps.list ?? undefined,
+					}
+				: undefined,
+			mcpCapabilities: mcpCaps
+				? {
+						http: mcpCaps.http ?? false,
+						sse: mcpCaps.sse ?? false,
+					}
+				: undefined,
+			promptCapabilities: {
+				image: promptCaps?.image ?? false,
+				audio: promptCaps?.audio ?? false,
+				embeddedContext: promptCaps?.embeddedContext ?? false,
+			},
+		},
+		agentInfo: initResult.agentInfo
+			? {
+					name: initResult.agentInfo.name,
+					title: initResult.agentInfo.title ?? undefined,
+					version: initResult.agentInfo.version ?? undefined,
+				}
+			: undefined,
+	};
+}
+
 export async function initializeOperation(args: {
 	config: AgentConfig;
 	logger: Logger;
@@ -269,8 +315,8 @@ export async function initializeOperation(args: {
 		protocolVersion: acp.PROTOCOL_VERSION,
 		clientCapabilities: {
 			fs: {
-				readTextFile: false,
-				writeTextFile: false,
+				readTextFile: true,
+				writeTextFile: true,
 			},
 			terminal: terminalCapabilityEnabled,
 		},
@@ -287,48 +333,9 @@ export async function initializeOperation(args: {
 	logger.log("[AcpAdapter] Auth methods:", initResult.authMethods);
 	logger.log("[AcpAdapter] Agent capabilities:", initResult.agentCapabilities);
 
-	const promptCaps = initResult.agentCapabilities?.promptCapabilities;
-	const mcpCaps = initResult.agentCapabilities?.mcpCapabilities;
-	const sessionCaps = initResult.agentCapabilities?.sessionCapabilities;
 	return {
 		connection,
 		agentProcess,
-		initializeResult: {
-			protocolVersion: initResult.protocolVersion,
-			authMethods: initResult.authMethods || [],
-			promptCapabilities: {
-				image: promptCaps?.image ?? false,
-				audio: promptCaps?.audio ?? false,
-				embeddedContext: promptCaps?.embeddedContext ?? false,
-			},
-			agentCapabilities: {
-				loadSession: initResult.agentCapabilities?.loadSession ?? false,
-				sessionCapabilities: sessionCaps
-					? {
-							resume: sessionCaps.resume ?? undefined,
-							fork: sessionCaps.fork ?? undefined,
-							list: sessionCaps.list ?? undefined,
-						}
-					: undefined,
-				mcpCapabilities: mcpCaps
-					? {
-							http: mcpCaps.http ?? false,
-							sse: mcpCaps.sse ?? false,
-						}
-					: undefined,
-				promptCapabilities: {
-					image: promptCaps?.image ?? false,
-					audio: promptCaps?.audio ?? false,
-					embeddedContext: promptCaps?.embeddedContext ?? false,
-				},
-			},
-			agentInfo: initResult.agentInfo
-				? {
-						name: initResult.agentInfo.name,
-						title: initResult.agentInfo.title ?? undefined,
-						version: initResult.agentInfo.version ?? undefined,
-					}
-				: undefined,
-		},
+		initializeResult: toInitializeResult(initResult),
 	};
 }
@@ -29,6 +29,12 @@ export interface SessionHandler {
 	releaseTerminal(
 		params: acp.ReleaseTerminalRequest,
 	): Promise<acp.ReleaseTerminalResponse>;
+	readTextFile(
+		params: acp.ReadTextFileRequest,
+	): Promise<acp.ReadTextFileResponse>;
+	writeTextFile(
+		params: acp.WriteTextFileRequest,
+	): Promise<acp.WriteTextFileResponse>;
 	handleProcessError(error: ProcessError): void;
 	handleStderrData(chunk: string): void;
 }
@@ -158,19 +164,27 @@ export class RuntimeMultiplexer implements acp.Client {
 		);
 	}
 
-	readTextFile(_params: acp.ReadTextFileRequest) {
-		return Promise.reject(
-			new Error(
-				"fs/read_text_file is disabled by client capabilities (vault-only policy).",
-			),
+	readTextFile(
+		params: acp.ReadTextFileRequest,
+	): Promise<acp.ReadTextFileResponse> {
+		const handler = this.sessionHandlers.get(params.sessionId);
+		if (handler) {
+			return handler.readTextFile(params);
+		}
+		throw new Error(
+			`No handler for session ${params.sessionId} (readTextFile)`,
 		);
 	}
 
-	writeTextFile(_params: acp.WriteTextFileRequest) {
-		return Promise.reject(
-			new Error(
-				"fs/write_text_file is disabled by client capabilities (vault-only policy).",
-			),
+	writeTextFile(
+		params: acp.WriteTextFileRequest,
+	): Promise<acp.WriteTextFileResponse> {
+		const handler = this.sessionHandlers.get(params.sessionId);
+		if (handler) {
+			return handler.writeTextFile(params);
+		}
+		throw new Error(
+			`No handler for session ${params.sessionId} (writeTextFile)`,
 		);
 	}
 }
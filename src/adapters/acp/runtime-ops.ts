@@ -1,7 +1,10 @@
 import * as acp from "@agentclientprotocol/sdk";
 import { Platform } from "obsidian";
 
-import type { NewSessionResult } from "../../domain/ports/agent-client.port";
+import type {
+	AuthenticationResult,
+	NewSessionResult,
+} from "../../domain/ports/agent-client.port";
 import type { PromptContent } from "../../domain/models/prompt-content";
 import type {
 	SessionModeState,
@@ -9,6 +12,7 @@ import type {
 } from "../../domain/models/chat-session";
 import type { Logger } from "../../shared/logger";
 import { AcpTypeConverter } from "./acp-type-converter";
+import { getAuthenticationErrorInfo } from "./error-diagnostics";
 import { convertWindowsPathToWsl } from "../../shared/wsl-utils";
 
 function assertConnection(
@@ -60,9 +64,10 @@ export async function newSessionOperation(args: {
 	logger: Logger;
 	workingDirectory: string;
 	windowsWslMode: boolean;
+	mcpServers: acp.McpServer[];
 }): Promise<NewSessionResult> {
 	const connection = assertConnection(args.connection);
-	const { logger, workingDirectory, windowsWslMode } = args;
+	const { logger, workingDirectory, windowsWslMode, mcpServers } = args;
 
 	try {
 		logger.log("[AcpAdapter] Creating new session...");
@@ -72,9 +77,14 @@ export async function newSessionOperation(args: {
 		}
 
 		logger.log("[AcpAdapter] Using working directory:", sessionCwd);
+		if (mcpServers.length > 0) {
+			logger.log(
+				`[AcpAdapter] MCP servers: ${mcpServers.map((server) => server.name).join(", ")}`,
+			);
+		}
 		const sessionResult = await connection.newSession({
 			cwd: sessionCwd,
-			mcpServers: [],
+			mcpServers,
 		});
 
 		logger.log(`[AcpAdapter] 📝 Created session: ${sessionResult.sessionId}`);
@@ -105,17 +115,20 @@ export async function authenticateOperation(args: {
 	connection: acp.ClientSideConnection | null;
 	logger: Logger;
 	methodId: string;
-}): Promise<boolean> {
+}): Promise<AuthenticationResult> {
 	const connection = assertConnection(args.connection);
 	const { logger, methodId } = args;
 
 	try {
 		await connection.authenticate({ methodId });
 		logger.log("[AcpAdapter] ✅ authenticate ok:", methodId);
-		return true;
+		return { success: true };
 	} catch (error: unknown) {
 		logger.error("[AcpAdapter] Authentication Error:", error);
-		return false;
+		return {
+			success: false,
+			error: getAuthenticationErrorInfo(error),
+		};
 	}
 }
 
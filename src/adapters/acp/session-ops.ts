@@ -117,16 +117,17 @@ export async function loadSessionOperation(args: {
 	windowsWslMode: boolean;
 	sessionId: string;
 	cwd: string;
+	mcpServers: acp.McpServer[];
 }): Promise<LoadSessionResult> {
 	const connection = assertConnection(args.connection);
-	const { logger, windowsWslMode, sessionId, cwd } = args;
+	const { logger, windowsWslMode, sessionId, cwd, mcpServers } = args;
 
 	try {
 		logger.log(`[AcpAdapter] Loading session: ${sessionId}...`);
 		const response = await connection.loadSession({
 			sessionId,
 			cwd: toSessionCwd(cwd, windowsWslMode),
-			mcpServers: [],
+			mcpServers,
 		});
 
 		logger.log(`[AcpAdapter] Session loaded: ${sessionId}`);
@@ -144,16 +145,17 @@ export async function resumeSessionOperation(args: {
 	windowsWslMode: boolean;
 	sessionId: string;
 	cwd: string;
+	mcpServers: acp.McpServer[];
 }): Promise<ResumeSessionResult> {
 	const connection = assertConnection(args.connection);
-	const { logger, windowsWslMode, sessionId, cwd } = args;
+	const { logger, windowsWslMode, sessionId, cwd, mcpServers } = args;
 
 	try {
 		logger.log(`[AcpAdapter] Resuming session: ${sessionId}...`);
 		const response = await connection.unstable_resumeSession({
 			sessionId,
 			cwd: toSessionCwd(cwd, windowsWslMode),
-			mcpServers: [],
+			mcpServers,
 		});
 
 		logger.log(`[AcpAdapter] Session resumed: ${sessionId}`);
@@ -171,16 +173,17 @@ export async function forkSessionOperation(args: {
 	windowsWslMode: boolean;
 	sessionId: string;
 	cwd: string;
+	mcpServers: acp.McpServer[];
 }): Promise<ForkSessionResult> {
 	const connection = assertConnection(args.connection);
-	const { logger, windowsWslMode, sessionId, cwd } = args;
+	const { logger, windowsWslMode, sessionId, cwd, mcpServers } = args;
 
 	try {
 		logger.log(`[AcpAdapter] Forking session: ${sessionId}...`);
 		const response = await connection.unstable_forkSession({
 			sessionId,
 			cwd: toSessionCwd(cwd, windowsWslMode),
-			mcpServers: [],
+			mcpServers,
 		});
 
 		logger.log(
@@ -0,0 +1,211 @@
+/** A command line split into the simple commands the shell would run */
+export interface ParsedCommandLine {
+	/** Commands in order, including those run by substitutions */
+	segments: string[];
+	/**
+	 * Shell features the rules cannot see through: command or process
+	 * substitutions, redirections, or a line that did not parse
+	 */
+	hidden: string[];
+}
+
+/**
+ * Index of the character that closes a substitution starting at `start`,
+ * or -1 if it never closes. `$(`/`<(`/`>(` close at the matching `)`,
+ * backticks at the next unescaped backtick.
+ */
+function findSubstitutionEnd(
+	command: string,
+	start: number,
+	close: ")" | "`",
+): number {
+	let depth = 0;
+	let quote: "'" | '"' | null = null;
+	for (let i = start; i < command.length; i++) {
+		const char = command[i];
+		if (char === "\\" && quote !== "'") {
+			i++;
+			continue;
+		}
+		if (close === "`") {
+			if (char === "`") return i;
+			continue;
+		}
+		if (quote) {
+			if (char === quote) quote = null;
+			continue;
+		}
+		if (char === "'" || char === '"') {
+			quote = char;
+		} else if (char === "(") {
+			depth++;
+		} else if (char === ")") {
+			if (depth === 0) return i;
+			depth--;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Split a command line into the simple commands it runs: at `;`, `|`,
+ * `&`, `&&`, `||` and newlines outside quotes, plus the commands inside
+ * substitutions.
+ */
+export function parseCommandLine(command: string): ParsedCommandLine {
+	const segments: string[] = [];
+	const hidden = new Set<string>();
+	let current = "";
+	let quote: "'" | '"' | null = null;
+
+	const pushSegment = () => {
+		const trimmed = current.trim();
+		if (trimmed.length > 0) {
+			segments.push(trimmed);
+		}
+		current = "";
+	};
+
+	for (let i = 0; i < command.length; i++) {
+		const char = command[i];
+		const next = command[i + 1];
+
+		if (char === "\\" && quote !== "'" && i + 1 < command.length) {
+			// A backslash before a newline continues the line
+			if (next !== "\n") {
+				current += char + next;
+			}
+			i++;
+			continue;
+		}
+
+		if (quote === "'") {
+			current += char;
+			if (char === quote) {
+				quote = null;
+			}
+			continue;
+		}
+
+		// Substitutions run their commands even inside double quotes
+		const opensSubstitution =
+			(char === "$" && next === "(") ||
+			(!quote && (char === "<" || char === ">") && next === "(");
+		if (opensSubstitution || char === "`") {
+			const bodyStart = char === "`" ? i + 1 : i + 2;
+			const end = findSubstitutionEnd(
+				command,
+				bodyStart,
+				char === "`" ? "`" : ")",
+			);
+			hidden.add("command substitution");
+			if (end === -1) {
+				hidden.add("unparsed command");
+				current += command.slice(i);
+				break;
+			}
+			const inner = parseCommandLine(command.slice(bodyStart, end));
+			segments.push(...inner.segments);
+			for (const feature of inner.hidden) hidden.add(feature);
+			current += command.slice(i, end + 1);
+			i = end;
+			continue;
+		}
+
+		if (quote) {
+			current += char;
+			if (char === quote) {
+				quote = null;
+			}
+			continue;
+		}
+
+		if (char === "'" || char === '"') {
+			quote = char;
+			current += char;
+			continue;
+		}
+
+		if (char === ">" || char === "<" || (char === "&" && next === ">")) {
+			hidden.add("redirection");
+			current += char;
+			// `2>&1` and `&>` are part of the redirection, not separators
+			if (next === "&" || next === ">") {
+				current += next;
+				i++;
+			}
+			continue;
+		}
+
+		const isDoubleDelimiter =
+			(char === "&" && next === "&") || (char === "|" && next === "|");
+		const isSingleDelimiter =
+			char === ";" ||
+			char === "|" ||
+			char === "&" ||
+			char === "\n" ||
+			char === "\r";
+		if (isDoubleDelimiter || isSingleDelimiter) {
+			pushSegment();
+			if (isDoubleDelimiter) {
+				i++;
+			}
+			continue;
+		}
+
+		current += char;
+	}
+
+	if (quote) {
+		hidden.add("unparsed command");
+	}
+	pushSegment();
+
+	return { segments, hidden: [...hidden] };
+}
+
+/** Split a simple command into words, removing quotes and escapes */
+export function tokenize(segment: string): string[] {
+	const tokens: string[] = [];
+	let current = "";
+	let quote: "'" | '"' | null = null;
+
+	for (let i = 0; i < segment.length; i++) {
+		const char = segment[i];
+		if (char === "\\" && i + 1 < segment.length) {
+			current += segment[i + 1];
+			i++;
+			continue;
+		}
+
+		if (quote) {
+			if (char === quote) {
+				quote = null;
+			} else {
+				current += char;
+			}
+			continue;
+		}
+
+		if (char === "'" || char === '"') {
+			quote = char;
+			continue;
+		}
+
+		if (/\s/.test(char)) {
+			if (current.length > 0) {
+				tokens.push(current);
+				current = "";
+			}
+			continue;
+		}
+
+		current += char;
+	}
+
+	if (current.length > 0) {
+		tokens.push(current);
+	}
+
+	return tokens;
+}
@@ -1,102 +1,10 @@
-function splitCommandSegments(command: string): string[] {
-	const segments: string[] = [];
-	let current = "";
-	let quote: "'" | '"' | null = null;
-
-	for (let i = 0; i < command.length; i++) {
-		const char = command[i];
-		const next = command[i + 1];
-
-		if (char === "\\" && i + 1 < command.length) {
-			current += char + command[i + 1];
-			i++;
-			continue;
-		}
-
-		if (quote) {
-			current += char;
-			if (char === quote) {
-				quote = null;
-			}
-			continue;
-		}
-
-		if (char === "'" || char === '"') {
-			quote = char;
-			current += char;
-			continue;
-		}
-
-		const isDoubleDelimiter =
-			(char === "&" && next === "&") || (char === "|" && next === "|");
-		const isSingleDelimiter = char === ";" || char === "|" || char === "&";
-		if (isDoubleDelimiter || isSingleDelimiter) {
-			const trimmed = current.trim();
-			if (trimmed.length > 0) {
-				segments.push(trimmed);
-			}
-			current = "";
-			if (isDoubleDelimiter) {
-				i++;
-			}
-			continue;
-		}
-
-		current += char;
-	}
-
-	const tail = current.trim();
-	if (tail.length > 0) {
-		segments.push(tail);
-	}
-
-	return segments;
-}
-
-function tokenize(segment: string): string[] {
-	const tokens: string[] = [];
-	let current = "";
-	let quote: "'" | '"' | null = null;
-
-	for (let i = 0; i < segment.length; i++) {
-		const char = segment[i];
-		if (char === "\\" && i + 1 < segment.length) {
-			current += segment[i + 1];
-			i++;
-			continue;
-		}
-
-		if (quote) {
-			if (char === quote) {
-				quote = null;
-			} else {
-				current += char;
-			}
-			continue;
-		}
-
-		if (char === "'" || char === '"') {
-			quote = char;
-			continue;
-		}
-
-		if (/\s/.test(char)) {
-			if (current.length > 0) {
-				tokens.push(current);
-				current = "";
-			}
-			continue;
-		}
-
-		current += char;
-	}
-
-	if (current.length > 0) {
-		tokens.push(current);
-	}
-
-	return tokens;
-}
+import type {
+	TerminalCommandRule,
+	TerminalRuleAction,
+	TerminalRuleMatch,
+} from "../../domain/models/terminal-command-rule";
+import { globToRegExp } from "../../shared/glob";
+import { parseCommandLine, tokenize } from "./shell-command-line";
 
 function isEnvAssignment(token: string): boolean {
 	return /^[A-Za-z_][A-Za-z0-9_]*=/.test(token);
@@ -157,7 +65,7 @@ function extractBaseCommandFromSegment(segment: string): string | null {
 
 export function extractBaseCommands(command: string): string[] {
 	const commands: string[] = [];
-	for (const segment of splitCommandSegments(command)) {
+	for (const segment of parseCommandLine(command).segments) {
 		const base = extractBaseCommandFromSegment(segment);
 		if (base) {
 			commands.push(base);
@@ -181,3 +89,171 @@ export function isDestructiveCommand(
 
 	return extractBaseCommands(command).some((base) => denied.has(base));
 }
+
+const SHELLS = new Set(["bash", "sh", "zsh"]);
+
+const ACTION_PRIORITY: Record<TerminalRuleAction, number> = {
+	allow: 0,
+	ask: 1,
+	deny: 2,
+};
+
+function normalizeDirectory(path: string): string {
+	return path.trim().replace(/\\/g, "/").replace(/\/+$/, "");
+}
+
+function matchesCwd(cwd: string, pattern: string): boolean {
+	const dir = normalizeDirectory(cwd);
+	const target = normalizeDirectory(pattern);
+	if (target.length === 0) {
+		return false;
+	}
+	return (
+		dir === target ||
+		dir.startsWith(`${target}/`) ||
+		globToRegExp(target).test(dir)
+	);
+}
+
+function mostRestrictive(
+	rules: TerminalCommandRule[],
+): TerminalCommandRule | null {
+	return rules.reduce<TerminalCommandRule | null>(
+		(best, rule) =>
+			!best || ACTION_PRIORITY[rule.action] > ACTION_PRIORITY[best.action]
+				? rule
+				: best,
+		null,
+	);
+}
+
+/**
+ * Find the rule that decides a command line.
+ *
+ * Chained commands (`a && b`, `a | b`, `a; b`, one per line) and the
+ * commands inside substitutions (`$(a)`, `` `a` ``, `<(a)`) are checked one
+ * by one: command and glob rules against each command, cwd rules against
+ * the directory they all run in. The most restrictive matching rule wins.
+ * An allow only applies when every command is covered by a rule; otherwise
+ * the command falls back to the terminal permission mode (null). A line
+ * an allow rule matched is asked about instead when it substitutes
+ * commands, redirects or does not parse, since the rules cannot tell
+ * what it runs or writes.
+ */
+export function evaluateTerminalCommandRules(
+	command: string,
+	cwd: string | null,
+	rules: TerminalCommandRule[],
+): TerminalRuleMatch | null {
+	const cwdRules = rules.filter(
+		(rule) =>
+			rule.matchType === "cwd" &&
+			rule.pattern.trim().length > 0 &&
+			cwd !== null &&
+			matchesCwd(cwd, rule.pattern.trim()),
+	);
+
+	const parsed = parseCommandLine(command);
+	const decisions: TerminalCommandRule[] = [];
+	let uncovered = false;
+	for (const segment of parsed.segments) {
+		const base = extractBaseCommandFromSegment(segment);
+		const matches = rules.filter((rule) => {
+			const pattern = rule.pattern.trim();
+			if (pattern.length === 0) return false;
+			if (rule.matchType === "glob") {
+				return globToRegExp(pattern).test(segment);
+			}
+			return (
+				rule.matchType === "command" &&
+				base !== null &&
+				normalizeCommandToken(pattern) === base
+			);
+		});
+		const decision = mostRestrictive([...matches, ...cwdRules]);
+		if (decision) {
+			decisions.push(decision);
+		} else {
+			uncovered = true;
+		}
+	}
+
+	const winner = mostRestrictive(decisions);
+	if (!winner) {
+		return null;
+	}
+	if (winner.action === "allow" && parsed.hidden.length > 0) {
+		return {
+			action: "ask",
+			rule: winner,
+			reason: `contains ${parsed.hidden.join(", ")}`,
+		};
+	}
+	if (winner.action === "allow" && uncovered) {
+		return null;
+	}
+	return { action: winner.action, rule: winner };
+}
+
+/** Short label for logs and tool call titles, e.g. `deny command "rm"` */
+export function describeTerminalRule(
+	rule: TerminalCommandRule,
+	reason?: string,
+): string {
+	const label = `${rule.action} ${rule.matchType} "${rule.pattern.trim()}"`;
+	return reason ? `${label}, asked: ${reason}` : label;
+}
+
+/** `["bash", "-lc", "git status"]` runs the script, not the shell */
+function argvToCommandLine(argv: string[]): string {
+	if (
+		argv.length === 3 &&
+		SHELLS.has(normalizeCommandToken(argv[0])) &&
+		/^-\w*c$/.test(argv[1])
+	) {
+		return argv[2];
+	}
+	return argv.join(" ");
+}
+
+/** Command line and cwd from a tool call's raw input, if the agent sent one */
+export function getRawInputCommand(
+	rawInput: unknown,
+): { command: string; cwd: string | null } | null {
+	const input = (rawInput as Record<string, unknown> | undefined) || {};
+	const command = Array.isArray(input.command)
+		? argvToCommandLine(
+				input.command.filter((part) => typeof part === "string"),
+			)
+		: input.command;
+	if (typeof command !== "string" || command.trim().length === 0) {
+		return null;
+	}
+	return {
+		command: command.trim(),
+		cwd: typeof input.cwd === "string" ? input.cwd : null,
+	};
+}
+
+/**
+ * Evaluate the rules for a tool call's raw input. Commands without their
+ * own cwd run in the session's working directory.
+ */
+export function matchTerminalRuleForRawInput(
+	rawInput: unknown,
+	rules: TerminalCommandRule[],
+	workingDirectory: string | null,
+): TerminalRuleMatch | null {
+	if (rules.length === 0) {
+		return null;
+	}
+	const input = getRawInputCommand(rawInput);
+	if (!input) {
+		return null;
+	}
+	return evaluateTerminalCommandRules(
+		input.command,
+		input.cwd ?? workingDirectory,
+		rules,
+	);
+}
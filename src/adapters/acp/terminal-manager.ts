@@ -1,6 +1,11 @@
 import { spawn, ChildProcess, SpawnOptions } from "child_process";
 import * as acp from "@agentclientprotocol/sdk";
 import type AgentClientPlugin from "../../plugin";
+import type {
+	TerminalExitStatus,
+	TerminalOutputEvent,
+	TerminalOutputListener,
+} from "../../domain/models/terminal-output";
 import { getLogger, Logger } from "../../shared/logger";
 import { Platform } from "obsidian";
 import { wrapCommandForWsl } from "../../shared/wsl-utils";
@@ -15,18 +20,33 @@ import {
 
 interface TerminalProcess {
 	id: string;
+	/** Session that created the terminal */
+	sessionId: string;
 	process: ChildProcess;
-	output: string;
-	exitStatus: { exitCode: number | null; signal: string | null } | null;
+	/** Output chunks in order; joined lazily when read */
+	chunks: string[];
+	outputBytes: number;
+	truncated: boolean;
+	exitStatus: TerminalExitStatus | null;
 	outputByteLimit?: number;
-	waitPromises: Array<
-		(exitStatus: { exitCode: number | null; signal: string | null }) => void
-	>;
+	waitPromises: Array<(exitStatus: TerminalExitStatus) => void>;
+	listeners: Set<TerminalOutputListener>;
 	cleanupTimeout?: number;
 }
 
+/**
+ * Output kept for terminals that were cleaned up, so rows can still show
+ * it. Kept until their session closes.
+ */
+interface RetiredTerminal {
+	sessionId: string;
+	output: string;
+	exitStatus: TerminalExitStatus;
+}
+
 export class TerminalManager {
 	private terminals = new Map<string, TerminalProcess>();
+	private retiredTerminals = new Map<string, RetiredTerminal>();
 	private logger: Logger;
 	private plugin: AgentClientPlugin;
 
@@ -142,25 +162,25 @@ export class TerminalManager {
 
 		const terminal: TerminalProcess = {
 			id: terminalId,
+			sessionId: params.sessionId,
 			process: childProcess,
-			output: "",
+			chunks: [],
+			outputBytes: 0,
+			truncated: false,
 			exitStatus: null,
 			outputByteLimit:
 				params.outputByteLimit !== undefined
 					? Number(params.outputByteLimit)
 					: undefined,
 			waitPromises: [],
+			listeners: new Set(),
 		};
 
 		// Handle spawn errors
 		childProcess.on("error", (error) => {
 			this.logger.log(`[Terminal ${terminalId}] Process error:`, error.message);
 			// Set exit status to indicate failure
-			const exitStatus = { exitCode: 127, signal: null }; // 127 = command not found
-			terminal.exitStatus = exitStatus;
-			// Resolve all waiting promises
-			terminal.waitPromises.forEach((resolve) => resolve(exitStatus));
-			terminal.waitPromises = [];
+			this.setExitStatus(terminal, { exitCode: 127, signal: null }); // 127 = command not found
 		});
 
 		// Capture stdout and stderr
@@ -181,54 +201,121 @@ export class TerminalManager {
 			this.logger.log(
 				`[Terminal ${terminalId}] Process exited with code: ${code}, signal: ${signal}`,
 			);
-			const exitStatus = { exitCode: code, signal };
-			terminal.exitStatus = exitStatus;
-			// Resolve all waiting promises
-			terminal.waitPromises.forEach((resolve) => resolve(exitStatus));
-			terminal.waitPromises = [];
+			this.setExitStatus(terminal, { exitCode: code, signal });
 		});
 
 		this.terminals.set(terminalId, terminal);
 		return terminalId;
 	}
 
+	private setExitStatus(
+		terminal: TerminalProcess,
+		exitStatus: TerminalExitStatus,
+	): void {
+		terminal.exitStatus = exitStatus;
+		// Resolve all waiting promises
+		terminal.waitPromises.forEach((resolve) => resolve(exitStatus));
+		terminal.waitPromises = [];
+		this.notify(terminal, { type: "exit", exitStatus });
+	}
+
 	private appendOutput(terminal: TerminalProcess, data: string): void {
-		terminal.output += data;
-
-		// Apply output byte limit if specified
-		if (
-			terminal.outputByteLimit &&
-			Buffer.byteLength(terminal.output, "utf8") > terminal.outputByteLimit
-		) {
-			// Truncate from the beginning, ensuring we stay at character boundaries
-			const bytes = Buffer.from(terminal.output, "utf8");
-			const truncatedBytes = bytes.subarray(
-				bytes.length - terminal.outputByteLimit,
-			);
-			terminal.output = truncatedBytes.toString("utf8");
+		terminal.chunks.push(data);
+		terminal.outputBytes += Buffer.byteLength(data, "utf8");
+
+		// Apply output byte limit if specified, dropping the oldest chunks
+		const limit = terminal.outputByteLimit;
+		if (limit && terminal.outputBytes > limit) {
+			while (terminal.chunks.length > 1) {
+				const firstBytes = Buffer.byteLength(terminal.chunks[0], "utf8");
+				if (terminal.outputBytes - firstBytes < limit) break;
+				terminal.chunks.shift();
+				terminal.outputBytes -= firstBytes;
+			}
+			if (terminal.outputBytes > limit) {
+				// Truncate the first chunk from the beginning, staying at
+				// character boundaries
+				const bytes = Buffer.from(terminal.chunks[0], "utf8");
+				const kept = bytes
+					.subarray(terminal.outputBytes - limit)
+					.toString("utf8")
+					.replace(/^\uFFFD+/, "");
+				terminal.outputBytes += Buffer.byteLength(kept, "utf8") - bytes.length;
+				terminal.chunks[0] = kept;
+			}
+			terminal.truncated = true;
 		}
+
+		this.notify(terminal, { type: "output", data });
+	}
+
+	private notify(terminal: TerminalProcess, event: TerminalOutputEvent): void {
+		for (const listener of terminal.listeners) {
+			try {
+				listener(event);
+			} catch (error) {
+				this.logger.error(
+					`[Terminal ${terminal.id}] Output listener failed:`,
+					error,
+				);
+			}
+		}
+	}
+
+	private readOutput(terminal: TerminalProcess): string {
+		if (terminal.chunks.length > 1) {
+			terminal.chunks = [terminal.chunks.join("")];
+		}
+		return terminal.chunks[0] ?? "";
 	}
 
 	getOutput(terminalId: string): {
 		output: string;
 		truncated: boolean;
-		exitStatus: { exitCode: number | null; signal: string | null } | null;
+		exitStatus: TerminalExitStatus | null;
 	} | null {
 		const terminal = this.terminals.get(terminalId);
 		if (!terminal) return null;
 
 		return {
-			output: terminal.output,
-			truncated: terminal.outputByteLimit
-				? Buffer.byteLength(terminal.output, "utf8") >= terminal.outputByteLimit
-				: false,
+			output: this.readOutput(terminal),
+			truncated: terminal.truncated,
 			exitStatus: terminal.exitStatus,
 		};
 	}
 
-	waitForExit(
+	/**
+	 * Push output to a listener as it arrives. The listener first gets the
+	 * output so far and, if the command already finished, its exit status.
+	 * Terminals that were already cleaned up replay their final output.
+	 *
+	 * @returns Unsubscribe function, or null if the terminal does not exist
+	 */
+	subscribe(
 		terminalId: string,
-	): Promise<{ exitCode: number | null; signal: string | null }> {
+		listener: TerminalOutputListener,
+	): (() => void) | null {
+		const terminal = this.terminals.get(terminalId);
+		if (!terminal) {
+			const retired = this.retiredTerminals.get(terminalId);
+			if (!retired) return null;
+			if (retired.output) listener({ type: "output", data: retired.output });
+			listener({ type: "exit", exitStatus: retired.exitStatus });
+			return () => {};
+		}
+
+		const output = this.readOutput(terminal);
+		if (output) listener({ type: "output", data: output });
+		if (terminal.exitStatus) {
+			listener({ type: "exit", exitStatus: terminal.exitStatus });
+		}
+		terminal.listeners.add(listener);
+		return () => {
+			terminal.listeners.delete(listener);
+		};
+	}
+
+	waitForExit(terminalId: string): Promise<TerminalExitStatus> {
 		const terminal = this.terminals.get(terminalId);
 		if (!terminal) {
 			return Promise.reject(new Error(`Terminal ${terminalId} not found`));
@@ -243,6 +330,30 @@ export class TerminalManager {
 		});
 	}
 
+	/**
+	 * Write user input to a running command's stdin.
+	 *
+	 * @throws Error if the terminal does not exist or no longer reads input
+	 */
+	writeInput(terminalId: string, data: string): Promise<void> {
+		const terminal = this.terminals.get(terminalId);
+		if (!terminal) {
+			return Promise.reject(new Error(`Terminal ${terminalId} not found`));
+		}
+		const stdin = terminal.process.stdin;
+		if (terminal.exitStatus || !stdin || !stdin.writable) {
+			return Promise.reject(
+				new Error(`Terminal ${terminalId} is not accepting input`),
+			);
+		}
+		this.logger.log(
+			`[Terminal ${terminalId}] Writing ${data.length} characters to stdin`,
+		);
+		return new Promise((resolve, reject) => {
+			stdin.write(data, (error) => (error ? reject(error) : resolve()));
+		});
+	}
+
 	killTerminal(terminalId: string): boolean {
 		const terminal = this.terminals.get(terminalId);
 		if (!terminal) return false;
@@ -267,7 +378,7 @@ export class TerminalManager {
 			this.logger.log(
 				`[Terminal ${terminalId}] Cleaning up terminal after grace period`,
 			);
-			this.terminals.delete(terminalId);
+			this.retireTerminal(terminal);
 		}, 30000);
 
 		return true;
@@ -284,8 +395,28 @@ export class TerminalManager {
 				this.logger.log(`Killing terminal ${terminalId}`);
 				this.killTerminal(terminalId);
 			}
+			this.retireTerminal(terminal);
+		});
+	}
+
+	/** Drop a terminal, keeping its final output for later subscribers */
+	private retireTerminal(terminal: TerminalProcess): void {
+		this.retiredTerminals.set(terminal.id, {
+			sessionId: terminal.sessionId,
+			output: this.readOutput(terminal),
+			// A terminal killed here has not reported its exit yet
+			exitStatus: terminal.exitStatus ?? { exitCode: null, signal: "SIGTERM" },
 		});
-		// Clear all terminals
-		this.terminals.clear();
+		terminal.listeners.clear();
+		this.terminals.delete(terminal.id);
+	}
+
+	/** Drop the kept output of every session except `keepSessionId` */
+	forgetRetiredTerminals(keepSessionId: string | null): void {
+		for (const [terminalId, retired] of this.retiredTerminals) {
+			if (retired.sessionId !== keepSessionId) {
+				this.retiredTerminals.delete(terminalId);
+			}
+		}
 	}
 }
@@ -0,0 +1,109 @@
+/**
+ * Minimal MCP server-side JSON-RPC dispatch: lifecycle, ping and tools.
+ * Transport concerns (HTTP, auth) live in vault-mcp-server.ts.
+ */
+
+import type { McpToolDefinition, McpToolResult } from "./vault-mcp-tools";
+
+export const SUPPORTED_MCP_PROTOCOL_VERSIONS = [
+	"2025-06-18",
+	"2025-03-26",
+	"2024-11-05",
+];
+
+export interface JsonRpcResponse {
+	jsonrpc: "2.0";
+	id: string | number | null;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+export interface McpToolHost {
+	serverInfo: { name: string; version: string };
+	listTools(): McpToolDefinition[];
+	callTool(name: string, args: Record<string, unknown>): Promise<McpToolResult>;
+}
+
+export const JSON_RPC_PARSE_ERROR = -32700;
+const JSON_RPC_INVALID_REQUEST = -32600;
+const JSON_RPC_METHOD_NOT_FOUND = -32601;
+const JSON_RPC_INVALID_PARAMS = -32602;
+
+export function jsonRpcError(
+	id: string | number | null,
+	code: number,
+	message: string,
+): JsonRpcResponse {
+	return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Handle a single JSON-RPC message. Returns null for notifications and
+ * client responses, which expect no reply.
+ */
+export async function handleMcpMessage(
+	message: unknown,
+	host: McpToolHost,
+): Promise<JsonRpcResponse | null> {
+	if (!isRecord(message) || message.jsonrpc !== "2.0") {
+		return jsonRpcError(null, JSON_RPC_INVALID_REQUEST, "Invalid request");
+	}
+	if (typeof message.method !== "string") {
+		// Responses to server-initiated requests; we never send any
+		return null;
+	}
+
+	const id =
+		typeof message.id === "string" || typeof message.id === "number"
+			? message.id
+			: null;
+	if (!("id" in message)) {
+		return null;
+	}
+	const params = isRecord(message.params) ? message.params : {};
+
+	switch (message.method) {
+		case "initialize": {
+			const requested = params.protocolVersion;
+			const protocolVersion =
+				typeof requested === "string" &&
+				SUPPORTED_MCP_PROTOCOL_VERSIONS.includes(requested)
+					? requested
+					: SUPPORTED_MCP_PROTOCOL_VERSIONS[0];
+			return {
+				jsonrpc: "2.0",
+				id,
+				result: {
+					protocolVersion,
+					capabilities: { tools: { listChanged: false } },
+					serverInfo: host.serverInfo,
+				},
+			};
+		}
+		case "ping":
+			return { jsonrpc: "2.0", id, result: {} };
+		case "tools/list":
+			return { jsonrpc: "2.0", id, result: { tools: host.listTools() } };
+		case "tools/call": {
+			if (typeof params.name !== "string") {
+				return jsonRpcError(id, JSON_RPC_INVALID_PARAMS, "Missing tool name");
+			}
+			const args = isRecord(params.arguments) ? params.arguments : {};
+			return {
+				jsonrpc: "2.0",
+				id,
+				result: await host.callTool(params.name, args),
+			};
+		}
+		default:
+			return jsonRpcError(
+				id,
+				JSON_RPC_METHOD_NOT_FOUND,
+				`Method not found: ${message.method}`,
+			);
+	}
+}
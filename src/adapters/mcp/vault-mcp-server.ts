@@ -0,0 +1,182 @@
+import type * as acp from "@agentclientprotocol/sdk";
+import { randomBytes } from "crypto";
+import {
+	createServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from "http";
+import type { AddressInfo } from "net";
+
+import type { McpCapabilities } from "../../domain/ports/agent-client.port";
+import type { Logger } from "../../shared/logger";
+import {
+	handleMcpMessage,
+	JSON_RPC_PARSE_ERROR,
+	jsonRpcError,
+	type McpToolHost,
+} from "./mcp-protocol";
+
+export const VAULT_MCP_SERVER_NAME = "obsidian-vault";
+
+const MCP_PATH = "/mcp";
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Built-in MCP server over loopback HTTP (streamable HTTP transport,
+ * JSON responses only). Every request must carry the bearer token that is
+ * handed to agents in session/new, so other local processes cannot read
+ * the vault through it.
+ */
+export class VaultMcpServer {
+	private server: Server | null = null;
+	private port: number | null = null;
+	private readonly token = randomBytes(24).toString("hex");
+
+	constructor(
+		private readonly host: McpToolHost,
+		private readonly logger: Logger,
+	) {}
+
+	get isRunning(): boolean {
+		return this.port !== null;
+	}
+
+	async start(): Promise<void> {
+		if (this.server) return;
+
+		const server = createServer((req, res) => {
+			void this.handleRequest(req, res);
+		});
+		this.server = server;
+
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(0, "127.0.0.1", () => {
+				server.off("error", reject);
+				resolve();
+			});
+		}).catch((error: unknown) => {
+			this.server = null;
+			throw error;
+		});
+
+		this.port = (server.address() as AddressInfo).port;
+		this.logger.log(
+			`[VaultMcpServer] Listening on http://127.0.0.1:${this.port}${MCP_PATH}`,
+		);
+	}
+
+	async stop(): Promise<void> {
+		const server = this.server;
+		this.server = null;
+		this.port = null;
+		if (!server) return;
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+	}
+
+	/**
+	 * Server entry for session/new, load and resume. Returns null when the
+	 * server is not running or the agent cannot connect to HTTP servers.
+	 */
+	getSessionServer(
+		capabilities: McpCapabilities | undefined,
+	): acp.McpServer | null {
+		if (this.port === null) return null;
+		if (capabilities?.http !== true) {
+			this.logger.log(
+				`[VaultMcpServer] Not offered: agent does not support http MCP servers`,
+			);
+			return null;
+		}
+		return {
+			type: "http",
+			name: VAULT_MCP_SERVER_NAME,
+			url: `http://127.0.0.1:${this.port}${MCP_PATH}`,
+			headers: [{ name: "Authorization", value: `Bearer ${this.token}` }],
+		};
+	}
+
+	private async handleRequest(
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> {
+		if (req.url?.split("?")[0] !== MCP_PATH) {
+			this.respond(res, 404);
+			return;
+		}
+		if (req.headers.authorization !== `Bearer ${this.token}`) {
+			this.respond(res, 401);
+			return;
+		}
+		if (req.method !== "POST") {
+			// No server-initiated stream; clients fall back to POST only
+			res.setHeader("Allow", "POST");
+			this.respond(res, 405);
+			return;
+		}
+
+		let message: unknown;
+		try {
+			message = JSON.parse(await readBody(req));
+		} catch (error) {
+			this.respond(
+				res,
+				400,
+				jsonRpcError(
+					null,
+					JSON_RPC_PARSE_ERROR,
+					error instanceof Error ? error.message : "Parse error",
+				),
+			);
+			return;
+		}
+
+		try {
+			const reply = Array.isArray(message)
+				? (
+						await Promise.all(
+							message.map((entry) => handleMcpMessage(entry, this.host)),
+						)
+					).filter((entry) => entry !== null)
+				: await handleMcpMessage(message, this.host);
+
+			if (reply === null || (Array.isArray(reply) && reply.length === 0)) {
+				this.respond(res, 202);
+				return;
+			}
+			this.respond(res, 200, reply);
+		} catch (error) {
+			this.logger.error("[VaultMcpServer] Request failed:", error);
+			this.respond(res, 500);
+		}
+	}
+
+	private respond(res: ServerResponse, status: number, body?: unknown): void {
+		if (body === undefined) {
+			res.writeHead(status).end();
+			return;
+		}
+		res
+			.writeHead(status, { "Content-Type": "application/json" })
+			.end(JSON.stringify(body));
+	}
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		req.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_BODY_BYTES) {
+				reject(new Error("Request body too large"));
+				req.destroy();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+		req.on("error", reject);
+	});
+}
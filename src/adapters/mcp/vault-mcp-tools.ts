@@ -0,0 +1,243 @@
+/**
+ * Tools exposed by the built-in vault MCP server.
+ *
+ * Tool handlers only talk to a VaultMcpBackend, so the Obsidian-specific
+ * lookups (metadata cache, workspace selection) stay in the Obsidian
+ * adapter and the tool surface can be tested without a running app.
+ */
+
+export interface VaultNoteSummary {
+	path: string;
+	name: string;
+	aliases?: string[];
+}
+
+export interface VaultNoteMetadata {
+	path: string;
+	frontmatter: Record<string, unknown> | null;
+	tags: string[];
+	headings: Array<{ level: number; heading: string }>;
+	links: string[];
+}
+
+export interface VaultActiveSelection {
+	path: string;
+	fromLine: number;
+	toLine: number;
+	text: string;
+}
+
+export interface VaultMcpBackend {
+	searchNotes(query: string): VaultNoteSummary[];
+	/** Vault path the link points to, or null when it does not resolve */
+	resolveWikilink(link: string, sourcePath: string): string | null;
+	getBacklinks(path: string): Array<{ path: string; count: number }>;
+	getNoteMetadata(path: string): VaultNoteMetadata | null;
+	listNotesByTag(tag: string): string[];
+	getActiveSelection(): Promise<VaultActiveSelection | null>;
+}
+
+export interface McpToolDefinition {
+	name: string;
+	description: string;
+	inputSchema: {
+		type: "object";
+		properties: Record<string, unknown>;
+		required?: string[];
+	};
+}
+
+export interface McpToolResult {
+	content: Array<{ type: "text"; text: string }>;
+	isError?: boolean;
+}
+
+type ToolArgs = Record<string, unknown>;
+
+interface VaultMcpTool extends McpToolDefinition {
+	run(backend: VaultMcpBackend, args: ToolArgs): unknown;
+}
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+function requireString(args: ToolArgs, key: string): string {
+	const value = args[key];
+	if (typeof value !== "string" || value.trim().length === 0) {
+		throw new Error(`Missing required argument: ${key}`);
+	}
+	return value.trim();
+}
+
+function optionalString(args: ToolArgs, key: string): string {
+	const value = args[key];
+	return typeof value === "string" ? value.trim() : "";
+}
+
+/** Strip `[[...]]`, `#heading` and `|alias` parts from a wikilink */
+export function normalizeWikilink(link: string): string {
+	let target = link.trim();
+	if (target.startsWith("[[") && target.endsWith("]]")) {
+		target = target.slice(2, -2);
+	}
+	return target.split("|")[0].split("#")[0].trim();
+}
+
+/** Normalize a tag for comparison: no leading `#`, lower case */
+export function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+/** Whether `tag` equals `query` or is nested under it (`project/alpha`) */
+export function tagMatches(tag: string, query: string): boolean {
+	const normalized = normalizeTag(tag);
+	const target = normalizeTag(query);
+	return normalized === target || normalized.startsWith(`${target}/`);
+}
+
+const TOOLS: VaultMcpTool[] = [
+	{
+		name: "search_notes",
+		description:
+			"Fuzzy-search notes by file name, path and frontmatter aliases. An empty query returns recently modified notes.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				query: { type: "string", description: "Search text" },
+				limit: {
+					type: "number",
+					description: `Maximum results (default ${DEFAULT_SEARCH_LIMIT})`,
+				},
+			},
+			required: ["query"],
+		},
+		run: (backend, args) => {
+			const limit =
+				typeof args.limit === "number" && args.limit > 0
+					? Math.floor(args.limit)
+					: DEFAULT_SEARCH_LIMIT;
+			return backend.searchNotes(optionalString(args, "query")).slice(0, limit);
+		},
+	},
+	{
+		name: "resolve_wikilink",
+		description:
+			"Resolve a wikilink such as [[Note#Heading|alias]] to a vault path, the same way Obsidian does when the link is clicked.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				link: { type: "string", description: "Wikilink or link text" },
+				sourcePath: {
+					type: "string",
+					description: "Vault path of the note containing the link",
+				},
+			},
+			required: ["link"],
+		},
+		run: (backend, args) => {
+			const link = normalizeWikilink(requireString(args, "link"));
+			const path = backend.resolveWikilink(
+				link,
+				optionalString(args, "sourcePath"),
+			);
+			return { link, path, resolved: path !== null };
+		},
+	},
+	{
+		name: "get_backlinks",
+		description: "List notes that link to the given note.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				path: { type: "string", description: "Vault path of the note" },
+			},
+			required: ["path"],
+		},
+		run: (backend, args) => backend.getBacklinks(requireString(args, "path")),
+	},
+	{
+		name: "get_note_metadata",
+		description:
+			"Read a note's frontmatter, tags, headings and outgoing links from Obsidian's metadata cache.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				path: { type: "string", description: "Vault path of the note" },
+			},
+			required: ["path"],
+		},
+		run: (backend, args) => {
+			const path = requireString(args, "path");
+			const metadata = backend.getNoteMetadata(path);
+			if (!metadata) {
+				throw new Error(`Note not found: ${path}`);
+			}
+			return metadata;
+		},
+	},
+	{
+		name: "list_notes_by_tag",
+		description:
+			"List notes carrying a tag, in frontmatter or inline. Nested tags match their parent (#project matches #project/alpha).",
+		inputSchema: {
+			type: "object",
+			properties: {
+				tag: { type: "string", description: "Tag, with or without #" },
+			},
+			required: ["tag"],
+		},
+		run: (backend, args) => backend.listNotesByTag(requireString(args, "tag")),
+	},
+	{
+		name: "get_active_selection",
+		description:
+			"Read the note the user is looking at and the text they have selected in it, if any.",
+		inputSchema: { type: "object", properties: {} },
+		run: async (backend) => {
+			const selection = await backend.getActiveSelection();
+			return selection ?? { selection: null };
+		},
+	},
+];
+
+export function listVaultMcpTools(): McpToolDefinition[] {
+	return TOOLS.map(({ name, description, inputSchema }) => ({
+		name,
+		description,
+		inputSchema,
+	}));
+}
+
+/**
+ * Run a tool. Failures are reported as tool errors rather than protocol
+ * errors so the agent can see the message and recover.
+ */
+export async function callVaultMcpTool(
+	backend: VaultMcpBackend,
+	name: string,
+	args: ToolArgs,
+): Promise<McpToolResult> {
+	const tool = TOOLS.find((candidate) => candidate.name === name);
+	if (!tool) {
+		return {
+			content: [{ type: "text", text: `Unknown tool: ${name}` }],
+			isError: true,
+		};
+	}
+
+	try {
+		const result = await tool.run(backend, args);
+		return {
+			content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: error instanceof Error ? error.message : String(error),
+				},
+			],
+			isError: true,
+		};
+	}
+}
@@ -1,6 +1,9 @@
 import {
+	type ChangeDesc,
+	type EditorState,
 	type Extension,
-	RangeSetBuilder,
+	Facet,
+	type Range,
 	StateEffect,
 	StateField,
 } from "@codemirror/state";
@@ -11,7 +14,27 @@ import {
 	WidgetType,
 } from "@codemirror/view";
 import { editorLivePreviewField } from "obsidian";
-import type { InlineDiffSegment } from "../../shared/word-diff";
+import {
+	groupInlineDiffHunks,
+	revertInlineDiffHunk,
+	type InlineDiffHunk,
+	type InlineDiffSegment,
+} from "../../shared/word-diff";
+
+export type InlineDiffHunkAction = "accept" | "reject";
+
+/** Called after a hunk was accepted or rejected in an editor. */
+export type InlineDiffHunkHandler = (
+	view: EditorView,
+	action: InlineDiffHunkAction,
+) => void;
+
+const hunkHandlerFacet = Facet.define<
+	InlineDiffHunkHandler,
+	InlineDiffHunkHandler | null
+>({
+	combine: (values) => values[0] ?? null,
+});
 
 class DeletedTextWidget extends WidgetType {
 	constructor(readonly text: string) {
@@ -63,86 +86,228 @@ class AddedTextWidget extends WidgetType {
 	}
 }
 
+class HunkActionsWidget extends WidgetType {
+	constructor(
+		readonly index: number,
+		readonly hunk: InlineDiffHunk,
+	) {
+		super();
+	}
+
+	toDOM(view: EditorView): HTMLElement {
+		const container = document.createElement("span");
+		container.className = "obsius-inline-diff-hunk-actions";
+		container.appendChild(
+			this.createButton(view, "reject", "✕", "Reject this change"),
+		);
+		container.appendChild(
+			this.createButton(view, "accept", "✓", "Accept this change"),
+		);
+		return container;
+	}
+
+	eq(other: HunkActionsWidget): boolean {
+		return (
+			this.index === other.index &&
+			this.hunk.from === other.hunk.from &&
+			this.hunk.to === other.hunk.to
+		);
+	}
+
+	ignoreEvent(): boolean {
+		return true;
+	}
+
+	private createButton(
+		view: EditorView,
+		action: InlineDiffHunkAction,
+		label: string,
+		title: string,
+	): HTMLElement {
+		const button = document.createElement("button");
+		button.className = `obsius-inline-diff-hunk-btn obsius-inline-diff-hunk-btn--${action}`;
+		button.textContent = label;
+		button.title = title;
+		button.setAttribute("aria-label", title);
+		button.addEventListener("mousedown", (event) => {
+			event.preventDefault();
+			event.stopPropagation();
+			resolveInlineDiffHunk(view, this.index, action);
+		});
+		return button;
+	}
+}
+
 export const setInlineDiff = StateEffect.define<InlineDiffSegment[]>();
 const clearInlineDiff = StateEffect.define<void>();
+const resolveHunk = StateEffect.define<number>();
 
-const inlineDiffField = StateField.define<DecorationSet>({
+interface InlineDiffState {
+	hunks: InlineDiffHunk[];
+	decorations: DecorationSet;
+}
+
+const emptyState: InlineDiffState = {
+	hunks: [],
+	decorations: Decoration.none,
+};
+
+const inlineDiffField = StateField.define<InlineDiffState>({
 	create() {
-		return Decoration.none;
+		return emptyState;
 	},
 
-	update(decorations, tr) {
+	update(value, tr) {
+		const isLivePreview =
+			tr.state.field(editorLivePreviewField, false) === true;
+
 		for (const effect of tr.effects) {
 			if (effect.is(setInlineDiff)) {
-				return buildDecorations(
-					effect.value,
-					tr.state.doc,
-					tr.state.field(editorLivePreviewField, false) === true,
+				const hunks = groupInlineDiffHunks(
+					effect.value.filter((seg) => seg.from <= tr.state.doc.length),
+					tr.state.doc.toString(),
 				);
+				return {
+					hunks,
+					decorations: buildDecorations(hunks, tr.state.doc, isLivePreview),
+				};
 			}
 			if (effect.is(clearInlineDiff)) {
-				return Decoration.none;
+				return emptyState;
+			}
+			if (effect.is(resolveHunk)) {
+				const remaining = value.hunks
+					.filter((_, index) => index !== effect.value)
+					.map((hunk) => (tr.docChanged ? mapHunk(hunk, tr.changes) : hunk));
+				if (remaining.length === 0) {
+					return emptyState;
+				}
+				return {
+					hunks: remaining,
+					decorations: buildDecorations(remaining, tr.state.doc, isLivePreview),
+				};
 			}
 		}
 		if (tr.docChanged) {
-			return Decoration.none;
+			return emptyState;
 		}
-		return decorations;
+		return value;
 	},
 
 	provide(field) {
-		return EditorView.decorations.from(field);
+		return EditorView.decorations.from(field, (value) => value.decorations);
 	},
 });
 
+function mapHunk(hunk: InlineDiffHunk, changes: ChangeDesc): InlineDiffHunk {
+	return {
+		from: changes.mapPos(hunk.from),
+		to: changes.mapPos(hunk.to),
+		segments: hunk.segments.map((seg) => ({
+			...seg,
+			from: changes.mapPos(seg.from),
+			to: changes.mapPos(seg.to),
+		})),
+	};
+}
+
 function buildDecorations(
-	segments: InlineDiffSegment[],
+	hunks: InlineDiffHunk[],
 	doc: EditorView["state"]["doc"],
 	isLivePreview: boolean,
 ): DecorationSet {
-	const builder = new RangeSetBuilder<Decoration>();
+	const ranges: Range<Decoration>[] = [];
 	const docLength = doc.length;
 
-	const sorted = [...segments].sort((a, b) => a.from - b.from || a.to - b.to);
-
-	for (const seg of sorted) {
-		if (seg.from > docLength) continue;
-
-		if (seg.type === "deleted" && seg.deletedText) {
-			builder.add(
-				seg.from,
-				seg.from,
-				Decoration.widget({
-					widget: new DeletedTextWidget(seg.deletedText),
-					side: -1,
-				}),
-			);
-		} else if (seg.type === "added") {
-			const to = Math.min(seg.to, docLength);
-			if (to > seg.from) {
-				if (isLivePreview) {
-					builder.add(
-						seg.from,
-						to,
-						Decoration.replace({
-							widget: new AddedTextWidget(doc.sliceString(seg.from, to)),
-						}),
-					);
-					continue;
-				}
+	hunks.forEach((hunk, index) => {
+		for (const seg of hunk.segments) {
+			if (seg.from > docLength) continue;
 
-				builder.add(
-					seg.from,
-					to,
-					Decoration.mark({ class: "obsius-inline-diff-added" }),
+			if (seg.type === "deleted" && seg.deletedText) {
+				ranges.push(
+					Decoration.widget({
+						widget: new DeletedTextWidget(seg.deletedText),
+						side: -1,
+					}).range(seg.from),
+				);
+			} else if (seg.type === "added") {
+				const to = Math.min(seg.to, docLength);
+				if (to <= seg.from) continue;
+				ranges.push(
+					isLivePreview
+						? Decoration.replace({
+								widget: new AddedTextWidget(doc.sliceString(seg.from, to)),
+							}).range(seg.from, to)
+						: Decoration.mark({ class: "obsius-inline-diff-added" }).range(
+								seg.from,
+								to,
+							),
 				);
 			}
 		}
+
+		ranges.push(
+			Decoration.widget({
+				widget: new HunkActionsWidget(index, hunk),
+				side: 1,
+			}).range(Math.min(hunk.to, docLength)),
+		);
+	});
+
+	return Decoration.set(ranges, true);
+}
+
+/** Hunks currently shown in the editor, in document order. */
+export function getInlineDiffHunks(state: EditorState): InlineDiffHunk[] {
+	return state.field(inlineDiffField, false)?.hunks ?? [];
+}
+
+/**
+ * Index of the hunk containing the cursor, or the first hunk after it
+ * (falling back to the last hunk before it).
+ */
+export function findInlineDiffHunkAt(state: EditorState, pos: number): number {
+	const hunks = getInlineDiffHunks(state);
+	if (hunks.length === 0) return -1;
+	const containing = hunks.findIndex((h) => pos >= h.from && pos <= h.to);
+	if (containing !== -1) return containing;
+	const after = hunks.findIndex((h) => h.from > pos);
+	return after !== -1 ? after : hunks.length - 1;
+}
+
+/**
+ * Accept (keep as-is) or reject (restore the original span) one hunk, then
+ * notify the handler registered for this editor.
+ */
+export function resolveInlineDiffHunk(
+	view: EditorView,
+	index: number,
+	action: InlineDiffHunkAction,
+): boolean {
+	const hunk = getInlineDiffHunks(view.state)[index];
+	if (!hunk) return false;
+
+	if (action === "reject") {
+		view.dispatch({
+			changes: {
+				from: hunk.from,
+				to: hunk.to,
+				insert: revertInlineDiffHunk(view.state.doc.toString(), hunk),
+			},
+			effects: resolveHunk.of(index),
+		});
+	} else {
+		view.dispatch({ effects: resolveHunk.of(index) });
 	}
 
-	return builder.finish();
+	view.state.facet(hunkHandlerFacet)?.(view, action);
+	return true;
 }
 
-export function inlineDiffExtension(): Extension {
-	return inlineDiffField;
+export function inlineDiffExtension(
+	onHunkResolved?: InlineDiffHunkHandler,
+): Extension {
+	return onHunkResolved
+		? [inlineDiffField, hunkHandlerFacet.of(onHunkResolved)]
+		: inlineDiffField;
 }
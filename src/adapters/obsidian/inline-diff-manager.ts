@@ -2,21 +2,45 @@ import type { App, WorkspaceLeaf } from "obsidian";
 import { MarkdownView } from "obsidian";
 import { EditorView } from "@codemirror/view";
 import { Compartment, StateEffect } from "@codemirror/state";
-import { inlineDiffExtension, setInlineDiff } from "./inline-diff-extension";
+import {
+	findInlineDiffHunkAt,
+	getInlineDiffHunks,
+	inlineDiffExtension,
+	resolveInlineDiffHunk,
+	setInlineDiff,
+	type InlineDiffHunkAction,
+} from "./inline-diff-extension";
 import {
 	computeAnchoredInlineDiffSegments,
 	computeInlineDiffSegments,
+	revertInlineDiffHunks,
 	type InlineDiffOptions,
+	type InlineDiffSegment,
 } from "../../shared/word-diff";
 
 interface TrackedLeaf {
 	leaf: WorkspaceLeaf;
 	compartment: Compartment;
 	filePath: string;
+	mode: InlineDiffOptions["mode"];
+}
+
+export interface InlineDiffHunkResolution {
+	filePath: string;
+	action: InlineDiffHunkAction;
+	/**
+	 * Document text with every still-pending hunk reverted, i.e. the new
+	 * accepted baseline. Null for snippet diffs, which do not cover the
+	 * whole file.
+	 */
+	baselineText: string | null;
 }
 
 export class InlineDiffManager {
 	private tracked = new Map<string, TrackedLeaf>();
+	private hunkListeners = new Set<
+		(resolution: InlineDiffHunkResolution) => void
+	>();
 
 	constructor(private app: App) {}
 
@@ -41,20 +65,93 @@ export class InlineDiffManager {
 
 		const existing = this.tracked.get(filePath);
 		if (existing) {
+			existing.mode = options.mode;
 			cm.dispatch({ effects: setInlineDiff.of(segments) });
 			return;
 		}
+		this.track(filePath, leaf, cm, segments, options.mode);
+	}
+
+	/**
+	 * Show or recompute the diff of a file that is open in an editor,
+	 * without focusing it. No-op when the file is not open.
+	 */
+	refreshDiff(
+		filePath: string,
+		originalText: string,
+		currentText: string,
+		options: InlineDiffOptions = {},
+	): void {
+		const entry = this.tracked.get(filePath);
+		const leaf = entry?.leaf ?? this.findOpenLeaf(filePath);
+		if (!leaf) return;
+
+		const cm = this.getEditorView(leaf);
+		if (!cm) return;
+
+		const segments = this.computeSegments(
+			cm.state.doc.toString(),
+			originalText,
+			currentText,
+			options,
+		);
+		if (!entry) {
+			this.track(filePath, leaf, cm, segments, options.mode);
+			return;
+		}
+		entry.mode = options.mode;
+		cm.dispatch({ effects: setInlineDiff.of(segments) });
+	}
 
+	/** Add the diff overlay to an editor and follow its hunk decisions */
+	private track(
+		filePath: string,
+		leaf: WorkspaceLeaf,
+		cm: EditorView,
+		segments: InlineDiffSegment[],
+		mode: InlineDiffOptions["mode"],
+	): void {
 		const compartment = new Compartment();
 		cm.dispatch({
 			effects: StateEffect.appendConfig.of(
-				compartment.of(inlineDiffExtension()),
+				compartment.of(
+					inlineDiffExtension((view, action) => {
+						this.handleHunkResolved(filePath, view, action);
+					}),
+				),
 			),
 		});
 
 		cm.dispatch({ effects: setInlineDiff.of(segments) });
 
-		this.tracked.set(filePath, { leaf, compartment, filePath });
+		this.tracked.set(filePath, { leaf, compartment, filePath, mode });
+	}
+
+	/**
+	 * Accept or reject the hunk at (or nearest after) the cursor.
+	 * Returns false when the editor has no pending hunks.
+	 */
+	resolveHunkAtCursor(cm: EditorView, action: InlineDiffHunkAction): boolean {
+		const index = findInlineDiffHunkAt(cm.state, cm.state.selection.main.head);
+		if (index === -1) return false;
+		return resolveInlineDiffHunk(cm, index, action);
+	}
+
+	hasPendingHunks(cm: EditorView): boolean {
+		return getInlineDiffHunks(cm.state).length > 0;
+	}
+
+	/**
+	 * Subscribe to per-hunk accept/reject decisions.
+	 * @returns Unsubscribe function
+	 */
+	onHunkResolved(
+		listener: (resolution: InlineDiffHunkResolution) => void,
+	): () => void {
+		this.hunkListeners.add(listener);
+		return () => {
+			this.hunkListeners.delete(listener);
+		};
 	}
 
 	clearDiff(filePath: string): void {
@@ -78,12 +175,38 @@ export class InlineDiffManager {
 		return this.tracked.has(filePath);
 	}
 
-	private async ensureFileOpen(
+	private handleHunkResolved(
 		filePath: string,
-	): Promise<WorkspaceLeaf | null> {
-		const existing = this.app.workspace
-			.getLeavesOfType("markdown")
-			.find((leaf) => {
+		view: EditorView,
+		action: InlineDiffHunkAction,
+	): void {
+		const entry = this.tracked.get(filePath);
+		if (!entry) return;
+
+		const baselineText =
+			entry.mode === "document"
+				? revertInlineDiffHunks(
+						view.state.doc.toString(),
+						getInlineDiffHunks(view.state),
+					)
+				: null;
+		const notify = () => {
+			for (const listener of this.hunkListeners) {
+				listener({ filePath, action, baselineText });
+			}
+		};
+
+		// Persist rejected spans before listeners re-read the file from disk
+		if (action === "reject" && entry.leaf.view instanceof MarkdownView) {
+			void entry.leaf.view.save().finally(notify);
+			return;
+		}
+		notify();
+	}
+
+	private findOpenLeaf(filePath: string): WorkspaceLeaf | null {
+		return (
+			this.app.workspace.getLeavesOfType("markdown").find((leaf) => {
 				if ("file" in leaf.view) {
 					return (
 						(leaf.view as { file: { path: string } | null }).file?.path ===
@@ -91,8 +214,14 @@ export class InlineDiffManager {
 					);
 				}
 				return false;
-			});
+			}) ?? null
+		);
+	}
 
+	private async ensureFileOpen(
+		filePath: string,
+	): Promise<WorkspaceLeaf | null> {
+		const existing = this.findOpenLeaf(filePath);
 		if (existing) {
 			this.app.workspace.setActiveLeaf(existing, { focus: true });
 			return existing;
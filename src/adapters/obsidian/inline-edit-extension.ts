@@ -0,0 +1,194 @@
+import {
+	type EditorState,
+	type Extension,
+	Facet,
+	StateEffect,
+	StateField,
+} from "@codemirror/state";
+import {
+	Decoration,
+	type DecorationSet,
+	EditorView,
+	WidgetType,
+} from "@codemirror/view";
+import * as Diff from "diff";
+
+export type InlineEditStatus = "streaming" | "done" | "cancelled" | "error";
+
+export type InlineEditAction = "accept" | "reject" | "retry" | "stop";
+
+/** A pending AI edit of a selection, shown below it until resolved */
+export interface InlineEdit {
+	id: string;
+	from: number;
+	to: number;
+	original: string;
+	proposed: string;
+	status: InlineEditStatus;
+	error?: string;
+}
+
+export type InlineEditActionHandler = (
+	view: EditorView,
+	edit: InlineEdit,
+	action: InlineEditAction,
+) => void;
+
+const actionHandlerFacet = Facet.define<
+	InlineEditActionHandler,
+	InlineEditActionHandler | null
+>({
+	combine: (values) => values[0] ?? null,
+});
+
+export const startInlineEdit = StateEffect.define<InlineEdit>();
+export const updateInlineEdit = StateEffect.define<
+	{ id: string } & Partial<Pick<InlineEdit, "proposed" | "status" | "error">>
+>();
+export const clearInlineEdit = StateEffect.define<string>();
+
+const STATUS_LABELS: Record<InlineEditStatus, string> = {
+	streaming: "Writing…",
+	done: "Suggested edit",
+	cancelled: "Stopped",
+	error: "Edit failed",
+};
+
+class InlineEditWidget extends WidgetType {
+	constructor(readonly edit: InlineEdit) {
+		super();
+	}
+
+	toDOM(view: EditorView): HTMLElement {
+		const { edit } = this;
+		const container = document.createElement("div");
+		container.className = `obsius-inline-edit obsius-inline-edit--${edit.status}`;
+
+		const header = container.appendChild(document.createElement("div"));
+		header.className = "obsius-inline-edit-header";
+		const status = header.appendChild(document.createElement("span"));
+		status.className = "obsius-inline-edit-status";
+		status.textContent = edit.error ?? STATUS_LABELS[edit.status];
+
+		const actions = header.appendChild(document.createElement("span"));
+		actions.className = "obsius-inline-edit-actions";
+		const buttons: Array<[InlineEditAction, string]> =
+			edit.status === "streaming"
+				? [["stop", "Stop"]]
+				: [
+						["reject", "Reject"],
+						["retry", "Retry"],
+						["accept", "Accept"],
+					];
+		for (const [action, label] of buttons) {
+			if (action === "accept" && !edit.proposed) continue;
+			actions.appendChild(this.createButton(view, action, label));
+		}
+
+		const body = container.appendChild(document.createElement("div"));
+		body.className = "obsius-inline-edit-body";
+		for (const part of Diff.diffWordsWithSpace(edit.original, edit.proposed)) {
+			if (part.removed && edit.status === "streaming") continue;
+			const span = body.appendChild(document.createElement("span"));
+			if (part.added) span.className = "obsius-inline-diff-added";
+			if (part.removed) span.className = "obsius-inline-diff-deleted";
+			span.textContent = part.value;
+		}
+		return container;
+	}
+
+	eq(other: InlineEditWidget): boolean {
+		return (
+			this.edit.proposed === other.edit.proposed &&
+			this.edit.status === other.edit.status &&
+			this.edit.error === other.edit.error &&
+			this.edit.original === other.edit.original
+		);
+	}
+
+	ignoreEvent(): boolean {
+		return true;
+	}
+
+	private createButton(
+		view: EditorView,
+		action: InlineEditAction,
+		label: string,
+	): HTMLElement {
+		const button = document.createElement("button");
+		button.className = `obsius-inline-edit-btn obsius-inline-edit-btn--${action}`;
+		button.textContent = label;
+		button.addEventListener("mousedown", (event) => {
+			event.preventDefault();
+			event.stopPropagation();
+			const edit = getInlineEdit(view.state);
+			if (edit?.id !== this.edit.id) return;
+			view.state.facet(actionHandlerFacet)?.(view, edit, action);
+		});
+		return button;
+	}
+}
+
+const originalMark = Decoration.mark({ class: "obsius-inline-edit-original" });
+
+interface InlineEditFieldState {
+	edit: InlineEdit | null;
+	decorations: DecorationSet;
+}
+
+function buildState(edit: InlineEdit | null): InlineEditFieldState {
+	if (!edit) return { edit: null, decorations: Decoration.none };
+	const ranges = [
+		Decoration.widget({
+			widget: new InlineEditWidget(edit),
+			block: true,
+			side: 1,
+		}).range(edit.to),
+	];
+	if (edit.to > edit.from) {
+		ranges.unshift(originalMark.range(edit.from, edit.to));
+	}
+	return { edit, decorations: Decoration.set(ranges, true) };
+}
+
+const inlineEditField = StateField.define<InlineEditFieldState>({
+	create() {
+		return buildState(null);
+	},
+
+	update(value, tr) {
+		let edit = value.edit;
+		if (edit && tr.docChanged) {
+			edit = {
+				...edit,
+				from: tr.changes.mapPos(edit.from, 1),
+				to: tr.changes.mapPos(edit.to, -1),
+			};
+		}
+		for (const effect of tr.effects) {
+			if (effect.is(startInlineEdit)) {
+				edit = effect.value;
+			} else if (effect.is(updateInlineEdit) && edit?.id === effect.value.id) {
+				edit = { ...edit, ...effect.value };
+			} else if (effect.is(clearInlineEdit) && edit?.id === effect.value) {
+				edit = null;
+			}
+		}
+		return edit === value.edit ? value : buildState(edit);
+	},
+
+	provide(field) {
+		return EditorView.decorations.from(field, (value) => value.decorations);
+	},
+});
+
+/** The inline edit pending in this editor, if any */
+export function getInlineEdit(state: EditorState): InlineEdit | null {
+	return state.field(inlineEditField, false)?.edit ?? null;
+}
+
+export function inlineEditExtension(
+	onAction: InlineEditActionHandler,
+): Extension {
+	return [inlineEditField, actionHandlerFacet.of(onAction)];
+}
@@ -0,0 +1,127 @@
+import {
+	type EditorState,
+	type Extension,
+	Facet,
+	StateEffect,
+	StateField,
+	type Transaction,
+} from "@codemirror/state";
+import { Decoration, type DecorationSet, EditorView } from "@codemirror/view";
+
+/** A lock located in the current editor document */
+export interface EditorLockRange {
+	id: string;
+	from: number;
+	to: number;
+}
+
+export interface ParagraphLockEditorHandlers {
+	/** The user edited the document; ranges reflect their new positions */
+	onUserEdit(view: EditorView, ranges: EditorLockRange[]): void;
+	/** The document changed programmatically (agent write, file reload) */
+	onExternalEdit(view: EditorView): void;
+}
+
+const handlersFacet = Facet.define<
+	ParagraphLockEditorHandlers,
+	ParagraphLockEditorHandlers | null
+>({
+	combine: (values) => values[0] ?? null,
+});
+
+export const setParagraphLocks = StateEffect.define<EditorLockRange[]>();
+
+interface LockFieldState {
+	ranges: EditorLockRange[];
+	decorations: DecorationSet;
+}
+
+const emptyState: LockFieldState = {
+	ranges: [],
+	decorations: Decoration.none,
+};
+
+const lockMark = Decoration.mark({
+	class: "obsius-locked-range",
+	attributes: { title: "Locked: agents may not change this passage" },
+});
+
+const paragraphLockField = StateField.define<LockFieldState>({
+	create() {
+		return emptyState;
+	},
+
+	update(value, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setParagraphLocks)) {
+				return buildState(effect.value, tr.state.doc.length);
+			}
+		}
+		if (!tr.docChanged || value.ranges.length === 0) {
+			return value;
+		}
+		const mapped = value.ranges.map((range) => ({
+			id: range.id,
+			from: tr.changes.mapPos(range.from, 1),
+			to: tr.changes.mapPos(range.to, -1),
+		}));
+		return buildState(mapped, tr.state.doc.length);
+	},
+
+	provide(field) {
+		return EditorView.decorations.from(field, (value) => value.decorations);
+	},
+});
+
+function buildState(ranges: EditorLockRange[], docLength: number) {
+	const valid = ranges
+		.map((range) => ({
+			...range,
+			from: Math.min(range.from, docLength),
+			to: Math.min(Math.max(range.from, range.to), docLength),
+		}))
+		.sort((a, b) => a.from - b.from);
+	if (valid.length === 0) return emptyState;
+
+	return {
+		ranges: valid,
+		decorations: Decoration.set(
+			valid
+				.filter((range) => range.to > range.from)
+				.map((range) => lockMark.range(range.from, range.to)),
+			true,
+		),
+	};
+}
+
+const USER_EVENTS = ["input", "delete", "move", "undo", "redo"];
+
+function isUserEdit(tr: Transaction): boolean {
+	return USER_EVENTS.some((event) => tr.isUserEvent(event));
+}
+
+const changeListener = EditorView.updateListener.of((update) => {
+	if (!update.docChanged) return;
+	const handlers = update.state.facet(handlersFacet);
+	if (!handlers) return;
+
+	if (update.transactions.every(isUserEdit)) {
+		const ranges = getParagraphLockRanges(update.state);
+		if (ranges.length > 0) {
+			handlers.onUserEdit(update.view, ranges);
+		}
+		return;
+	}
+	handlers.onExternalEdit(update.view);
+});
+
+/** Lock ranges currently shown in the editor, in document order. */
+export function getParagraphLockRanges(state: EditorState): EditorLockRange[] {
+	return state.field(paragraphLockField, false)?.ranges ?? [];
+}
+
+export function paragraphLockExtension(
+	handlers: ParagraphLockEditorHandlers,
+): Extension {
+	return [paragraphLockField, handlersFacet.of(handlers), changeListener];
+}
@@ -0,0 +1,206 @@
+import type { App } from "obsidian";
+import { MarkdownView, debounce, editorInfoField } from "obsidian";
+import type { EditorView } from "@codemirror/view";
+import type { Extension } from "@codemirror/state";
+import type {
+	ParagraphLock,
+	ParagraphLockMap,
+} from "../../domain/models/paragraph-lock";
+import { locateLock } from "../../shared/paragraph-locks";
+import {
+	getParagraphLockRanges,
+	paragraphLockExtension,
+	setParagraphLocks,
+	type EditorLockRange,
+} from "./paragraph-lock-extension";
+
+export interface ParagraphLockStore {
+	load(): ParagraphLockMap;
+	save(locks: ParagraphLockMap): Promise<void>;
+}
+
+/**
+ * Owns the per-note paragraph locks: keeps them in memory, persists them
+ * through the settings store, and mirrors them as editor decorations.
+ */
+export class ParagraphLockManager {
+	private locks: ParagraphLockMap;
+	private scheduleSave = debounce(() => void this.persist(), 1000, true);
+
+	constructor(
+		private app: App,
+		private store: ParagraphLockStore,
+	) {
+		this.locks = { ...store.load() };
+	}
+
+	/** Editor extension to register once with `registerEditorExtension` */
+	createEditorExtension(): Extension {
+		return paragraphLockExtension({
+			onUserEdit: (view, ranges) => this.syncFromEditor(view, ranges),
+			onExternalEdit: (view) => {
+				// Dispatching from inside an update listener is not allowed
+				window.setTimeout(() => this.refreshEditor(view), 0);
+			},
+		});
+	}
+
+	getLocks(filePath: string): ParagraphLock[] {
+		return this.locks[filePath] ?? [];
+	}
+
+	getAll(): ParagraphLockMap {
+		return this.locks;
+	}
+
+	/**
+	 * Lock `content[from, to)` of a note. Overlapping locks are merged.
+	 * Returns null for an empty range.
+	 */
+	lockRange(
+		filePath: string,
+		content: string,
+		from: number,
+		to: number,
+	): ParagraphLock | null {
+		const existing = this.getLocks(filePath);
+		const overlapping = existing.filter((lock) => {
+			const span = locateLock(content, lock);
+			if (span && span.from <= to && span.to >= from) {
+				from = Math.min(from, span.from);
+				to = Math.max(to, span.to);
+				return true;
+			}
+			return false;
+		});
+		if (to <= from) return null;
+
+		const lock: ParagraphLock = {
+			id: crypto.randomUUID(),
+			text: content.slice(from, to),
+			from,
+			to,
+			createdAt: Date.now(),
+		};
+		this.setLocks(filePath, [
+			...existing.filter((item) => !overlapping.includes(item)),
+			lock,
+		]);
+		this.refreshEditors(filePath);
+		void this.persist();
+		return lock;
+	}
+
+	/** Remove every lock touching `[from, to]`. Returns the number removed. */
+	unlockRange(
+		filePath: string,
+		content: string,
+		from: number,
+		to: number,
+	): number {
+		const existing = this.getLocks(filePath);
+		const remaining = existing.filter((lock) => {
+			const span = locateLock(content, lock);
+			return !span || span.to < from || span.from > to;
+		});
+		const removed = existing.length - remaining.length;
+		if (removed > 0) {
+			this.setLocks(filePath, remaining);
+			this.refreshEditors(filePath);
+			void this.persist();
+		}
+		return removed;
+	}
+
+	renamePath(oldPath: string, newPath: string): void {
+		const locks = this.locks[oldPath];
+		if (!locks) return;
+		this.locks = { ...this.locks, [newPath]: locks };
+		delete this.locks[oldPath];
+		this.refreshEditors(newPath);
+		void this.persist();
+	}
+
+	deletePath(filePath: string): void {
+		if (!this.locks[filePath]) return;
+		this.setLocks(filePath, []);
+		void this.persist();
+	}
+
+	/** Re-locate locks in every open editor showing `filePath` */
+	refreshEditors(filePath?: string): void {
+		for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+			if (!(leaf.view instanceof MarkdownView)) continue;
+			if (filePath && leaf.view.file?.path !== filePath) continue;
+			const cm = (leaf.view.editor as unknown as { cm?: EditorView }).cm;
+			if (cm) this.refreshEditor(cm);
+		}
+	}
+
+	private refreshEditor(view: EditorView): void {
+		const filePath = getFilePath(view);
+		if (!filePath) return;
+		const doc = view.state.doc.toString();
+		const ranges: EditorLockRange[] = [];
+		for (const lock of this.getLocks(filePath)) {
+			const span = locateLock(doc, lock);
+			if (span) ranges.push({ id: lock.id, ...span });
+		}
+		if (
+			ranges.length === 0 &&
+			getParagraphLockRanges(view.state).length === 0
+		) {
+			return;
+		}
+		view.dispatch({ effects: setParagraphLocks.of(ranges) });
+	}
+
+	/**
+	 * Follow the user's own edits: locked passages they rewrite keep their
+	 * lock with the new text, and passages they delete lose it.
+	 */
+	private syncFromEditor(view: EditorView, ranges: EditorLockRange[]): void {
+		const filePath = getFilePath(view);
+		if (!filePath) return;
+
+		let changed = false;
+		const byId = new Map(ranges.map((range) => [range.id, range]));
+		const next: ParagraphLock[] = [];
+		for (const lock of this.getLocks(filePath)) {
+			const range = byId.get(lock.id);
+			if (!range) {
+				next.push(lock);
+				continue;
+			}
+			const text = view.state.doc.sliceString(range.from, range.to);
+			if (!text) {
+				changed = true;
+				continue;
+			}
+			if (text !== lock.text) changed = true;
+			next.push({ ...lock, text, from: range.from, to: range.to });
+		}
+		if (!changed) return;
+		this.setLocks(filePath, next);
+		this.scheduleSave();
+	}
+
+	private setLocks(filePath: string, locks: ParagraphLock[]): void {
+		const next = { ...this.locks };
+		if (locks.length > 0) {
+			next[filePath] = locks;
+		} else {
+			delete next[filePath];
+		}
+		this.locks = next;
+	}
+
+	private async persist(): Promise<void> {
+		this.scheduleSave.cancel();
+		await this.store.save(this.locks);
+	}
+}
+
+function getFilePath(view: EditorView): string | null {
+	return view.state.field(editorInfoField, false)?.file?.path ?? null;
+}
@@ -1,5 +1,9 @@
 import type { SecretStorage } from "obsidian";
-import type { BaseAgentSettings } from "../../domain/models/agent-config";
+import type {
+	BaseAgentSettings,
+	McpServerSettings,
+} from "../../domain/models/agent-config";
+import type { PathScope } from "../../domain/models/path-scope";
 import type { AgentClientPluginSettings } from "../../plugin";
 
 type BuiltInApiKeyAgent = "claude" | "codex" | "gemini";
@@ -67,6 +71,20 @@ function resolveAgentSettingsById(
 	return settings.customAgents.find((agent) => agent.id === agentId) || null;
 }
 
+export function getAgentMcpServerSettings(
+	settings: AgentClientPluginSettings,
+	agentId: string,
+): McpServerSettings[] {
+	return resolveAgentSettingsById(settings, agentId)?.mcpServers ?? [];
+}
+
+export function getAgentPathScope(
+	settings: AgentClientPluginSettings,
+	agentId: string,
+): PathScope | undefined {
+	return resolveAgentSettingsById(settings, agentId)?.pathScope;
+}
+
 export function getSecretBindingEnvForAgentId(
 	secretStorage: SecretStorage,
 	settings: AgentClientPluginSettings,
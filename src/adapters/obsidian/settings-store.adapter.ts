@@ -12,10 +12,15 @@ import type {
 	ChatMessage,
 	MessageContent,
 } from "../../domain/models/chat-message";
-import type { SavedSessionInfo } from "../../domain/models/session-info";
+import type {
+	SavedSessionInfo,
+	SessionLink,
+} from "../../domain/models/session-info";
+import type { SessionSearchResult } from "../../domain/models/session-search";
 import type { ISettingsAccess } from "../../domain/ports/settings-access.port";
 import type AgentClientPlugin from "../../plugin";
 import type { AgentClientPluginSettings } from "../../plugin";
+import { SessionSearchIndex } from "../../shared/session-search";
 import { convertWindowsPathToWsl } from "../../shared/wsl-utils";
 
 /** Listener callback invoked when settings change */
@@ -63,6 +68,9 @@ export class SettingsStore implements ISettingsAccess {
 	/** Lock for session operations to prevent race conditions */
 	private sessionLock: Promise<void> = Promise.resolve();
 
+	/** Search index over session message files, filled on first search */
+	private searchIndex = new SessionSearchIndex();
+
 	/**
 	 * Create a new settings store.
 	 *
@@ -159,8 +167,11 @@ export class SettingsStore implements ISettingsAccess {
 			);
 
 			if (existingIndex >= 0) {
-				// Update existing session
-				sessions[existingIndex] = sessionInfo;
+				// Update existing session, keeping its handoff links
+				sessions[existingIndex] = {
+					...sessions[existingIndex],
+					...sessionInfo,
+				};
 			} else {
 				// Add new session at the beginning
 				sessions.unshift(sessionInfo);
@@ -176,6 +187,26 @@ export class SettingsStore implements ISettingsAccess {
 		await this.sessionLock;
 	}
 
+	/** Link a handed-off session and its continuation in both directions */
+	async linkSessionContinuation(
+		source: SessionLink,
+		continuation: SessionLink,
+	): Promise<void> {
+		this.sessionLock = this.sessionLock.then(async () => {
+			const sessions = (this.state.savedSessions || []).map((s) => {
+				if (s.sessionId === source.sessionId) {
+					return { ...s, continuedIn: continuation };
+				}
+				if (s.sessionId === continuation.sessionId) {
+					return { ...s, continuedFrom: source };
+				}
+				return s;
+			});
+			await this.updateSettings({ savedSessions: sessions });
+		});
+		await this.sessionLock;
+	}
+
 	/**
 	 * Get saved sessions, optionally filtered by agentId and/or cwd.
 	 *
@@ -307,6 +338,7 @@ export class SettingsStore implements ISettingsAccess {
 			filePath,
 			JSON.stringify(data, null, 2),
 		);
+		this.searchIndex.setSession(sessionId, messages);
 	}
 
 	/**
@@ -370,6 +402,32 @@ export class SettingsStore implements ISettingsAccess {
 		if (await adapter.exists(filePath)) {
 			await adapter.remove(filePath);
 		}
+		this.searchIndex.removeSession(sessionId);
+	}
+
+	/**
+	 * Search the saved message history of sessions.
+	 *
+	 * Message files not yet in the index are read first; later saves and
+	 * deletes keep the index current.
+	 *
+	 * @param query - Words to find
+	 * @param agentId - Optional filter by agent ID
+	 * @param cwd - Optional filter by working directory
+	 * @returns Matches grouped by session
+	 */
+	async searchSessions(
+		query: string,
+		agentId?: string,
+		cwd?: string,
+	): Promise<SessionSearchResult[]> {
+		const sessions = this.getSavedSessions(agentId, cwd);
+		for (const session of sessions) {
+			if (this.searchIndex.hasSession(session.sessionId)) continue;
+			const messages = await this.loadSessionMessages(session.sessionId);
+			this.searchIndex.setSession(session.sessionId, messages ?? []);
+		}
+		return this.searchIndex.search(query, sessions);
 	}
 }
 
@@ -0,0 +1,129 @@
+import { getAllTags, TFile } from "obsidian";
+import type AgentClientPlugin from "../../plugin";
+import type {
+	VaultActiveSelection,
+	VaultMcpBackend,
+	VaultNoteMetadata,
+	VaultNoteSummary,
+} from "../mcp/vault-mcp-tools";
+import { tagMatches } from "../mcp/vault-mcp-tools";
+import { NoteMentionService } from "./mention-service";
+import { ObsidianVaultAdapter } from "./vault.adapter";
+
+/**
+ * Answers vault MCP tool calls from Obsidian's metadata cache and the
+ * editor selection tracked by ObsidianVaultAdapter.
+ */
+export class ObsidianVaultMcpBackend implements VaultMcpBackend {
+	private mentionService: NoteMentionService;
+	private vaultAccess: ObsidianVaultAdapter;
+	private unsubscribeSelection: () => void;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.mentionService = new NoteMentionService(plugin);
+		this.vaultAccess = new ObsidianVaultAdapter(plugin, this.mentionService);
+		// Selection is only tracked while someone is subscribed
+		this.unsubscribeSelection = this.vaultAccess.subscribeSelectionChanges(
+			() => {},
+		);
+	}
+
+	destroy(): void {
+		this.unsubscribeSelection();
+		this.mentionService.destroy();
+	}
+
+	searchNotes(query: string): VaultNoteSummary[] {
+		return this.mentionService.searchNotes(query).map((file) => {
+			const aliases = this.getAliases(file);
+			return {
+				path: file.path,
+				name: file.basename,
+				...(aliases.length > 0 ? { aliases } : {}),
+			};
+		});
+	}
+
+	resolveWikilink(link: string, sourcePath: string): string | null {
+		return (
+			this.plugin.app.metadataCache.getFirstLinkpathDest(link, sourcePath)
+				?.path ?? null
+		);
+	}
+
+	getBacklinks(path: string): Array<{ path: string; count: number }> {
+		const backlinks: Array<{ path: string; count: number }> = [];
+		const resolved = this.plugin.app.metadataCache.resolvedLinks;
+		for (const [source, targets] of Object.entries(resolved)) {
+			const count = targets[path];
+			if (count && source !== path) {
+				backlinks.push({ path: source, count });
+			}
+		}
+		return backlinks.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	getNoteMetadata(path: string): VaultNoteMetadata | null {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return null;
+
+		const cache = this.plugin.app.metadataCache.getFileCache(file);
+		const links = [...(cache?.links ?? []), ...(cache?.embeds ?? [])].map(
+			(link) => link.link,
+		);
+		return {
+			path: file.path,
+			frontmatter: cache?.frontmatter ? { ...cache.frontmatter } : null,
+			tags: cache ? Array.from(new Set(getAllTags(cache) ?? [])) : [],
+			headings: (cache?.headings ?? []).map(({ level, heading }) => ({
+				level,
+				heading,
+			})),
+			links: Array.from(new Set(links)),
+		};
+	}
+
+	listNotesByTag(tag: string): string[] {
+		const { metadataCache, vault } = this.plugin.app;
+		return vault
+			.getMarkdownFiles()
+			.filter((file) => {
+				const cache = metadataCache.getFileCache(file);
+				const tags = cache ? (getAllTags(cache) ?? []) : [];
+				return tags.some((candidate) => tagMatches(candidate, tag));
+			})
+			.map((file) => file.path)
+			.sort((a, b) => a.localeCompare(b));
+	}
+
+	async getActiveSelection(): Promise<VaultActiveSelection | null> {
+		const note = await this.vaultAccess.getActiveNote();
+		if (!note) return null;
+		if (!note.selection) {
+			return { path: note.path, fromLine: 0, toLine: 0, text: "" };
+		}
+
+		const { from, to } = note.selection;
+		const lines = (await this.vaultAccess.readNote(note.path)).split("\n");
+		const selected = lines.slice(from.line, to.line + 1);
+		if (selected.length > 0) {
+			// Trim the end first so `to.ch` still indexes the original line
+			const last = selected.length - 1;
+			selected[last] = selected[last].slice(0, to.ch);
+			selected[0] = selected[0].slice(from.ch);
+		}
+		return {
+			path: note.path,
+			fromLine: from.line + 1,
+			toLine: to.line + 1,
+			text: selected.join("\n"),
+		};
+	}
+
+	private getAliases(file: TFile): string[] {
+		const aliases = this.plugin.app.metadataCache.getFileCache(file)
+			?.frontmatter?.aliases as string[] | string | undefined;
+		if (Array.isArray(aliases)) return aliases;
+		return aliases ? [aliases] : [];
+	}
+}
@@ -0,0 +1,154 @@
+import {
+	type App,
+	MarkdownView,
+	TFile,
+	TFolder,
+	normalizePath,
+} from "obsidian";
+import { toRelativePath } from "../../shared/path-utils";
+import { resolveVaultBasePath } from "../../shared/vault-path";
+import { convertWindowsPathToWsl } from "../../shared/wsl-utils";
+
+/**
+ * Text file access for the ACP client `fs/*` capability, backed by the vault.
+ *
+ * Reads prefer the live buffer of an open editor so agents see unsaved
+ * changes. Writes are applied to open editors as a minimal edit (keeping
+ * cursor and undo history) and persisted through the Vault API so
+ * Obsidian's file events fire as for any other edit.
+ */
+export class VaultTextFiles {
+	constructor(
+		private app: App,
+		private isWslMode: () => boolean,
+	) {}
+
+	/**
+	 * Map a path sent by the agent to a vault-relative path.
+	 * Returns null for paths outside the vault.
+	 */
+	toVaultPath(path: string): string | null {
+		const normalized = path.replace(/\\/g, "/");
+		const isAbsolute =
+			normalized.startsWith("/") || /^[A-Za-z]:\//.test(normalized);
+
+		let relative = normalized;
+		if (isAbsolute) {
+			const basePath = resolveVaultBasePath(this.app).replace(/\\/g, "/");
+			const candidates = [basePath];
+			if (this.isWslMode()) {
+				candidates.push(convertWindowsPathToWsl(basePath));
+			}
+			const match = candidates
+				.map((base) => toRelativePath(normalized, base))
+				.find((candidate) => candidate !== normalized);
+			if (match === undefined) return null;
+			relative = match;
+		}
+
+		const segments = relative.split("/").filter((s) => s && s !== ".");
+		if (segments.length === 0 || segments.includes("..")) return null;
+		return normalizePath(segments.join("/").normalize("NFC"));
+	}
+
+	async read(vaultPath: string): Promise<string> {
+		const editorView = this.findOpenEditor(vaultPath);
+		if (editorView) {
+			return editorView.editor.getValue();
+		}
+
+		const file = this.app.vault.getAbstractFileByPath(vaultPath);
+		if (!(file instanceof TFile)) {
+			throw new Error(`File not found: ${vaultPath}`);
+		}
+		return await this.app.vault.read(file);
+	}
+
+	/**
+	 * Write content to a vault file, creating it (and missing parent
+	 * folders) when needed.
+	 *
+	 * @returns The content right before the write, or null for a new file
+	 */
+	async write(vaultPath: string, content: string): Promise<string | null> {
+		const existing = this.app.vault.getAbstractFileByPath(vaultPath);
+		if (existing && !(existing instanceof TFile)) {
+			throw new Error(`Path is a folder: ${vaultPath}`);
+		}
+
+		if (!existing) {
+			await this.ensureParentFolder(vaultPath);
+			await this.app.vault.create(vaultPath, content);
+			return null;
+		}
+
+		const previous = await this.read(vaultPath);
+		const editorView = this.findOpenEditor(vaultPath);
+		if (editorView) {
+			applyMinimalEdit(editorView, previous, content);
+		}
+		await this.app.vault.modify(existing, content);
+		return previous;
+	}
+
+	private async ensureParentFolder(vaultPath: string): Promise<void> {
+		const slash = vaultPath.lastIndexOf("/");
+		if (slash <= 0) return;
+
+		const folderPath = vaultPath.slice(0, slash);
+		const folder = this.app.vault.getAbstractFileByPath(folderPath);
+		if (folder instanceof TFolder) return;
+		if (folder) {
+			throw new Error(`Path is a file: ${folderPath}`);
+		}
+		await this.app.vault.createFolder(folderPath);
+	}
+
+	private findOpenEditor(vaultPath: string): MarkdownView | null {
+		for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+			if (
+				leaf.view instanceof MarkdownView &&
+				leaf.view.file?.path === vaultPath
+			) {
+				return leaf.view;
+			}
+		}
+		return null;
+	}
+}
+
+/**
+ * Replace only the changed middle span so the editor keeps the cursor
+ * position and records a single undoable change.
+ */
+function applyMinimalEdit(
+	view: MarkdownView,
+	previous: string,
+	next: string,
+): void {
+	if (previous === next) return;
+
+	let start = 0;
+	const maxStart = Math.min(previous.length, next.length);
+	while (start < maxStart && previous[start] === next[start]) {
+		start++;
+	}
+
+	let prevEnd = previous.length;
+	let nextEnd = next.length;
+	while (
+		prevEnd > start &&
+		nextEnd > start &&
+		previous[prevEnd - 1] === next[nextEnd - 1]
+	) {
+		prevEnd--;
+		nextEnd--;
+	}
+
+	const editor = view.editor;
+	editor.replaceRange(
+		next.slice(start, nextEnd),
+		editor.offsetToPos(start),
+		editor.offsetToPos(prevEnd),
+	);
+}
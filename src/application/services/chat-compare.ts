@@ -0,0 +1,192 @@
+/**
+ * Comparison of one prompt answered by several agents.
+ *
+ * Every target gets its own tab and session, so each agent prepares the
+ * prompt with its own capabilities. The comparison only tracks the runs:
+ * when the prompt went out, when the answer was complete, the answer text
+ * and the context usage the agent last reported.
+ */
+
+import type { ChatInputState } from "../../domain/models/chat-input-state";
+import type { ChatMessage } from "../../domain/models/chat-message";
+
+/** Agent, optionally pinned to one of its models, that answers the prompt */
+export interface CompareTarget {
+	agentId: string;
+	model?: string;
+	label: string;
+}
+
+export interface CompareUsage {
+	used: number;
+	size: number;
+}
+
+/**
+ * - queued: waiting for the tab's session to accept the prompt
+ * - running: prompt sent, answer streaming
+ * - done / failed: the turn ended
+ */
+export type CompareRunStatus = "queued" | "running" | "done" | "failed";
+
+export interface CompareRun {
+	tabId: string;
+	target: CompareTarget;
+	status: CompareRunStatus;
+	sentAt: number | null;
+	finishedAt: number | null;
+	answer: string | null;
+	usage: CompareUsage | null;
+}
+
+export interface ChatComparison {
+	prompt: ChatInputState;
+	runs: CompareRun[];
+}
+
+/** What a tab reports when its turn ends */
+export interface CompareReply {
+	answer: string | null;
+	usage: CompareUsage | null;
+	failed: boolean;
+}
+
+export function createComparison(
+	prompt: ChatInputState,
+	runs: Array<{ tabId: string; target: CompareTarget }>,
+): ChatComparison {
+	return {
+		prompt,
+		runs: runs.map(({ tabId, target }) => ({
+			tabId,
+			target,
+			status: "queued",
+			sentAt: null,
+			finishedAt: null,
+			answer: null,
+			usage: null,
+		})),
+	};
+}
+
+function updateRun(
+	comparison: ChatComparison,
+	tabId: string,
+	update: (run: CompareRun) => CompareRun,
+): ChatComparison {
+	let changed = false;
+	const runs = comparison.runs.map((run) => {
+		if (run.tabId !== tabId) return run;
+		const next = update(run);
+		if (next !== run) changed = true;
+		return next;
+	});
+	return changed ? { ...comparison, runs } : comparison;
+}
+
+export function markRunSent(
+	comparison: ChatComparison,
+	tabId: string,
+	now: number,
+): ChatComparison {
+	return updateRun(comparison, tabId, (run) =>
+		run.status === "queued" ? { ...run, status: "running", sentAt: now } : run,
+	);
+}
+
+/** Later turns in the same tab are not part of the comparison */
+export function markRunFinished(
+	comparison: ChatComparison,
+	tabId: string,
+	reply: CompareReply,
+	now: number,
+): ChatComparison {
+	return updateRun(comparison, tabId, (run) =>
+		run.status === "running"
+			? {
+					...run,
+					status: reply.failed ? "failed" : "done",
+					finishedAt: now,
+					answer: reply.answer,
+					usage: reply.usage ?? run.usage,
+				}
+			: run,
+	);
+}
+
+/** Usage can arrive after the turn ended, so updates count once the prompt is sent */
+export function updateRunUsage(
+	comparison: ChatComparison,
+	tabId: string,
+	usage: CompareUsage,
+): ChatComparison {
+	return updateRun(comparison, tabId, (run) =>
+		run.status === "queued" ||
+		(run.usage?.used === usage.used && run.usage?.size === usage.size)
+			? run
+			: { ...run, usage },
+	);
+}
+
+/** Drop runs whose tab was closed; null when no run is left */
+export function retainRuns(
+	comparison: ChatComparison,
+	openTabIds: ReadonlySet<string>,
+): ChatComparison | null {
+	const runs = comparison.runs.filter((run) => openTabIds.has(run.tabId));
+	if (runs.length === comparison.runs.length) return comparison;
+	return runs.length > 0 ? { ...comparison, runs } : null;
+}
+
+export function runLatency(run: CompareRun): number | null {
+	return run.sentAt !== null && run.finishedAt !== null
+		? run.finishedAt - run.sentAt
+		: null;
+}
+
+export function formatLatency(ms: number): string {
+	if (ms < 1000) return `${Math.round(ms)} ms`;
+	const seconds = ms / 1000;
+	if (seconds < 60) return `${seconds.toFixed(1)} s`;
+	const minutes = Math.floor(seconds / 60);
+	return `${minutes} min ${Math.round(seconds - minutes * 60)} s`;
+}
+
+/** Agent text written after the last user message */
+export function latestAnswer(messages: ChatMessage[]): string | null {
+	const parts: string[] = [];
+	for (let i = messages.length - 1; i >= 0; i--) {
+		const message = messages[i];
+		if (message.role === "user") break;
+		const text = message.content
+			.flatMap((content) =>
+				content.type === "text" && content.text.trim()
+					? [content.text.trim()]
+					: [],
+			)
+			.join("\n\n");
+		if (text) parts.unshift(text);
+	}
+	return parts.length > 0 ? parts.join("\n\n") : null;
+}
+
+/**
+ * Targets to choose from: every agent with its default model, plus the
+ * models the current agent offers
+ */
+export function buildCompareTargets(
+	agents: Array<{ id: string; displayName: string }>,
+	currentAgentId: string,
+	currentModels: Array<{ modelId: string; name: string }>,
+): CompareTarget[] {
+	return agents.flatMap((agent) => [
+		{ agentId: agent.id, label: agent.displayName },
+		...(agent.id === currentAgentId
+			? currentModels.map((model) => ({
+					agentId: agent.id,
+					model: model.modelId,
+					label: `${agent.displayName} · ${model.name}`,
+				}))
+			: []),
+	]);
+}
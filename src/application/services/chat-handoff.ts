@@ -0,0 +1,157 @@
+/**
+ * Handoff of a conversation to another agent.
+ *
+ * The new agent starts without the previous session's context, so the
+ * conversation is condensed into a structured prompt: the original goal,
+ * what was asked and answered, files touched and plan entries still open.
+ */
+
+import type { ChatMessage, PlanEntry } from "../../domain/models/chat-message";
+import type { SessionLink } from "../../domain/models/session-info";
+import { discoverModifiedFiles } from "./session-restore";
+
+/** A conversation ready to be continued by another agent */
+export interface ChatHandoff {
+	/** Prompt that opens the continuation session */
+	prompt: string;
+	/** Session the conversation is handed off from */
+	source: SessionLink;
+}
+
+export interface HandoffPromptOptions {
+	messages: ChatMessage[];
+	/** Display name of the agent that handled the conversation so far */
+	sourceAgentName: string;
+	/** Vault root, used to turn tool paths into vault paths */
+	vaultBasePath?: string;
+}
+
+/** Turns listed in full; earlier ones are only counted */
+const MAX_TURNS = 10;
+const MAX_GOAL_CHARS = 1500;
+const MAX_REQUEST_CHARS = 300;
+const MAX_OUTCOME_CHARS = 400;
+const MAX_LATEST_CHARS = 2000;
+
+interface HandoffTurn {
+	request: string;
+	outcome: string | null;
+}
+
+function truncate(text: string, maxChars: number): string {
+	const trimmed = text.trim();
+	if (trimmed.length <= maxChars) return trimmed;
+	return `${trimmed.slice(0, maxChars).trimEnd()}…`;
+}
+
+/** Text of a message on a single line */
+function singleLine(text: string): string {
+	return text.replace(/\s+/g, " ").trim();
+}
+
+function messageText(message: ChatMessage): string {
+	return message.content
+		.flatMap((content) =>
+			content.type === "text" || content.type === "text_with_context"
+				? [content.text]
+				: [],
+		)
+		.join("\n")
+		.trim();
+}
+
+/** User requests paired with the last text the agent replied with */
+function collectTurns(messages: ChatMessage[]): HandoffTurn[] {
+	const turns: HandoffTurn[] = [];
+	for (const message of messages) {
+		const text = messageText(message);
+		if (message.role === "user") {
+			if (text) turns.push({ request: text, outcome: null });
+		} else if (text && turns.length > 0) {
+			turns[turns.length - 1].outcome = text;
+		}
+	}
+	return turns;
+}
+
+/** Entries of the latest plan that are not completed */
+function findOpenPlanEntries(messages: ChatMessage[]): PlanEntry[] {
+	for (let i = messages.length - 1; i >= 0; i--) {
+		const contents = messages[i].content;
+		for (let j = contents.length - 1; j >= 0; j--) {
+			const content = contents[j];
+			if (content.type === "plan") {
+				return content.entries.filter((entry) => entry.status !== "completed");
+			}
+		}
+	}
+	return [];
+}
+
+function renderTurns(turns: HandoffTurn[], sourceAgentName: string): string[] {
+	const shown = turns.slice(-MAX_TURNS);
+	const lines: string[] = [];
+	if (turns.length > shown.length) {
+		lines.push(`(${turns.length - shown.length} earlier requests omitted)`);
+	}
+	shown.forEach((turn, index) => {
+		lines.push(
+			`${index + 1}. User: ${truncate(singleLine(turn.request), MAX_REQUEST_CHARS)}`,
+		);
+		if (turn.outcome) {
+			lines.push(
+				`   ${sourceAgentName}: ${truncate(singleLine(turn.outcome), MAX_OUTCOME_CHARS)}`,
+			);
+		}
+	});
+	return lines;
+}
+
+/**
+ * Build the prompt that opens the continuation session.
+ * Returns null when the conversation has no user request yet.
+ */
+export function buildHandoffPrompt({
+	messages,
+	sourceAgentName,
+	vaultBasePath,
+}: HandoffPromptOptions): string | null {
+	const turns = collectTurns(messages);
+	if (turns.length === 0) return null;
+
+	const sections: string[] = [
+		`You are taking over a conversation that I had with ${sourceAgentName}. ` +
+			"Below is a summary of it. Continue from where it stopped.",
+		`## Goal\n\n${truncate(turns[0].request, MAX_GOAL_CHARS)}`,
+		`## Requests and outcomes\n\n${renderTurns(turns, sourceAgentName).join("\n")}`,
+	];
+
+	const latest = turns[turns.length - 1].outcome;
+	if (latest) {
+		sections.push(`## Latest state\n\n${truncate(latest, MAX_LATEST_CHARS)}`);
+	}
+
+	const files = discoverModifiedFiles(messages, vaultBasePath);
+	if (files.length > 0) {
+		const lines = files.map(
+			(file) => `- ${file.vaultPath}${file.wasDeleted ? " (deleted)" : ""}`,
+		);
+		sections.push(`## Files touched\n\n${lines.join("\n")}`);
+	}
+
+	const openEntries = findOpenPlanEntries(messages);
+	if (openEntries.length > 0) {
+		const lines = openEntries.map(
+			(entry) =>
+				`- [ ] ${singleLine(entry.content)}${entry.status === "in_progress" ? " (in progress)" : ""}`,
+		);
+		sections.push(`## Open plan entries\n\n${lines.join("\n")}`);
+	}
+
+	sections.push(
+		"Read the files above before changing them, as they may have been " +
+			"edited since. Then continue with the open work, or ask me what to " +
+			"do next if it is unclear.",
+	);
+	return sections.join("\n\n");
+}
@@ -8,5 +8,7 @@ export type {
 	FileChange,
 	SessionChangeSet,
 } from "./session-file-restoration";
+export { findLockRestorations } from "./lock-enforcement";
+export type { LockRestoration } from "./lock-enforcement";
 export { SnapshotManager } from "./snapshot-manager";
 export type { FileIo, RevertResult } from "./snapshot-manager";
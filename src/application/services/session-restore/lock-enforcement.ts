@@ -0,0 +1,48 @@
+import type { ParagraphLock } from "../../../domain/models/paragraph-lock";
+import { restoreLockedSpans } from "../../../shared/paragraph-locks";
+import type { FileChange } from "./session-file-restoration";
+
+export interface LockRestoration {
+	/** FileChange.path of the offending change */
+	path: string;
+	vaultPath: string;
+	/** File content with the locked passages put back */
+	restoredText: string;
+	restoredLocks: ParagraphLock[];
+}
+
+/**
+ * Find agent changes that touched locked passages and compute the file
+ * content with only those spans reverted. Deleted and new files are left
+ * alone: there is no surrounding text to restore the passage into.
+ */
+export function findLockRestorations(
+	changes: FileChange[],
+	getLocks: (vaultPath: string) => ParagraphLock[],
+): LockRestoration[] {
+	const restorations: LockRestoration[] = [];
+
+	for (const change of changes) {
+		if (!change.vaultPath || change.isDeleted || change.isNewFile) continue;
+		if (change.originalText === null) continue;
+
+		const locks = getLocks(change.vaultPath);
+		if (locks.length === 0) continue;
+
+		const result = restoreLockedSpans(
+			change.originalText,
+			change.finalText,
+			locks,
+		);
+		if (!result) continue;
+
+		restorations.push({
+			path: change.path,
+			vaultPath: change.vaultPath,
+			restoredText: result.text,
+			restoredLocks: result.restored,
+		});
+	}
+
+	return restorations;
+}
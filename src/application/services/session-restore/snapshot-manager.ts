@@ -152,6 +152,37 @@ export class SnapshotManager {
 		}
 	}
 
+	/**
+	 * Record a write made through the client `fs/write_text_file` capability.
+	 *
+	 * The pre-write content is exact, so it becomes the baseline on first
+	 * sighting. A disk snapshot that was taken after the write (it already
+	 * equals the written content) is replaced by the pre-write content.
+	 *
+	 * @returns The baseline content for the path (null for new files)
+	 */
+	recordWrite(
+		vaultPath: string,
+		rawPath: string,
+		previousContent: string | null,
+		content: string,
+	): string | null {
+		const existing = this.originals.get(vaultPath);
+		if (existing && (existing.fromDiff || existing.content !== content)) {
+			return existing.content;
+		}
+
+		this.originals.set(vaultPath, {
+			content: previousContent,
+			isNew: previousContent === null,
+			wasDeletedByAgent: existing?.wasDeletedByAgent ?? false,
+			rawPath: existing?.rawPath ?? rawPath,
+			fromDiff: true,
+			baselineAdvanced: false,
+		});
+		return previousContent;
+	}
+
 	/**
 	 * Build the visible change set by comparing every captured snapshot with
 	 * the current file content on disk. Files whose content hasn't changed are
@@ -274,6 +305,21 @@ export class SnapshotManager {
 		this.preRevertBackups.clear();
 	}
 
+	/** Replace the baseline of a tracked file after inline hunks resolve. */
+	setBaseline(vaultPath: string, content: string): boolean {
+		const existing = this.originals.get(vaultPath);
+		if (!existing) return false;
+
+		this.originals.set(vaultPath, {
+			...existing,
+			content,
+			isNew: false,
+			fromDiff: true,
+			baselineAdvanced: true,
+		});
+		return true;
+	}
+
 	async undoRevert(
 		io: Pick<FileIo, "writeFile" | "deleteFile">,
 	): Promise<void> {
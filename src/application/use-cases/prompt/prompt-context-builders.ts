@@ -10,6 +10,8 @@ import type {
 import { convertWindowsPathToWsl } from "../../../shared/wsl-utils";
 import { buildFileUri } from "../../../shared/path-utils";
 import type { ChatContextReference } from "../../../shared/chat-context-token";
+import type { ParagraphLockMap } from "../../../domain/models/paragraph-lock";
+import { getSpanLineRange, locateLock } from "../../../shared/paragraph-locks";
 import {
 	getImageMimeTypeForExtension,
 	getPathExtension,
@@ -401,3 +403,44 @@ This is what the user is currently focusing on.
 
 	return `<obsidian_opened_note>The user opened the note ${absolutePath} in Obsidian. This may or may not be related to the current conversation. If it seems relevant, consider using the Read tool to examine the content.</obsidian_opened_note>`;
 }
+
+/**
+ * Describe the user's locked passages in the given notes as hard
+ * constraints. Locks whose text can no longer be found are skipped.
+ */
+export async function buildLockedRangeConstraints(
+	notePaths: string[],
+	locks: ParagraphLockMap,
+	vaultPath: string,
+	vaultAccess: IVaultAccess,
+	convertToWsl: boolean,
+): Promise<string | null> {
+	const blocks: string[] = [];
+
+	for (const notePath of new Set(notePaths)) {
+		const noteLocks = locks[notePath];
+		if (!noteLocks || noteLocks.length === 0) continue;
+
+		let content: string;
+		try {
+			content = await vaultAccess.readNote(notePath);
+		} catch {
+			continue;
+		}
+		const absolutePath = buildAbsolutePath(vaultPath, notePath, convertToWsl);
+		for (const lock of noteLocks) {
+			const span = locateLock(content, lock);
+			if (!span) continue;
+			const { fromLine, toLine } = getSpanLineRange(content, span);
+			blocks.push(
+				`<locked_passage ref="${absolutePath}" lines="${fromLine}-${toLine}">\n${lock.text}\n</locked_passage>`,
+			);
+		}
+	}
+
+	if (blocks.length === 0) return null;
+	return `<obsidian_locked_passages>
+The user locked the following passages. Do not modify, move, or delete them; keep them exactly as written. Edits that touch them are reverted automatically.
+${blocks.join("\n")}
+</obsidian_locked_passages>`;
+}
@@ -25,6 +25,7 @@ import {
 	buildManualContextPromptContent,
 	buildAutoMentionResource,
 	buildAutoMentionTextContext,
+	buildLockedRangeConstraints,
 } from "./prompt-context-builders";
 
 function bytesToBase64(bytes: Uint8Array): string {
@@ -38,6 +39,35 @@ function bytesToBase64(bytes: Uint8Array): string {
 
 	return btoa(binary);
 }
+
+/** Locked-passage constraints for every note this prompt puts in context */
+async function buildLockConstraints(
+	input: PreparePromptInput,
+	vaultAccess: IVaultAccess,
+	mentionedNotes: Array<{ file: { path: string } | undefined }>,
+	contextReferences: ChatContextReference[],
+): Promise<string | null> {
+	if (!input.paragraphLocks) return null;
+
+	const notePaths = mentionedNotes.flatMap(({ file }) =>
+		file ? [file.path] : [],
+	);
+	for (const reference of contextReferences) {
+		if (reference.type !== "folder") notePaths.push(reference.notePath);
+	}
+	if (input.activeNote && !input.isAutoMentionDisabled) {
+		notePaths.push(input.activeNote.path);
+	}
+
+	return buildLockedRangeConstraints(
+		notePaths,
+		input.paragraphLocks,
+		input.vaultBasePath,
+		vaultAccess,
+		input.convertToWsl ?? false,
+	);
+}
+
 export async function preparePrompt(
 	input: PreparePromptInput,
 	vaultAccess: IVaultAccess,
@@ -159,6 +189,13 @@ async function preparePromptWithEmbeddedContext(
 		autoMentionBlocks.push(...autoMentionResource);
 	}
 
+	const lockConstraints = await buildLockConstraints(
+		input,
+		vaultAccess,
+		mentionedNotes,
+		contextReferences,
+	);
+
 	const displayContent: PromptContent[] = [
 		...(userMessage ? [{ type: "text" as const, text: userMessage }] : []),
 		...(input.images || []),
@@ -175,6 +212,9 @@ async function preparePromptWithEmbeddedContext(
 		...resourceBlocks,
 		...contextBlocks.embedded,
 		...autoMentionBlocks,
+		...(lockConstraints
+			? [{ type: "text" as const, text: lockConstraints }]
+			: []),
 		...(userMessage || autoMentionPrefix
 			? [{ type: "text" as const, text: autoMentionPrefix + userMessage }]
 			: []),
@@ -289,6 +329,16 @@ async function preparePromptWithTextContext(
 		contextBlocks.push(autoMentionContextBlock);
 	}
 
+	const lockConstraints = await buildLockConstraints(
+		input,
+		vaultAccess,
+		mentionedNotes,
+		contextReferences,
+	);
+	if (lockConstraints) {
+		contextBlocks.push(lockConstraints);
+	}
+
 	const autoMentionPrefix =
 		input.activeNote && !input.isAutoMentionDisabled
 			? input.activeNote.selection
@@ -27,6 +27,7 @@ export async function sendPreparedPrompt(
 			input.agentContent,
 			input.displayContent,
 			input.authMethods,
+			input.preferredAuthMethodId,
 			agentClient,
 		);
 	}
@@ -38,6 +39,7 @@ async function handleSendError(
 	agentContent: PromptContent[],
 	displayContent: PromptContent[],
 	authMethods: AuthenticationMethod[],
+	preferredAuthMethodId: string | undefined,
 	agentClient: IAgentClient,
 ): Promise<SendPromptResult> {
 	if (isEmptyResponseError(error)) {
@@ -51,12 +53,20 @@ async function handleSendError(
 	const errorCode = extractErrorCode(error);
 	if (errorCode === AcpErrorCode.AUTHENTICATION_REQUIRED) {
 		if (authMethods && authMethods.length > 0) {
-			if (authMethods.length === 1) {
+			// Sign in again without asking when the method is known
+			const retryMethodId = authMethods.some(
+				(method) => method.id === preferredAuthMethodId,
+			)
+				? preferredAuthMethodId
+				: authMethods.length === 1
+					? authMethods[0].id
+					: undefined;
+			if (retryMethodId) {
 				const retryResult = await retryWithAuthentication(
 					sessionId,
 					agentContent,
 					displayContent,
-					authMethods[0].id,
+					retryMethodId,
 					agentClient,
 				);
 				if (retryResult) {
@@ -90,8 +100,8 @@ async function retryWithAuthentication(
 	agentClient: IAgentClient,
 ): Promise<SendPromptResult | null> {
 	try {
-		const authSuccess = await agentClient.authenticate(authMethodId);
-		if (!authSuccess) {
+		const authResult = await agentClient.authenticate(authMethodId);
+		if (!authResult.success) {
 			return null;
 		}
 
@@ -1,6 +1,7 @@
 import type { AcpError } from "../../../domain/models/agent-error";
 import type { NoteMetadata } from "../../../domain/ports/vault-access.port";
 import type { AuthenticationMethod } from "../../../domain/models/chat-session";
+import type { ParagraphLockMap } from "../../../domain/models/paragraph-lock";
 import type {
 	PromptContent,
 	ImagePromptContent,
@@ -17,6 +18,8 @@ export interface PreparePromptInput {
 	supportsImage?: boolean;
 	maxNoteLength?: number;
 	maxSelectionLength?: number;
+	/** Locked passages per note, sent as constraints for notes in context */
+	paragraphLocks?: ParagraphLockMap;
 }
 
 export interface PreparePromptResult {
@@ -37,6 +40,8 @@ export interface SendPreparedPromptInput {
 	agentContent: PromptContent[];
 	displayContent: PromptContent[];
 	authMethods: AuthenticationMethod[];
+	/** Auth method the user signed in with last time, tried first on retry */
+	preferredAuthMethodId?: string;
 }
 
 export interface SendPromptResult {
@@ -0,0 +1,97 @@
+import * as React from "react";
+const { useState } = React;
+import type { AuthenticationPrompt } from "../../hooks/agent-session/types";
+import type { SessionErrorInfo } from "../../hooks/useAgentSession";
+
+interface AgentLoginPanelProps extends AuthenticationPrompt {
+	/** Display name of the agent asking for the sign-in */
+	agentLabel: string;
+}
+
+/**
+ * Sign-in shown in place of the empty chat while the agent refuses to
+ * start a session, or below the messages when it asks mid-conversation.
+ * Lists the agent's auth methods, preselecting the one used last time,
+ * and runs the chosen one.
+ */
+export function AgentLoginPanel({
+	agentLabel,
+	methods,
+	preferredMethodId,
+	signIn,
+}: AgentLoginPanelProps) {
+	const [selectedId, setSelectedId] = useState(
+		preferredMethodId ?? methods[0]?.id ?? "",
+	);
+	const [isSigningIn, setIsSigningIn] = useState(false);
+	const [error, setError] = useState<SessionErrorInfo | null>(null);
+
+	const handleSignIn = async () => {
+		setIsSigningIn(true);
+		setError(null);
+		try {
+			const failure = await signIn(selectedId);
+			if (failure) setError(failure);
+		} finally {
+			setIsSigningIn(false);
+		}
+	};
+
+	return (
+		<div className="obsius-agent-login">
+			<div className="obsius-agent-login-title">Sign in to {agentLabel}</div>
+			<div className="obsius-agent-login-hint">
+				{agentLabel} needs you to sign in before it can go on.
+			</div>
+			<div
+				className="obsius-agent-login-methods"
+				role="radiogroup"
+				aria-label="Sign-in method"
+			>
+				{methods.map((method) => (
+					<label key={method.id} className="obsius-agent-login-method">
+						<input
+							type="radio"
+							name="obsius-agent-login-method"
+							value={method.id}
+							checked={method.id === selectedId}
+							disabled={isSigningIn}
+							onChange={() => setSelectedId(method.id)}
+						/>
+						<span className="obsius-agent-login-method-name">
+							{method.name}
+						</span>
+						{method.description && (
+							<span className="obsius-agent-login-method-description">
+								{method.description}
+							</span>
+						)}
+					</label>
+				))}
+			</div>
+			<button
+				className="mod-cta"
+				disabled={isSigningIn || !selectedId}
+				onClick={() => void handleSignIn()}
+			>
+				{isSigningIn ? "Signing in..." : "Sign in"}
+			</button>
+			{isSigningIn && (
+				<div className="obsius-agent-login-progress">
+					Finish any steps in the browser window or terminal the agent opened.
+				</div>
+			)}
+			{error && (
+				<div className="obsius-agent-login-error" role="alert">
+					<div className="obsius-agent-login-error-title">{error.title}</div>
+					<div>{error.message}</div>
+					{error.suggestion && (
+						<div className="obsius-agent-login-error-suggestion">
+							{error.suggestion}
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
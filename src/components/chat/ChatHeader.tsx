@@ -2,6 +2,7 @@ import * as React from "react";
 
 const { useMemo, useCallback, useEffect } = React;
 
+import { Menu } from "obsidian";
 import {
 	SelectorButton,
 	type SelectorOption,
@@ -23,6 +24,11 @@ export interface ChatHeaderProps {
 	currentAgentId: string;
 	isUpdateAvailable: boolean;
 	onAgentChange: (agentId: string) => void;
+	/** Continue the active conversation with another agent in a new tab */
+	onHandOff?: (agentId: string) => void;
+	/** Send one prompt to several agents, or show the running comparison */
+	onCompare?: () => void;
+	isComparing?: boolean;
 	onNewTab: () => void;
 	onNewSession: () => void;
 	onOpenSettings: () => void;
@@ -34,6 +40,11 @@ export interface ChatHeaderProps {
 	canCloseTab: boolean;
 	onTabClick: (tabId: string) => void;
 	onTabClose: (tabId: string) => void;
+	onTabRename?: (tabId: string) => void;
+	onTabTogglePin?: (tabId: string) => void;
+	/** Embedded views can be folded down to their header */
+	isCollapsed?: boolean;
+	onToggleCollapse?: () => void;
 }
 
 export function ChatHeader({
@@ -42,6 +53,9 @@ export function ChatHeader({
 	currentAgentId,
 	isUpdateAvailable,
 	onAgentChange,
+	onHandOff,
+	onCompare,
+	isComparing,
 	onNewTab,
 	onNewSession,
 	onOpenSettings,
@@ -53,6 +67,10 @@ export function ChatHeader({
 	canCloseTab,
 	onTabClick,
 	onTabClose,
+	onTabRename,
+	onTabTogglePin,
+	isCollapsed,
+	onToggleCollapse,
 }: ChatHeaderProps) {
 	const hasMultipleAgents = availableAgents.length > 1;
 
@@ -91,6 +109,24 @@ export function ChatHeader({
 		[currentAgentId, onAgentChange],
 	);
 
+	const handleHandOffClick = useCallback(
+		(event: React.MouseEvent<HTMLButtonElement>) => {
+			if (!onHandOff) return;
+			const menu = new Menu();
+			for (const agent of availableAgents) {
+				if (agent.id === currentAgentId) continue;
+				menu.addItem((item) =>
+					item
+						.setTitle(agent.displayName)
+						.setIcon(getAgentFallbackIcon(agent.id, agent.displayName))
+						.onClick(() => onHandOff(agent.id)),
+				);
+			}
+			menu.showAtMouseEvent(event.nativeEvent);
+		},
+		[availableAgents, currentAgentId, onHandOff],
+	);
+
 	const currentOption = useMemo(
 		() => agentOptions.find((a) => a.id === currentAgentId),
 		[agentOptions, currentAgentId],
@@ -125,14 +161,18 @@ export function ChatHeader({
 				)}
 			</div>
 
-			<TabBar
-				tabs={tabs}
-				activeTabId={activeTabId}
-				completedTabIds={completedTabIds}
-				onTabClick={onTabClick}
-				onTabClose={onTabClose}
-				canCloseTab={canCloseTab}
-			/>
+			{tabs.length > 0 && (
+				<TabBar
+					tabs={tabs}
+					activeTabId={activeTabId}
+					completedTabIds={completedTabIds}
+					onTabClick={onTabClick}
+					onTabClose={onTabClose}
+					canCloseTab={canCloseTab}
+					onTabRename={onTabRename}
+					onTabTogglePin={onTabTogglePin}
+				/>
+			)}
 
 			{isUpdateAvailable && (
 				<span className="obsius-chat-view-header-update">Update</span>
@@ -151,6 +191,20 @@ export function ChatHeader({
 					tooltip="New session"
 					onClick={onNewSession}
 				/>
+				{onHandOff && hasMultipleAgents && (
+					<HeaderButton
+						iconName="forward"
+						tooltip="Hand off to…"
+						onClick={handleHandOffClick}
+					/>
+				)}
+				{onCompare && (
+					<HeaderButton
+						iconName="columns-2"
+						tooltip={isComparing ? "Show comparison" : "Compare answers"}
+						onClick={onCompare}
+					/>
+				)}
 				{onOpenHistory && (
 					<HeaderButton
 						iconName="history"
@@ -164,6 +218,14 @@ export function ChatHeader({
 					tooltip="Plugin settings"
 					onClick={onOpenSettings}
 				/>
+				{onToggleCollapse && (
+					<HeaderButton
+						iconName={isCollapsed ? "chevron-down" : "chevron-up"}
+						tooltip={isCollapsed ? "Expand chat" : "Collapse chat"}
+						onClick={onToggleCollapse}
+						ariaExpanded={!isCollapsed}
+					/>
+				)}
 			</div>
 		</div>
 	);
@@ -13,6 +13,7 @@ import type { ImagePromptContent } from "../../domain/models/prompt-content";
 import type { UseMentionsReturn } from "../../hooks/useMentions";
 import type { UseSlashCommandsReturn } from "../../hooks/useSlashCommands";
 import type { UseAutoMentionReturn } from "../../hooks/useAutoMention";
+import type { UsePromptQueueReturn } from "../../hooks/usePromptQueue";
 import type { ChatMessage } from "../../domain/models/chat-message";
 import type { IVaultAccess } from "../../domain/ports/vault-access.port";
 import { UnifiedPickerPanel } from "../picker/UnifiedPickerPanel";
@@ -32,6 +33,7 @@ import type { ErrorInfo } from "../../domain/models/agent-error";
 import { useSettings } from "../../hooks/useSettings";
 import type { ChatContextReference } from "../../shared/chat-context-token";
 import { ContextBadgeStrip, type ContextBadgeItem } from "./ContextBadgeStrip";
+import { PromptQueueStrip } from "./PromptQueueStrip";
 
 export interface ChatInputProps {
 	isSending: boolean;
@@ -66,6 +68,8 @@ export interface ChatInputProps {
 	messages: ChatMessage[];
 	vaultAccess: IVaultAccess;
 	contextUsage?: ContextUsage | null;
+	/** Prompts typed while the agent answers; without it the input only stops */
+	promptQueue?: UsePromptQueueReturn;
 }
 
 export function ChatInput({
@@ -98,6 +102,7 @@ export function ChatInput({
 	messages,
 	vaultAccess,
 	contextUsage,
+	promptQueue,
 }: ChatInputProps) {
 	const settings = useSettings(plugin);
 
@@ -196,6 +201,26 @@ export function ChatInput({
 		resetHistory,
 	]);
 
+	const handleQueue = useCallback(() => {
+		if (!promptQueue) return;
+		if (!inputValue.trim() && attachedImages.length === 0) return;
+
+		promptQueue.enqueue({ text: inputValue, images: attachedImages });
+		onInputChange("");
+		richTextareaRef.current?.clear();
+		onAttachedImagesChange([]);
+		setHintText(null);
+		setCommandText("");
+		resetHistory();
+	}, [
+		promptQueue,
+		inputValue,
+		attachedImages,
+		onInputChange,
+		onAttachedImagesChange,
+		resetHistory,
+	]);
+
 	const isButtonDisabled =
 		!isSending &&
 		((inputValue.trim() === "" && attachedImages.length === 0) ||
@@ -222,6 +247,7 @@ export function ChatInput({
 		isSending,
 		isButtonDisabled,
 		handleSendOrStop,
+		handleQueue: promptQueue ? handleQueue : undefined,
 	});
 
 	useEffect(() => {
@@ -273,7 +299,10 @@ export function ChatInput({
 	const showAutoMention =
 		autoMention.activeNote !== null && !autoMention.isDisabled;
 
-	const placeholder = `Message ${agentLabel} - @ to mention notes${availableCommands.length > 0 ? ", / for commands" : ""}`;
+	const placeholder =
+		isSending && promptQueue
+			? `Queue a follow-up for ${agentLabel}`
+			: `Message ${agentLabel} - @ to mention notes${availableCommands.length > 0 ? ", / for commands" : ""}`;
 
 	const handleContextBadgeClick = useCallback(
 		(reference: ChatContextReference) => {
@@ -346,6 +375,8 @@ export function ChatInput({
 				<UnifiedPickerPanel picker={commandPicker} mode="command" />
 			)}
 
+			{promptQueue && <PromptQueueStrip queue={promptQueue} />}
+
 			<div
 				className={`obsius-chat-input-box ${isDraggingOver ? "obsius-dragging-over" : ""}`}
 				onDragOver={handleDragOver}
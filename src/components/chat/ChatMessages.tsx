@@ -9,6 +9,10 @@ import { Notice, setIcon } from "obsidian";
 import { MessageRenderer } from "./MessageRenderer";
 import { ObsidianIcon } from "./ObsidianIcon";
 import { getLastAssistantMessage } from "../../application/services/session-restore";
+import { useVirtualList } from "../../hooks/useVirtualList";
+import type { AuthenticationPrompt } from "../../hooks/agent-session/types";
+import { AgentLoginPanel } from "./AgentLoginPanel";
+import { ExpandedSectionsContext } from "./CollapsibleSection";
 
 /**
  * Props for ChatMessages component
@@ -32,15 +36,22 @@ export interface ChatMessagesProps {
 	agentClient?: IAgentClient;
 	/** Callback to approve a permission request */
 	onApprovePermission?: (requestId: string, optionId: string) => Promise<void>;
+	/** Message to scroll into view once it is rendered */
+	scrollTargetMessageId?: string | null;
+	/** Called after scrolling to the target message */
+	onScrollTargetReached?: () => void;
+	/** Sign-in the agent waits for before starting the session */
+	authenticationPrompt?: AuthenticationPrompt | null;
 }
 
 /**
  * Messages container component for the chat view.
  *
  * Handles:
- * - Message list rendering
+ * - Message list rendering, virtualized so only rows near the viewport
+ *   are mounted
  * - Auto-scroll behavior
- * - Empty state display
+ * - Empty state display, or the agent's sign-in when it asks for one
  * - Loading indicator
  */
 export function ChatMessages({
@@ -53,13 +64,25 @@ export function ChatMessages({
 	view,
 	agentClient,
 	onApprovePermission,
+	scrollTargetMessageId,
+	onScrollTargetReached,
+	authenticationPrompt,
 }: ChatMessagesProps) {
 	const containerRef = useRef<HTMLDivElement>(null);
 	const [isAtBottom, setIsAtBottom] = useState(true);
+	// Outlives the rows, which unmount when they scroll out of range
+	const [expandedSections] = useState(() => new Map<string, boolean>());
 	const emptyStateMaskId = useId().replace(/:/g, "-");
+	const messageIds = useMemo(
+		() => messages.map((message) => message.id),
+		[messages],
+	);
+	const { range, listRef, measureRow, handleScroll, scrollToKey } =
+		useVirtualList(messageIds, containerRef, isAtBottom);
 
 	const svgRef = useRef<SVGSVGElement>(null);
-	const isSpinning = !isSessionReady || isRestoringSession;
+	const isSpinning =
+		(!isSessionReady && !authenticationPrompt) || isRestoringSession;
 	const prevIsSpinningRef = useRef(isSpinning);
 	const [spinState, setSpinState] = useState<
 		"spinning" | "stopping" | "stopped"
@@ -160,20 +183,56 @@ export function ChatMessages({
 		}
 	}, [messages, isAtBottom, scrollToBottom]);
 
+	// Scroll to a requested message (e.g. a search result) once it exists.
+	// Runs after the auto-scroll above so it wins over scrolling to bottom.
+	// A message outside the rendered rows is scrolled into range first; the
+	// effect runs again once the range includes it.
+	useEffect(() => {
+		if (!scrollTargetMessageId) return;
+		if (!messages.some((message) => message.id === scrollTargetMessageId)) {
+			return;
+		}
+		const target = containerRef.current?.querySelector<HTMLElement>(
+			`[data-message-id="${CSS.escape(scrollTargetMessageId)}"]`,
+		);
+		if (!target) {
+			scrollToKey(scrollTargetMessageId);
+			return;
+		}
+		const timer = window.setTimeout(() => {
+			if (target.isConnected) {
+				target.scrollIntoView({ block: "center" });
+				target.classList.add("obsius-message-renderer--highlighted");
+				window.setTimeout(
+					() => target.classList.remove("obsius-message-renderer--highlighted"),
+					2000,
+				);
+			}
+			onScrollTargetReached?.();
+		}, 0);
+		return () => window.clearTimeout(timer);
+	}, [
+		messages,
+		scrollTargetMessageId,
+		onScrollTargetReached,
+		scrollToKey,
+		range.start,
+		range.end,
+	]);
+
 	// Set up scroll event listener
 	useEffect(() => {
 		const container = containerRef.current;
 		if (!container) return;
 
-		const handleScroll = () => {
+		view.registerDomEvent(container, "scroll", () => {
 			checkIfAtBottom();
-		};
-
-		view.registerDomEvent(container, "scroll", handleScroll);
+			handleScroll();
+		});
 
 		// Initial check
 		checkIfAtBottom();
-	}, [view, checkIfAtBottom]);
+	}, [view, checkIfAtBottom, handleScroll]);
 
 	const latestRunningToolCall = useMemo(() => {
 		for (let m = messages.length - 1; m >= 0; m--) {
@@ -241,26 +300,56 @@ export function ChatMessages({
 							mask={`url(#${emptyStateMaskId})`}
 						/>
 					</svg>
-					<div className="obsius-empty-state-ready">
-						{isSessionReady && !isRestoringSession
-							? "We are ready."
-							: "just a moment..."}
-					</div>
+					{authenticationPrompt ? (
+						<AgentLoginPanel
+							agentLabel={agentLabel}
+							{...authenticationPrompt}
+						/>
+					) : (
+						<div className="obsius-empty-state-ready">
+							{isSessionReady && !isRestoringSession
+								? "We are ready."
+								: "just a moment..."}
+						</div>
+					)}
 				</div>
 			) : (
-				<>
-					{messages.map((message) => (
-						<MessageRenderer
-							key={message.id}
-							message={message}
-							plugin={plugin}
-							agentClient={agentClient}
-							onApprovePermission={onApprovePermission}
-							activeSendingToolCallTarget={
-								showInlineToolCallIndicator ? latestRunningToolCallTarget : null
-							}
+				<ExpandedSectionsContext.Provider value={expandedSections}>
+					<div
+						ref={listRef}
+						className="obsius-chat-message-list"
+						style={{
+							paddingTop: range.paddingTop,
+							paddingBottom: range.paddingBottom,
+						}}
+					>
+						{messages.slice(range.start, range.end).map((message) => (
+							<div
+								key={message.id}
+								ref={measureRow}
+								className="obsius-chat-message-row"
+								data-row-key={message.id}
+							>
+								<MessageRenderer
+									message={message}
+									plugin={plugin}
+									agentClient={agentClient}
+									onApprovePermission={onApprovePermission}
+									activeSendingToolCallTarget={
+										showInlineToolCallIndicator
+											? latestRunningToolCallTarget
+											: null
+									}
+								/>
+							</div>
+						))}
+					</div>
+					{authenticationPrompt && (
+						<AgentLoginPanel
+							agentLabel={agentLabel}
+							{...authenticationPrompt}
 						/>
-					))}
+					)}
 					{isSending &&
 						!showInlineToolCallIndicator &&
 						!hasRunningFileEditTool && (
@@ -340,7 +429,7 @@ export function ChatMessages({
 							}}
 						/>
 					)}
-				</>
+				</ExpandedSectionsContext.Provider>
 			)}
 		</div>
 	);
@@ -7,6 +7,11 @@ import type {
 import { createRoot, type Root } from "react-dom/client";
 import type { ChatInputState } from "../../domain/models/chat-input-state";
 import type AgentClientPlugin from "../../plugin";
+import {
+	parsePersistedTabs,
+	type PersistedChatTab,
+	type PersistedChatTabs,
+} from "../../shared/chat-tabs";
 import { getLogger, type Logger } from "../../shared/logger";
 import { ChatViewComponent } from "./ChatViewComponent";
 
@@ -19,6 +24,8 @@ export const VIEW_TYPE_CHAT = "obsius-chat-view";
 /** State stored for view persistence */
 interface ChatViewState extends Record<string, unknown> {
 	initialAgentId?: string;
+	tabs?: PersistedChatTab[];
+	activeTabId?: string;
 }
 
 type GetDisplayNameCallback = () => string;
@@ -30,7 +37,6 @@ type CancelCallback = () => Promise<void>;
 type AddContextReferenceCallback = (
 	reference: ChatViewContextReference,
 ) => boolean;
-type GetLastAssistantTextCallback = () => string | null;
 
 export class ChatView extends ItemView implements IChatViewContainer {
 	private root: Root | null = null;
@@ -40,6 +46,9 @@ export class ChatView extends ItemView implements IChatViewContainer {
 	readonly viewType: ChatViewType = "sidebar";
 	private initialAgentId: string | null = null;
 	private agentIdRestoredCallbacks: Set<(agentId: string) => void> = new Set();
+	private tabsState: PersistedChatTabs | null = null;
+	private tabsRestoredCallbacks: Set<(tabs: PersistedChatTabs) => void> =
+		new Set();
 	private tabAdapterIds: Set<string> = new Set();
 
 	private getDisplayNameCallback: GetDisplayNameCallback | null = null;
@@ -50,8 +59,6 @@ export class ChatView extends ItemView implements IChatViewContainer {
 	private cancelCallback: CancelCallback | null = null;
 	private addContextReferenceCallback: AddContextReferenceCallback | null =
 		null;
-	private getLastAssistantTextCallback: GetLastAssistantTextCallback | null =
-		null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: AgentClientPlugin) {
 		super(leaf);
@@ -75,6 +82,8 @@ export class ChatView extends ItemView implements IChatViewContainer {
 	getState(): ChatViewState {
 		return {
 			initialAgentId: this.initialAgentId ?? undefined,
+			tabs: this.tabsState?.tabs,
+			activeTabId: this.tabsState?.activeTabId,
 		};
 	}
 
@@ -86,6 +95,18 @@ export class ChatView extends ItemView implements IChatViewContainer {
 		this.initialAgentId = state.initialAgentId ?? null;
 		await super.setState(state, result);
 
+		const restoredTabs = parsePersistedTabs(state.tabs, state.activeTabId);
+		if (
+			restoredTabs &&
+			JSON.stringify(restoredTabs) !== JSON.stringify(this.tabsState)
+		) {
+			this.tabsState = restoredTabs;
+			for (const cb of this.tabsRestoredCallbacks) {
+				cb(restoredTabs);
+			}
+			return;
+		}
+
 		const restoredId = this.initialAgentId;
 		if (restoredId && restoredId !== previousAgentId) {
 			for (const cb of this.agentIdRestoredCallbacks) {
@@ -110,6 +131,27 @@ export class ChatView extends ItemView implements IChatViewContainer {
 		};
 	}
 
+	getRestoredTabs(): PersistedChatTabs | null {
+		return this.tabsState;
+	}
+
+	/** Keep the current tabs so they are saved with the workspace */
+	setTabs(tabs: PersistedChatTabs): void {
+		if (JSON.stringify(tabs) === JSON.stringify(this.tabsState)) return;
+		this.tabsState = tabs;
+		// Before the layout is ready the saved tabs have not been restored yet
+		if (this.app.workspace.layoutReady) {
+			this.app.workspace.requestSaveLayout();
+		}
+	}
+
+	onTabsRestored(callback: (tabs: PersistedChatTabs) => void): () => void {
+		this.tabsRestoredCallbacks.add(callback);
+		return () => {
+			this.tabsRestoredCallbacks.delete(callback);
+		};
+	}
+
 	registerTabAdapter(tabId: string): void {
 		this.tabAdapterIds.add(tabId);
 	}
@@ -126,7 +168,6 @@ export class ChatView extends ItemView implements IChatViewContainer {
 		canSend: CanSendCallback;
 		cancel: CancelCallback;
 		addContextReference: AddContextReferenceCallback;
-		getLastAssistantText: GetLastAssistantTextCallback;
 	}): void {
 		this.getDisplayNameCallback = callbacks.getDisplayName;
 		this.getInputStateCallback = callbacks.getInputState;
@@ -135,7 +176,6 @@ export class ChatView extends ItemView implements IChatViewContainer {
 		this.canSendCallback = callbacks.canSend;
 		this.cancelCallback = callbacks.cancel;
 		this.addContextReferenceCallback = callbacks.addContextReference;
-		this.getLastAssistantTextCallback = callbacks.getLastAssistantText;
 	}
 
 	unregisterInputCallbacks(): void {
@@ -146,7 +186,6 @@ export class ChatView extends ItemView implements IChatViewContainer {
 		this.canSendCallback = null;
 		this.cancelCallback = null;
 		this.addContextReferenceCallback = null;
-		this.getLastAssistantTextCallback = null;
 	}
 
 	getDisplayName(): string {
@@ -173,10 +212,6 @@ export class ChatView extends ItemView implements IChatViewContainer {
 		await this.cancelCallback?.();
 	}
 
-	getLastAssistantText(): string | null {
-		return this.getLastAssistantTextCallback?.() ?? null;
-	}
-
 	addContextReference(reference: ChatViewContextReference): boolean {
 		return this.addContextReferenceCallback?.(reference) ?? false;
 	}
@@ -1,15 +1,25 @@
 import { Platform } from "obsidian";
 import * as React from "react";
+import {
+	buildCompareTargets,
+	type CompareReply,
+} from "../../application/services/chat-compare";
 import type { ChatInputState } from "../../domain/models/chat-input-state";
+import type { SessionLink } from "../../domain/models/session-info";
+import { useChatComparison } from "../../hooks/useChatComparison";
 import { useSettings } from "../../hooks/useSettings";
-import { useTabs } from "../../hooks/useTabs";
+import { toPersistedTabs, useTabs } from "../../hooks/useTabs";
 import { useUpdateCheck } from "../../hooks/useUpdateCheck";
 import { useWorkspaceEvents } from "../../hooks/useWorkspaceEvents";
 import type AgentClientPlugin from "../../plugin";
 import { resolveAgentDisplayName } from "../../shared/agent-display-name";
 import { playCompletionSound } from "../../shared/completion-sound";
 import { getLogger } from "../../shared/logger";
+import { pluginNotice } from "../../shared/plugin-notice";
 import { ChatHeader } from "./ChatHeader";
+import { CompareAgentsModal } from "./CompareAgentsModal";
+import { ComparePanel } from "./ComparePanel";
+import { RenameTabModal } from "./RenameTabModal";
 import { TabContent, type TabContentActions } from "./TabContent";
 import type { ChatView } from "./ChatView";
 
@@ -84,19 +94,49 @@ export function ChatViewComponent({
 		initialAgentId: restoredAgentId || plugin.settings.defaultAgentId,
 		defaultAgentId: plugin.settings.defaultAgentId,
 		availableAgents,
+		maxTabs: settings.displaySettings.maxTabs,
+		initialTabs: view.getRestoredTabs(),
 		onTabClose: handleTabClose,
 	});
 
+	const { restoreTabs } = tabState;
+	React.useEffect(() => {
+		const unsubscribe = view.onTabsRestored((tabs) => {
+			logger.log(`[ChatView] ${tabs.tabs.length} tabs restored from workspace`);
+			restoreTabs(tabs);
+		});
+		return unsubscribe;
+	}, [view, logger, restoreTabs]);
+
+	React.useEffect(() => {
+		view.setTabs(toPersistedTabs(tabState.tabs, tabState.activeTabId));
+	}, [view, tabState.tabs, tabState.activeTabId]);
+
+	const compare = useChatComparison({
+		tabs: tabState.tabs,
+		openTab: tabState.openTab,
+		closeTabs: tabState.closeTabs,
+		activateTab: tabState.handleTabClick,
+	});
+
 	const tabActionsMapRef = React.useRef<Map<string, TabContentActions>>(
 		new Map(),
 	);
 	const [activeTabCanShowHistory, setActiveTabCanShowHistory] =
 		React.useState(false);
 
+	// Handoff prompts waiting for their new tab to mount
+	const pendingHandoffPromptsRef = React.useRef<Map<string, string>>(new Map());
+
 	const handleActionsReady = React.useCallback(
 		(tabId: string, actions: TabContentActions | null) => {
 			if (actions) {
 				tabActionsMapRef.current.set(tabId, actions);
+				const handoffPrompt = pendingHandoffPromptsRef.current.get(tabId);
+				if (handoffPrompt !== undefined) {
+					pendingHandoffPromptsRef.current.delete(tabId);
+					actions.setInputState({ text: handoffPrompt, images: [] });
+				}
 			} else {
 				tabActionsMapRef.current.delete(tabId);
 			}
@@ -151,14 +191,108 @@ export function ChatViewComponent({
 		[tabState, view],
 	);
 
-	const handleSendComplete = React.useCallback(
+	const handleHandOff = React.useCallback(
+		(agentId: string) => {
+			const actions = tabActionsMapRef.current.get(tabState.activeTabId);
+			const handoff = actions?.prepareHandoff();
+			if (!handoff) {
+				pluginNotice("Nothing to hand off yet");
+				return;
+			}
+			const tabId = tabState.openTab(agentId, { handoffFrom: handoff.source });
+			if (!tabId) {
+				pluginNotice("Close a tab to hand off the conversation");
+				return;
+			}
+			pendingHandoffPromptsRef.current.set(tabId, handoff.prompt);
+		},
+		[tabState.activeTabId, tabState.openTab],
+	);
+
+	const handleOpenSession = React.useCallback(
+		(link: SessionLink, scrollTo?: string) => {
+			const tabId = tabState.openTab(link.agentId, {
+				config: { agent: link.agentId, session: link.sessionId, scrollTo },
+			});
+			if (!tabId) {
+				pluginNotice("Close a tab to open the session");
+			}
+		},
+		[tabState.openTab],
+	);
+
+	const handleCompare = React.useCallback(() => {
+		if (compare.comparison) {
+			compare.setPanelOpen(!compare.isPanelOpen);
+			return;
+		}
+		const freeTabs = settings.displaySettings.maxTabs - tabState.tabs.length;
+		if (freeTabs < 2) {
+			pluginNotice("Comparing needs two free tabs, one per answer");
+			return;
+		}
+		const actions = tabActionsMapRef.current.get(tabState.activeTabId);
+		const input = actions?.getInputState() ?? { text: "", images: [] };
+		const targets = buildCompareTargets(
+			availableAgents,
+			tabState.activeTab.agentId,
+			actions?.getAvailableModels() ?? [],
+		);
+		new CompareAgentsModal(
+			plugin.app,
+			input.text,
+			targets,
+			freeTabs,
+			(prompt, selected) => {
+				actions?.setInputState({ text: "", images: [] });
+				compare.startComparison(
+					{ text: prompt, images: input.images },
+					selected,
+				);
+			},
+		).open();
+	}, [
+		compare,
+		plugin,
+		availableAgents,
+		settings.displaySettings.maxTabs,
+		tabState.tabs.length,
+		tabState.activeTabId,
+		tabState.activeTab.agentId,
+	]);
+
+	const handleTabClick = React.useCallback(
 		(tabId: string) => {
+			compare.setPanelOpen(false);
+			tabState.handleTabClick(tabId);
+		},
+		[compare.setPanelOpen, tabState.handleTabClick],
+	);
+
+	const handleTabRename = React.useCallback(
+		(tabId: string) => {
+			const tab = tabState.tabs.find((t) => t.id === tabId);
+			if (!tab) return;
+			new RenameTabModal(plugin.app, tab.name ?? "", (name) =>
+				tabState.renameTab(tabId, name),
+			).open();
+		},
+		[plugin, tabState.tabs, tabState.renameTab],
+	);
+
+	const handleSendComplete = React.useCallback(
+		(tabId: string, reply: CompareReply) => {
+			compare.handleReply(tabId, reply);
 			tabState.markTabCompleted(tabId);
 			if (settings.displaySettings.completionSound) {
 				playCompletionSound();
 			}
 		},
-		[tabState.markTabCompleted, settings.displaySettings.completionSound],
+		[
+			compare.handleReply,
+			tabState.markTabCompleted,
+			settings.displaySettings.completionSound,
+		],
 	);
 
 	const wsAutoMentionToggle = React.useCallback(
@@ -200,6 +334,19 @@ export function ChatViewComponent({
 			?.handleStopGeneration();
 	}, [tabState.activeTabId]);
 
+	const wsExportChat = React.useCallback(async () => {
+		await tabActionsMapRef.current.get(tabState.activeTabId)?.exportChat();
+	}, [tabState.activeTabId]);
+
+	const wsImportTranscript = React.useCallback(
+		async (notePath: string) => {
+			await tabActionsMapRef.current
+				.get(tabState.activeTabId)
+				?.importTranscript(notePath);
+		},
+		[tabState.activeTabId],
+	);
+
 	useWorkspaceEvents({
 		workspace: plugin.app.workspace,
 		viewId,
@@ -209,6 +356,8 @@ export function ChatViewComponent({
 		approveActivePermission: wsApprovePermission,
 		rejectActivePermission: wsRejectPermission,
 		handleStopGeneration: wsStopGeneration,
+		exportChat: wsExportChat,
+		importTranscript: wsImportTranscript,
 	});
 
 	React.useEffect(() => {
@@ -229,8 +378,6 @@ export function ChatViewComponent({
 			cancel: async () => {
 				await getActiveActions()?.cancel();
 			},
-			getLastAssistantText: () =>
-				getActiveActions()?.getLastAssistantText?.() ?? null,
 		});
 
 		return () => {
@@ -246,6 +393,9 @@ export function ChatViewComponent({
 				currentAgentId={tabState.activeTab.agentId}
 				isUpdateAvailable={isUpdateAvailable}
 				onAgentChange={handleAgentChangeForTab}
+				onHandOff={handleHandOff}
+				onCompare={handleCompare}
+				isComparing={compare.comparison !== null}
 				onNewTab={tabState.handleNewTab}
 				onNewSession={handleNewSession}
 				onOpenSettings={handleOpenSettings}
@@ -255,10 +405,22 @@ export function ChatViewComponent({
 				completedTabIds={tabState.completedTabIds}
 				canAddTab={tabState.canAddTab}
 				canCloseTab={tabState.canCloseTab}
-				onTabClick={tabState.handleTabClick}
+				onTabClick={handleTabClick}
 				onTabClose={tabState.handleTabClose}
+				onTabRename={handleTabRename}
+				onTabTogglePin={tabState.togglePinTab}
 			/>
 
+			{compare.comparison && compare.isPanelOpen && (
+				<ComparePanel
+					comparison={compare.comparison}
+					plugin={plugin}
+					onShowTab={handleTabClick}
+					onPickWinner={compare.pickWinner}
+					onClose={compare.endComparison}
+				/>
+			)}
+
 			{tabState.tabs.map((tab) => (
 				<TabContent
 					key={tab.id}
@@ -266,10 +428,17 @@ export function ChatViewComponent({
 					view={view}
 					tabId={tab.id}
 					agentId={tab.agentId}
-					isActive={tab.id === tabState.activeTabId}
+					config={tab.config}
+					handoffFrom={tab.handoffFrom}
+					isActive={tab.id === tabState.activeTabId && !compare.isPanelOpen}
 					viewId={viewId}
 					onActionsReady={handleActionsReady}
 					onSendComplete={handleSendComplete}
+					onOpenSession={handleOpenSession}
+					onSessionChange={tabState.setTabSession}
+					pendingPrompt={compare.pendingPromptFor(tab.id)}
+					onPromptSent={compare.handlePromptSent}
+					onUsageChange={compare.handleUsage}
 				/>
 			))}
 		</div>
@@ -0,0 +1,175 @@
+import * as React from "react";
+import { useSettings } from "../../hooks/useSettings";
+import { useUpdateCheck } from "../../hooks/useUpdateCheck";
+import { useWorkspaceEvents } from "../../hooks/useWorkspaceEvents";
+import type AgentClientPlugin from "../../plugin";
+import { resolveAgentDisplayName } from "../../shared/agent-display-name";
+import type { ChatCodeBlockConfig } from "../../shared/chat-code-block";
+import { playCompletionSound } from "../../shared/completion-sound";
+import { ChatHeader } from "./ChatHeader";
+import type { CodeBlockChatView } from "./CodeBlockChatView";
+import { TabContent, type TabContentActions } from "./TabContent";
+
+interface AppWithSettings {
+	setting: {
+		open: () => void;
+		openTabById: (id: string) => void;
+	};
+}
+
+interface CodeBlockChatComponentProps {
+	plugin: AgentClientPlugin;
+	view: CodeBlockChatView;
+	viewId: string;
+	config: ChatCodeBlockConfig;
+}
+
+const NO_COMPLETED_TABS: ReadonlySet<string> = new Set();
+const noop = () => {};
+
+/**
+ * Single-session chat surface rendered inside an `obsius` code block.
+ * The session binding is written back to the block when it unloads.
+ */
+export function CodeBlockChatComponent({
+	plugin,
+	view,
+	viewId,
+	config,
+}: CodeBlockChatComponentProps) {
+	const settings = useSettings(plugin);
+	const isUpdateAvailable = useUpdateCheck(plugin);
+
+	const availableAgents = React.useMemo(
+		() => plugin.getAvailableAgents(),
+		[plugin],
+	);
+
+	const [agentId, setAgentId] = React.useState(() =>
+		config.agent && availableAgents.some((agent) => agent.id === config.agent)
+			? config.agent
+			: plugin.settings.defaultAgentId,
+	);
+	// The agent is passed separately so an unknown one falls back to the default
+	const sessionConfig = React.useMemo(
+		() => ({ model: config.model, mode: config.mode, session: config.session }),
+		[config],
+	);
+	const [isCollapsed, setIsCollapsed] = React.useState(view.isCollapsed());
+	const [canShowHistory, setCanShowHistory] = React.useState(false);
+	const actionsRef = React.useRef<TabContentActions | null>(null);
+
+	React.useEffect(() => view.onCollapsedChange(setIsCollapsed), [view]);
+
+	React.useEffect(() => {
+		const handleFocus = () => {
+			plugin.setLastActiveChatViewId(viewId);
+		};
+
+		const container = view.containerEl;
+		container.addEventListener("focus", handleFocus, true);
+		container.addEventListener("click", handleFocus);
+
+		return () => {
+			container.removeEventListener("focus", handleFocus, true);
+			container.removeEventListener("click", handleFocus);
+		};
+	}, [plugin, viewId, view.containerEl]);
+
+	const handleActionsReady = React.useCallback(
+		(_tabId: string, actions: TabContentActions | null) => {
+			actionsRef.current = actions;
+			view.setActions(actions);
+			setCanShowHistory(actions?.canShowSessionHistory ?? false);
+		},
+		[view],
+	);
+
+	const handleSendComplete = React.useCallback(() => {
+		const binding = actionsRef.current?.getSessionBinding();
+		if (binding) {
+			view.setBinding(binding);
+		}
+		if (settings.displaySettings.completionSound) {
+			playCompletionSound();
+		}
+	}, [view, settings.displaySettings.completionSound]);
+
+	const handleOpenSettings = React.useCallback(() => {
+		const appWithSettings = plugin.app as unknown as AppWithSettings;
+		appWithSettings.setting.open();
+		appWithSettings.setting.openTabById(plugin.manifest.id);
+	}, [plugin]);
+
+	const handleToggleCollapse = React.useCallback(() => {
+		if (view.isCollapsed()) {
+			view.expand();
+		} else {
+			view.collapse();
+		}
+	}, [view]);
+
+	useWorkspaceEvents({
+		workspace: plugin.app.workspace,
+		viewId,
+		lastActiveChatViewId: plugin.lastActiveChatViewId,
+		autoMentionToggle: (force) => actionsRef.current?.autoMentionToggle(force),
+		handleNewChat: async (requestedAgentId) => {
+			await actionsRef.current?.handleNewChat(requestedAgentId);
+		},
+		approveActivePermission: async () =>
+			(await actionsRef.current?.approveActivePermission()) ?? false,
+		rejectActivePermission: async () =>
+			(await actionsRef.current?.rejectActivePermission()) ?? false,
+		handleStopGeneration: async () => {
+			await actionsRef.current?.handleStopGeneration();
+		},
+		exportChat: async () => {
+			await actionsRef.current?.exportChat();
+		},
+		importTranscript: async (notePath) => {
+			await actionsRef.current?.importTranscript(notePath);
+		},
+	});
+
+	return (
+		<div className="obsius-chat-view-container obsius-code-block-chat-container">
+			<ChatHeader
+				agentLabel={resolveAgentDisplayName(plugin.settings, agentId)}
+				availableAgents={availableAgents}
+				currentAgentId={agentId}
+				isUpdateAvailable={isUpdateAvailable}
+				onAgentChange={setAgentId}
+				onNewTab={noop}
+				onNewSession={() => void actionsRef.current?.handleNewChat()}
+				onOpenSettings={handleOpenSettings}
+				onOpenHistory={
+					canShowHistory
+						? () => actionsRef.current?.handleOpenHistory()
+						: undefined
+				}
+				tabs={[]}
+				activeTabId={viewId}
+				completedTabIds={NO_COMPLETED_TABS}
+				canAddTab={false}
+				canCloseTab={false}
+				onTabClick={noop}
+				onTabClose={noop}
+				isCollapsed={isCollapsed}
+				onToggleCollapse={handleToggleCollapse}
+			/>
+
+			<TabContent
+				plugin={plugin}
+				view={view}
+				tabId={viewId}
+				agentId={agentId}
+				config={sessionConfig}
+				isActive={!isCollapsed}
+				viewId={viewId}
+				onActionsReady={handleActionsReady}
+				onSendComplete={handleSendComplete}
+			/>
+		</div>
+	);
+}
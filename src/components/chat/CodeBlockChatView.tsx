@@ -0,0 +1,211 @@
+import {
+	MarkdownRenderChild,
+	Platform,
+	type App,
+	type MarkdownPostProcessorContext,
+} from "obsidian";
+import { createRoot, type Root } from "react-dom/client";
+import type { ChatInputState } from "../../domain/models/chat-input-state";
+import type {
+	ChatViewContextReference,
+	ChatViewType,
+	IChatViewContainer,
+} from "../../domain/ports/chat-view-container.port";
+import type AgentClientPlugin from "../../plugin";
+import {
+	isSameChatCodeBlockConfig,
+	replaceChatCodeBlockBody,
+	type ChatCodeBlockConfig,
+} from "../../shared/chat-code-block";
+import { getLogger, type Logger } from "../../shared/logger";
+import { CodeBlockChatComponent } from "./CodeBlockChatComponent";
+import type { TabContentActions } from "./TabContent";
+
+// ============================================================
+// CodeBlockChatView (chat embedded in a note)
+// ============================================================
+
+export class CodeBlockChatView
+	extends MarkdownRenderChild
+	implements IChatViewContainer
+{
+	readonly app: App;
+	readonly viewId: string;
+	readonly viewType: ChatViewType = "code-block";
+	private root: Root | null = null;
+	private plugin: AgentClientPlugin;
+	private logger: Logger;
+	private config: ChatCodeBlockConfig;
+	private pendingConfig: ChatCodeBlockConfig | null = null;
+	private section: { lineStart: number; lineEnd: number } | null = null;
+	private ctx: MarkdownPostProcessorContext;
+	private actions: TabContentActions | null = null;
+	private collapsed = false;
+	private collapsedListeners = new Set<(collapsed: boolean) => void>();
+
+	constructor(
+		containerEl: HTMLElement,
+		plugin: AgentClientPlugin,
+		config: ChatCodeBlockConfig,
+		ctx: MarkdownPostProcessorContext,
+	) {
+		super(containerEl);
+		this.app = plugin.app;
+		this.plugin = plugin;
+		this.config = config;
+		this.ctx = ctx;
+		this.logger = getLogger();
+		this.viewId = `code-block-${crypto.randomUUID()}`;
+	}
+
+	onload(): void {
+		this.containerEl.addClass("obsius-code-block-chat");
+		if (!Platform.isDesktopApp) {
+			this.containerEl.setText("Obsius is only available on desktop");
+			return;
+		}
+
+		this.root = createRoot(this.containerEl);
+		this.root.render(
+			<CodeBlockChatComponent
+				plugin={this.plugin}
+				view={this}
+				viewId={this.viewId}
+				config={this.config}
+			/>,
+		);
+		this.plugin.viewRegistry.register(this);
+	}
+
+	onunload(): void {
+		this.plugin.viewRegistry.unregister(this.viewId);
+		this.root?.unmount();
+		this.root = null;
+		void this.plugin.removeSessionAdapter(this.viewId);
+		void this.saveConfig();
+	}
+
+	setActions(actions: TabContentActions | null): void {
+		this.actions = actions;
+	}
+
+	/**
+	 * Remember the session binding so the note reopens the same
+	 * conversation. Changing the note renders the block again, which would
+	 * restart the running chat, so model and mode changes wait for unload.
+	 * A new session is written right away so a crash cannot lose it; the
+	 * render that follows restores that same session.
+	 */
+	setBinding(config: ChatCodeBlockConfig): void {
+		this.pendingConfig = isSameChatCodeBlockConfig(config, this.config)
+			? null
+			: config;
+		this.section = this.ctx.getSectionInfo(this.containerEl) ?? this.section;
+		if (config.session && config.session !== this.config.session) {
+			void this.saveConfig();
+		}
+	}
+
+	private async saveConfig(): Promise<void> {
+		const config = this.pendingConfig;
+		const file = this.app.vault.getFileByPath(this.ctx.sourcePath);
+		const section = this.ctx.getSectionInfo(this.containerEl) ?? this.section;
+		if (!config || !file || !section) return;
+
+		this.config = config;
+		this.pendingConfig = null;
+		await this.app.vault.process(
+			file,
+			(text) =>
+				replaceChatCodeBlockBody(
+					text,
+					section.lineStart,
+					section.lineEnd,
+					config,
+				) ?? text,
+		);
+	}
+
+	isCollapsed(): boolean {
+		return this.collapsed;
+	}
+
+	onCollapsedChange(listener: (collapsed: boolean) => void): () => void {
+		this.collapsedListeners.add(listener);
+		return () => {
+			this.collapsedListeners.delete(listener);
+		};
+	}
+
+	private setCollapsed(collapsed: boolean): void {
+		if (this.collapsed === collapsed) return;
+		this.collapsed = collapsed;
+		this.containerEl.toggleClass("is-collapsed", collapsed);
+		for (const listener of this.collapsedListeners) {
+			listener(collapsed);
+		}
+	}
+
+	getDisplayName(): string {
+		return this.actions?.getDisplayName() ?? "Chat";
+	}
+
+	getInputState(): ChatInputState | null {
+		return this.actions?.getInputState() ?? null;
+	}
+
+	setInputState(state: ChatInputState): void {
+		this.actions?.setInputState(state);
+	}
+
+	async sendMessage(): Promise<boolean> {
+		return (await this.actions?.sendMessage()) ?? false;
+	}
+
+	canSend(): boolean {
+		return this.actions?.canSend() ?? false;
+	}
+
+	async cancelOperation(): Promise<void> {
+		await this.actions?.cancel();
+	}
+
+	addContextReference(reference: ChatViewContextReference): boolean {
+		return this.actions?.addContextReference(reference) ?? false;
+	}
+
+	onActivate(): void {
+		this.logger.log(`[CodeBlockChatView] Activated: ${this.viewId}`);
+	}
+
+	onDeactivate(): void {
+		this.logger.log(`[CodeBlockChatView] Deactivated: ${this.viewId}`);
+	}
+
+	focus(): void {
+		this.expand();
+		this.containerEl.scrollIntoView({ block: "nearest" });
+		const textarea = this.containerEl.querySelector(
+			"textarea.obsius-chat-input-textarea",
+		);
+		if (textarea instanceof HTMLTextAreaElement) {
+			textarea.focus();
+		}
+	}
+
+	hasFocus(): boolean {
+		return this.containerEl.contains(document.activeElement);
+	}
+
+	expand(): void {
+		this.setCollapsed(false);
+	}
+
+	collapse(): void {
+		this.setCollapsed(true);
+	}
+
+	getContainerEl(): HTMLElement {
+		return this.containerEl;
+	}
+}
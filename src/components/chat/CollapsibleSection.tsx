@@ -1,11 +1,22 @@
 import * as React from "react";
-const { useState } = React;
+const { createContext, useContext, useState } = React;
+
+/**
+ * Expanded state of sections by their `stateKey`. Provided by the message
+ * list so sections keep it when their rows scroll out and mount again.
+ */
+export const ExpandedSectionsContext = createContext<Map<
+	string,
+	boolean
+> | null>(null);
 
 interface CollapsibleSectionProps {
 	className?: string;
 	header: React.ReactNode;
 	defaultExpanded?: boolean;
 	collapsible?: boolean;
+	/** Key the expanded state is remembered under while the section unmounts */
+	stateKey?: string;
 	children: React.ReactNode;
 }
 
@@ -14,11 +25,23 @@ export function CollapsibleSection({
 	header,
 	defaultExpanded = false,
 	collapsible = true,
+	stateKey,
 	children,
 }: CollapsibleSectionProps) {
-	const [expanded, setExpanded] = useState(defaultExpanded);
+	const expandedSections = useContext(ExpandedSectionsContext);
+	const [expanded, setExpanded] = useState(
+		() =>
+			(stateKey !== undefined ? expandedSections?.get(stateKey) : undefined) ??
+			defaultExpanded,
+	);
 	const isExpanded = collapsible && expanded;
 
+	const toggle = () => {
+		const next = !expanded;
+		setExpanded(next);
+		if (stateKey !== undefined) expandedSections?.set(stateKey, next);
+	};
+
 	return (
 		<div
 			className={`ac-collapsible ${isExpanded ? "ac-collapsible--expanded" : ""} ${!collapsible ? "ac-collapsible--static" : ""} ${className ?? ""}`}
@@ -28,12 +51,12 @@ export function CollapsibleSection({
 				role={collapsible ? "button" : undefined}
 				tabIndex={collapsible ? 0 : undefined}
 				aria-expanded={collapsible ? isExpanded : undefined}
-				onClick={collapsible ? () => setExpanded((v) => !v) : undefined}
+				onClick={collapsible ? toggle : undefined}
 				onKeyDown={(e) => {
 					if (!collapsible) return;
 					if (e.key === "Enter" || e.key === " ") {
 						e.preventDefault();
-						setExpanded((v) => !v);
+						toggle();
 					}
 				}}
 			>
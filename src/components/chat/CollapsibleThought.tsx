@@ -7,12 +7,18 @@ import { ObsidianIcon } from "./ObsidianIcon";
 interface CollapsibleThoughtProps {
 	text: string;
 	plugin: AgentClientPlugin;
+	/** Key the expanded state is remembered under, see CollapsibleSection */
+	stateKey?: string;
 }
 
 const SHORT_THOUGHT_MAX_CHARS = 120;
 const SHORT_THOUGHT_MAX_LINES = 2;
 
-export function CollapsibleThought({ text, plugin }: CollapsibleThoughtProps) {
+export function CollapsibleThought({
+	text,
+	plugin,
+	stateKey,
+}: CollapsibleThoughtProps) {
 	const normalized = text.trim();
 	const lineCount = normalized.split(/\r?\n/).length;
 	const isShortThought =
@@ -33,6 +39,7 @@ export function CollapsibleThought({ text, plugin }: CollapsibleThoughtProps) {
 		<CollapsibleSection
 			className="ac-thought ac-thought--long"
 			defaultExpanded={false}
+			stateKey={stateKey}
 			header={
 				<>
 					<ObsidianIcon name="brain" className="ac-tool-icon" />
@@ -0,0 +1,113 @@
+/**
+ * Compare Modal for Chat Views
+ *
+ * Obsidian Modal that picks the prompt and the agents or models that
+ * answer it side by side.
+ */
+
+import { Modal, App } from "obsidian";
+import type { CompareTarget } from "../../application/services/chat-compare";
+
+/**
+ * Prompt and target picker for a comparison.
+ *
+ * Each target opens its own tab, so no more targets can be picked than
+ * there are free tabs.
+ */
+export class CompareAgentsModal extends Modal {
+	private prompt: string;
+	private targets: CompareTarget[];
+	private maxTargets: number;
+	private onSubmit: (prompt: string, targets: CompareTarget[]) => void;
+
+	constructor(
+		app: App,
+		prompt: string,
+		targets: CompareTarget[],
+		maxTargets: number,
+		onSubmit: (prompt: string, targets: CompareTarget[]) => void,
+	) {
+		super(app);
+		this.prompt = prompt;
+		this.targets = targets;
+		this.maxTargets = maxTargets;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("obsius-compare-modal");
+
+		contentEl.createEl("h2", { text: "Compare answers" });
+
+		const input = contentEl.createEl("textarea", {
+			cls: "obsius-compare-prompt",
+			placeholder: "Prompt to send to every agent",
+		});
+		input.rows = 4;
+		input.value = this.prompt;
+
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: `Pick 2 to ${this.maxTargets} agents or models. Each answers in a new tab.`,
+		});
+
+		const selected = new Set<CompareTarget>();
+		const list = contentEl.createDiv({ cls: "obsius-compare-targets" });
+		const checkboxes: HTMLInputElement[] = [];
+
+		const buttonContainer = contentEl.createDiv({
+			cls: "obsius-compare-buttons",
+		});
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelButton.addEventListener("click", () => {
+			this.close();
+		});
+		const compareButton = buttonContainer.createEl("button", {
+			text: "Compare",
+			cls: "mod-cta",
+		});
+
+		const refresh = () => {
+			const isFull = selected.size >= this.maxTargets;
+			checkboxes.forEach((checkbox, index) => {
+				checkbox.disabled = isFull && !selected.has(this.targets[index]);
+			});
+			compareButton.disabled = selected.size < 2 || input.value.trim() === "";
+		};
+
+		for (const target of this.targets) {
+			const row = list.createEl("label", { cls: "obsius-compare-target" });
+			const checkbox = row.createEl("input", { type: "checkbox" });
+			row.createSpan({ text: target.label });
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) selected.add(target);
+				else selected.delete(target);
+				refresh();
+			});
+			checkboxes.push(checkbox);
+		}
+
+		input.addEventListener("input", refresh);
+		compareButton.addEventListener("click", () => {
+			const prompt = input.value.trim();
+			if (selected.size < 2 || !prompt) return;
+			this.close();
+			this.onSubmit(
+				prompt,
+				this.targets.filter((target) => selected.has(target)),
+			);
+		});
+
+		refresh();
+		input.focus();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
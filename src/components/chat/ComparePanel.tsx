@@ -0,0 +1,142 @@
+import * as React from "react";
+import {
+	formatLatency,
+	runLatency,
+	type ChatComparison,
+	type CompareRun,
+} from "../../application/services/chat-compare";
+import type AgentClientPlugin from "../../plugin";
+import { formatTokens } from "./chat-input/ContextUsageMeter";
+import { MarkdownTextRenderer } from "./MarkdownTextRenderer";
+import { ObsidianIcon } from "./ObsidianIcon";
+
+interface ComparePanelProps {
+	comparison: ChatComparison;
+	plugin: AgentClientPlugin;
+	onShowTab: (tabId: string) => void;
+	onPickWinner: (tabId: string) => void;
+	onClose: () => void;
+}
+
+function runStatusText(run: CompareRun): string {
+	switch (run.status) {
+		case "queued":
+			return "Starting…";
+		case "running":
+			return "Answering…";
+		case "failed":
+			return "Failed";
+		case "done": {
+			const latency = runLatency(run);
+			return latency !== null ? formatLatency(latency) : "Done";
+		}
+	}
+}
+
+function CompareColumn({
+	run,
+	plugin,
+	onShowTab,
+	onPickWinner,
+}: {
+	run: CompareRun;
+	plugin: AgentClientPlugin;
+	onShowTab: (tabId: string) => void;
+	onPickWinner: (tabId: string) => void;
+}) {
+	const isFinished = run.status === "done" || run.status === "failed";
+
+	return (
+		<div
+			className={`obsius-compare-column obsius-compare-column--${run.status}`}
+		>
+			<div className="obsius-compare-column-header">
+				<button
+					type="button"
+					className="obsius-compare-column-title"
+					title="Show the conversation"
+					onClick={() => onShowTab(run.tabId)}
+				>
+					{run.target.label}
+				</button>
+				<div className="obsius-compare-column-meta">
+					<span className="obsius-compare-column-status">
+						{runStatusText(run)}
+					</span>
+					{run.usage && run.usage.size > 0 && (
+						<span
+							className="obsius-compare-column-usage"
+							title="Context window usage"
+						>
+							{`${formatTokens(run.usage.used)} / ${formatTokens(run.usage.size)} tokens`}
+						</span>
+					)}
+				</div>
+			</div>
+			<div className="obsius-compare-column-answer">
+				{run.answer ? (
+					<MarkdownTextRenderer text={run.answer} plugin={plugin} />
+				) : (
+					<span className="obsius-compare-column-empty">
+						{isFinished
+							? "No answer text"
+							: "The answer shows here when it is complete"}
+					</span>
+				)}
+			</div>
+			<button
+				type="button"
+				className="obsius-compare-column-pick"
+				disabled={run.status !== "done"}
+				onClick={() => onPickWinner(run.tabId)}
+			>
+				Continue with this
+			</button>
+		</div>
+	);
+}
+
+/**
+ * Answers of a comparison side by side. Picking one keeps its tab for the
+ * conversation and closes the other tabs of the comparison.
+ */
+export function ComparePanel({
+	comparison,
+	plugin,
+	onShowTab,
+	onPickWinner,
+	onClose,
+}: ComparePanelProps) {
+	return (
+		<div className="obsius-compare-panel">
+			<div className="obsius-compare-panel-header">
+				<span
+					className="obsius-compare-panel-prompt"
+					title={comparison.prompt.text}
+				>
+					{comparison.prompt.text}
+				</span>
+				<button
+					type="button"
+					className="clickable-icon"
+					aria-label="End comparison"
+					title="End comparison and keep all tabs"
+					onClick={onClose}
+				>
+					<ObsidianIcon name="x" size={16} />
+				</button>
+			</div>
+			<div className="obsius-compare-columns">
+				{comparison.runs.map((run) => (
+					<CompareColumn
+						key={run.tabId}
+						run={run}
+						plugin={plugin}
+						onShowTab={onShowTab}
+						onPickWinner={onPickWinner}
+					/>
+				))}
+			</div>
+		</div>
+	);
+}
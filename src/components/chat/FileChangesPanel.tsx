@@ -10,6 +10,8 @@ const { useMemo, useState, useCallback } = React;
 
 interface FileChangesPanelProps {
 	changes: FileChange[];
+	/** FileChange.path → locked passages restored after the agent touched them */
+	lockViolations?: Record<string, number>;
 	plugin: AgentClientPlugin;
 	onUndoAll: () => Promise<void> | void;
 	onKeepAll: () => void;
@@ -19,6 +21,7 @@ interface FileChangesPanelProps {
 
 export function FileChangesPanel({
 	changes,
+	lockViolations = {},
 	plugin,
 	onUndoAll,
 	onKeepAll,
@@ -212,6 +215,7 @@ export function FileChangesPanel({
 				{perFileStats.map((row) => {
 					const isBusy = busyPaths.has(row.key);
 					const isActive = activePaths.has(row.key);
+					const lockCount = lockViolations[row.key] ?? 0;
 					return (
 						<div key={row.key} className="obsius-changes-file">
 							<div
@@ -239,6 +243,14 @@ export function FileChangesPanel({
 										DELETED
 									</span>
 								)}
+								{lockCount > 0 && (
+									<span
+										className="obsius-changes-badge obsius-changes-badge--locked"
+										title={`The agent edited ${lockCount} locked passage${lockCount === 1 ? "" : "s"}; restored automatically`}
+									>
+										LOCKED
+									</span>
+								)}
 
 								<span className="obsius-changes-file-stats">
 									{row.hasAdditions && (
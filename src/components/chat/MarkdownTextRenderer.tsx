@@ -2,32 +2,43 @@ import * as React from "react";
 const { useRef, useEffect } = React;
 import { Component, MarkdownRenderer } from "obsidian";
 import type AgentClientPlugin from "../../plugin";
+import { splitMarkdownBlocks } from "../../shared/markdown-blocks";
 
 interface MarkdownTextRendererProps {
 	text: string;
 	plugin: AgentClientPlugin;
 }
 
+/** A top-level markdown block and the element it was rendered into */
+interface RenderedBlock {
+	source: string;
+	el: HTMLElement;
+	component: Component;
+}
+
+function unloadBlock(block: RenderedBlock): void {
+	block.component.unload();
+	block.el.remove();
+}
+
+/**
+ * Renders markdown block by block. When the text changes, blocks that are
+ * unchanged keep their elements, so a streamed answer only re-renders its
+ * trailing, unfinished block.
+ */
 export function MarkdownTextRenderer({
 	text,
 	plugin,
 }: MarkdownTextRendererProps) {
 	const containerRef = useRef<HTMLDivElement>(null);
+	const blocksRef = useRef<RenderedBlock[]>([]);
 
+	// Handle internal link clicks; drop the rendered blocks on unmount
 	useEffect(() => {
 		const el = containerRef.current;
 		if (!el) return;
-		el.empty?.();
 		el.classList.add("markdown-rendered");
 
-		// Create a temporary component for the markdown renderer lifecycle
-		const component = new Component();
-		component.load();
-
-		// Render markdown
-		void MarkdownRenderer.render(plugin.app, text, el, "", component);
-
-		// Handle internal link clicks
 		const handleInternalLinkClick = (e: MouseEvent) => {
 			const target = e.target as HTMLElement;
 			const link = target.closest("a.internal-link");
@@ -43,8 +54,43 @@ export function MarkdownTextRenderer({
 
 		return () => {
 			el.removeEventListener("click", handleInternalLinkClick);
-			component.unload();
+			for (const block of blocksRef.current) {
+				unloadBlock(block);
+			}
+			blocksRef.current = [];
 		};
+	}, [plugin]);
+
+	useEffect(() => {
+		const el = containerRef.current;
+		if (!el) return;
+
+		const sources = splitMarkdownBlocks(text);
+		const rendered = blocksRef.current;
+		let kept = 0;
+		while (
+			kept < rendered.length &&
+			kept < sources.length &&
+			rendered[kept].source === sources[kept]
+		) {
+			kept++;
+		}
+
+		for (const block of rendered.splice(kept)) {
+			unloadBlock(block);
+		}
+
+		for (const source of sources.slice(kept)) {
+			const blockEl = document.createElement("div");
+			blockEl.className = "obsius-markdown-block";
+			el.appendChild(blockEl);
+
+			// Each block owns the children the renderer registers (embeds etc.)
+			const component = new Component();
+			component.load();
+			void MarkdownRenderer.render(plugin.app, source, blockEl, "", component);
+			rendered.push({ source, el: blockEl, component });
+		}
 	}, [text, plugin]);
 
 	return <div ref={containerRef} className="obsius-markdown-text-renderer" />;
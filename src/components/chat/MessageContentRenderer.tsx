@@ -65,7 +65,17 @@ export function MessageContentRenderer({
 			);
 
 		case "agent_thought":
-			return <CollapsibleThought text={content.text} plugin={plugin} />;
+			return (
+				<CollapsibleThought
+					text={content.text}
+					plugin={plugin}
+					stateKey={
+						messageId !== undefined
+							? `thought:${messageId}:${contentIndex}`
+							: undefined
+					}
+				/>
+			);
 
 		case "tool_call":
 			return (
@@ -76,6 +76,7 @@ export function MessageRenderer({
 	return (
 		<div
 			className={`obsius-message-renderer ${message.role === "user" ? "obsius-message-user" : "obsius-message-assistant"}`}
+			data-message-id={message.id}
 		>
 			{message.role === "user" && (
 				<div className="obsius-message-user-titlebar">User Prompt</div>
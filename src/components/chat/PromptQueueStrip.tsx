@@ -0,0 +1,207 @@
+import * as React from "react";
+import type {
+	QueuedPrompt,
+	UsePromptQueueReturn,
+} from "../../hooks/usePromptQueue";
+import { ObsidianIcon } from "./ObsidianIcon";
+
+const { useState, useCallback } = React;
+
+interface PromptQueueStripProps {
+	queue: UsePromptQueueReturn;
+}
+
+function QueuedPromptChip({
+	item,
+	index,
+	queue,
+	isDragTarget,
+	onDragStart,
+	onDragEnter,
+	onDrop,
+}: {
+	item: QueuedPrompt;
+	index: number;
+	queue: UsePromptQueueReturn;
+	isDragTarget: boolean;
+	onDragStart: () => void;
+	onDragEnter: () => void;
+	onDrop: () => void;
+}) {
+	const [draft, setDraft] = useState<string | null>(null);
+
+	const commit = () => {
+		if (draft !== null) queue.update(item.id, draft);
+		setDraft(null);
+	};
+
+	if (draft !== null) {
+		return (
+			<input
+				type="text"
+				className="obsius-prompt-queue-edit"
+				value={draft}
+				autoFocus
+				aria-label={`Edit queued prompt ${index + 1}`}
+				onChange={(e) => setDraft(e.target.value)}
+				onBlur={commit}
+				onKeyDown={(e) => {
+					if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+						e.preventDefault();
+						commit();
+					} else if (e.key === "Escape") {
+						e.preventDefault();
+						setDraft(null);
+					}
+				}}
+			/>
+		);
+	}
+
+	const label = item.text || "Image only";
+
+	return (
+		<span
+			role="listitem"
+			tabIndex={0}
+			draggable
+			className={`obsius-inline-mention-badge obsius-prompt-queue-chip${isDragTarget ? " obsius-prompt-queue-chip--drop" : ""}`}
+			title={`${item.text}\n\nClick to edit, drag to reorder`}
+			onClick={() => setDraft(item.text)}
+			onDragStart={(e) => {
+				e.dataTransfer.effectAllowed = "move";
+				onDragStart();
+			}}
+			onDragEnter={onDragEnter}
+			onDragOver={(e) => e.preventDefault()}
+			onDrop={(e) => {
+				e.preventDefault();
+				onDrop();
+			}}
+			onKeyDown={(e) => {
+				if (e.key === "Enter" || e.key === " ") {
+					e.preventDefault();
+					setDraft(item.text);
+				} else if (e.key === "Delete" || e.key === "Backspace") {
+					e.preventDefault();
+					queue.remove(item.id);
+				} else if (e.altKey && (e.key === "ArrowLeft" || e.key === "ArrowUp")) {
+					e.preventDefault();
+					queue.move(item.id, index - 1);
+				} else if (
+					e.altKey &&
+					(e.key === "ArrowRight" || e.key === "ArrowDown")
+				) {
+					e.preventDefault();
+					queue.move(item.id, index + 1);
+				}
+			}}
+		>
+			<span className="obsius-prompt-queue-index">{index + 1}</span>
+			<span className="obsius-inline-mention-name">{label}</span>
+			{item.images.length > 0 && (
+				<ObsidianIcon
+					name="image"
+					className="obsius-inline-mention-icon"
+					size={12}
+				/>
+			)}
+			<span
+				className="obsius-context-chip-remove"
+				role="button"
+				tabIndex={0}
+				title="Remove from queue"
+				onClick={(e) => {
+					e.stopPropagation();
+					queue.remove(item.id);
+				}}
+				onKeyDown={(e) => {
+					if (e.key === "Enter" || e.key === " ") {
+						e.preventDefault();
+						e.stopPropagation();
+						queue.remove(item.id);
+					}
+				}}
+			>
+				<ObsidianIcon name="x" size={12} />
+			</span>
+		</span>
+	);
+}
+
+/**
+ * Prompts queued while the agent answers, in the order they will be sent.
+ * Chips can be edited, dragged into another order or removed.
+ */
+export function PromptQueueStrip({
+	queue,
+}: PromptQueueStripProps): React.ReactElement | null {
+	const [dragId, setDragId] = useState<string | null>(null);
+	const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+	const handleDrop = useCallback(() => {
+		if (dragId !== null && dropIndex !== null) {
+			queue.move(dragId, dropIndex);
+		}
+		setDragId(null);
+		setDropIndex(null);
+	}, [queue, dragId, dropIndex]);
+
+	if (queue.items.length === 0) {
+		return null;
+	}
+
+	const status = queue.isPaused
+		? "Paused after stop"
+		: queue.isWaitingForPermission
+			? "Waiting for permission"
+			: "Sent when the current answer ends";
+
+	return (
+		<div className="obsius-prompt-queue">
+			<div className="obsius-prompt-queue-header">
+				<span className="obsius-prompt-queue-status">
+					{`Queued (${queue.items.length}) · ${status}`}
+				</span>
+				{queue.isPaused && (
+					<button
+						type="button"
+						className="obsius-prompt-queue-action"
+						onClick={queue.resume}
+					>
+						Resume
+					</button>
+				)}
+				<button
+					type="button"
+					className="obsius-prompt-queue-action"
+					onClick={queue.clear}
+				>
+					Clear
+				</button>
+			</div>
+			<div
+				className="obsius-prompt-queue-items"
+				role="list"
+				aria-label="Queued prompts"
+				onDragEnd={() => {
+					setDragId(null);
+					setDropIndex(null);
+				}}
+			>
+				{queue.items.map((item, index) => (
+					<QueuedPromptChip
+						key={item.id}
+						item={item}
+						index={index}
+						queue={queue}
+						isDragTarget={dragId !== null && dropIndex === index}
+						onDragStart={() => setDragId(item.id)}
+						onDragEnter={() => setDropIndex(index)}
+						onDrop={handleDrop}
+					/>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,74 @@
+/**
+ * Rename Modal for Chat Tabs
+ *
+ * Obsidian Modal that asks for a custom tab name.
+ */
+
+import { Modal, App } from "obsidian";
+
+/**
+ * Text prompt for a tab name.
+ *
+ * Saving an empty name resets the tab to its agent name.
+ */
+export class RenameTabModal extends Modal {
+	private currentName: string;
+	private onSubmit: (name: string) => void;
+
+	constructor(app: App, currentName: string, onSubmit: (name: string) => void) {
+		super(app);
+		this.currentName = currentName;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Rename tab" });
+
+		const input = contentEl.createEl("input", {
+			type: "text",
+			cls: "obsius-rename-tab-input",
+			placeholder: "Leave empty to use the agent name",
+		});
+		input.value = this.currentName;
+
+		const submit = () => {
+			this.close();
+			this.onSubmit(input.value.trim());
+		};
+
+		input.addEventListener("keydown", (event) => {
+			if (event.key === "Enter" && !event.isComposing) {
+				event.preventDefault();
+				submit();
+			}
+		});
+
+		const buttonContainer = contentEl.createDiv({
+			cls: "obsius-rename-tab-buttons",
+		});
+
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelButton.addEventListener("click", () => {
+			this.close();
+		});
+
+		const saveButton = buttonContainer.createEl("button", {
+			text: "Save",
+			cls: "mod-cta",
+		});
+		saveButton.addEventListener("click", submit);
+
+		input.focus();
+		input.select();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
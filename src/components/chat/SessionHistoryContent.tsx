@@ -1,6 +1,11 @@
 import * as React from "react";
-import type { SessionInfo } from "../../domain/models/session-info";
+import type {
+	SessionInfo,
+	SessionLink,
+} from "../../domain/models/session-info";
+import type { SessionSearchResult } from "../../domain/models/session-search";
 import { DebugForm, SessionItem } from "./session-history-sections";
+import { SessionSearchResults } from "./SessionSearchResults";
 
 export interface SessionHistoryContentProps {
 	sessions: SessionInfo[];
@@ -19,6 +24,25 @@ export interface SessionHistoryContentProps {
 	onRestoreSession: (sessionId: string, cwd: string) => Promise<void>;
 	onForkSession: (sessionId: string, cwd: string) => Promise<void>;
 	onDeleteSession: (sessionId: string) => void;
+	/** Write the session's saved messages to a note */
+	onExportSession?: (sessionId: string) => void;
+	/** Search the saved messages of sessions */
+	onSearchSessions?: (query: string) => Promise<SessionSearchResult[]>;
+	/**
+	 * Open a session at the message of a search result; false when the
+	 * session belongs to another agent
+	 */
+	onOpenSearchResult?: (
+		result: SessionSearchResult,
+		messageId: string,
+	) => boolean;
+	/**
+	 * Open a session of another agent in a tab for that agent: the other end
+	 * of a handoff, or a search result
+	 */
+	onOpenContinuation?: (link: SessionLink, scrollTo?: string) => void;
+	/** Display name of an agent, for handoff links */
+	resolveAgentName?: (agentId: string) => string;
 	onLoadMore: () => void;
 	onFetchSessions: (cwd?: string) => void;
 	onClose: () => void;
@@ -41,10 +65,32 @@ export function SessionHistoryContent({
 	onRestoreSession,
 	onForkSession,
 	onDeleteSession,
+	onExportSession,
+	onSearchSessions,
+	onOpenSearchResult,
+	onOpenContinuation,
+	resolveAgentName,
 	onLoadMore,
 	onFetchSessions,
 	onClose,
 }: SessionHistoryContentProps) {
+	const [searchQuery, setSearchQuery] = React.useState("");
+	const trimmedQuery = searchQuery.trim();
+	const canSearch = !!onSearchSessions && !!onOpenSearchResult;
+	const isSearching = canSearch && trimmedQuery.length > 0;
+
+	const handleOpenResult = React.useCallback(
+		(result: SessionSearchResult, messageId: string) => {
+			if (!onOpenSearchResult?.(result, messageId)) {
+				onOpenContinuation?.(
+					{ agentId: result.agentId, sessionId: result.sessionId },
+					messageId,
+				);
+			}
+		},
+		[onOpenContinuation, onOpenSearchResult],
+	);
+
 	const handleRetry = React.useCallback(() => {
 		onFetchSessions(currentCwd);
 	}, [currentCwd, onFetchSessions]);
@@ -102,7 +148,30 @@ export function SessionHistoryContent({
 				</div>
 			)}
 
-			{canShowList && (
+			{canShowList && canSearch && (
+				<div className="obsius-session-search">
+					<input
+						type="search"
+						className="obsius-session-search-input"
+						placeholder="Search messages..."
+						aria-label="Search saved sessions"
+						value={searchQuery}
+						onChange={(event) => setSearchQuery(event.target.value)}
+					/>
+				</div>
+			)}
+
+			{canShowList && isSearching && (
+				<SessionSearchResults
+					query={trimmedQuery}
+					onSearch={onSearchSessions}
+					onOpenResult={handleOpenResult}
+					resolveAgentName={resolveAgentName}
+					onClose={onClose}
+				/>
+			)}
+
+			{canShowList && !isSearching && (
 				<>
 					{error && (
 						<div className="obsius-session-history-error">
@@ -142,6 +211,9 @@ export function SessionHistoryContent({
 									onRestoreSession={onRestoreSession}
 									onForkSession={onForkSession}
 									onDeleteSession={onDeleteSession}
+									onExportSession={onExportSession}
+									onOpenContinuation={onOpenContinuation}
+									resolveAgentName={resolveAgentName}
 									onClose={onClose}
 								/>
 							))}
@@ -0,0 +1,120 @@
+import * as React from "react";
+import type {
+	SessionSearchField,
+	SessionSearchResult,
+	SessionSearchSnippet,
+} from "../../domain/models/session-search";
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const FIELD_LABELS: Record<SessionSearchField, string> = {
+	user: "You",
+	assistant: "Agent",
+	tool: "Tool",
+	path: "File",
+};
+
+export interface SessionSearchResultsProps {
+	query: string;
+	onSearch: (query: string) => Promise<SessionSearchResult[]>;
+	onOpenResult: (result: SessionSearchResult, messageId: string) => void;
+	/** Display name of the agent a result belongs to */
+	resolveAgentName?: (agentId: string) => string;
+	onClose: () => void;
+}
+
+function HighlightedSnippet({ snippet }: { snippet: SessionSearchSnippet }) {
+	const parts: React.ReactNode[] = [];
+	let position = 0;
+	snippet.highlights.forEach(([start, end], index) => {
+		if (start > position) {
+			parts.push(snippet.text.slice(position, start));
+		}
+		parts.push(<mark key={index}>{snippet.text.slice(start, end)}</mark>);
+		position = end;
+	});
+	parts.push(snippet.text.slice(position));
+	return <span className="obsius-session-search-snippet">{parts}</span>;
+}
+
+/**
+ * Search results over saved session messages, grouped by session.
+ * Choosing a match opens its session at that message.
+ */
+export function SessionSearchResults({
+	query,
+	onSearch,
+	onOpenResult,
+	resolveAgentName = (agentId) => agentId,
+	onClose,
+}: SessionSearchResultsProps) {
+	const [results, setResults] = React.useState<SessionSearchResult[]>([]);
+	const [searching, setSearching] = React.useState(true);
+
+	React.useEffect(() => {
+		let cancelled = false;
+		setSearching(true);
+		const timer = window.setTimeout(() => {
+			onSearch(query)
+				.then((found) => {
+					if (!cancelled) setResults(found);
+				})
+				.catch(() => {
+					if (!cancelled) setResults([]);
+				})
+				.finally(() => {
+					if (!cancelled) setSearching(false);
+				});
+		}, SEARCH_DEBOUNCE_MS);
+		return () => {
+			cancelled = true;
+			window.clearTimeout(timer);
+		};
+	}, [query, onSearch]);
+
+	if (results.length === 0) {
+		return (
+			<div className="obsius-session-history-empty">
+				<p className="obsius-session-history-empty-text">
+					{searching ? "Searching..." : "No matching messages"}
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<div className="obsius-session-history-list obsius-session-search-results">
+			{results.map((result) => (
+				<div key={result.sessionId} className="obsius-session-search-group">
+					<div className="obsius-session-search-group-title">
+						<span>{result.title ?? "Untitled Session"}</span>
+						<span className="obsius-session-search-group-agent">
+							{resolveAgentName(result.agentId)}
+						</span>
+						{result.totalMatches > result.matches.length && (
+							<span className="obsius-session-search-group-count">
+								{result.totalMatches} matches
+							</span>
+						)}
+					</div>
+					{result.matches.map((match) => (
+						<button
+							type="button"
+							key={`${match.messageId}-${match.field}`}
+							className="obsius-session-search-match"
+							onClick={() => {
+								onClose();
+								onOpenResult(result, match.messageId);
+							}}
+						>
+							<span className="obsius-session-search-field">
+								{FIELD_LABELS[match.field]}
+							</span>
+							<HighlightedSnippet snippet={match.snippet} />
+						</button>
+					))}
+				</div>
+			))}
+		</div>
+	);
+}
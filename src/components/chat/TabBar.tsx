@@ -1,10 +1,16 @@
 import * as React from "react";
 
-const { useCallback } = React;
+const { useCallback, useLayoutEffect, useRef, useState } = React;
+
+import { Menu } from "obsidian";
+import { ObsidianIcon } from "./ObsidianIcon";
 
 export interface TabItem {
 	id: string;
 	label: string;
+	/** The label is a name chosen by the user and is shown on the tab */
+	hasCustomName?: boolean;
+	pinned?: boolean;
 }
 
 interface TabBarProps {
@@ -14,6 +20,23 @@ interface TabBarProps {
 	onTabClick: (tabId: string) => void;
 	onTabClose: (tabId: string) => void;
 	canCloseTab: boolean;
+	onTabRename?: (tabId: string) => void;
+	onTabTogglePin?: (tabId: string) => void;
+}
+
+/** Ids of tabs scrolled out of the visible part of the bar */
+function findHiddenTabIds(bar: HTMLElement, tabs: TabItem[]): Set<string> {
+	const hidden = new Set<string>();
+	const start = bar.scrollLeft;
+	const end = start + bar.clientWidth;
+	Array.from(bar.children).forEach((child, index) => {
+		const el = child as HTMLElement;
+		if (el.offsetLeft < start || el.offsetLeft + el.offsetWidth > end + 1) {
+			const tab = tabs[index];
+			if (tab) hidden.add(tab.id);
+		}
+	});
+	return hidden;
 }
 
 export function TabBar({
@@ -23,16 +46,106 @@ export function TabBar({
 	onTabClick,
 	onTabClose,
 	canCloseTab,
+	onTabRename,
+	onTabTogglePin,
 }: TabBarProps) {
+	const barRef = useRef<HTMLDivElement>(null);
+	const [hiddenTabIds, setHiddenTabIds] = useState<ReadonlySet<string>>(
+		() => new Set(),
+	);
+
+	// Keep the active tab in view and track which tabs do not fit
+	useLayoutEffect(() => {
+		const bar = barRef.current;
+		if (!bar) return;
+		const update = () => {
+			const index = tabs.findIndex((tab) => tab.id === activeTabId);
+			const active = bar.children[index] as HTMLElement | undefined;
+			if (active) {
+				if (active.offsetLeft < bar.scrollLeft) {
+					bar.scrollLeft = active.offsetLeft;
+				} else if (
+					active.offsetLeft + active.offsetWidth >
+					bar.scrollLeft + bar.clientWidth
+				) {
+					bar.scrollLeft =
+						active.offsetLeft + active.offsetWidth - bar.clientWidth;
+				}
+			}
+			const hidden = findHiddenTabIds(bar, tabs);
+			setHiddenTabIds((prev) =>
+				prev.size === hidden.size && [...hidden].every((id) => prev.has(id))
+					? prev
+					: hidden,
+			);
+		};
+		update();
+		if (typeof ResizeObserver === "undefined") return;
+		const observer = new ResizeObserver(update);
+		observer.observe(bar);
+		return () => observer.disconnect();
+	}, [tabs, activeTabId]);
+
 	const handleContextMenu = useCallback(
-		(e: React.MouseEvent, tabId: string) => {
-			if (!canCloseTab) return;
+		(e: React.MouseEvent, tab: TabItem) => {
+			e.preventDefault();
+			const menu = new Menu();
+			if (onTabRename) {
+				menu.addItem((item) =>
+					item
+						.setTitle("Rename")
+						.setIcon("pencil")
+						.onClick(() => onTabRename(tab.id)),
+				);
+			}
+			if (onTabTogglePin) {
+				menu.addItem((item) =>
+					item
+						.setTitle(tab.pinned ? "Unpin" : "Pin")
+						.setIcon(tab.pinned ? "pin-off" : "pin")
+						.onClick(() => onTabTogglePin(tab.id)),
+				);
+			}
+			if (canCloseTab && !tab.pinned) {
+				menu.addItem((item) =>
+					item
+						.setTitle("Close")
+						.setIcon("x")
+						.onClick(() => onTabClose(tab.id)),
+				);
+			}
+			menu.showAtMouseEvent(e.nativeEvent);
+		},
+		[canCloseTab, onTabClose, onTabRename, onTabTogglePin],
+	);
+
+	const handleAuxClick = useCallback(
+		(e: React.MouseEvent, tab: TabItem) => {
+			// Middle click closes, as in Obsidian's own tabs
+			if (e.button !== 1 || !canCloseTab || tab.pinned) return;
 			e.preventDefault();
-			onTabClose(tabId);
+			onTabClose(tab.id);
 		},
 		[canCloseTab, onTabClose],
 	);
 
+	const handleOverflowClick = useCallback(
+		(e: React.MouseEvent) => {
+			const menu = new Menu();
+			tabs.forEach((tab, index) => {
+				if (!hiddenTabIds.has(tab.id)) return;
+				menu.addItem((item) =>
+					item
+						.setTitle(`${index + 1}. ${tab.label}`)
+						.setChecked(tab.id === activeTabId)
+						.onClick(() => onTabClick(tab.id)),
+				);
+			});
+			menu.showAtMouseEvent(e.nativeEvent);
+		},
+		[tabs, hiddenTabIds, activeTabId, onTabClick],
+	);
+
 	const handleTabKeyDown = useCallback(
 		(e: React.KeyboardEvent, index: number) => {
 			if (e.key === "Enter" || e.key === " ") {
@@ -57,24 +170,50 @@ export function TabBar({
 		[tabs, onTabClick],
 	);
 
+	const hasHiddenActiveTab = hiddenTabIds.has(activeTabId);
+
 	return (
-		<div className="obsius-tab-bar" role="tablist">
-			{tabs.map((tab, index) => (
-				<div
-					key={tab.id}
-					role="tab"
-					tabIndex={tab.id === activeTabId ? 0 : -1}
-					aria-label={tab.label}
-					title={tab.label}
-					aria-selected={tab.id === activeTabId}
-					className={`obsius-tab-badge${tab.id === activeTabId ? " obsius-tab-badge--active" : ""}${completedTabIds.has(tab.id) ? " obsius-tab-badge--completed" : ""}`}
-					onClick={() => onTabClick(tab.id)}
-					onContextMenu={(e) => handleContextMenu(e, tab.id)}
-					onKeyDown={(e) => handleTabKeyDown(e, index)}
+		<div className="obsius-tab-bar-container">
+			<div ref={barRef} className="obsius-tab-bar" role="tablist">
+				{tabs.map((tab, index) => (
+					<div
+						key={tab.id}
+						role="tab"
+						tabIndex={tab.id === activeTabId ? 0 : -1}
+						aria-label={tab.label}
+						title={tab.label}
+						aria-selected={tab.id === activeTabId}
+						className={`obsius-tab-badge${tab.id === activeTabId ? " obsius-tab-badge--active" : ""}${completedTabIds.has(tab.id) ? " obsius-tab-badge--completed" : ""}${tab.hasCustomName ? " obsius-tab-badge--named" : ""}${tab.pinned ? " obsius-tab-badge--pinned" : ""}`}
+						onClick={() => onTabClick(tab.id)}
+						onContextMenu={(e) => handleContextMenu(e, tab)}
+						onAuxClick={(e) => handleAuxClick(e, tab)}
+						onKeyDown={(e) => handleTabKeyDown(e, index)}
+					>
+						{tab.pinned && (
+							<ObsidianIcon
+								name="pin"
+								size={10}
+								className="obsius-tab-badge-pin"
+							/>
+						)}
+						<span className="obsius-tab-badge-label">
+							{tab.hasCustomName ? tab.label : index + 1}
+						</span>
+					</div>
+				))}
+			</div>
+			{hiddenTabIds.size > 0 && (
+				<button
+					type="button"
+					className={`obsius-tab-overflow clickable-icon${hasHiddenActiveTab ? " obsius-tab-overflow--active" : ""}`}
+					aria-label={`${hiddenTabIds.size} more tabs`}
+					title={`${hiddenTabIds.size} more tabs`}
+					onClick={handleOverflowClick}
 				>
-					{index + 1}
-				</div>
-			))}
+					<ObsidianIcon name="chevrons-right" size={14} />
+					<span>{hiddenTabIds.size}</span>
+				</button>
+			)}
 		</div>
 	);
 }
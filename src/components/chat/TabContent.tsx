@@ -1,24 +1,32 @@
 import * as React from "react";
 
-const { useRef, useEffect, useCallback } = React;
+const { useRef, useEffect } = React;
 
-import { TFile, Notice } from "obsidian";
+import { Notice } from "obsidian";
 import type { ChatInputState } from "../../domain/models/chat-input-state";
 import type { ImagePromptContent } from "../../domain/models/prompt-content";
+import type { SessionLink } from "../../domain/models/session-info";
+import type { ChatHandoff } from "../../application/services/chat-handoff";
+import type {
+	CompareReply,
+	CompareUsage,
+} from "../../application/services/chat-compare";
 import type { ChatViewContextReference } from "../../domain/ports/chat-view-container.port";
 import { useChatController } from "../../hooks/useChatController";
+import { useChatExport } from "../../hooks/useChatExport";
+import { useFileChangeActions } from "../../hooks/useFileChangeActions";
+import { useTabTurns } from "../../hooks/useTabTurns";
 import { useSessionRestore } from "../../hooks/useSessionRestore";
+import { useVaultFileIo } from "../../hooks/useVaultFileIo";
 import type AgentClientPlugin from "../../plugin";
-import {
-	appendChatContextToken,
-	removeChatContextTokensForPaths,
-} from "../../shared/chat-context-token";
-import { getLastAssistantMessage } from "../../application/services/session-restore";
+import type { ChatCodeBlockConfig } from "../../shared/chat-code-block";
+import { resolveAgentDisplayName } from "../../shared/agent-display-name";
+import { appendChatContextToken } from "../../shared/chat-context-token";
 import { ChatInput } from "./ChatInput";
 import { ChatMessages } from "./ChatMessages";
 import { SessionHistoryPopover } from "./SessionHistoryPopover";
 import { FileChangesPanel } from "./FileChangesPanel";
-import type { ChatView } from "./ChatView";
+import type { IChatViewHost } from "./types";
 
 export interface TabContentActions {
 	handleNewChat: (agentId?: string) => Promise<void>;
@@ -35,7 +43,11 @@ export interface TabContentActions {
 	canSend: () => boolean;
 	cancel: () => Promise<void>;
 	addContextReference: (reference: ChatViewContextReference) => boolean;
-	getLastAssistantText: () => string | null;
+	getSessionBinding: () => ChatCodeBlockConfig;
+	exportChat: () => Promise<void>;
+	importTranscript: (notePath: string) => Promise<void>;
+	prepareHandoff: () => ChatHandoff | null;
+	getAvailableModels: () => Array<{ modelId: string; name: string }>;
 }
 
 export function TabContent({
@@ -43,23 +55,42 @@ export function TabContent({
 	view,
 	tabId,
 	agentId,
+	config,
+	handoffFrom,
 	isActive,
 	onActionsReady,
 	onSendComplete,
+	onOpenSession,
+	onSessionChange,
+	pendingPrompt,
+	onPromptSent,
+	onUsageChange,
 }: {
 	plugin: AgentClientPlugin;
-	view: ChatView;
+	view: IChatViewHost;
 	tabId: string;
 	agentId: string;
+	/** Session binding of an embedded chat block */
+	config?: ChatCodeBlockConfig;
+	handoffFrom?: SessionLink;
 	isActive: boolean;
 	viewId: string;
 	onActionsReady: (tabId: string, actions: TabContentActions | null) => void;
-	onSendComplete?: (tabId: string) => void;
+	onSendComplete?: (tabId: string, reply: CompareReply) => void;
+	onOpenSession?: (link: SessionLink, scrollTo?: string) => void;
+	/** Reports the session once it has messages, so it can be restored */
+	onSessionChange?: (tabId: string, sessionId: string) => void;
+	/** Prompt to send once the session is ready, e.g. for a comparison */
+	pendingPrompt?: ChatInputState;
+	onPromptSent?: (tabId: string) => void;
+	onUsageChange?: (tabId: string, usage: CompareUsage) => void;
 }) {
 	const controller = useChatController({
 		plugin,
 		viewId: tabId,
 		initialAgentId: agentId,
+		config,
+		handoffFrom,
 	});
 
 	const {
@@ -100,40 +131,19 @@ export function TabContent({
 		handleRestoredMessageConsumed,
 	} = controller;
 
-	const sessionRestore = useSessionRestore();
+	const fileIo = useVaultFileIo(plugin);
+	const chatExport = useChatExport({ plugin, vaultPath, session, messages });
+	const { writeFile, readFile } = fileIo;
 
-	const writeFile = useCallback(
-		async (path: string, content: string) => {
-			const file = plugin.app.vault.getAbstractFileByPath(path);
-			if (file instanceof TFile) {
-				await plugin.app.vault.modify(file, content);
-			} else {
-				await plugin.app.vault.create(path, content);
-			}
-		},
-		[plugin],
-	);
-
-	const readFile = useCallback(
-		async (path: string) => {
-			const file = plugin.app.vault.getAbstractFileByPath(path);
-			if (!(file instanceof TFile)) throw new Error(`File not found: ${path}`);
-			return await plugin.app.vault.read(file);
-		},
-		[plugin],
-	);
-
-	const deleteFile = useCallback(
-		async (path: string) => {
-			const file = plugin.app.vault.getAbstractFileByPath(path);
-			if (file instanceof TFile) {
-				await plugin.app.fileManager.trashFile(file);
-			}
+	const sessionRestore = useSessionRestore({
+		getLocks: (path) => plugin.paragraphLocks.getLocks(path),
+		writeFile,
+		onRestored: (path, count) => {
+			new Notice(
+				`Restored ${count} locked passage${count === 1 ? "" : "s"} in ${path}`,
+			);
 		},
-		[plugin],
-	);
-
-	const fileIo = { writeFile, readFile, deleteFile };
+	});
 
 	useEffect(() => {
 		if (messages.length === 0) {
@@ -149,56 +159,93 @@ export function TabContent({
 		sessionRestore.refreshChanges,
 	]);
 
-	const handleUndoAll = useCallback(async () => {
-		const changesToRevert = sessionRestore.changeSet?.changes ?? [];
-		const { reverted, conflicts } = await sessionRestore.revertChanges(fileIo);
-		if (reverted.length > 0) {
-			new Notice(`Reverted ${reverted.length} file(s)`);
-			const revertedSet = new Set(reverted);
-			const revertedVaultPaths = changesToRevert
-				.filter((c) => revertedSet.has(c.path) && c.vaultPath)
-				.map((c) => c.vaultPath!);
-			if (revertedVaultPaths.length > 0) {
-				setInputValue((prev) =>
-					removeChatContextTokensForPaths(prev, revertedVaultPaths),
-				);
-			}
-			void autoMention.updateActiveNote();
-		}
-		if (conflicts.length > 0) {
-			new Notice(`${conflicts.length} file(s) had conflicts and were skipped`);
-		}
-	}, [sessionRestore, fileIo, setInputValue, autoMention]);
+	const messagesRef = useRef(messages);
+	messagesRef.current = messages;
+	const sessionRef = useRef(session);
+	sessionRef.current = session;
+	const inputStateRef = useRef({ text: inputValue, images: attachedImages });
+	inputStateRef.current = { text: inputValue, images: attachedImages };
 
-	const handleRevertFile = useCallback(
-		async (changePath: string) => {
-			const change = sessionRestore.changeSet?.changes.find(
-				(c) => c.path === changePath,
+	useEffect(() => {
+		agentClient.onFileWrite((write) => {
+			if (!session.sessionId || write.sessionId !== session.sessionId) {
+				return;
+			}
+			const baseline = sessionRestore.recordFileWrite(write);
+			plugin.inlineDiffManager.refreshDiff(
+				write.vaultPath,
+				baseline ?? "",
+				write.content,
+				{ mode: "document" },
+			);
+			void sessionRestore.refreshChanges(
+				messagesRef.current,
+				vaultPath,
+				readFile,
 			);
-			const result = await sessionRestore.revertFile(changePath, fileIo);
-			if (result.reverted) {
-				new Notice("File reverted");
-				if (change?.vaultPath) {
-					setInputValue((prev) =>
-						removeChatContextTokensForPaths(prev, [change.vaultPath!]),
-					);
-				}
-				void autoMention.updateActiveNote();
-			} else if (result.conflict) {
-				new Notice("Could not revert: file has been modified externally");
+		});
+	}, [
+		agentClient,
+		plugin,
+		session.sessionId,
+		vaultPath,
+		readFile,
+		sessionRestore.recordFileWrite,
+		sessionRestore.refreshChanges,
+	]);
+
+	useEffect(() => {
+		return plugin.inlineDiffManager.onHunkResolved((resolution) => {
+			if (resolution.baselineText === null) return;
+			if (
+				!sessionRestore.setBaseline(
+					resolution.filePath,
+					resolution.baselineText,
+				)
+			) {
+				return;
 			}
-		},
-		[sessionRestore, fileIo, setInputValue, autoMention],
-	);
+			void sessionRestore.refreshChanges(
+				messagesRef.current,
+				vaultPath,
+				readFile,
+			);
+		});
+	}, [
+		plugin,
+		vaultPath,
+		readFile,
+		sessionRestore.setBaseline,
+		sessionRestore.refreshChanges,
+	]);
+
+	const { handleUndoAll, handleRevertFile } = useFileChangeActions({
+		sessionRestore,
+		fileIo,
+		setInputValue,
+		updateActiveNote: autoMention.updateActiveNote,
+	});
 
-	const prevIsSendingRef = useRef(false);
+	useTabTurns({
+		tabId,
+		messages,
+		isSending,
+		errorInfo,
+		contextUsage: controller.contextUsage,
+		canSend: isSessionReady && !sessionHistory.loading && !isSending,
+		models: session.models,
+		configuredModel: config?.model,
+		send: handleSendMessage,
+		pendingPrompt,
+		onPromptSent,
+		onSendComplete,
+		onUsageChange,
+	});
+
+	const shownSessionId = messages.length > 0 ? session.sessionId : null;
 	useEffect(() => {
-		const wasSending = prevIsSendingRef.current;
-		prevIsSendingRef.current = isSending;
-		if (wasSending && !isSending && messages.length > 0) {
-			onSendComplete?.(tabId);
-		}
-	}, [isSending, messages.length, tabId, onSendComplete]);
+		if (shownSessionId) onSessionChange?.(tabId, shownSessionId);
+	}, [tabId, shownSessionId, onSessionChange]);
 
 	const agentIdRef = useRef(agentId);
 
@@ -220,7 +267,7 @@ export function TabContent({
 		approveActivePermission: permission.approveActivePermission,
 		rejectActivePermission: permission.rejectActivePermission,
 		getDisplayName: () => activeAgentLabel,
-		getInputState: () => ({ text: inputValue, images: attachedImages }),
+		getInputState: () => inputStateRef.current,
 		setInputState: (state) => {
 			setInputValue(state.text);
 			setAttachedImages(state.images);
@@ -261,8 +308,20 @@ export function TabContent({
 		cancel: async () => {
 			if (isSending) await handleStopGeneration();
 		},
-		getLastAssistantText: () => {
-			return getLastAssistantMessage(messages);
+		exportChat: chatExport.exportCurrentChat,
+		importTranscript: async (notePath) => {
+			await controller.handleImportTranscript(await readFile(notePath));
+		},
+		prepareHandoff: controller.prepareHandoff,
+		getAvailableModels: () => sessionRef.current.models?.availableModels ?? [],
+		getSessionBinding: () => {
+			const current = sessionRef.current;
+			return {
+				agent: current.agentId,
+				model: current.models?.currentModelId,
+				mode: current.modes?.currentModeId,
+				session: current.sessionId ?? undefined,
+			};
 		},
 	};
 
@@ -312,6 +371,13 @@ export function TabContent({
 					onRestoreSession={handleRestoreSession}
 					onForkSession={handleForkSession}
 					onDeleteSession={handleDeleteSession}
+					onExportSession={(sessionId) =>
+						void chatExport.exportSavedSession(sessionId)
+					}
+					onSearchSessions={sessionHistory.searchSessions}
+					onOpenSearchResult={controller.handleOpenSearchResult}
+					onOpenContinuation={onOpenSession}
+					resolveAgentName={(id) => resolveAgentDisplayName(settings, id)}
 					onLoadMore={handleLoadMore}
 					onFetchSessions={handleFetchSessions}
 					onClose={handleCloseHistory}
@@ -328,12 +394,16 @@ export function TabContent({
 				view={view}
 				agentClient={agentClient}
 				onApprovePermission={permission.approvePermission}
+				scrollTargetMessageId={controller.scrollTargetMessageId}
+				onScrollTargetReached={controller.handleScrollTargetReached}
+				authenticationPrompt={controller.authenticationPrompt}
 			/>
 
 			{sessionRestore.changeSet &&
 				sessionRestore.changeSet.changes.length > 0 && (
 					<FileChangesPanel
 						changes={sessionRestore.changeSet.changes}
+						lockViolations={sessionRestore.lockViolations}
 						plugin={plugin}
 						onUndoAll={() => void handleUndoAll()}
 						onKeepAll={sessionRestore.dismiss}
@@ -372,6 +442,7 @@ export function TabContent({
 				messages={messages}
 				vaultAccess={controller.vaultAccess}
 				contextUsage={controller.contextUsage}
+				promptQueue={controller.promptQueue}
 			/>
 		</div>
 	);
@@ -1,7 +1,15 @@
 import * as React from "react";
-const { useState, useRef, useEffect } = React;
+const { useMemo, useState } = React;
+import { Notice } from "obsidian";
 import type { IAgentClient } from "../../domain/ports/agent-client.port";
-import { getLogger } from "../../shared/logger";
+import { useTerminalOutput } from "../../hooks/useTerminalOutput";
+import {
+	applyCarriageReturns,
+	parseAnsi,
+	stripAnsi,
+	type AnsiColor,
+	type AnsiStyle,
+} from "../../shared/ansi";
 import type AgentClientPlugin from "../../plugin";
 import { CollapsibleSection } from "./CollapsibleSection";
 import { ObsidianIcon } from "./ObsidianIcon";
@@ -12,94 +20,144 @@ interface TerminalRendererProps {
 	plugin: AgentClientPlugin;
 }
 
-export function TerminalRenderer({
-	terminalId,
-	agentClient,
-	plugin,
-}: TerminalRendererProps) {
-	const logger = getLogger();
-	const [output, setOutput] = useState("");
-	const [exitStatus, setExitStatus] = useState<{
-		exitCode: number | null;
-		signal: string | null;
-	} | null>(null);
-	const [isRunning, setIsRunning] = useState(true);
-	const [isCancelled, setIsCancelled] = useState(false);
-	const intervalRef = useRef<number | null>(null);
-
-	logger.log(
-		`[TerminalRenderer] Component rendered for terminal ${terminalId}, agentClient: ${!!agentClient}`,
-	);
-
-	useEffect(() => {
-		logger.log(
-			`[TerminalRenderer] useEffect triggered for ${terminalId}, agentClient: ${!!agentClient}`,
-		);
-		if (!terminalId || !agentClient) return;
+function colorProps(
+	color: AnsiColor | undefined,
+	kind: "fg" | "bg",
+): { className?: string; value?: string } {
+	if (!color) return {};
+	if (color.startsWith("#")) return { value: color };
+	return { className: `ac-ansi-${kind}-${color}` };
+}
 
-		const pollOutput = async () => {
-			try {
-				const result = await agentClient.getTerminalOutput(terminalId);
-				logger.log(`[TerminalRenderer] Poll result for ${terminalId}:`, result);
-				setOutput(result.output);
-				if (result.exitStatus) {
-					setExitStatus({
-						exitCode: result.exitStatus.exitCode ?? null,
-						signal: result.exitStatus.signal ?? null,
-					});
-					setIsRunning(false);
-					if (intervalRef.current) {
-						window.clearInterval(intervalRef.current);
-						intervalRef.current = null;
-					}
-				}
-			} catch (error) {
-				const errorMessage =
-					error instanceof Error ? error.message : String(error);
+function segmentProps(style: AnsiStyle): {
+	className?: string;
+	style?: React.CSSProperties;
+} {
+	const fg = colorProps(style.inverse ? style.bg : style.fg, "fg");
+	const bg = colorProps(style.inverse ? (style.fg ?? "white") : style.bg, "bg");
+	const classes = [
+		fg.className,
+		bg.className,
+		style.bold && "ac-ansi-bold",
+		style.dim && "ac-ansi-dim",
+		style.italic && "ac-ansi-italic",
+		style.underline && "ac-ansi-underline",
+	].filter(Boolean);
+	const inline: React.CSSProperties = {};
+	if (fg.value) inline.color = fg.value;
+	if (bg.value) inline.backgroundColor = bg.value;
+	return {
+		className: classes.length > 0 ? classes.join(" ") : undefined,
+		style: fg.value || bg.value ? inline : undefined,
+	};
+}
 
-				logger.log(
-					`[TerminalRenderer] Polling error for terminal ${terminalId}: ${errorMessage}`,
+/** Terminal output with ANSI colors, parsed only while the body is shown */
+function AnsiOutput({ output }: { output: string }) {
+	const segments = useMemo(
+		() => parseAnsi(applyCarriageReturns(output)),
+		[output],
+	);
+	return (
+		<>
+			{segments.map((segment, index) => {
+				const props = segmentProps(segment.style);
+				return props.className || props.style ? (
+					<span key={index} {...props}>
+						{segment.text}
+					</span>
+				) : (
+					<React.Fragment key={index}>{segment.text}</React.Fragment>
 				);
+			})}
+		</>
+	);
+}
 
-				if (errorMessage.includes("not found") && !exitStatus) {
-					setIsCancelled(true);
-				}
+/** Line editor that writes to the command's stdin */
+function TerminalInput({
+	onSend,
+}: {
+	onSend: (text: string) => Promise<boolean>;
+}) {
+	const [value, setValue] = useState("");
+	const [isHidden, setIsHidden] = useState(false);
 
-				setIsRunning(false);
-				if (intervalRef.current) {
-					window.clearInterval(intervalRef.current);
-					intervalRef.current = null;
-				}
-			}
-		};
+	const send = () => {
+		const line = value;
+		setValue("");
+		void onSend(`${line}\n`).then((sent) => {
+			if (!sent) new Notice("Could not send input to the command");
+		});
+	};
 
-		void pollOutput();
+	return (
+		<div className="ac-terminal__input">
+			<span className="ac-terminal__input-prompt" aria-hidden="true">
+				&gt;
+			</span>
+			<input
+				type={isHidden ? "password" : "text"}
+				className="ac-terminal__input-field"
+				placeholder="Type input for the command, then press Enter"
+				aria-label="Command input"
+				autoComplete="off"
+				spellCheck={false}
+				value={value}
+				onChange={(event) => setValue(event.target.value)}
+				onKeyDown={(event) => {
+					if (event.key === "Enter" && !event.nativeEvent.isComposing) {
+						event.preventDefault();
+						send();
+					}
+				}}
+			/>
+			<button
+				type="button"
+				className="ac-terminal__action clickable-icon"
+				aria-label={isHidden ? "Show input" : "Hide input"}
+				aria-pressed={isHidden}
+				onClick={() => setIsHidden((hidden) => !hidden)}
+			>
+				<ObsidianIcon name={isHidden ? "eye-off" : "eye"} size={14} />
+			</button>
+		</div>
+	);
+}
 
-		intervalRef.current = window.setInterval(() => {
-			void pollOutput();
-		}, 100);
+export function TerminalRenderer({
+	terminalId,
+	agentClient,
+}: TerminalRendererProps) {
+	const {
+		output,
+		exitStatus,
+		isRunning,
+		isMissing,
+		isTruncated,
+		isAwaitingInput,
+		stop,
+		sendInput,
+	} = useTerminalOutput(agentClient, terminalId);
 
-		return () => {
-			if (intervalRef.current) {
-				window.clearInterval(intervalRef.current);
-				intervalRef.current = null;
-			}
-		};
-	}, [terminalId, agentClient, logger]);
+	const handleStop = (event: React.MouseEvent) => {
+		event.stopPropagation();
+		void stop();
+	};
 
-	useEffect(() => {
-		if (!isRunning && intervalRef.current) {
-			window.clearInterval(intervalRef.current);
-			intervalRef.current = null;
-		}
-	}, [isRunning]);
+	const handleCopy = (event: React.MouseEvent) => {
+		event.stopPropagation();
+		void navigator.clipboard
+			.writeText(stripAnsi(applyCarriageReturns(output)))
+			.then(() => new Notice("Terminal output copied"));
+	};
 
 	const statusClass = isRunning
 		? "ac-tool-status--running"
-		: isCancelled
+		: isMissing
 			? "ac-tool-status--error"
 			: "ac-tool-status--completed";
-	const statusIconName = isRunning ? "" : isCancelled ? "x" : "check";
+	const statusIconName = isRunning ? "" : isMissing ? "x" : "check";
 
 	const header = (
 		<>
@@ -108,6 +166,36 @@ export function TerminalRenderer({
 			{exitStatus?.exitCode != null && (
 				<span className="ac-row__summary">exit {exitStatus.exitCode}</span>
 			)}
+			{isAwaitingInput && (
+				<span
+					className="ac-terminal__awaiting"
+					title="No output for a while. The command may be waiting for input."
+				>
+					Waiting for input?
+				</span>
+			)}
+			<span className="ac-terminal__actions">
+				{output && (
+					<button
+						type="button"
+						className="ac-terminal__action clickable-icon"
+						aria-label="Copy output"
+						onClick={handleCopy}
+					>
+						<ObsidianIcon name="copy" size={14} />
+					</button>
+				)}
+				{isRunning && (
+					<button
+						type="button"
+						className="ac-terminal__action clickable-icon"
+						aria-label="Stop command"
+						onClick={handleStop}
+					>
+						<ObsidianIcon name="square" size={14} />
+					</button>
+				)}
+			</span>
 			<span className={`ac-tool-status ${statusClass}`}>
 				{statusIconName && <ObsidianIcon name={statusIconName} size={14} />}
 			</span>
@@ -118,13 +206,30 @@ export function TerminalRenderer({
 		<CollapsibleSection
 			className="ac-terminal"
 			defaultExpanded={false}
+			stateKey={`terminal:${terminalId}`}
 			header={header}
 		>
 			<div className="ac-tree__item">
 				<pre className="ac-terminal__output">
-					{output || (isRunning ? "Waiting for output..." : "No output")}
+					{isTruncated && (
+						<span className="ac-terminal__truncated">
+							Earlier output is not shown.{"\n"}
+						</span>
+					)}
+					{output ? (
+						<AnsiOutput output={output} />
+					) : isRunning ? (
+						"Waiting for output..."
+					) : (
+						"No output"
+					)}
 				</pre>
 			</div>
+			{isRunning && (
+				<div className="ac-tree__item">
+					<TerminalInput onSend={sendInput} />
+				</div>
+			)}
 			{exitStatus && (
 				<div className="ac-tree__item">
 					<span
@@ -6,6 +6,7 @@ import type { IAgentClient } from "../../domain/ports/agent-client.port";
 import type AgentClientPlugin from "../../plugin";
 import { TerminalRenderer } from "./TerminalRenderer";
 import { PermissionRequestSection } from "./PermissionRequestSection";
+import { describePathScopeViolation } from "../../shared/path-scope";
 import { toRelativePath } from "../../shared/path-utils";
 import { CollapsibleSection } from "./CollapsibleSection";
 import { ObsidianIcon } from "./ObsidianIcon";
@@ -68,6 +69,8 @@ export function ToolCallRenderer({
 		permissionRequest,
 		locations,
 		rawInput,
+		pathViolations,
+		policyRule,
 		content: toolContent,
 	} = content;
 
@@ -157,12 +160,15 @@ export function ToolCallRenderer({
 	const hasDiffBadges =
 		toolContent?.some((item) => item.type === "diff") ?? false;
 	const hasTodoPlanRendered = isTodoTool && hasPlanContent;
+	const hasPathViolations = !!pathViolations && pathViolations.length > 0;
 	const hasRenderableDetails =
 		!hasTodoPlanRendered &&
 		(hasCommandDetails ||
 			hasLocationDetails ||
 			hasTerminalContent ||
 			hasDiffBadges ||
+			hasPathViolations ||
+			!!policyRule ||
 			!!permissionRequest);
 
 	const fileTitle = useMemo(() => {
@@ -281,6 +287,14 @@ export function ToolCallRenderer({
 					<span className="ac-tool-diff-removed">-{diffStats.removed}</span>
 				</span>
 			)}
+			{hasPathViolations && (
+				<span
+					className="ac-tool-path-violation"
+					title="Touches files outside this agent's path scope"
+				>
+					<ObsidianIcon name="shield-alert" size={14} />
+				</span>
+			)}
 			<span
 				className={`ac-tool-status ${statusClass ? `ac-tool-status--${statusClass}` : ""}`}
 			>
@@ -294,6 +308,7 @@ export function ToolCallRenderer({
 			className={`ac-toolcall ${isFileEditTool ? "ac-toolcall--file-edit" : ""}`}
 			defaultExpanded={!!permissionRequest}
 			collapsible={hasRenderableDetails}
+			stateKey={`tool:${toolCallId}`}
 			header={header}
 		>
 			{hasCommandDetails &&
@@ -339,6 +354,30 @@ export function ToolCallRenderer({
 				</div>
 			)}
 
+			{hasPathViolations && (
+				<div className="ac-tree__item ac-tree__path-violations">
+					<ObsidianIcon name="shield-alert" size={14} />
+					<span>
+						Outside path scope:{" "}
+						{pathViolations
+							.map((violation) =>
+								describePathScopeViolation({
+									...violation,
+									path: toRelativePath(violation.path, vaultPath),
+								}),
+							)
+							.join(", ")}
+					</span>
+				</div>
+			)}
+
+			{policyRule && (
+				<div className="ac-tree__item ac-tree__policy-rule">
+					<ObsidianIcon name="shield" size={14} />
+					<span>Terminal rule: {policyRule}</span>
+				</div>
+			)}
+
 			{toolContent &&
 				toolContent.map((item, index) => {
 					if (item.type === "terminal") {
@@ -31,7 +31,7 @@ const Y2 = CY + RADIUS * Math.sin(END_RAD);
 
 const ARC_D = `M ${X1} ${Y1} A ${RADIUS} ${RADIUS} 0 1 1 ${X2} ${Y2}`;
 
-function formatTokens(tokens: number): string {
+export function formatTokens(tokens: number): string {
 	if (tokens >= 1000) {
 		return `${Math.round(tokens / 1000)}k`;
 	}
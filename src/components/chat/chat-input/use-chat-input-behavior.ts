@@ -29,6 +29,8 @@ interface UseChatInputBehaviorParams {
 	isSending: boolean;
 	isButtonDisabled: boolean;
 	handleSendOrStop: () => Promise<void>;
+	/** Queue the input while a turn is running, if the chat has a queue */
+	handleQueue?: () => void;
 }
 
 export function useChatInputBehavior({
@@ -44,6 +46,7 @@ export function useChatInputBehavior({
 	isSending,
 	isButtonDisabled,
 	handleSendOrStop,
+	handleQueue,
 }: UseChatInputBehaviorParams) {
 	const [hintText, setHintText] = useState<string | null>(null);
 	const [commandText, setCommandText] = useState<string>("");
@@ -166,7 +169,9 @@ export function useChatInputBehavior({
 
 				if (shouldSend) {
 					e.preventDefault();
-					if (!isButtonDisabled && !isSending) {
+					if (isSending) {
+						handleQueue?.();
+					} else if (!isButtonDisabled) {
 						void handleSendOrStop();
 					}
 				}
@@ -179,6 +184,7 @@ export function useChatInputBehavior({
 			isButtonDisabled,
 			isSending,
 			handleSendOrStop,
+			handleQueue,
 		],
 	);
 
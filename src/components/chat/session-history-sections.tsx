@@ -1,11 +1,17 @@
 import * as React from "react";
 import { setIcon } from "obsidian";
-import type { SessionInfo } from "../../domain/models/session-info";
+import type {
+	SessionInfo,
+	SessionLink,
+} from "../../domain/models/session-info";
 
 interface SessionActionHandlers {
 	onRestoreSession: (sessionId: string, cwd: string) => Promise<void>;
 	onForkSession: (sessionId: string, cwd: string) => Promise<void>;
 	onDeleteSession: (sessionId: string) => void;
+	onExportSession?: (sessionId: string) => void;
+	/** Open the other end of a handoff, which may belong to another agent */
+	onOpenContinuation?: (link: SessionLink) => void;
 	onClose: () => void;
 }
 
@@ -170,11 +176,49 @@ export function DebugForm({
 	);
 }
 
+/** Link to the other end of a handoff; plain text when it cannot be opened */
+function ContinuationLink({
+	label,
+	link,
+	agentName,
+	onOpen,
+	onClose,
+}: {
+	label: string;
+	link: SessionLink;
+	agentName: string;
+	onOpen?: (link: SessionLink) => void;
+	onClose: () => void;
+}) {
+	if (!onOpen) {
+		return (
+			<span className="obsius-session-history-item-continuation">
+				{label} {agentName}
+			</span>
+		);
+	}
+	return (
+		<button
+			type="button"
+			className="obsius-session-history-item-continuation obsius-session-history-item-continuation--link"
+			onClick={(event) => {
+				event.stopPropagation();
+				onClose();
+				onOpen(link);
+			}}
+			onKeyDown={(event) => event.stopPropagation()}
+		>
+			{label} {agentName}
+		</button>
+	);
+}
+
 interface SessionItemProps extends SessionActionHandlers {
 	session: SessionInfo;
 	isCurrent: boolean;
 	canRestore: boolean;
 	canFork: boolean;
+	resolveAgentName?: (agentId: string) => string;
 }
 
 export function SessionItem({
@@ -185,7 +229,10 @@ export function SessionItem({
 	onRestoreSession,
 	onForkSession,
 	onDeleteSession,
+	onExportSession,
+	onOpenContinuation,
 	onClose,
+	resolveAgentName = (agentId) => agentId,
 }: SessionItemProps) {
 	const handleClick = React.useCallback(() => {
 		if (!canRestore) return;
@@ -210,6 +257,15 @@ export function SessionItem({
 		[session.sessionId, onDeleteSession],
 	);
 
+	const handleExport = React.useCallback(
+		(event: React.MouseEvent) => {
+			event.stopPropagation();
+			onClose();
+			onExportSession?.(session.sessionId);
+		},
+		[session.sessionId, onExportSession, onClose],
+	);
+
 	return (
 		<div
 			className={`obsius-session-history-item${canRestore ? " obsius-session-history-item--clickable" : ""}${isCurrent ? " obsius-session-history-item--current" : ""}`}
@@ -244,6 +300,24 @@ export function SessionItem({
 							</span>
 						)
 					)}
+					{session.continuedFrom && (
+						<ContinuationLink
+							label="Handed off from"
+							link={session.continuedFrom}
+							agentName={resolveAgentName(session.continuedFrom.agentId)}
+							onOpen={onOpenContinuation}
+							onClose={onClose}
+						/>
+					)}
+					{session.continuedIn && (
+						<ContinuationLink
+							label="Continued with"
+							link={session.continuedIn}
+							agentName={resolveAgentName(session.continuedIn.agentId)}
+							onOpen={onOpenContinuation}
+							onClose={onClose}
+						/>
+					)}
 				</div>
 			</div>
 
@@ -256,6 +330,14 @@ export function SessionItem({
 						onClick={handleFork}
 					/>
 				)}
+				{onExportSession && (
+					<IconButton
+						iconName="file-output"
+						label="Export to note"
+						className="obsius-session-history-action-icon obsius-session-history-export-icon"
+						onClick={handleExport}
+					/>
+				)}
 				<IconButton
 					iconName="trash-2"
 					label="Delete session"
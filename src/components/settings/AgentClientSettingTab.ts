@@ -6,6 +6,8 @@ import {
 } from "./sections/agent-sections";
 import { renderCustomAgents } from "./sections/custom-agent-sections";
 import { renderCoreSections } from "./sections/core-sections";
+import { renderGlobalMcpServers } from "./sections/mcp-server-sections";
+import { renderInlineEditTemplates } from "./sections/inline-edit-sections";
 import { renderSectionHeader } from "./settings-ui-helpers";
 
 export class AgentClientSettingTab extends PluginSettingTab {
@@ -55,6 +57,22 @@ export class AgentClientSettingTab extends PluginSettingTab {
 			onRefreshDropdown: () => this.refreshAgentDropdown(),
 			onRedisplay: () => this.display(),
 		});
+
+		renderSectionHeader(
+			containerEl,
+			"server",
+			"MCP servers",
+			"Tool servers passed to agents when a session starts",
+		);
+		renderGlobalMcpServers(containerEl, this.plugin);
+
+		renderSectionHeader(
+			containerEl,
+			"wand-2",
+			"Inline edit",
+			"Prompts used to edit a selection in the editor",
+		);
+		renderInlineEditTemplates(containerEl, this.plugin, () => this.display());
 	}
 
 	hide(): void {
@@ -4,6 +4,8 @@ import type { AgentEnvVar } from "../../../plugin";
 import { normalizeEnvVars } from "../../../shared/settings-utils";
 import { renderAgentSubHeading } from "../settings-ui-helpers";
 import { renderPathSettingWithDetect } from "./agent-command-setting";
+import { renderAgentMcpServers } from "./mcp-server-sections";
+import { renderAgentPathScope } from "./path-scope-sections";
 import { renderAgentModelSettings } from "./model-preferences";
 
 type BuiltInApiKeyAgent = "claude" | "codex" | "gemini";
@@ -185,6 +187,8 @@ function renderGeminiSettings(
 		});
 
 	renderAgentModelSettings(sectionEl, plugin, gemini.id);
+	renderAgentMcpServers(sectionEl, plugin, gemini.id);
+	renderAgentPathScope(sectionEl, plugin, gemini.id);
 }
 
 function renderClaudeSettings(
@@ -260,6 +264,8 @@ function renderClaudeSettings(
 		});
 
 	renderAgentModelSettings(sectionEl, plugin, claude.id);
+	renderAgentMcpServers(sectionEl, plugin, claude.id);
+	renderAgentPathScope(sectionEl, plugin, claude.id);
 }
 
 function renderOpenCodeSettings(
@@ -322,6 +328,8 @@ function renderOpenCodeSettings(
 		});
 
 	renderAgentModelSettings(sectionEl, plugin, opencode.id);
+	renderAgentMcpServers(sectionEl, plugin, opencode.id);
+	renderAgentPathScope(sectionEl, plugin, opencode.id);
 }
 
 function renderCodexSettings(
@@ -397,4 +405,6 @@ function renderCodexSettings(
 		});
 
 	renderAgentModelSettings(sectionEl, plugin, codex.id);
+	renderAgentMcpServers(sectionEl, plugin, codex.id);
+	renderAgentPathScope(sectionEl, plugin, codex.id);
 }
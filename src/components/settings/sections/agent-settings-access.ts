@@ -0,0 +1,42 @@
+import type { BaseAgentSettings } from "../../../domain/models/agent-config";
+import type AgentClientPlugin from "../../../plugin";
+
+const BUILT_IN_AGENT_KEYS = ["claude", "codex", "gemini", "opencode"] as const;
+
+/** Settings of a built-in or custom agent by ID */
+export function findAgentSettings(
+	plugin: AgentClientPlugin,
+	agentId: string,
+): BaseAgentSettings | null {
+	const { settings } = plugin;
+	const builtIn = BUILT_IN_AGENT_KEYS.map((key) => settings[key]).find(
+		(agent) => agent.id === agentId,
+	);
+	return (
+		builtIn ??
+		settings.customAgents.find((custom) => custom.id === agentId) ??
+		null
+	);
+}
+
+/** Save fields shared by all agents on a built-in or custom agent */
+export async function updateAgentSettings(
+	plugin: AgentClientPlugin,
+	agentId: string,
+	patch: Partial<BaseAgentSettings>,
+): Promise<void> {
+	const { settings, settingsStore } = plugin;
+	for (const key of BUILT_IN_AGENT_KEYS) {
+		if (settings[key].id === agentId) {
+			await settingsStore.updateSettings({
+				[key]: { ...settings[key], ...patch },
+			});
+			return;
+		}
+	}
+	await settingsStore.updateSettings({
+		customAgents: settings.customAgents.map((agent) =>
+			agent.id === agentId ? { ...agent, ...patch } : agent,
+		),
+	});
+}
@@ -4,11 +4,16 @@ import type { ChatViewLocation } from "../../../plugin";
 import {
 	CHAT_FONT_SIZE_MAX,
 	CHAT_FONT_SIZE_MIN,
+	MAX_TABS_MAX,
+	MAX_TABS_MIN,
 	parseChatFontSize,
 } from "../../../shared/display-settings";
 import { resolveCommandFromShell } from "../../../shared/shell-utils";
 import { renderSectionHeader } from "../settings-ui-helpers";
 import { renderGlobalSecretBindings } from "./secret-bindings-section";
+import { renderGlobalPathScope } from "./path-scope-sections";
+import { renderPermissionGrants } from "./permission-grant-sections";
+import { renderTerminalCommandRules } from "./terminal-rule-sections";
 
 export const renderCoreSections = (
 	containerEl: HTMLElement,
@@ -91,7 +96,7 @@ export const renderCoreSections = (
 
 	renderMentionsSection(containerEl, plugin);
 	renderDisplaySection(containerEl, plugin, redisplay);
-	renderPermissionSection(containerEl, plugin);
+	renderPermissionSection(containerEl, plugin, redisplay);
 	renderWindowsSection(containerEl, plugin, redisplay);
 	renderDeveloperSection(containerEl, plugin);
 };
@@ -175,6 +180,26 @@ function renderDisplaySection(
 				}),
 		);
 
+	new Setting(containerEl)
+		.setName("Maximum tabs")
+		.setDesc(
+			"How many chat tabs one chat view can hold. Open tabs are kept when the limit is lowered.",
+		)
+		.addSlider((slider) =>
+			slider
+				.setLimits(MAX_TABS_MIN, MAX_TABS_MAX, 1)
+				.setValue(plugin.settings.displaySettings.maxTabs)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					await store.updateSettings({
+						displaySettings: {
+							...plugin.settings.displaySettings,
+							maxTabs: value,
+						},
+					});
+				}),
+		);
+
 	new Setting(containerEl)
 		.setName("Chat font size")
 		.setDesc(
@@ -291,6 +316,7 @@ function renderDisplaySection(
 function renderPermissionSection(
 	containerEl: HTMLElement,
 	plugin: AgentClientPlugin,
+	redisplay: () => void,
 ): void {
 	renderSectionHeader(containerEl, "shield", "Permissions");
 	const store = plugin.settingsStore;
@@ -317,6 +343,10 @@ function renderPermissionSection(
 					});
 				}),
 		);
+
+	renderTerminalCommandRules(containerEl, plugin, redisplay);
+	renderPermissionGrants(containerEl, plugin, redisplay);
+	renderGlobalPathScope(containerEl, plugin);
 }
 
 function renderWindowsSection(
@@ -2,6 +2,8 @@ import { Setting } from "obsidian";
 import type AgentClientPlugin from "../../../plugin";
 import type { CustomAgentSettings } from "../../../plugin";
 import { formatArgs, parseArgs, formatEnv, parseEnv } from "./agent-sections";
+import { renderAgentMcpServers } from "./mcp-server-sections";
+import { renderAgentPathScope } from "./path-scope-sections";
 import { renderAgentModelSettings } from "./model-preferences";
 
 const generateCustomAgentDisplayName = (plugin: AgentClientPlugin): string => {
@@ -243,4 +245,6 @@ function renderCustomAgent(
 		});
 
 	renderAgentModelSettings(blockEl, plugin, agent.id);
+	renderAgentMcpServers(blockEl, plugin, agent.id);
+	renderAgentPathScope(blockEl, plugin, agent.id);
 }
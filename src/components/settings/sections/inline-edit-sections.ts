@@ -0,0 +1,105 @@
+import { Setting } from "obsidian";
+import type {
+	InlineEditMode,
+	InlineEditTemplate,
+} from "../../../domain/models/inline-edit-template";
+import type AgentClientPlugin from "../../../plugin";
+import {
+	DEFAULT_INLINE_EDIT_TEMPLATES,
+	INLINE_EDIT_MODE_PROPERTY,
+} from "../../../shared/inline-edit-prompt";
+
+const getTemplates = (plugin: AgentClientPlugin): InlineEditTemplate[] =>
+	plugin.settings.inlineEditTemplates ?? DEFAULT_INLINE_EDIT_TEMPLATES;
+
+const saveTemplates = (
+	plugin: AgentClientPlugin,
+	inlineEditTemplates: InlineEditTemplate[],
+): Promise<void> =>
+	plugin.settingsStore.updateSettings({ inlineEditTemplates });
+
+export function renderInlineEditTemplates(
+	containerEl: HTMLElement,
+	plugin: AgentClientPlugin,
+	redisplay: () => void,
+): void {
+	new Setting(containerEl)
+		.setName("Edit templates")
+		.setDesc(
+			`Prompts for "AI edit selection". Placeholders: {{instruction}}, {{selection}}, {{before}}, {{after}}, {{title}}, {{frontmatter}}. Markdown notes use prose templates, other files and code blocks use code templates; set the "${INLINE_EDIT_MODE_PROPERTY}" property to override.`,
+		)
+		.addButton((button) =>
+			button.setButtonText("Restore defaults").onClick(async () => {
+				await saveTemplates(
+					plugin,
+					DEFAULT_INLINE_EDIT_TEMPLATES.map((template) => ({ ...template })),
+				);
+				redisplay();
+			}),
+		)
+		.addButton((button) =>
+			button.setButtonText("Add template").onClick(async () => {
+				await saveTemplates(plugin, [
+					...getTemplates(plugin),
+					{
+						id: `template-${Date.now().toString(36)}`,
+						name: "New template",
+						mode: "prose",
+						template: "{{instruction}}\n\n{{selection}}",
+					},
+				]);
+				redisplay();
+			}),
+		);
+
+	const update = (index: number, patch: Partial<InlineEditTemplate>) =>
+		saveTemplates(
+			plugin,
+			getTemplates(plugin).map((template, i) =>
+				i === index ? { ...template, ...patch } : template,
+			),
+		);
+
+	getTemplates(plugin).forEach((template, index) => {
+		const blockEl = containerEl.createDiv({
+			cls: "obsius-inline-edit-template-setting",
+		});
+
+		new Setting(blockEl)
+			.setName("Template name")
+			.addText((text) =>
+				text.setValue(template.name).onChange(async (name) => {
+					await update(index, { name });
+				}),
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("prose", "Prose")
+					.addOption("code", "Code")
+					.setValue(template.mode)
+					.onChange(async (mode) => {
+						await update(index, { mode: mode as InlineEditMode });
+					}),
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Remove template")
+					.onClick(async () => {
+						await saveTemplates(
+							plugin,
+							getTemplates(plugin).filter((_, i) => i !== index),
+						);
+						redisplay();
+					}),
+			);
+
+		new Setting(blockEl).addTextArea((text) => {
+			text.setValue(template.template).onChange(async (value) => {
+				await update(index, { template: value });
+			});
+			text.inputEl.rows = 8;
+			text.inputEl.addClass("obsius-inline-edit-template-input");
+		});
+	});
+}
@@ -0,0 +1,301 @@
+import { Setting } from "obsidian";
+import type {
+	AgentSecretBinding,
+	McpHttpHeader,
+	McpServerSettings,
+	McpServerTransport,
+} from "../../../domain/models/agent-config";
+import type AgentClientPlugin from "../../../plugin";
+import { formatArgs, formatEnv, parseArgs, parseEnv } from "./agent-sections";
+import {
+	findAgentSettings,
+	updateAgentSettings,
+} from "./agent-settings-access";
+
+const SECRET_ID_PATTERN = /^[a-z0-9-]+$/;
+
+interface McpServerListOptions {
+	title: string;
+	description: string;
+	getServers: () => McpServerSettings[];
+	saveServers: (servers: McpServerSettings[]) => Promise<void>;
+}
+
+const createMcpServer = (): McpServerSettings => ({
+	id: `mcp-${Date.now().toString(36)}`,
+	name: "",
+	enabled: true,
+	transport: "stdio",
+	command: "",
+	args: [],
+	env: [],
+	url: "",
+	headers: [],
+	secretBindings: [],
+});
+
+const formatHeaders = (headers: McpHttpHeader[]): string =>
+	headers.map((header) => `${header.name}: ${header.value}`).join("\n");
+
+const parseHeaders = (value: string): McpHttpHeader[] => {
+	const headers: McpHttpHeader[] = [];
+	for (const line of value.split(/\r?\n/)) {
+		const delimiter = line.indexOf(":");
+		if (delimiter === -1) {
+			continue;
+		}
+		const name = line.slice(0, delimiter).trim();
+		if (!name) {
+			continue;
+		}
+		headers.push({ name, value: line.slice(delimiter + 1).trim() });
+	}
+	return headers;
+};
+
+const formatSecretBindings = (bindings: AgentSecretBinding[]): string =>
+	bindings.map((binding) => `${binding.envKey}=${binding.secretId}`).join("\n");
+
+/** Lines that are not NAME=secret-id are dropped: invalid ids reset settings */
+const parseSecretBindings = (value: string): AgentSecretBinding[] => {
+	const bindings: AgentSecretBinding[] = [];
+	for (const line of value.split(/\r?\n/)) {
+		const delimiter = line.indexOf("=");
+		if (delimiter === -1) {
+			continue;
+		}
+		const envKey = line.slice(0, delimiter).trim();
+		const secretId = line.slice(delimiter + 1).trim();
+		if (!envKey || !SECRET_ID_PATTERN.test(secretId)) {
+			continue;
+		}
+		bindings.push({ envKey, secretId });
+	}
+	return bindings;
+};
+
+/**
+ * Render an editable list of MCP servers. The list re-renders itself in
+ * place, so callers do not need to redisplay the whole settings tab.
+ */
+function renderMcpServerList(
+	containerEl: HTMLElement,
+	options: McpServerListOptions,
+): void {
+	const listEl = containerEl.createDiv({ cls: "obsius-mcp-server-list" });
+
+	const render = () => {
+		listEl.empty();
+		const servers = options.getServers();
+
+		const update = async (
+			index: number,
+			patch: Partial<McpServerSettings>,
+			rerender = false,
+		): Promise<void> => {
+			await options.saveServers(
+				options
+					.getServers()
+					.map((server, i) => (i === index ? { ...server, ...patch } : server)),
+			);
+			if (rerender) render();
+		};
+
+		new Setting(listEl)
+			.setName(options.title)
+			.setDesc(options.description)
+			.addButton((button) =>
+				button.setButtonText("Add server").onClick(async () => {
+					await options.saveServers([
+						...options.getServers(),
+						createMcpServer(),
+					]);
+					render();
+				}),
+			);
+
+		servers.forEach((server, index) => {
+			renderMcpServer(listEl, server, {
+				update: (patch, rerender) => update(index, patch, rerender),
+				remove: async () => {
+					await options.saveServers(
+						options.getServers().filter((_, i) => i !== index),
+					);
+					render();
+				},
+			});
+		});
+	};
+
+	render();
+}
+
+function renderMcpServer(
+	listEl: HTMLElement,
+	server: McpServerSettings,
+	actions: {
+		update: (
+			patch: Partial<McpServerSettings>,
+			rerender?: boolean,
+		) => Promise<void>;
+		remove: () => Promise<void>;
+	},
+): void {
+	const blockEl = listEl.createDiv({ cls: "obsius-mcp-server" });
+
+	new Setting(blockEl)
+		.setName("Server name")
+		.setDesc("Name the agent uses to refer to this server.")
+		.addText((text) =>
+			text
+				.setPlaceholder("Docs")
+				.setValue(server.name)
+				.onChange(async (value) => {
+					await actions.update({ name: value.trim() });
+				}),
+		)
+		.addToggle((toggle) =>
+			toggle.setValue(server.enabled).onChange(async (enabled) => {
+				await actions.update({ enabled });
+			}),
+		)
+		.addExtraButton((button) =>
+			button
+				.setIcon("trash")
+				.setTooltip("Remove server")
+				.onClick(() => actions.remove()),
+		);
+
+	new Setting(blockEl)
+		.setName("Transport")
+		.setDesc(
+			"Remote servers are only sent to agents that advertise support for their transport.",
+		)
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOption("stdio", "Command (stdio)")
+				.addOption("http", "HTTP")
+				.addOption("sse", "SSE")
+				.setValue(server.transport)
+				.onChange(async (value) => {
+					await actions.update(
+						{ transport: value as McpServerTransport },
+						true,
+					);
+				}),
+		);
+
+	if (server.transport === "stdio") {
+		new Setting(blockEl)
+			.setName("Command")
+			.setDesc("Absolute path or command used to start the server.")
+			.addText((text) =>
+				text.setValue(server.command).onChange(async (value) => {
+					await actions.update({ command: value.trim() });
+				}),
+			);
+
+		new Setting(blockEl)
+			.setName("Arguments")
+			.setDesc("Enter one argument per line.")
+			.addTextArea((text) => {
+				text.setValue(formatArgs(server.args)).onChange(async (value) => {
+					await actions.update({ args: parseArgs(value) });
+				});
+				text.inputEl.rows = 2;
+			});
+
+		new Setting(blockEl)
+			.setName("Environment variables")
+			.setDesc("Enter KEY=VALUE pairs, one per line. (stored as plain text)") // eslint-disable-line obsidianmd/ui/sentence-case
+			.addTextArea((text) => {
+				text.setValue(formatEnv(server.env)).onChange(async (value) => {
+					await actions.update({ env: parseEnv(value) });
+				});
+				text.inputEl.rows = 2;
+			});
+	} else {
+		new Setting(blockEl).setName("URL").addText((text) =>
+			text
+				.setPlaceholder("https://example.com/mcp")
+				.setValue(server.url)
+				.onChange(async (value) => {
+					await actions.update({ url: value.trim() });
+				}),
+		);
+
+		new Setting(blockEl)
+			.setName("Headers")
+			.setDesc("Enter Name: value pairs, one per line. (stored as plain text)") // eslint-disable-line obsidianmd/ui/sentence-case
+			.addTextArea((text) => {
+				text.setValue(formatHeaders(server.headers)).onChange(async (value) => {
+					await actions.update({ headers: parseHeaders(value) });
+				});
+				text.inputEl.rows = 2;
+			});
+	}
+
+	new Setting(blockEl)
+		.setName("Secrets")
+		.setDesc(
+			server.transport === "stdio"
+				? "Enter NAME=secret-id pairs to pass keychain secrets as environment variables."
+				: "Enter Header-Name=secret-id pairs to send keychain secrets as headers.",
+		)
+		.addTextArea((text) => {
+			text
+				.setValue(formatSecretBindings(server.secretBindings))
+				.onChange(async (value) => {
+					await actions.update({
+						secretBindings: parseSecretBindings(value),
+					});
+				});
+			text.inputEl.rows = 2;
+		});
+}
+
+/** MCP servers shared by every agent */
+export function renderGlobalMcpServers(
+	containerEl: HTMLElement,
+	plugin: AgentClientPlugin,
+): void {
+	new Setting(containerEl)
+		.setName("Vault tools")
+		.setDesc(
+			"Offer agents a built-in server to search notes, resolve links, read backlinks, frontmatter and tags, and read the current selection. Only agents that support remote servers can use it.",
+		)
+		.addToggle((toggle) =>
+			toggle
+				.setValue(plugin.settings.vaultMcpServerEnabled !== false)
+				.onChange(async (vaultMcpServerEnabled) => {
+					await plugin.settingsStore.updateSettings({
+						vaultMcpServerEnabled,
+					});
+				}),
+		);
+
+	renderMcpServerList(containerEl, {
+		title: "Shared servers",
+		description:
+			"Servers offered to every agent when a session is created, loaded or resumed.",
+		getServers: () => plugin.settings.mcpServers ?? [],
+		saveServers: (mcpServers) =>
+			plugin.settingsStore.updateSettings({ mcpServers }),
+	});
+}
+
+/** MCP servers for a single agent; these override shared servers by name */
+export function renderAgentMcpServers(
+	containerEl: HTMLElement,
+	plugin: AgentClientPlugin,
+	agentId: string,
+): void {
+	renderMcpServerList(containerEl, {
+		title: "MCP servers",
+		description:
+			"Servers offered only to this agent. A server with the same name as a shared server replaces it.",
+		getServers: () => findAgentSettings(plugin, agentId)?.mcpServers ?? [],
+		saveServers: (mcpServers) =>
+			updateAgentSettings(plugin, agentId, { mcpServers }),
+	});
+}
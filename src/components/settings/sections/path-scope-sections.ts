@@ -0,0 +1,95 @@
+import { Setting } from "obsidian";
+import type { PathScope } from "../../../domain/models/path-scope";
+import type AgentClientPlugin from "../../../plugin";
+import { EMPTY_PATH_SCOPE } from "../../../shared/path-scope";
+import {
+	findAgentSettings,
+	updateAgentSettings,
+} from "./agent-settings-access";
+
+interface PathScopeFieldOptions {
+	allowedDesc: string;
+	/** Vault config folder, used in the forbidden paths example */
+	configDir: string;
+	getScope: () => PathScope;
+	saveScope: (scope: PathScope) => Promise<void>;
+}
+
+const FIELD_NAMES: Record<keyof PathScope, string> = {
+	allowedFolders: "Allowed folders",
+	readOnlyFolders: "Read-only folders",
+	forbiddenGlobs: "Forbidden paths",
+};
+
+const parseLines = (value: string): string[] =>
+	value
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean);
+
+function renderPathScopeFields(
+	containerEl: HTMLElement,
+	options: PathScopeFieldOptions,
+): void {
+	const descriptions: Record<keyof PathScope, string> = {
+		allowedFolders: options.allowedDesc,
+		readOnlyFolders:
+			"Vault folders agents may read but not change, one per line.",
+		forbiddenGlobs:
+			"Vault paths agents may not read or change, one glob per line. * matches any characters, including /.",
+	};
+	const placeholders: Record<keyof PathScope, string> = {
+		allowedFolders: "Projects",
+		readOnlyFolders: "Archive",
+		forbiddenGlobs: `${options.configDir}/**\n*.env`,
+	};
+	for (const key of Object.keys(FIELD_NAMES) as (keyof PathScope)[]) {
+		new Setting(containerEl)
+			.setName(FIELD_NAMES[key])
+			.setDesc(descriptions[key])
+			.addTextArea((text) => {
+				text
+					.setPlaceholder(placeholders[key])
+					.setValue(options.getScope()[key].join("\n"))
+					.onChange(async (value) => {
+						await options.saveScope({
+							...options.getScope(),
+							[key]: parseLines(value),
+						});
+					});
+				text.inputEl.rows = 3;
+			});
+	}
+}
+
+/** Path scope shared by every agent */
+export function renderGlobalPathScope(
+	containerEl: HTMLElement,
+	plugin: AgentClientPlugin,
+): void {
+	renderPathScopeFields(containerEl, {
+		allowedDesc:
+			"Vault folders agents may work in, one per line. Leave empty to allow the whole vault. File reads and writes outside the scope fail, and permission requests for them are never answered automatically. When an agent changes files outside the scope with its own tools without asking, the session is stopped once the change shows up, but the change is not undone.",
+		configDir: plugin.app.vault.configDir,
+		getScope: () => plugin.settings.pathScope ?? EMPTY_PATH_SCOPE,
+		saveScope: (pathScope) =>
+			plugin.settingsStore.updateSettings({ pathScope }),
+	});
+}
+
+/** Path scope of a single agent, combined with the shared one */
+export function renderAgentPathScope(
+	containerEl: HTMLElement,
+	plugin: AgentClientPlugin,
+	agentId: string,
+): void {
+	renderPathScopeFields(containerEl, {
+		allowedDesc:
+			"Folders this agent may work in, one per line. Replaces the shared allowed folders when set; read-only folders and forbidden paths add to the shared ones.",
+		configDir: plugin.app.vault.configDir,
+		getScope: () =>
+			findAgentSettings(plugin, agentId)?.pathScope ?? EMPTY_PATH_SCOPE,
+		saveScope: (pathScope) =>
+			updateAgentSettings(plugin, agentId, { pathScope }),
+	});
+}
@@ -0,0 +1,67 @@
+import { Setting } from "obsidian";
+import type { PermissionGrant } from "../../../domain/models/permission-grant";
+import type AgentClientPlugin from "../../../plugin";
+import { resolveAgentDisplayName } from "../../../shared/agent-display-name";
+
+const saveGrants = (
+	plugin: AgentClientPlugin,
+	permissionGrants: PermissionGrant[],
+): Promise<void> => plugin.settingsStore.updateSettings({ permissionGrants });
+
+function describeGrant(grant: PermissionGrant): string {
+	const parts = [
+		grant.toolKind ? `Tool kind: ${grant.toolKind}` : "Any tool kind",
+		grant.pathPrefix ? `Files under ${grant.pathPrefix}` : "Any location",
+		`Saved ${new Date(grant.createdAt).toLocaleString()}`,
+	];
+	return parts.join(" · ");
+}
+
+export function renderPermissionGrants(
+	containerEl: HTMLElement,
+	plugin: AgentClientPlugin,
+	redisplay: () => void,
+): void {
+	const grants = plugin.settings.permissionGrants ?? [];
+
+	new Setting(containerEl)
+		.setName("Remembered decisions")
+		.setDesc(
+			grants.length > 0
+				? 'Answers you gave with "Always allow" or "Always reject". Matching requests from the same agent are answered automatically; revoke a decision to be asked again.'
+				: 'Answers you give with "Always allow" or "Always reject" are listed here.',
+		)
+		.addButton((button) =>
+			button
+				.setButtonText("Revoke all")
+				.setDisabled(grants.length === 0)
+				.onClick(async () => {
+					await saveGrants(plugin, []);
+					redisplay();
+				}),
+		);
+
+	for (const grant of grants) {
+		const agentName = resolveAgentDisplayName(plugin.settings, grant.agentId);
+		const decision = grant.decision === "allow" ? "Allow" : "Reject";
+		new Setting(containerEl)
+			.setName(
+				`${agentName}: ${decision} "${grant.titlePattern || "untitled tool call"}"`,
+			)
+			.setDesc(describeGrant(grant))
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Revoke")
+					.onClick(async () => {
+						await saveGrants(
+							plugin,
+							(plugin.settings.permissionGrants ?? []).filter(
+								(existing) => existing.id !== grant.id,
+							),
+						);
+						redisplay();
+					}),
+			);
+	}
+}
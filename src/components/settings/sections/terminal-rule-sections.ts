@@ -0,0 +1,103 @@
+import { Setting } from "obsidian";
+import type {
+	TerminalCommandRule,
+	TerminalRuleAction,
+	TerminalRuleMatchType,
+} from "../../../domain/models/terminal-command-rule";
+import type AgentClientPlugin from "../../../plugin";
+
+const PATTERN_PLACEHOLDERS: Record<TerminalRuleMatchType, string> = {
+	command: "git",
+	glob: "git status*",
+	cwd: "/path/to/vault/scripts",
+};
+
+const getRules = (plugin: AgentClientPlugin): TerminalCommandRule[] =>
+	plugin.settings.terminalCommandRules ?? [];
+
+const saveRules = (
+	plugin: AgentClientPlugin,
+	terminalCommandRules: TerminalCommandRule[],
+): Promise<void> =>
+	plugin.settingsStore.updateSettings({ terminalCommandRules });
+
+export function renderTerminalCommandRules(
+	containerEl: HTMLElement,
+	plugin: AgentClientPlugin,
+	redisplay: () => void,
+): void {
+	new Setting(containerEl)
+		.setName("Command rules")
+		.setDesc(
+			"Allow, ask or deny commands regardless of the permission mode. Match a command name in any part of a chained command, a glob on the whole command line, or the directory the command runs in. When several rules match, deny wins over ask and ask over allow.",
+		)
+		.addButton((button) =>
+			button.setButtonText("Add rule").onClick(async () => {
+				await saveRules(plugin, [
+					...getRules(plugin),
+					{
+						id: `rule-${Date.now().toString(36)}`,
+						action: "ask",
+						matchType: "command",
+						pattern: "",
+					},
+				]);
+				redisplay();
+			}),
+		);
+
+	const update = (index: number, patch: Partial<TerminalCommandRule>) =>
+		saveRules(
+			plugin,
+			getRules(plugin).map((rule, i) =>
+				i === index ? { ...rule, ...patch } : rule,
+			),
+		);
+
+	getRules(plugin).forEach((rule, index) => {
+		new Setting(containerEl)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("allow", "Allow")
+					.addOption("ask", "Ask")
+					.addOption("deny", "Deny")
+					.setValue(rule.action)
+					.onChange(async (action) => {
+						await update(index, { action: action as TerminalRuleAction });
+					}),
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("command", "Command")
+					.addOption("glob", "Command line glob")
+					.addOption("cwd", "Working directory")
+					.setValue(rule.matchType)
+					.onChange(async (matchType) => {
+						await update(index, {
+							matchType: matchType as TerminalRuleMatchType,
+						});
+						redisplay();
+					}),
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(PATTERN_PLACEHOLDERS[rule.matchType])
+					.setValue(rule.pattern)
+					.onChange(async (pattern) => {
+						await update(index, { pattern });
+					}),
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Remove rule")
+					.onClick(async () => {
+						await saveRules(
+							plugin,
+							getRules(plugin).filter((_, i) => i !== index),
+						);
+						redisplay();
+					}),
+			);
+	});
+}
@@ -0,0 +1,233 @@
+import * as React from "react";
+import type { AcpTraceEntry } from "../../domain/models/acp-trace";
+import { filterTraceEntries, listTraceValues } from "../../shared/acp-trace";
+import { ObsidianIcon } from "../chat/ObsidianIcon";
+
+const { useState, useEffect, useMemo, useRef } = React;
+
+/** Messages arriving within this window are rendered together */
+const REFRESH_DELAY_MS = 200;
+
+/** Recorder as seen by the inspector */
+interface AcpTraceSource {
+	getEntries: () => AcpTraceEntry[];
+	subscribe: (listener: () => void) => () => void;
+	clear: () => void;
+}
+
+interface AcpInspectorProps {
+	recorder: AcpTraceSource;
+	onExport: (entries: AcpTraceEntry[]) => void;
+}
+
+function formatTime(timestamp: number): string {
+	const date = new Date(timestamp);
+	const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+	return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+function entryLabel(entry: AcpTraceEntry): string {
+	if (entry.method) return entry.method;
+	return entry.id !== undefined ? `#${entry.id}` : entry.kind;
+}
+
+function TraceRow({
+	entry,
+	isSelected,
+	onSelect,
+}: {
+	entry: AcpTraceEntry;
+	isSelected: boolean;
+	onSelect: () => void;
+}) {
+	return (
+		<div
+			role="option"
+			tabIndex={0}
+			aria-selected={isSelected}
+			className={`obsius-acp-inspector-row obsius-acp-inspector-row--${entry.kind}${isSelected ? " obsius-acp-inspector-row--selected" : ""}`}
+			onClick={onSelect}
+			onKeyDown={(e) => {
+				if (e.key === "Enter" || e.key === " ") {
+					e.preventDefault();
+					onSelect();
+				}
+			}}
+		>
+			<span className="obsius-acp-inspector-time">
+				{formatTime(entry.timestamp)}
+			</span>
+			<span
+				className="obsius-acp-inspector-direction"
+				title={
+					entry.direction === "outgoing" ? "Sent to agent" : "Sent by agent"
+				}
+			>
+				<ObsidianIcon
+					name={
+						entry.direction === "outgoing"
+							? "arrow-up-right"
+							: "arrow-down-left"
+					}
+					size={12}
+				/>
+			</span>
+			<span className="obsius-acp-inspector-method">{entryLabel(entry)}</span>
+			<span className="obsius-acp-inspector-kind">{entry.kind}</span>
+			{entry.durationMs !== undefined && (
+				<span className="obsius-acp-inspector-duration">
+					{`${entry.durationMs} ms`}
+				</span>
+			)}
+			{entry.sessionId && (
+				<span
+					className="obsius-acp-inspector-session"
+					title={`Session ${entry.sessionId}`}
+				>
+					{entry.sessionId.slice(0, 8)}
+				</span>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Recorded ACP messages, filtered by session and method, with the
+ * selected message's payload pretty-printed.
+ */
+export function AcpInspector({ recorder, onExport }: AcpInspectorProps) {
+	const [entries, setEntries] = useState(() => recorder.getEntries());
+	const [sessionId, setSessionId] = useState("");
+	const [method, setMethod] = useState("");
+	const [selectedSeq, setSelectedSeq] = useState<number | null>(null);
+	const listRef = useRef<HTMLDivElement>(null);
+	const stickToBottomRef = useRef(true);
+
+	useEffect(() => {
+		let timer: number | null = null;
+		const unsubscribe = recorder.subscribe(() => {
+			if (timer !== null) return;
+			timer = window.setTimeout(() => {
+				timer = null;
+				setEntries(recorder.getEntries());
+			}, REFRESH_DELAY_MS);
+		});
+		return () => {
+			unsubscribe();
+			if (timer !== null) window.clearTimeout(timer);
+		};
+	}, [recorder]);
+
+	const sessions = useMemo(
+		() => listTraceValues(entries, "sessionId"),
+		[entries],
+	);
+	const methods = useMemo(() => listTraceValues(entries, "method"), [entries]);
+	const visible = useMemo(
+		() =>
+			filterTraceEntries(entries, {
+				sessionId: sessionId || undefined,
+				method: method || undefined,
+			}),
+		[entries, sessionId, method],
+	);
+	const selected = visible.find((entry) => entry.seq === selectedSeq) ?? null;
+
+	useEffect(() => {
+		const list = listRef.current;
+		if (list && stickToBottomRef.current) {
+			list.scrollTop = list.scrollHeight;
+		}
+	}, [visible]);
+
+	return (
+		<div className="obsius-acp-inspector">
+			<div className="obsius-acp-inspector-toolbar">
+				<select
+					className="dropdown"
+					aria-label="Filter by session"
+					value={sessionId}
+					onChange={(e) => setSessionId(e.target.value)}
+				>
+					<option value="">All sessions</option>
+					{sessions.map((id) => (
+						<option key={id} value={id}>
+							{id}
+						</option>
+					))}
+				</select>
+				<select
+					className="dropdown"
+					aria-label="Filter by method"
+					value={method}
+					onChange={(e) => setMethod(e.target.value)}
+				>
+					<option value="">All methods</option>
+					{methods.map((name) => (
+						<option key={name} value={name}>
+							{name}
+						</option>
+					))}
+				</select>
+				<span className="obsius-acp-inspector-count">
+					{`${visible.length} of ${entries.length} messages`}
+				</span>
+				<button
+					type="button"
+					className="clickable-icon"
+					aria-label="Export redacted trace"
+					title="Export the shown messages as redacted JSONL"
+					disabled={visible.length === 0}
+					onClick={() => onExport(visible)}
+				>
+					<ObsidianIcon name="download" size={16} />
+				</button>
+				<button
+					type="button"
+					className="clickable-icon"
+					aria-label="Clear trace"
+					title="Clear recorded messages"
+					onClick={() => {
+						recorder.clear();
+						setSelectedSeq(null);
+					}}
+				>
+					<ObsidianIcon name="trash-2" size={16} />
+				</button>
+			</div>
+			<div className="obsius-acp-inspector-body">
+				<div
+					ref={listRef}
+					className="obsius-acp-inspector-list"
+					role="listbox"
+					aria-label="ACP messages"
+					onScroll={(e) => {
+						const list = e.currentTarget;
+						stickToBottomRef.current =
+							list.scrollHeight - list.scrollTop - list.clientHeight < 24;
+					}}
+				>
+					{visible.length === 0 ? (
+						<div className="obsius-acp-inspector-empty">
+							Messages appear here once an agent is connected
+						</div>
+					) : (
+						visible.map((entry) => (
+							<TraceRow
+								key={entry.seq}
+								entry={entry}
+								isSelected={entry.seq === selectedSeq}
+								onSelect={() => setSelectedSeq(entry.seq)}
+							/>
+						))
+					)}
+				</div>
+				{selected && (
+					<pre className="obsius-acp-inspector-payload">
+						{JSON.stringify(selected.payload, null, 2)}
+					</pre>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,90 @@
+import { ItemView, normalizePath, type WorkspaceLeaf } from "obsidian";
+import { homedir } from "os";
+import { createRoot, type Root } from "react-dom/client";
+import type { AcpTraceEntry } from "../../domain/models/acp-trace";
+import type AgentClientPlugin from "../../plugin";
+import {
+	buildTraceExportFileName,
+	formatTraceJsonl,
+} from "../../shared/acp-trace";
+import { getLogger } from "../../shared/logger";
+import { pluginNotice } from "../../shared/plugin-notice";
+import { resolveVaultBasePath } from "../../shared/vault-path";
+import { AcpInspector } from "./AcpInspector";
+
+export const VIEW_TYPE_ACP_INSPECTOR = "obsius-acp-inspector";
+
+/**
+ * Live view of the JSON-RPC messages exchanged with agents, for debugging
+ * and bug reports.
+ */
+export class AcpInspectorView extends ItemView {
+	private root: Root | null = null;
+	private plugin: AgentClientPlugin;
+
+	constructor(leaf: WorkspaceLeaf, plugin: AgentClientPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_TYPE_ACP_INSPECTOR;
+	}
+
+	getDisplayText() {
+		return "ACP inspector"; // eslint-disable-line obsidianmd/ui/sentence-case
+	}
+
+	getIcon() {
+		return "activity";
+	}
+
+	onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+
+		this.root = createRoot(container);
+		this.root.render(
+			<AcpInspector
+				recorder={this.plugin.acpTrace}
+				onExport={(entries) => void this.exportTrace(entries)}
+			/>,
+		);
+		return Promise.resolve();
+	}
+
+	onClose() {
+		this.root?.unmount();
+		this.root = null;
+		return Promise.resolve();
+	}
+
+	/** Write the entries as redacted JSONL next to new notes */
+	private async exportTrace(entries: AcpTraceEntry[]): Promise<void> {
+		const { app } = this.plugin;
+		try {
+			const parent = app.fileManager.getNewFileParent(
+				app.workspace.getActiveFile()?.path ?? "",
+			);
+			const base = parent.isRoot() ? "" : `${parent.path}/`;
+			const fileName = buildTraceExportFileName(new Date());
+			let path = normalizePath(`${base}${fileName}`);
+			for (let i = 2; app.vault.getAbstractFileByPath(path); i++) {
+				path = normalizePath(
+					`${base}${fileName.replace(/\.jsonl$/, ` ${i}.jsonl`)}`,
+				);
+			}
+			const file = await app.vault.create(
+				path,
+				formatTraceJsonl(entries, {
+					vaultPath: resolveVaultBasePath(app),
+					homeDir: homedir(),
+				}),
+			);
+			pluginNotice(`ACP trace exported to ${file.path}`);
+		} catch (error) {
+			getLogger().error("[AcpInspector] Failed to export trace:", error);
+			pluginNotice("Failed to export ACP trace");
+		}
+	}
+}
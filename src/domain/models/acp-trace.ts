@@ -0,0 +1,37 @@
+/**
+ * One JSON-RPC message exchanged with an agent over ACP.
+ *
+ * Entries are recorded in the order they cross the stream, so `seq` is
+ * stable across agents even when timestamps collide.
+ */
+export interface AcpTraceEntry {
+	/** Increasing sequence number, unique per recorder */
+	seq: number;
+	/** When the message crossed the stream (milliseconds since epoch) */
+	timestamp: number;
+	/** Agent whose connection carried the message */
+	agentId: string;
+	/** "outgoing" is client → agent, "incoming" is agent → client */
+	direction: AcpTraceDirection;
+	kind: AcpTraceKind;
+	/** JSON-RPC id of requests and their responses */
+	id?: string | number;
+	/** Method of requests and notifications; responses inherit it */
+	method?: string;
+	/** ACP session the message belongs to, when it names one */
+	sessionId?: string;
+	/** Time since the matching request, for responses and errors */
+	durationMs?: number;
+	/** The JSON-RPC message, with oversized strings shortened */
+	payload: unknown;
+}
+
+export type AcpTraceDirection = "outgoing" | "incoming";
+
+export type AcpTraceKind = "request" | "response" | "notification" | "error";
+
+/** Narrows the inspector's list of entries */
+export interface AcpTraceFilter {
+	sessionId?: string;
+	method?: string;
+}
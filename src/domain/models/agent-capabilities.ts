@@ -0,0 +1,84 @@
+/**
+ * Domain Models for Agent Capabilities
+ *
+ * Capabilities and identity an agent reports when a connection is
+ * initialized. Re-exported by the agent client port.
+ */
+
+/**
+ * Capabilities for prompt content types.
+ *
+ * Describes which content types the agent supports in prompts.
+ * All capabilities default to false if not specified.
+ */
+export interface PromptCapabilities {
+	/** Agent supports image content in prompts */
+	image?: boolean;
+
+	/** Agent supports audio content in prompts */
+	audio?: boolean;
+
+	/** Agent supports embedded context (Resource) in prompts */
+	embeddedContext?: boolean;
+}
+
+/**
+ * MCP (Model Context Protocol) capabilities supported by the agent.
+ */
+export interface McpCapabilities {
+	/** Agent supports connecting to MCP servers over HTTP */
+	http?: boolean;
+
+	/** Agent supports connecting to MCP servers over SSE (deprecated) */
+	sse?: boolean;
+}
+
+/**
+ * Session-related capabilities (unstable features).
+ * From agentCapabilities.sessionCapabilities in initialize response.
+ */
+export interface SessionCapabilities {
+	/** session/resume support (unstable) */
+	resume?: Record<string, unknown>;
+	/** session/fork support (unstable) */
+	fork?: Record<string, unknown>;
+	/** session/list support (unstable) */
+	list?: Record<string, unknown>;
+}
+
+/**
+ * Full agent capabilities from ACP initialization.
+ *
+ * Contains all capability information returned by the agent,
+ * including session features, MCP support, and prompt capabilities.
+ */
+export interface AgentCapabilities {
+	/** Whether the agent supports session/load for resuming sessions (stable) */
+	loadSession?: boolean;
+
+	/** Session management capabilities (unstable features) */
+	sessionCapabilities?: SessionCapabilities;
+
+	/** MCP connection capabilities */
+	mcpCapabilities?: McpCapabilities;
+
+	/** Prompt content type capabilities */
+	promptCapabilities?: PromptCapabilities;
+}
+
+/**
+ * Information about the agent implementation.
+ *
+ * Provided by the agent during initialization for identification
+ * and debugging purposes.
+ */
+export interface AgentInfo {
+	/** Programmatic identifier for the agent */
+	name: string;
+
+	/** Human-readable display name */
+	title?: string;
+
+	/** Version string (e.g., "1.0.0") */
+	version?: string;
+}
@@ -7,6 +7,8 @@
  * connection parameters.
  */
 
+import type { PathScope } from "./path-scope";
+
 // ============================================================================
 // Environment Configuration
 // ============================================================================
@@ -40,6 +42,62 @@ export interface AgentSecretBinding {
 	secretId: string;
 }
 
+// ============================================================================
+// MCP Server Configuration
+// ============================================================================
+
+/**
+ * Transport used to reach an MCP server.
+ * Every ACP agent supports stdio; http and sse depend on the agent's
+ * advertised MCP capabilities.
+ */
+export type McpServerTransport = "stdio" | "http" | "sse";
+
+/**
+ * HTTP header sent to an http/sse MCP server.
+ */
+export interface McpHttpHeader {
+	name: string;
+	value: string;
+}
+
+/**
+ * MCP server passed to the agent on every session creation call.
+ */
+export interface McpServerSettings {
+	/** Unique identifier within its list */
+	id: string;
+
+	/** Server name reported to the agent */
+	name: string;
+
+	/** Disabled servers are kept in settings but not sent */
+	enabled: boolean;
+
+	transport: McpServerTransport;
+
+	/** stdio: command to launch */
+	command: string;
+
+	/** stdio: command-line arguments */
+	args: string[];
+
+	/** stdio: environment variables */
+	env: AgentEnvVar[];
+
+	/** http/sse: server URL */
+	url: string;
+
+	/** http/sse: plain-text headers */
+	headers: McpHttpHeader[];
+
+	/**
+	 * SecretStorage-backed values: injected as environment variables for
+	 * stdio servers and as headers (`envKey` = header name) for http/sse.
+	 */
+	secretBindings: AgentSecretBinding[];
+}
+
 // ============================================================================
 // Agent Configuration
 // ============================================================================
@@ -69,6 +127,12 @@ export interface BaseAgentSettings {
 
 	/** SecretStorage-backed environment variables injected at runtime */
 	secretBindings: AgentSecretBinding[];
+
+	/** MCP servers for this agent, in addition to the global ones */
+	mcpServers?: McpServerSettings[];
+
+	/** Files this agent may touch, combined with the shared scope */
+	pathScope?: PathScope;
 }
 
 /**
@@ -7,6 +7,8 @@
  * between these domain types and ACP protocol types.
  */
 
+import type { PathScopeViolation } from "./path-scope";
+
 // ============================================================================
 // Core Types
 // ============================================================================
@@ -177,6 +179,8 @@ export type MessageContent =
 			locations?: ToolCallLocation[];
 			rawInput?: { [k: string]: unknown };
 			rawOutput?: { [k: string]: unknown };
+			pathViolations?: PathScopeViolation[];
+			policyRule?: string;
 			permissionRequest?: {
 				requestId: string;
 				options: PermissionOption[];
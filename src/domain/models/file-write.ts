@@ -0,0 +1,20 @@
+/**
+ * A text file write performed on behalf of the agent through the
+ * client-side `fs/write_text_file` capability.
+ *
+ * Because the write goes through the vault, the content right before the
+ * write is known exactly — consumers can use it as a diff baseline instead
+ * of reconstructing one from tool call `oldText` snippets.
+ */
+export interface AgentFileWrite {
+	/** Session that issued the write */
+	sessionId: string;
+	/** Vault-relative path of the written file */
+	vaultPath: string;
+	/** Path exactly as sent by the agent (usually absolute) */
+	rawPath: string;
+	/** Content before the write, or null when the file was created */
+	previousContent: string | null;
+	/** Content after the write */
+	content: string;
+}
@@ -0,0 +1,23 @@
+/**
+ * Whether an inline edit treats the selection as writing or as code.
+ * Chosen per note from its file type or an `obsius-edit-mode` property.
+ */
+export type InlineEditMode = "prose" | "code";
+
+/**
+ * A user-defined prompt for the "AI edit selection" command.
+ *
+ * The template may use these placeholders: {{instruction}}, {{selection}},
+ * {{before}} and {{after}} (surrounding paragraphs), {{title}} and
+ * {{frontmatter}}.
+ */
+export interface InlineEditTemplate {
+	/** Stable identifier for the template */
+	id: string;
+	/** Name shown in the instruction dialog */
+	name: string;
+	/** Notes of this mode offer the template */
+	mode: InlineEditMode;
+	/** Prompt text with placeholders */
+	template: string;
+}
@@ -0,0 +1,21 @@
+/**
+ * A passage of a note the user has locked against agent edits.
+ *
+ * The locked text is the source of truth: offsets are only a hint for
+ * finding the passage again after the note was edited elsewhere.
+ */
+export interface ParagraphLock {
+	/** Stable identifier for the lock */
+	id: string;
+	/** Exact locked text */
+	text: string;
+	/** Character offset where the locked text last started */
+	from: number;
+	/** Character offset right after the locked text */
+	to: number;
+	/** Creation timestamp (milliseconds since epoch) */
+	createdAt: number;
+}
+
+/** Locks per vault-relative note path */
+export type ParagraphLockMap = Record<string, ParagraphLock[]>;
@@ -0,0 +1,25 @@
+/**
+ * Which vault files an agent may touch.
+ *
+ * Folders are vault-relative ("" or "/" is the whole vault). Globs are
+ * matched against vault-relative paths; `*` also matches `/`. An empty
+ * `allowedFolders` list allows the whole vault.
+ */
+export interface PathScope {
+	/** Folders the agent may read and write; everything else is outside */
+	allowedFolders: string[];
+	/** Folders the agent may read but not change */
+	readOnlyFolders: string[];
+	/** Paths the agent may not touch at all, e.g. `.obsidian/**` */
+	forbiddenGlobs: string[];
+}
+
+/** Why a path is not allowed for an operation */
+export type PathScopeViolationReason = "forbidden" | "read_only" | "outside";
+
+/** A file a tool call touches that its agent's path scope does not allow */
+export interface PathScopeViolation {
+	/** Path as the agent reported it */
+	path: string;
+	reason: PathScopeViolationReason;
+}
@@ -0,0 +1,25 @@
+/** Answer a remembered permission decision gives */
+export type PermissionDecision = "allow" | "reject";
+
+/**
+ * An "Always allow" / "Always reject" answer remembered across sessions.
+ *
+ * A future permission request from the same agent is answered with the
+ * same decision when its tool kind equals `toolKind`, its title matches
+ * `titlePattern` and every file it touches lies under `pathPrefix`.
+ */
+export interface PermissionGrant {
+	/** Stable identifier for the grant */
+	id: string;
+	/** Agent the decision applies to */
+	agentId: string;
+	decision: PermissionDecision;
+	/** ACP tool kind (e.g. "edit", "execute"), or null when the agent sent none */
+	toolKind: string | null;
+	/** Tool call title glob; file paths are replaced by `*` */
+	titlePattern: string;
+	/** Directory the tool's files must be in, or null for any location */
+	pathPrefix: string | null;
+	/** Creation timestamp (milliseconds since epoch) */
+	createdAt: number;
+}
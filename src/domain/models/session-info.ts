@@ -13,6 +13,10 @@ export interface SessionInfo {
 	title?: string;
 	/** ISO 8601 timestamp of last update */
 	updatedAt?: string;
+	/** Continuation in another agent, from local storage (not ACP) */
+	continuedIn?: SessionLink;
+	/** Handoff source, from local storage (not ACP) */
+	continuedFrom?: SessionLink;
 }
 
 /**
@@ -89,4 +93,17 @@ export interface SavedSessionInfo {
 	createdAt: string;
 	/** ISO 8601 timestamp of last activity */
 	updatedAt: string;
+	/** Session that continued this conversation with another agent */
+	continuedIn?: SessionLink;
+	/** Session this conversation was handed off from */
+	continuedFrom?: SessionLink;
+}
+
+/**
+ * Reference to a saved session of a specific agent.
+ * Links the two ends of a conversation handed off between agents.
+ */
+export interface SessionLink {
+	agentId: string;
+	sessionId: string;
 }
@@ -0,0 +1,33 @@
+/**
+ * Full-text search over locally saved session messages.
+ */
+
+/** Where a match was found inside a message */
+export type SessionSearchField = "user" | "assistant" | "tool" | "path";
+
+/** Excerpt of a message with the matched ranges */
+export interface SessionSearchSnippet {
+	text: string;
+	/** [start, end) offsets into text */
+	highlights: Array<[number, number]>;
+}
+
+/** One message of a session that matches the query */
+export interface SessionSearchMatch {
+	messageId: string;
+	field: SessionSearchField;
+	snippet: SessionSearchSnippet;
+}
+
+/** Matches of one session, most relevant session first */
+export interface SessionSearchResult {
+	sessionId: string;
+	/** Agent the session belongs to */
+	agentId: string;
+	cwd: string;
+	title?: string;
+	updatedAt?: string;
+	matches: SessionSearchMatch[];
+	/** Number of matching messages, including those not in matches */
+	totalMatches: number;
+}
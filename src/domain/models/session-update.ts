@@ -18,6 +18,7 @@ import type {
 	PermissionOption,
 } from "./chat-message";
 import type { SlashCommand } from "./chat-session";
+import type { PathScopeViolation } from "./path-scope";
 
 // ============================================================================
 // Base Type
@@ -76,6 +77,10 @@ export interface ToolCall extends SessionUpdateBase {
 	content?: ToolCallContent[];
 	locations?: ToolCallLocation[];
 	rawInput?: { [k: string]: unknown };
+	/** Files the tool touches that the agent's path scope does not allow */
+	pathViolations?: PathScopeViolation[];
+	/** Terminal rule that allowed, denied or asked about the tool call */
+	policyRule?: string;
 	permissionRequest?: {
 		requestId: string;
 		options: PermissionOption[];
@@ -99,6 +104,10 @@ export interface ToolCallUpdate extends SessionUpdateBase {
 	content?: ToolCallContent[];
 	locations?: ToolCallLocation[];
 	rawInput?: { [k: string]: unknown };
+	/** Files the tool touches that the agent's path scope does not allow */
+	pathViolations?: PathScopeViolation[];
+	/** Terminal rule that allowed, denied or asked about the tool call */
+	policyRule?: string;
 	permissionRequest?: {
 		requestId: string;
 		options: PermissionOption[];
@@ -0,0 +1,34 @@
+/** What happens to a command a rule matches */
+export type TerminalRuleAction = "allow" | "ask" | "deny";
+
+/**
+ * What a rule's pattern is compared with:
+ * - 'command': a base command of any part of the command line (e.g. `rm`)
+ * - 'glob': the full command line (`*` and `?` wildcards)
+ * - 'cwd': the working directory the command runs in, or any directory below it
+ */
+export type TerminalRuleMatchType = "command" | "glob" | "cwd";
+
+/**
+ * A user-defined terminal permission rule.
+ *
+ * Rules take precedence over the terminal permission mode (except when
+ * terminal calls are disabled). When several rules match, deny wins over
+ * ask, and ask wins over allow.
+ */
+export interface TerminalCommandRule {
+	/** Stable identifier for the rule */
+	id: string;
+	action: TerminalRuleAction;
+	matchType: TerminalRuleMatchType;
+	/** Command name, command line glob or directory glob */
+	pattern: string;
+}
+
+/** The rule that decided a command, with the action it applied */
+export interface TerminalRuleMatch {
+	action: TerminalRuleAction;
+	rule: TerminalCommandRule;
+	/** Why an allow rule only asks, e.g. the command substitutes another */
+	reason?: string;
+}
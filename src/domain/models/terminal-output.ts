@@ -7,3 +7,13 @@ export interface TerminalOutputSnapshot {
 	output: string;
 	exitStatus?: TerminalExitStatus;
 }
+
+/**
+ * Change pushed to terminal output subscribers. A new subscriber first
+ * receives the output so far, then each new chunk and finally the exit.
+ */
+export type TerminalOutputEvent =
+	| { type: "output"; data: string }
+	| { type: "exit"; exitStatus: TerminalExitStatus };
+
+export type TerminalOutputListener = (event: TerminalOutputEvent) => void;
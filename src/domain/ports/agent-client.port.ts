@@ -18,9 +18,18 @@ import type {
 	SessionModelState,
 } from "../models/chat-session";
 import type { SessionUpdate } from "../models/session-update";
-import type { ProcessError } from "../models/agent-error";
+import type { ErrorInfo, ProcessError } from "../models/agent-error";
 import type { PromptContent } from "../models/prompt-content";
-import type { TerminalOutputSnapshot } from "../models/terminal-output";
+import type {
+	TerminalOutputListener,
+	TerminalOutputSnapshot,
+} from "../models/terminal-output";
+import type { AgentFileWrite } from "../models/file-write";
+import type {
+	AgentCapabilities,
+	AgentInfo,
+	PromptCapabilities,
+} from "../models/agent-capabilities";
 import type {
 	ListSessionsResult,
 	LoadSessionResult,
@@ -28,6 +37,14 @@ import type {
 	ForkSessionResult,
 } from "../models/session-info";
 
+export type {
+	AgentCapabilities,
+	AgentInfo,
+	McpCapabilities,
+	PromptCapabilities,
+	SessionCapabilities,
+} from "../models/agent-capabilities";
+
 /**
  * Runtime configuration for launching an AI agent process.
  *
@@ -87,84 +104,6 @@ export interface PermissionRequest {
 	options: PermissionOption[];
 }
 
-/**
- * Capabilities for prompt content types.
- *
- * Describes which content types the agent supports in prompts.
- * All capabilities default to false if not specified.
- */
-export interface PromptCapabilities {
-	/** Agent supports image content in prompts */
-	image?: boolean;
-
-	/** Agent supports audio content in prompts */
-	audio?: boolean;
-
-	/** Agent supports embedded context (Resource) in prompts */
-	embeddedContext?: boolean;
-}
-
-/**
- * MCP (Model Context Protocol) capabilities supported by the agent.
- */
-export interface McpCapabilities {
-	/** Agent supports connecting to MCP servers over HTTP */
-	http?: boolean;
-
-	/** Agent supports connecting to MCP servers over SSE (deprecated) */
-	sse?: boolean;
-}
-
-/**
- * Session-related capabilities (unstable features).
- * From agentCapabilities.sessionCapabilities in initialize response.
- */
-export interface SessionCapabilities {
-	/** session/resume support (unstable) */
-	resume?: Record<string, unknown>;
-	/** session/fork support (unstable) */
-	fork?: Record<string, unknown>;
-	/** session/list support (unstable) */
-	list?: Record<string, unknown>;
-}
-
-/**
- * Full agent capabilities from ACP initialization.
- *
- * Contains all capability information returned by the agent,
- * including session features, MCP support, and prompt capabilities.
- */
-export interface AgentCapabilities {
-	/** Whether the agent supports session/load for resuming sessions (stable) */
-	loadSession?: boolean;
-
-	/** Session management capabilities (unstable features) */
-	sessionCapabilities?: SessionCapabilities;
-
-	/** MCP connection capabilities */
-	mcpCapabilities?: McpCapabilities;
-
-	/** Prompt content type capabilities */
-	promptCapabilities?: PromptCapabilities;
-}
-
-/**
- * Information about the agent implementation.
- *
- * Provided by the agent during initialization for identification
- * and debugging purposes.
- */
-export interface AgentInfo {
-	/** Programmatic identifier for the agent */
-	name: string;
-
-	/** Human-readable display name */
-	title?: string;
-
-	/** Version string (e.g., "1.0.0") */
-	version?: string;
-}
-
 /**
  * Result of initializing a connection to an agent.
  */
@@ -195,6 +134,14 @@ export interface InitializeResult {
 	agentInfo?: AgentInfo;
 }
 
+/**
+ * Result of an authentication attempt.
+ * On failure, carries an explanation and a hint on what to try next.
+ */
+export type AuthenticationResult =
+	| { success: true }
+	| { success: false; error: ErrorInfo };
+
 /**
  * Result of creating a new session.
  */
@@ -251,9 +198,9 @@ export interface IAgentClient {
 	 * Authenticate with the agent.
 	 *
 	 * @param methodId - ID of the authentication method to use
-	 * @returns Promise resolving to true if authentication succeeded
+	 * @returns Promise resolving to the outcome of the attempt
 	 */
-	authenticate(methodId: string): Promise<boolean>;
+	authenticate(methodId: string): Promise<AuthenticationResult>;
 
 	/**
 	 * Send a prompt to the agent.
@@ -315,6 +262,17 @@ export interface IAgentClient {
 	 */
 	onError(callback: (error: ProcessError) => void): void;
 
+	/**
+	 * Register callback for file writes performed via `fs/write_text_file`.
+	 *
+	 * Called after the vault write succeeds, with the exact content before
+	 * and after the write. Used to seed change tracking and refresh inline
+	 * diffs without re-reading the file.
+	 *
+	 * @param callback - Function to call after each agent file write
+	 */
+	onFileWrite(callback: (write: AgentFileWrite) => void): void;
+
 	/**
 	 * Respond to a permission request.
 	 *
@@ -377,6 +335,40 @@ export interface IAgentClient {
 	 */
 	getTerminalOutput(terminalId: string): Promise<TerminalOutputSnapshot>;
 
+	/**
+	 * Subscribe to the output of a terminal as it is produced.
+	 *
+	 * The listener first receives the output so far (and the exit status if
+	 * the command already finished), then every new chunk.
+	 *
+	 * @param terminalId - Terminal identifier from a prior terminal tool call
+	 * @param listener - Called with each output chunk and the exit status
+	 * @returns Function that ends the subscription
+	 * @throws Error if the terminal does not exist
+	 */
+	subscribeTerminalOutput(
+		terminalId: string,
+		listener: TerminalOutputListener,
+	): () => void;
+
+	/**
+	 * Stop a running terminal command (SIGTERM).
+	 *
+	 * The exit is reported to output subscribers as usual.
+	 *
+	 * @param terminalId - Terminal identifier
+	 */
+	stopTerminal(terminalId: string): Promise<void>;
+
+	/**
+	 * Write user input to the stdin of a running terminal command.
+	 *
+	 * @param terminalId - Terminal identifier
+	 * @param data - Text to write, including any trailing newline
+	 * @throws Error if the terminal does not exist or has exited
+	 */
+	writeTerminalInput(terminalId: string, data: string): Promise<void>;
+
 	// ========================================================================
 	// Session Management Methods
 	// ========================================================================
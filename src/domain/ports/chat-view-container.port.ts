@@ -2,7 +2,7 @@
  * Port for chat view containers
  *
  * This interface defines the contract for all chat view implementations
- * (sidebar, future code-block). It enables unified view management
+ * (sidebar, code block embedded in a note). It enables unified view management
  * for features like focus tracking, broadcast commands, and multi-view operations.
  *
  * Design notes:
@@ -28,7 +28,7 @@ export interface ChatViewContextReference {
  * Type of chat view container.
  * Used for filtering and type-specific behavior.
  */
-export type ChatViewType = "sidebar";
+export type ChatViewType = "sidebar" | "code-block";
 
 /**
  * Interface that all chat view containers must implement.
@@ -114,10 +114,4 @@ export interface IChatViewContainer {
 	 * Used for focus detection and DOM queries.
 	 */
 	getContainerEl(): HTMLElement;
-
-	/**
-	 * Get the text of the last assistant message in the active tab.
-	 * Returns null if no assistant message exists.
-	 */
-	getLastAssistantText?(): string | null;
 }
@@ -8,7 +8,8 @@
 
 import type { AgentClientPluginSettings } from "../../plugin";
 import type { ChatMessage } from "../models/chat-message";
-import type { SavedSessionInfo } from "../models/session-info";
+import type { SavedSessionInfo, SessionLink } from "../models/session-info";
+import type { SessionSearchResult } from "../models/session-search";
 
 /**
  * Interface for accessing and managing plugin settings.
@@ -86,6 +87,20 @@ export interface ISettingsAccess {
 	 */
 	deleteSession(sessionId: string): Promise<void>;
 
+	/**
+	 * Record that a conversation was handed off to another session.
+	 *
+	 * Both saved sessions are updated to point at each other.
+	 * Sessions that are not saved locally are left untouched.
+	 *
+	 * @param source - Session the conversation was handed off from
+	 * @param continuation - Session that continues the conversation
+	 */
+	linkSessionContinuation(
+		source: SessionLink,
+		continuation: SessionLink,
+	): Promise<void>;
+
 	// ============================================================
 	// Session Message History Methods
 	// ============================================================
@@ -128,4 +143,21 @@ export interface ISettingsAccess {
 	 * @returns Promise that resolves when file is deleted
 	 */
 	deleteSessionMessages(sessionId: string): Promise<void>;
+
+	/**
+	 * Search the saved message history of sessions.
+	 *
+	 * Covers user and assistant text, tool titles and file paths touched.
+	 * Only sessions matching the agentId and cwd filters are searched.
+	 *
+	 * @param query - Words to find; each word matches word prefixes
+	 * @param agentId - Optional filter by agent ID
+	 * @param cwd - Optional filter by working directory
+	 * @returns Matches grouped by session, most relevant first
+	 */
+	searchSessions(
+		query: string,
+		agentId?: string,
+		cwd?: string,
+	): Promise<SessionSearchResult[]>;
 }
@@ -2,8 +2,10 @@ import type {
 	AuthenticationMethod,
 	ChatSession,
 } from "../../domain/models/chat-session";
+import { AcpErrorCode } from "../../domain/models/agent-error";
 import type { IAgentClient } from "../../domain/ports/agent-client.port";
 import type { ISettingsAccess } from "../../domain/ports/settings-access.port";
+import { extractErrorCode } from "../../shared/acp-error-utils";
 import type { SessionErrorInfo } from "./types";
 import {
 	buildAgentConfigWithApiKey,
@@ -93,6 +95,7 @@ export async function createSessionLifecycle({
 	}));
 	setErrorInfo(null);
 
+	let authMethods: AuthenticationMethod[] = [];
 	try {
 		const agentSettings = findAgentSettings(settings, agentId);
 		if (!agentSettings) {
@@ -119,7 +122,6 @@ export async function createSessionLifecycle({
 			!agentClient.isInitialized() ||
 			agentClient.getCurrentAgentId() !== agentId;
 
-		let authMethods: AuthenticationMethod[] = [];
 		let promptCapabilities: PromptCapabilitiesSnapshot | undefined;
 		let agentCapabilities: AgentCapabilitiesSnapshot | undefined;
 		let agentInfo:
@@ -217,6 +219,14 @@ export async function createSessionLifecycle({
 		}
 	} catch (error) {
 		if (creationCounterRef.current !== creationId) return;
+		// The agent wants a sign-in first: let the user pick a method
+		if (
+			extractErrorCode(error) === AcpErrorCode.AUTHENTICATION_REQUIRED &&
+			authMethods.length > 0
+		) {
+			setSession((prev) => ({ ...prev, state: "authenticating", authMethods }));
+			return;
+		}
 		setSession((prev) => ({ ...prev, state: "error" }));
 		setErrorInfo({
 			title: "Session Creation Failed",
@@ -1,4 +1,5 @@
 import type {
+	AuthenticationMethod,
 	ChatSession,
 	SessionModeState,
 	SessionModelState,
@@ -16,6 +17,14 @@ export interface SessionErrorInfo {
 	suggestion?: string;
 }
 
+/** Sign-in the agent asked for before it starts a session */
+export interface AuthenticationPrompt {
+	methods: AuthenticationMethod[];
+	/** Method the user signed in with last time, if still offered */
+	preferredMethodId?: string;
+	signIn: (methodId: string) => Promise<SessionErrorInfo | null>;
+}
+
 export interface UseAgentSessionReturn {
 	session: ChatSession;
 	isReady: boolean;
@@ -25,6 +34,10 @@ export interface UseAgentSessionReturn {
 	restartSession: (newAgentId?: string) => Promise<void>;
 	closeSession: () => Promise<void>;
 	forceRestartAgent: () => Promise<void>;
+	/** Sign in with an auth method; resolves to the failure, or null */
+	authenticate: (methodId: string) => Promise<SessionErrorInfo | null>;
+	/** Show the sign-in when the agent asks for it during a session */
+	requireAuthentication: () => void;
 	cancelOperation: () => Promise<void>;
 	getAvailableAgents: () => AgentInfo[];
 	updateSessionFromLoad: (
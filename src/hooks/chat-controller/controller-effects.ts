@@ -14,6 +14,11 @@ interface UseChatControllerEffectsOptions {
 	config?: {
 		agent?: string;
 		model?: string;
+		mode?: string;
+		/** Session to restore once the first session is ready */
+		session?: string;
+		/** Message to scroll to once `session` is shown */
+		scrollTo?: string;
 	};
 	initialAgentId?: string;
 	isSessionReady: boolean;
@@ -23,6 +28,9 @@ interface UseChatControllerEffectsOptions {
 	lastModeModels?: Record<string, Record<string, string>>;
 	createSession: (overrideAgentId?: string) => Promise<void>;
 	setModel: (modelId: string) => Promise<void>;
+	setMode: (modeId: string) => Promise<void>;
+	restoreSession: (sessionId: string) => Promise<void>;
+	scrollToMessage: (messageId: string) => void;
 	closeSession: () => Promise<void>;
 	updateAvailableCommands: (commands: SlashCommand[]) => void;
 	updateCurrentMode: (modeId: string) => void;
@@ -52,6 +60,9 @@ export function useChatControllerEffects({
 	lastModeModels,
 	createSession,
 	setModel,
+	setMode,
+	restoreSession,
+	scrollToMessage,
 	closeSession,
 	updateAvailableCommands,
 	updateCurrentMode,
@@ -69,20 +80,77 @@ export function useChatControllerEffects({
 		void createSession(config?.agent || initialAgentId);
 	}, [createSession, config?.agent, initialAgentId, logger]);
 
+	const configRestoreAttemptedRef = useRef(false);
 	useEffect(() => {
-		if (config?.model && isSessionReady && session.models) {
-			const modelExists = session.models.availableModels.some(
-				(model) => model.modelId === config.model,
-			);
-			if (modelExists && session.models.currentModelId !== config.model) {
-				logger.log(
-					"[useChatController] Applying configured model:",
-					config.model,
+		if (!config?.session || !isSessionReady || !session.sessionId) return;
+		if (configRestoreAttemptedRef.current) return;
+		configRestoreAttemptedRef.current = true;
+		const scrollTo = config.scrollTo;
+		if (session.sessionId === config.session) {
+			if (scrollTo) scrollToMessage(scrollTo);
+			return;
+		}
+		logger.log(
+			"[useChatController] Restoring configured session:",
+			config.session,
+		);
+		restoreSession(config.session)
+			.then(() => {
+				if (scrollTo) scrollToMessage(scrollTo);
+			})
+			.catch((error: unknown) => {
+				logger.warn(
+					"[useChatController] Failed to restore configured session:",
+					error,
 				);
-				void setModel(config.model);
-			}
+			});
+	}, [
+		config?.session,
+		config?.scrollTo,
+		isSessionReady,
+		session.sessionId,
+		restoreSession,
+		scrollToMessage,
+		logger,
+	]);
+
+	// Configured model and mode are applied once per session so the user can
+	// still switch afterwards
+	const configAppliedSessionRef = useRef<string | null>(null);
+	useEffect(() => {
+		if (!isSessionReady || !session.sessionId) return;
+		if (configAppliedSessionRef.current === session.sessionId) return;
+		configAppliedSessionRef.current = session.sessionId;
+
+		const model = config?.model;
+		if (
+			model &&
+			session.models?.currentModelId !== model &&
+			session.models?.availableModels.some((m) => m.modelId === model)
+		) {
+			logger.log("[useChatController] Applying configured model:", model);
+			void setModel(model);
+		}
+		const mode = config?.mode;
+		if (
+			mode &&
+			session.modes?.currentModeId !== mode &&
+			session.modes?.availableModes.some((m) => m.id === mode)
+		) {
+			logger.log("[useChatController] Applying configured mode:", mode);
+			void setMode(mode);
 		}
-	}, [config?.model, isSessionReady, session.models, setModel, logger]);
+	}, [
+		config?.model,
+		config?.mode,
+		isSessionReady,
+		session.sessionId,
+		session.models,
+		session.modes,
+		setModel,
+		setMode,
+		logger,
+	]);
 
 	const initialModeModelAppliedSessionRef = useRef<string | null>(null);
 	useEffect(() => {
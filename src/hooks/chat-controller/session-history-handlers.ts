@@ -4,6 +4,7 @@ import { App } from "obsidian";
 import { ConfirmDeleteModal } from "../../components/chat/ConfirmDeleteModal";
 import { pluginNotice } from "../../shared/plugin-notice";
 import type { SessionInfo } from "../../domain/models/session-info";
+import type { SessionSearchResult } from "../../domain/models/session-search";
 import type { Logger } from "../../shared/logger";
 
 interface SessionHistoryControllerState {
@@ -28,15 +29,28 @@ interface UseSessionHistoryHandlersParams {
 	sessionHistory: SessionHistoryControllerState;
 	logger: Logger;
 	vaultPath: string;
+	currentSessionId: string | null;
+	currentAgentId: string | null;
 	clearMessages: () => void;
 }
 
 export function useSessionHistoryHandlers(
 	params: UseSessionHistoryHandlersParams,
 ) {
-	const { app, sessionHistory, logger, vaultPath, clearMessages } = params;
+	const {
+		app,
+		sessionHistory,
+		logger,
+		vaultPath,
+		currentSessionId,
+		currentAgentId,
+		clearMessages,
+	} = params;
 
 	const [isHistoryPopoverOpen, setIsHistoryPopoverOpen] = useState(false);
+	const [scrollTargetMessageId, setScrollTargetMessageId] = useState<
+		string | null
+	>(null);
 
 	const handleRestoreSession = useCallback(
 		async (sessionId: string, cwd: string) => {
@@ -53,6 +67,27 @@ export function useSessionHistoryHandlers(
 		[clearMessages, logger, sessionHistory],
 	);
 
+	/**
+	 * Open a search result: restore its session unless it is already shown,
+	 * then scroll to the matching message once it is rendered. Sessions of
+	 * other agents are left to the caller.
+	 */
+	const handleOpenSearchResult = useCallback(
+		(result: SessionSearchResult, messageId: string) => {
+			if (result.agentId !== currentAgentId) return false;
+			setScrollTargetMessageId(messageId);
+			if (result.sessionId !== currentSessionId) {
+				void handleRestoreSession(result.sessionId, result.cwd);
+			}
+			return true;
+		},
+		[currentAgentId, currentSessionId, handleRestoreSession],
+	);
+
+	const handleScrollTargetReached = useCallback(() => {
+		setScrollTargetMessageId(null);
+	}, []);
+
 	const handleForkSession = useCallback(
 		async (sessionId: string, cwd: string) => {
 			try {
@@ -121,6 +156,10 @@ export function useSessionHistoryHandlers(
 
 	return {
 		handleRestoreSession,
+		handleOpenSearchResult,
+		handleScrollTargetReached,
+		scrollTargetMessageId,
+		setScrollTargetMessageId,
 		handleForkSession,
 		handleDeleteSession,
 		handleLoadMore,
@@ -0,0 +1,69 @@
+import { useCallback, type RefObject } from "react";
+import type { ChatMessage } from "../../domain/models/chat-message";
+import {
+	buildTranscriptReplay,
+	parseChatTranscript,
+} from "../../shared/chat-import";
+import type { Logger } from "../../shared/logger";
+import { pluginNotice } from "../../shared/plugin-notice";
+
+/** Replay of an imported transcript, sent with the next prompt */
+export interface TranscriptSeed {
+	title: string;
+	replay: string;
+}
+
+interface UseTranscriptImportOptions {
+	logger: Logger;
+	messagesRef: RefObject<ChatMessage[]>;
+	seedRef: RefObject<TranscriptSeed | null>;
+	handleNewChat: () => Promise<void>;
+	setMessagesFromLocal: (messages: ChatMessage[]) => void;
+	/** Display names of the configured agents, for notes without frontmatter */
+	getAgentNames: () => string[];
+}
+
+/**
+ * Start a session from an exported chat note: the transcript is shown in
+ * the chat and replayed to the agent with the next message, so it works
+ * for agents without session/load.
+ */
+export function useTranscriptImport({
+	logger,
+	messagesRef,
+	seedRef,
+	handleNewChat,
+	setMessagesFromLocal,
+	getAgentNames,
+}: UseTranscriptImportOptions) {
+	return useCallback(
+		async (markdown: string) => {
+			const transcript = parseChatTranscript(markdown, getAgentNames());
+			if (transcript.messages.length === 0) {
+				pluginNotice("No chat messages found in this note");
+				return;
+			}
+
+			if (messagesRef.current.length > 0) {
+				await handleNewChat();
+			}
+			logger.log(
+				`[useChatController] Importing transcript with ${transcript.messages.length} messages`,
+			);
+			setMessagesFromLocal(transcript.messages);
+			seedRef.current = {
+				title: transcript.metadata.title,
+				replay: buildTranscriptReplay(transcript),
+			};
+			pluginNotice("Transcript imported. Your next message continues it.");
+		},
+		[
+			logger,
+			messagesRef,
+			seedRef,
+			handleNewChat,
+			setMessagesFromLocal,
+			getAgentNames,
+		],
+	);
+}
@@ -4,6 +4,9 @@ import type { AttachedImage } from "../../components/chat/ImagePreviewStrip";
 import type { ContextUsage } from "../../components/chat/chat-input/ContextUsageMeter";
 import type { ImagePromptContent } from "../../domain/models/prompt-content";
 import type { SessionModelState } from "../../domain/models/chat-session";
+import type { SessionLink } from "../../domain/models/session-info";
+import type { SessionSearchResult } from "../../domain/models/session-search";
+import type { ChatHandoff } from "../../application/services/chat-handoff";
 import type { IAgentClient } from "../../domain/ports/agent-client.port";
 import type { IVaultAccess } from "../../domain/ports/vault-access.port";
 import { useSettings } from "../useSettings";
@@ -11,8 +14,10 @@ import { useMentions } from "../useMentions";
 import { useSlashCommands } from "../useSlashCommands";
 import { useAutoMention } from "../useAutoMention";
 import { useAgentSession } from "../useAgentSession";
+import type { AuthenticationPrompt } from "../agent-session/types";
 import { useChat } from "../useChat";
 import { usePermission } from "../usePermission";
+import type { UsePromptQueueReturn } from "../usePromptQueue";
 import { useSessionHistory } from "../useSessionHistory";
 import type { Logger } from "../../shared/logger";
 import type { IMentionService } from "../../shared/mention-utils";
@@ -30,7 +35,14 @@ export interface UseChatControllerOptions {
 	config?: {
 		agent?: string;
 		model?: string;
+		mode?: string;
+		/** Session to restore once the first session is ready */
+		session?: string;
+		/** Message to scroll to once `session` is shown */
+		scrollTo?: string;
 	};
+	/** Session this chat continues; linked once the first prompt is sent */
+	handoffFrom?: SessionLink;
 }
 
 export interface UseChatControllerReturn {
@@ -55,6 +67,8 @@ export interface UseChatControllerReturn {
 	errorInfo:
 		| ReturnType<typeof useChat>["errorInfo"]
 		| ReturnType<typeof useAgentSession>["errorInfo"];
+	/** Sign-in to show while the agent waits for one; null otherwise */
+	authenticationPrompt: AuthenticationPrompt | null;
 	handleSendMessage: (
 		content: string,
 		images?: ImagePromptContent[],
@@ -62,9 +76,24 @@ export interface UseChatControllerReturn {
 	handleStopGeneration: () => Promise<void>;
 	handleNewChat: (requestedAgentId?: string) => Promise<void>;
 	handleSwitchAgent: (agentId: string) => Promise<void>;
+	/** Show an exported chat note and replay it with the next prompt */
+	handleImportTranscript: (markdown: string) => Promise<void>;
+	/** Summarize the conversation for another agent; null if there is none */
+	prepareHandoff: () => ChatHandoff | null;
 	handleRestartAgent: () => Promise<void>;
 	handleClearError: () => void;
 	handleRestoreSession: (sessionId: string, cwd: string) => Promise<void>;
+	/**
+	 * Restore the session of a search result and scroll to the message.
+	 * Returns false for sessions of other agents, which this tab cannot open.
+	 */
+	handleOpenSearchResult: (
+		result: SessionSearchResult,
+		messageId: string,
+	) => boolean;
+	handleScrollTargetReached: () => void;
+	/** Message to scroll to once it is rendered */
+	scrollTargetMessageId: string | null;
 	handleForkSession: (sessionId: string, cwd: string) => Promise<void>;
 	handleDeleteSession: (sessionId: string) => void;
 	handleLoadMore: () => void;
@@ -82,4 +111,6 @@ export interface UseChatControllerReturn {
 	restoredMessage: string | null;
 	handleRestoredMessageConsumed: () => void;
 	contextUsage: ContextUsage | null;
+	/** Follow-up prompts sent when the current turn ends */
+	promptQueue: UsePromptQueueReturn;
 }
@@ -98,6 +98,12 @@ export function mergeToolCallContent(
 			update.rawInput !== undefined && Object.keys(update.rawInput).length > 0
 				? update.rawInput
 				: existing.rawInput,
+		pathViolations:
+			update.pathViolations !== undefined
+				? update.pathViolations
+				: existing.pathViolations,
+		policyRule:
+			update.policyRule !== undefined ? update.policyRule : existing.policyRule,
 		permissionRequest:
 			update.permissionRequest !== undefined
 				? update.permissionRequest
@@ -270,6 +276,8 @@ export function applySessionUpdateToMessages(
 				content: update.content,
 				locations: update.locations,
 				rawInput: update.rawInput,
+				pathViolations: update.pathViolations,
+				policyRule: update.policyRule,
 				permissionRequest: update.permissionRequest,
 			});
 
@@ -12,17 +12,22 @@ import type {
 	SavedSessionInfo,
 } from "../../domain/models/session-info";
 
-function mergeWithLocalTitles(
+function mergeWithLocalSessions(
 	agentSessions: SessionInfo[],
 	localSessions: SavedSessionInfo[],
 ): SessionInfo[] {
 	const localMap = new Map(
 		localSessions.map((session) => [session.sessionId, session]),
 	);
-	return agentSessions.map((session) => ({
-		...session,
-		title: localMap.get(session.sessionId)?.title ?? session.title,
-	}));
+	return agentSessions.map((session) => {
+		const local = localMap.get(session.sessionId);
+		return {
+			...session,
+			title: local?.title ?? session.title,
+			continuedIn: local?.continuedIn,
+			continuedFrom: local?.continuedFrom,
+		};
+	});
 }
 
 interface FetchSessionsOperationParams {
@@ -48,7 +53,7 @@ export async function fetchSessionsOperation({
 		cwd,
 	);
 	return {
-		sessions: mergeWithLocalTitles(result.sessions, localSessions),
+		sessions: mergeWithLocalSessions(result.sessions, localSessions),
 		localSessionIds: new Set(localSessions.map((session) => session.sessionId)),
 		nextCursor: result.nextCursor,
 	};
@@ -82,7 +87,7 @@ export async function loadMoreSessionsOperation({
 		cwd,
 	);
 	return {
-		sessions: mergeWithLocalTitles(result.sessions, localSessions),
+		sessions: mergeWithLocalSessions(result.sessions, localSessions),
 		localSessionIds: new Set(localSessions.map((session) => session.sessionId)),
 		nextCursor: result.nextCursor,
 	};
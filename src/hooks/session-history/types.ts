@@ -5,6 +5,7 @@ import type {
 	SessionModelState,
 } from "../../domain/models/chat-session";
 import type { SessionInfo } from "../../domain/models/session-info";
+import type { SessionSearchResult } from "../../domain/models/session-search";
 import type { IAgentClient } from "../../domain/ports/agent-client.port";
 import type { ISettingsAccess } from "../../domain/ports/settings-access.port";
 
@@ -52,6 +53,7 @@ export interface UseSessionHistoryReturn {
 		messageContent: string,
 	) => Promise<void>;
 	saveSessionMessages: (sessionId: string, messages: ChatMessage[]) => void;
+	searchSessions: (query: string) => Promise<SessionSearchResult[]>;
 	invalidateCache: () => void;
 }
 
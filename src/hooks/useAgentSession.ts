@@ -171,6 +171,49 @@ export function useAgentSession(
 		await createSession(currentAgentId);
 	}, [agentClient, session.agentId, createSession]);
 
+	/**
+	 * Sign in with the chosen method, remember it for the agent and go on
+	 * with the session, or start the one the agent refused before. Returns
+	 * why signing in failed, or null once the session is usable again.
+	 */
+	const authenticate = useCallback(
+		async (methodId: string): Promise<SessionErrorInfo | null> => {
+			const agentId = session.agentId;
+			const sessionId = session.sessionId;
+			const result = await agentClient.authenticate(methodId);
+			if (!result.success) {
+				return result.error;
+			}
+
+			const currentSettings = settingsAccess.getSnapshot();
+			void settingsAccess.updateSettings({
+				preferredAuthMethods: {
+					...currentSettings.preferredAuthMethods,
+					[agentId]: methodId,
+				},
+			});
+			if (sessionId) {
+				setSession((prev) => ({ ...prev, state: "ready" }));
+			} else {
+				await createSession(agentId);
+			}
+			return null;
+		},
+		[
+			agentClient,
+			settingsAccess,
+			session.agentId,
+			session.sessionId,
+			createSession,
+		],
+	);
+
+	const requireAuthentication = useCallback(() => {
+		setSession((prev) =>
+			prev.authMethods.length > 0 ? { ...prev, state: "authenticating" } : prev,
+		);
+	}, []);
+
 	const cancelOperation = useCallback(async () => {
 		if (!session.sessionId) {
 			return;
@@ -356,6 +399,8 @@ export function useAgentSession(
 		restartSession,
 		closeSession,
 		forceRestartAgent,
+		authenticate,
+		requireAuthentication,
 		cancelOperation,
 		getAvailableAgents,
 		updateSessionFromLoad,
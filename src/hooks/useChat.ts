@@ -10,6 +10,7 @@ import type { NoteMetadata } from "../domain/ports/vault-access.port";
 import type { AuthenticationMethod } from "../domain/models/chat-session";
 import type { ErrorInfo } from "../domain/models/agent-error";
 import type { ImagePromptContent } from "../domain/models/prompt-content";
+import type { ParagraphLockMap } from "../domain/models/paragraph-lock";
 import type { IMentionService } from "../shared/mention-utils";
 import {
 	preparePrompt,
@@ -25,6 +26,8 @@ export interface SendMessageOptions {
 	vaultBasePath: string;
 	isAutoMentionDisabled?: boolean;
 	images?: ImagePromptContent[];
+	/** Text sent to the agent ahead of the prompt but not shown in the chat */
+	agentPreamble?: string;
 }
 
 export interface UseChatReturn {
@@ -55,6 +58,13 @@ export interface UseChatReturn {
 export interface SessionContext {
 	sessionId: string | null;
 	authMethods: AuthenticationMethod[];
+	/** Auth method the user signed in with last time */
+	preferredAuthMethodId?: string;
+	/**
+	 * Ask the user to sign in when the agent wants it mid-conversation;
+	 * `resend` sends the refused prompt again once signed in
+	 */
+	onAuthenticationRequired?: (resend: () => Promise<void>) => void;
 	promptCapabilities?: {
 		image?: boolean;
 		audio?: boolean;
@@ -66,6 +76,7 @@ export interface SettingsContext {
 	windowsWslMode: boolean;
 	maxNoteLength: number;
 	maxSelectionLength: number;
+	paragraphLocks?: ParagraphLockMap;
 }
 
 export function useChat(
@@ -187,6 +198,7 @@ export function useChat(
 					supportsImage: sessionContext.promptCapabilities?.image ?? false,
 					maxNoteLength: settingsContext.maxNoteLength,
 					maxSelectionLength: settingsContext.maxSelectionLength,
+					paragraphLocks: settingsContext.paragraphLocks,
 				},
 				vaultAccess,
 				mentionService,
@@ -230,49 +242,66 @@ export function useChat(
 			dispatch({ type: "send_start" });
 			dispatch({ type: "set_last_user_message", message: content });
 
-			try {
-				const result = await sendPreparedPrompt(
-					{
-						sessionId: sessionContext.sessionId,
-						agentContent: prepared.agentContent,
-						displayContent: prepared.displayContent,
-						authMethods: sessionContext.authMethods,
-					},
-					agentClient,
-				);
+			const input = {
+				sessionId: sessionContext.sessionId,
+				agentContent: options.agentPreamble
+					? [
+							{ type: "text" as const, text: options.agentPreamble },
+							...prepared.agentContent,
+						]
+					: prepared.agentContent,
+				displayContent: prepared.displayContent,
+				authMethods: sessionContext.authMethods,
+				preferredAuthMethodId: sessionContext.preferredAuthMethodId,
+			};
+			const onAuthenticationRequired = sessionContext.onAuthenticationRequired;
 
-				if (result.success) {
-					dispatch({ type: "send_complete" });
-					dispatch({
-						type: "set_last_user_message",
-						message: null,
-					});
-				} else {
+			const deliver = async (): Promise<void> => {
+				try {
+					const result = await sendPreparedPrompt(input, agentClient);
+
+					if (result.success) {
+						dispatch({ type: "send_complete" });
+						dispatch({
+							type: "set_last_user_message",
+							message: null,
+						});
+					} else if (result.requiresAuth && onAuthenticationRequired) {
+						dispatch({ type: "send_complete" });
+						// The user message stays in the chat; only the prompt goes again
+						onAuthenticationRequired(async () => {
+							dispatch({ type: "send_start" });
+							await deliver();
+						});
+					} else {
+						dispatch({ type: "send_complete" });
+						dispatch({
+							type: "set_error",
+							error: result.error
+								? {
+										title: result.error.title,
+										message: result.error.message,
+										suggestion: result.error.suggestion,
+									}
+								: {
+										title: "Send message failed",
+										message: "Failed to send message",
+									},
+						});
+					}
+				} catch (error) {
 					dispatch({ type: "send_complete" });
 					dispatch({
 						type: "set_error",
-						error: result.error
-							? {
-									title: result.error.title,
-									message: result.error.message,
-									suggestion: result.error.suggestion,
-								}
-							: {
-									title: "Send message failed",
-									message: "Failed to send message",
-								},
+						error: {
+							title: "Send message failed",
+							message: `Failed to send message: ${error instanceof Error ? error.message : String(error)}`,
+						},
 					});
 				}
-			} catch (error) {
-				dispatch({ type: "send_complete" });
-				dispatch({
-					type: "set_error",
-					error: {
-						title: "Send message failed",
-						message: `Failed to send message: ${error instanceof Error ? error.message : String(error)}`,
-					},
-				});
-			}
+			};
+
+			await deliver();
 		},
 		[
 			agentClient,
@@ -280,8 +309,11 @@ export function useChat(
 			mentionService,
 			sessionContext.sessionId,
 			sessionContext.authMethods,
+			sessionContext.preferredAuthMethodId,
+			sessionContext.onAuthenticationRequired,
 			sessionContext.promptCapabilities,
 			shouldConvertToWsl,
+			settingsContext.paragraphLocks,
 			addMessage,
 		],
 	);
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+	createComparison,
+	markRunFinished,
+	markRunSent,
+	retainRuns,
+	updateRunUsage,
+	type ChatComparison,
+	type CompareReply,
+	type CompareTarget,
+	type CompareUsage,
+} from "../application/services/chat-compare";
+import type { ChatInputState } from "../domain/models/chat-input-state";
+import type { ChatTabOptions } from "./useTabs";
+
+interface UseChatComparisonOptions {
+	/** Open tabs; runs of closed tabs leave the comparison */
+	tabs: ReadonlyArray<{ id: string }>;
+	openTab: (agentId: string, options?: ChatTabOptions) => string | null;
+	closeTabs: (tabIds: string[]) => void;
+	activateTab: (tabId: string) => void;
+}
+
+export interface UseChatComparisonReturn {
+	comparison: ChatComparison | null;
+	isPanelOpen: boolean;
+	setPanelOpen: (open: boolean) => void;
+	/** Open a tab per target; false when not every target got a tab */
+	startComparison: (
+		prompt: ChatInputState,
+		targets: CompareTarget[],
+	) => boolean;
+	/** Prompt a tab still has to send for the comparison */
+	pendingPromptFor: (tabId: string) => ChatInputState | undefined;
+	handlePromptSent: (tabId: string) => void;
+	handleReply: (tabId: string, reply: CompareReply) => void;
+	handleUsage: (tabId: string, usage: CompareUsage) => void;
+	/** Keep one answer's tab, close the others and end the comparison */
+	pickWinner: (tabId: string) => void;
+	endComparison: () => void;
+}
+
+/**
+ * One prompt answered side by side. The runs live in ordinary tabs; this
+ * hook only opens them and collects what they report.
+ */
+export function useChatComparison({
+	tabs,
+	openTab,
+	closeTabs,
+	activateTab,
+}: UseChatComparisonOptions): UseChatComparisonReturn {
+	const [comparison, setComparison] = useState<ChatComparison | null>(null);
+	const [isPanelOpen, setPanelOpen] = useState(false);
+
+	const startComparison = useCallback(
+		(prompt: ChatInputState, targets: CompareTarget[]) => {
+			const runs: Array<{ tabId: string; target: CompareTarget }> = [];
+			for (const target of targets) {
+				const tabId = openTab(target.agentId, {
+					config: { agent: target.agentId, model: target.model },
+					name: target.model ? target.label : undefined,
+				});
+				if (!tabId) break;
+				runs.push({ tabId, target });
+			}
+			if (runs.length === 0) return false;
+			setComparison(createComparison(prompt, runs));
+			setPanelOpen(true);
+			return runs.length === targets.length;
+		},
+		[openTab],
+	);
+
+	const pendingPromptFor = useCallback(
+		(tabId: string) =>
+			comparison?.runs.some(
+				(run) => run.tabId === tabId && run.status === "queued",
+			)
+				? comparison.prompt
+				: undefined,
+		[comparison],
+	);
+
+	const handlePromptSent = useCallback((tabId: string) => {
+		setComparison((prev) => prev && markRunSent(prev, tabId, Date.now()));
+	}, []);
+
+	const handleReply = useCallback((tabId: string, reply: CompareReply) => {
+		setComparison(
+			(prev) => prev && markRunFinished(prev, tabId, reply, Date.now()),
+		);
+	}, []);
+
+	const handleUsage = useCallback((tabId: string, usage: CompareUsage) => {
+		setComparison((prev) => prev && updateRunUsage(prev, tabId, usage));
+	}, []);
+
+	useEffect(() => {
+		const openTabIds = new Set(tabs.map((tab) => tab.id));
+		setComparison((prev) => prev && retainRuns(prev, openTabIds));
+	}, [tabs]);
+
+	const endComparison = useCallback(() => {
+		setComparison(null);
+		setPanelOpen(false);
+	}, []);
+
+	const pickWinner = useCallback(
+		(tabId: string) => {
+			if (!comparison) return;
+			closeTabs(
+				comparison.runs
+					.map((run) => run.tabId)
+					.filter((runTabId) => runTabId !== tabId),
+			);
+			activateTab(tabId);
+			endComparison();
+		},
+		[comparison, closeTabs, activateTab, endComparison],
+	);
+
+	return {
+		comparison,
+		isPanelOpen: isPanelOpen && comparison !== null,
+		setPanelOpen,
+		startComparison,
+		pendingPromptFor,
+		handlePromptSent,
+		handleReply,
+		handleUsage,
+		pickWinner,
+		endComparison,
+	};
+}
@@ -13,8 +13,10 @@ import { useMentions } from "./useMentions";
 import { useSlashCommands } from "./useSlashCommands";
 import { useAutoMention } from "./useAutoMention";
 import { useAgentSession } from "./useAgentSession";
+import type { AuthenticationPrompt } from "./agent-session/types";
 import { useChat } from "./useChat";
 import { usePermission } from "./usePermission";
+import { usePromptQueue } from "./usePromptQueue";
 import { useSessionHistory } from "./useSessionHistory";
 import {
 	type UseChatControllerOptions,
@@ -23,7 +25,15 @@ import {
 import { useSessionHistoryHandlers } from "./chat-controller/session-history-handlers";
 import { useChatControllerEffects } from "./chat-controller/controller-effects";
 import { useHistoryLoadState } from "./chat-controller/history-load-state";
+import {
+	useTranscriptImport,
+	type TranscriptSeed,
+} from "./chat-controller/transcript-import";
 import type { ImagePromptContent } from "../domain/models/prompt-content";
+import {
+	buildHandoffPrompt,
+	type ChatHandoff,
+} from "../application/services/chat-handoff";
 
 export function useChatController(
 	options: UseChatControllerOptions,
@@ -79,6 +89,31 @@ export function useChatController(
 		isReady: isSessionReady,
 	} = agentSession;
 
+	// Prompt the agent refused until the user signs in
+	const resendAfterSignInRef = useRef<(() => Promise<void>) | null>(null);
+	useEffect(() => {
+		resendAfterSignInRef.current = null;
+	}, [session.sessionId]);
+	const handleAuthenticationRequired = useCallback(
+		(resend: () => Promise<void>) => {
+			resendAfterSignInRef.current = resend;
+			agentSession.requireAuthentication();
+		},
+		[agentSession.requireAuthentication],
+	);
+	const signIn = useCallback(
+		async (methodId: string) => {
+			const failure = await agentSession.authenticate(methodId);
+			const resend = resendAfterSignInRef.current;
+			if (!failure && resend) {
+				resendAfterSignInRef.current = null;
+				void resend();
+			}
+			return failure;
+		},
+		[agentSession.authenticate],
+	);
+
 	const chat = useChat(
 		agentClient,
 		vaultAccess,
@@ -86,12 +121,15 @@ export function useChatController(
 		{
 			sessionId: session.sessionId,
 			authMethods: session.authMethods,
+			preferredAuthMethodId: settings.preferredAuthMethods?.[session.agentId],
+			onAuthenticationRequired: handleAuthenticationRequired,
 			promptCapabilities: session.promptCapabilities,
 		},
 		{
 			windowsWslMode: settings.windowsWslMode,
 			maxNoteLength: settings.displaySettings.maxNoteLength,
 			maxSelectionLength: settings.displaySettings.maxSelectionLength,
+			paragraphLocks: settings.paragraphLocks,
 		},
 	);
 
@@ -102,6 +140,11 @@ export function useChatController(
 	const messagesRef = useRef(messages);
 	messagesRef.current = messages;
 
+	// Set by a transcript import until the next prompt carries the replay
+	const transcriptSeedRef = useRef<TranscriptSeed | null>(null);
+	// Source of a handoff until the continuation session is saved
+	const handoffFromRef = useRef(options.handoffFrom ?? null);
+
 	const [contextUsage, setContextUsage] = useState<{
 		size: number;
 		used: number;
@@ -151,22 +194,51 @@ export function useChatController(
 		return plugin.getAvailableAgents();
 	}, [plugin]);
 
+	const preferredAuthMethodId =
+		settings.preferredAuthMethods?.[session.agentId];
+	const authenticationPrompt = useMemo<AuthenticationPrompt | null>(() => {
+		if (session.state !== "authenticating") return null;
+		return {
+			methods: session.authMethods,
+			preferredMethodId: session.authMethods.some(
+				(method) => method.id === preferredAuthMethodId,
+			)
+				? preferredAuthMethodId
+				: undefined,
+			signIn,
+		};
+	}, [session.state, session.authMethods, preferredAuthMethodId, signIn]);
+
 	const handleSendMessage = useCallback(
 		async (content: string, images?: ImagePromptContent[]) => {
-			const isFirstMessage = messages.length === 0;
+			const seed = transcriptSeedRef.current;
+			transcriptSeedRef.current = null;
+			const isFirstMessage = messages.length === 0 || seed !== null;
 
 			await chat.sendMessage(content, {
 				activeNote: autoMention.isDisabled ? null : autoMention.activeNote,
 				vaultBasePath: vaultPath,
 				isAutoMentionDisabled: autoMention.isDisabled,
 				images,
+				agentPreamble: seed?.replay,
 			});
 
 			if (isFirstMessage && session.sessionId) {
-				await sessionHistory.saveSessionLocally(session.sessionId, content);
+				await sessionHistory.saveSessionLocally(
+					session.sessionId,
+					seed?.title ?? content,
+				);
 				logger.log(
 					`[useChatController] Session saved locally: ${session.sessionId}`,
 				);
+				const handoffFrom = handoffFromRef.current;
+				handoffFromRef.current = null;
+				if (handoffFrom && session.agentId) {
+					await plugin.settingsStore.linkSessionContinuation(handoffFrom, {
+						agentId: session.agentId,
+						sessionId: session.sessionId,
+					});
+				}
 			}
 		},
 		[
@@ -180,14 +252,27 @@ export function useChatController(
 		],
 	);
 
+	const promptQueue = usePromptQueue({
+		canSend:
+			isSessionReady &&
+			!isSending &&
+			!sessionHistory.loading &&
+			!isLoadingSessionHistory,
+		isWaitingForPermission: permission.activePermission !== null,
+		send: handleSendMessage,
+	});
+	const { pause: pausePromptQueue, clear: clearPromptQueue } = promptQueue;
+
 	const handleStopGeneration = useCallback(async () => {
 		logger.log("Cancelling current operation...");
+		// Queued prompts wait until the user resumes them
+		pausePromptQueue();
 		const lastMessage = chat.lastUserMessage;
 		await agentSession.cancelOperation();
 		if (lastMessage) {
 			setRestoredMessage(lastMessage);
 		}
-	}, [logger, agentSession, chat.lastUserMessage]);
+	}, [logger, agentSession, chat.lastUserMessage, pausePromptQueue]);
 
 	const handleNewChat = useCallback(
 		async (requestedAgentId?: string) => {
@@ -210,6 +295,9 @@ export function useChatController(
 			);
 
 			autoMention.toggle(false);
+			transcriptSeedRef.current = null;
+			handoffFromRef.current = null;
+			clearPromptQueue();
 			setInputValue("");
 			setAttachedImages([]);
 			setContextUsage(null);
@@ -229,9 +317,37 @@ export function useChatController(
 			sessionHistory,
 			inputValue,
 			attachedImages,
+			clearPromptQueue,
 		],
 	);
 
+	const getAgentNames = useCallback(
+		() => plugin.getAvailableAgents().map((agent) => agent.displayName),
+		[plugin],
+	);
+	const handleImportTranscript = useTranscriptImport({
+		logger,
+		messagesRef,
+		seedRef: transcriptSeedRef,
+		handleNewChat,
+		setMessagesFromLocal: chat.setMessagesFromLocal,
+		getAgentNames,
+	});
+
+	const sessionRef = useRef(session);
+	sessionRef.current = session;
+
+	const prepareHandoff = useCallback((): ChatHandoff | null => {
+		const { agentId, sessionId } = sessionRef.current;
+		if (!agentId || !sessionId) return null;
+		const prompt = buildHandoffPrompt({
+			messages: messagesRef.current,
+			sourceAgentName: resolveAgentDisplayName(plugin.settings, agentId),
+			vaultBasePath: vaultPath,
+		});
+		return prompt ? { prompt, source: { agentId, sessionId } } : null;
+	}, [plugin, vaultPath]);
+
 	const handleSwitchAgent = useCallback(
 		async (agentId: string) => {
 			if (agentId !== session.agentId) {
@@ -265,6 +381,10 @@ export function useChatController(
 
 	const {
 		handleRestoreSession,
+		handleOpenSearchResult,
+		handleScrollTargetReached,
+		scrollTargetMessageId,
+		setScrollTargetMessageId,
 		handleForkSession,
 		handleDeleteSession,
 		handleLoadMore,
@@ -277,6 +397,8 @@ export function useChatController(
 		sessionHistory,
 		logger,
 		vaultPath,
+		currentSessionId: session.sessionId,
+		currentAgentId: session.agentId,
 		clearMessages: chat.clearMessages,
 	});
 
@@ -363,6 +485,10 @@ export function useChatController(
 		lastModeModels: settings.lastModeModels,
 		createSession: agentSession.createSession,
 		setModel: agentSession.setModel,
+		setMode: agentSession.setMode,
+		restoreSession: (sessionId) =>
+			sessionHistory.restoreSession(sessionId, vaultPath),
+		scrollToMessage: setScrollTargetMessageId,
 		closeSession: agentSession.closeSession,
 		updateAvailableCommands: agentSession.updateAvailableCommands,
 		updateCurrentMode: agentSession.updateCurrentMode,
@@ -399,14 +525,20 @@ export function useChatController(
 		activeAgentLabel,
 		availableAgents,
 		errorInfo,
+		authenticationPrompt,
 
 		handleSendMessage,
 		handleStopGeneration,
 		handleNewChat,
 		handleSwitchAgent,
+		handleImportTranscript,
+		prepareHandoff,
 		handleRestartAgent,
 		handleClearError,
 		handleRestoreSession,
+		handleOpenSearchResult,
+		handleScrollTargetReached,
+		scrollTargetMessageId,
 		handleForkSession,
 		handleDeleteSession,
 		handleLoadMore,
@@ -425,5 +557,6 @@ export function useChatController(
 		restoredMessage,
 		handleRestoredMessageConsumed,
 		contextUsage,
+		promptQueue,
 	};
 }
@@ -0,0 +1,139 @@
+import { useCallback } from "react";
+import { normalizePath, type TFile } from "obsidian";
+import type { ChatMessage } from "../domain/models/chat-message";
+import type { ChatSession } from "../domain/models/chat-session";
+import type AgentClientPlugin from "../plugin";
+import { resolveAgentDisplayName } from "../shared/agent-display-name";
+import {
+	buildChatExportFileName,
+	deriveChatExportTitle,
+	renderChatExport,
+	type ChatExportMetadata,
+} from "../shared/chat-export";
+import { getLogger } from "../shared/logger";
+import { pluginNotice } from "../shared/plugin-notice";
+
+interface UseChatExportParams {
+	plugin: AgentClientPlugin;
+	vaultPath: string;
+	session: ChatSession;
+	messages: ChatMessage[];
+}
+
+export interface UseChatExportReturn {
+	/** Export the conversation shown in this chat */
+	exportCurrentChat: () => Promise<void>;
+	/** Export a conversation saved in the plugin's session history */
+	exportSavedSession: (sessionId: string) => Promise<void>;
+}
+
+function getMessageTimeRange(messages: ChatMessage[]): [Date, Date] {
+	const now = new Date();
+	return [
+		messages[0]?.timestamp ?? now,
+		messages[messages.length - 1]?.timestamp ?? now,
+	];
+}
+
+/**
+ * Write conversations to markdown notes in the folder Obsidian uses for
+ * new notes, then open the note.
+ */
+export function useChatExport({
+	plugin,
+	vaultPath,
+	session,
+	messages,
+}: UseChatExportParams): UseChatExportReturn {
+	const writeNote = useCallback(
+		async (
+			chatMessages: ChatMessage[],
+			metadata: ChatExportMetadata,
+		): Promise<TFile> => {
+			const { app } = plugin;
+			const parent = app.fileManager.getNewFileParent(
+				app.workspace.getActiveFile()?.path ?? "",
+			);
+			const fileName = buildChatExportFileName(
+				metadata.title,
+				metadata.exportedAt,
+			);
+			const base = parent.isRoot() ? "" : `${parent.path}/`;
+			let path = normalizePath(`${base}${fileName}`);
+			for (let i = 2; app.vault.getAbstractFileByPath(path); i++) {
+				path = normalizePath(`${base}${fileName.replace(/\.md$/, ` ${i}.md`)}`);
+			}
+			return await app.vault.create(
+				path,
+				renderChatExport(chatMessages, metadata, vaultPath),
+			);
+		},
+		[plugin, vaultPath],
+	);
+
+	const exportMessages = useCallback(
+		async (chatMessages: ChatMessage[], metadata: ChatExportMetadata) => {
+			try {
+				const file = await writeNote(chatMessages, metadata);
+				await plugin.app.workspace.getLeaf("tab").openFile(file);
+				pluginNotice(`Chat exported to ${file.path}`);
+			} catch (error) {
+				getLogger().error("[useChatExport] Export failed:", error);
+				pluginNotice("Failed to export chat");
+			}
+		},
+		[plugin, writeNote],
+	);
+
+	const exportCurrentChat = useCallback(async () => {
+		if (messages.length === 0) {
+			pluginNotice("Nothing to export yet");
+			return;
+		}
+		const saved = session.sessionId
+			? plugin.settingsStore
+					.getSavedSessions()
+					.find((info) => info.sessionId === session.sessionId)
+			: undefined;
+		const [createdAt, updatedAt] = getMessageTimeRange(messages);
+		await exportMessages(messages, {
+			title: saved?.title ?? deriveChatExportTitle(messages),
+			agentId: session.agentId,
+			agentName: resolveAgentDisplayName(plugin.settings, session.agentId),
+			modelId: session.models?.currentModelId,
+			modeId: session.modes?.currentModeId,
+			sessionId: session.sessionId,
+			createdAt,
+			updatedAt,
+			exportedAt: new Date(),
+		});
+	}, [plugin, session, messages, exportMessages]);
+
+	const exportSavedSession = useCallback(
+		async (sessionId: string) => {
+			const savedMessages =
+				await plugin.settingsStore.loadSessionMessages(sessionId);
+			if (!savedMessages || savedMessages.length === 0) {
+				pluginNotice("No saved messages for this session");
+				return;
+			}
+			const saved = plugin.settingsStore
+				.getSavedSessions()
+				.find((info) => info.sessionId === sessionId);
+			const agentId = saved?.agentId ?? session.agentId;
+			const [createdAt, updatedAt] = getMessageTimeRange(savedMessages);
+			await exportMessages(savedMessages, {
+				title: saved?.title ?? deriveChatExportTitle(savedMessages),
+				agentId,
+				agentName: resolveAgentDisplayName(plugin.settings, agentId),
+				sessionId,
+				createdAt: saved ? new Date(saved.createdAt) : createdAt,
+				updatedAt: saved ? new Date(saved.updatedAt) : updatedAt,
+				exportedAt: new Date(),
+			});
+		},
+		[plugin, session.agentId, exportMessages],
+	);
+
+	return { exportCurrentChat, exportSavedSession };
+}
@@ -0,0 +1,73 @@
+import type * as React from "react";
+import { useCallback } from "react";
+import { Notice } from "obsidian";
+import { removeChatContextTokensForPaths } from "../shared/chat-context-token";
+import type { UseSessionRestoreReturn } from "./useSessionRestore";
+import type { VaultFileIo } from "./useVaultFileIo";
+
+interface UseFileChangeActionsOptions {
+	sessionRestore: UseSessionRestoreReturn;
+	fileIo: VaultFileIo;
+	setInputValue: React.Dispatch<React.SetStateAction<string>>;
+	updateActiveNote: () => Promise<void>;
+}
+
+export interface UseFileChangeActionsReturn {
+	handleUndoAll: () => Promise<void>;
+	handleRevertFile: (changePath: string) => Promise<void>;
+}
+
+/**
+ * Revert actions of the file changes panel. Reverted files are also
+ * dropped from context tokens in the chat input.
+ */
+export function useFileChangeActions({
+	sessionRestore,
+	fileIo,
+	setInputValue,
+	updateActiveNote,
+}: UseFileChangeActionsOptions): UseFileChangeActionsReturn {
+	const handleUndoAll = useCallback(async () => {
+		const changesToRevert = sessionRestore.changeSet?.changes ?? [];
+		const { reverted, conflicts } = await sessionRestore.revertChanges(fileIo);
+		if (reverted.length > 0) {
+			new Notice(`Reverted ${reverted.length} file(s)`);
+			const revertedSet = new Set(reverted);
+			const revertedVaultPaths = changesToRevert
+				.filter((c) => revertedSet.has(c.path) && c.vaultPath)
+				.map((c) => c.vaultPath!);
+			if (revertedVaultPaths.length > 0) {
+				setInputValue((prev) =>
+					removeChatContextTokensForPaths(prev, revertedVaultPaths),
+				);
+			}
+			void updateActiveNote();
+		}
+		if (conflicts.length > 0) {
+			new Notice(`${conflicts.length} file(s) had conflicts and were skipped`);
+		}
+	}, [sessionRestore, fileIo, setInputValue, updateActiveNote]);
+
+	const handleRevertFile = useCallback(
+		async (changePath: string) => {
+			const change = sessionRestore.changeSet?.changes.find(
+				(c) => c.path === changePath,
+			);
+			const result = await sessionRestore.revertFile(changePath, fileIo);
+			if (result.reverted) {
+				new Notice("File reverted");
+				if (change?.vaultPath) {
+					setInputValue((prev) =>
+						removeChatContextTokensForPaths(prev, [change.vaultPath!]),
+					);
+				}
+				void updateActiveNote();
+			} else if (result.conflict) {
+				new Notice("Could not revert: file has been modified externally");
+			}
+		},
+		[sessionRestore, fileIo, setInputValue, updateActiveNote],
+	);
+
+	return { handleUndoAll, handleRevertFile };
+}
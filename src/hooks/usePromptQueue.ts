@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ChatInputState } from "../domain/models/chat-input-state";
+import type { ImagePromptContent } from "../domain/models/prompt-content";
+
+/** Follow-up prompt waiting for the current turn to end */
+export interface QueuedPrompt extends ChatInputState {
+	id: string;
+}
+
+interface UsePromptQueueOptions {
+	/** Session is ready and no turn is running */
+	canSend: boolean;
+	/** A permission request waits for an answer */
+	isWaitingForPermission: boolean;
+	send: (content: string, images?: ImagePromptContent[]) => Promise<void>;
+}
+
+export interface UsePromptQueueReturn {
+	items: QueuedPrompt[];
+	/** Stopped by a cancelled turn until resumed */
+	isPaused: boolean;
+	isWaitingForPermission: boolean;
+	enqueue: (prompt: ChatInputState) => void;
+	/** Change the text of a queued prompt; empty text removes it */
+	update: (id: string, text: string) => void;
+	remove: (id: string) => void;
+	move: (id: string, toIndex: number) => void;
+	clear: () => void;
+	pause: () => void;
+	resume: () => void;
+}
+
+/**
+ * Prompts typed while the agent is still answering. The first one is sent
+ * when the turn ends, unless the queue is paused or a permission request
+ * is open.
+ */
+export function usePromptQueue({
+	canSend,
+	isWaitingForPermission,
+	send,
+}: UsePromptQueueOptions): UsePromptQueueReturn {
+	const [items, setItems] = useState<QueuedPrompt[]>([]);
+	const [isPaused, setIsPaused] = useState(false);
+
+	// Set from dequeue until the turn ends; isSending only turns true once
+	// the prompt is prepared
+	const [isDispatching, setIsDispatching] = useState(false);
+
+	useEffect(() => {
+		if (!canSend || isPaused || isWaitingForPermission) return;
+		if (isDispatching || items.length === 0) return;
+		const [next, ...rest] = items;
+		setIsDispatching(true);
+		setItems(rest);
+		const images: ImagePromptContent[] = next.images.map((img) => ({
+			type: "image",
+			data: img.data,
+			mimeType: img.mimeType,
+		}));
+		void send(next.text, images.length > 0 ? images : undefined).finally(() =>
+			setIsDispatching(false),
+		);
+	}, [items, canSend, isPaused, isWaitingForPermission, isDispatching, send]);
+
+	const enqueue = useCallback((prompt: ChatInputState) => {
+		const text = prompt.text.trim();
+		if (!text && prompt.images.length === 0) return;
+		setItems((prev) => [
+			...prev,
+			{ id: crypto.randomUUID(), text, images: prompt.images },
+		]);
+	}, []);
+
+	const update = useCallback((id: string, text: string) => {
+		const trimmed = text.trim();
+		setItems((prev) =>
+			prev.flatMap((item) => {
+				if (item.id !== id) return [item];
+				return trimmed || item.images.length > 0
+					? [{ ...item, text: trimmed }]
+					: [];
+			}),
+		);
+	}, []);
+
+	const remove = useCallback((id: string) => {
+		setItems((prev) => prev.filter((item) => item.id !== id));
+	}, []);
+
+	const move = useCallback((id: string, toIndex: number) => {
+		setItems((prev) => {
+			const from = prev.findIndex((item) => item.id === id);
+			const to = Math.max(0, Math.min(prev.length - 1, toIndex));
+			if (from === -1 || from === to) return prev;
+			const next = [...prev];
+			const [item] = next.splice(from, 1);
+			next.splice(to, 0, item);
+			return next;
+		});
+	}, []);
+
+	const clear = useCallback(() => {
+		setItems([]);
+		setIsPaused(false);
+	}, []);
+
+	const pause = useCallback(() => setIsPaused(true), []);
+	const resume = useCallback(() => setIsPaused(false), []);
+
+	return {
+		items,
+		isPaused,
+		isWaitingForPermission,
+		enqueue,
+		update,
+		remove,
+		move,
+		clear,
+		pause,
+		resume,
+	};
+}
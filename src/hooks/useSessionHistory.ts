@@ -122,6 +122,8 @@ export function useSessionHistory(
 					cwd: s.cwd,
 					title: s.title,
 					updatedAt: s.updatedAt,
+					continuedIn: s.continuedIn,
+					continuedFrom: s.continuedFrom,
 				}));
 
 				setSessions(sessionInfos);
@@ -392,6 +394,15 @@ export function useSessionHistory(
 		[session.agentId, settingsAccess],
 	);
 
+	/**
+	 * Search the saved messages of every locally saved session, of all
+	 * agents and working directories.
+	 */
+	const searchSessions = useCallback(
+		(query: string) => settingsAccess.searchSessions(query),
+		[settingsAccess],
+	);
+
 	return {
 		sessions,
 		loading,
@@ -419,6 +430,7 @@ export function useSessionHistory(
 		deleteSession,
 		saveSessionLocally,
 		saveSessionMessages,
+		searchSessions,
 		invalidateCache,
 	};
 }
@@ -1,7 +1,10 @@
 import { useState, useCallback, useRef } from "react";
 import { type App, MarkdownView } from "obsidian";
 import type { ChatMessage } from "../domain/models/chat-message";
+import type { AgentFileWrite } from "../domain/models/file-write";
+import type { ParagraphLock } from "../domain/models/paragraph-lock";
 import {
+	findLockRestorations,
 	getLastAssistantMessage,
 	SnapshotManager,
 	type FileIo,
@@ -10,6 +13,16 @@ import {
 
 export type { FileIo as RevertFileIo };
 
+/**
+ * Enforces paragraph locks on refresh: agent edits touching a locked
+ * passage are reverted for that span and written back.
+ */
+export interface LockGuard {
+	getLocks: (vaultPath: string) => ParagraphLock[];
+	writeFile: (path: string, content: string) => Promise<void>;
+	onRestored?: (vaultPath: string, lockCount: number) => void;
+}
+
 export interface RevertFileResult {
 	reverted: boolean;
 	conflict: boolean;
@@ -18,6 +31,8 @@ export interface RevertFileResult {
 export interface UseSessionRestoreReturn {
 	isRestored: boolean;
 	changeSet: SessionChangeSet | null;
+	/** FileChange.path → number of locked passages restored this session */
+	lockViolations: Record<string, number>;
 
 	reset: () => void;
 	refreshChanges: (
@@ -27,6 +42,10 @@ export interface UseSessionRestoreReturn {
 	) => Promise<void>;
 	dismiss: () => void;
 	keepFile: (changePath: string) => void;
+	/** Seed the baseline from an agent write; returns the baseline content */
+	recordFileWrite: (write: AgentFileWrite) => string | null;
+	/** Replace a tracked file's baseline (per-hunk accept/reject) */
+	setBaseline: (vaultPath: string, content: string) => boolean;
 
 	revertFile: (changePath: string, io: FileIo) => Promise<RevertFileResult>;
 	revertChanges: (
@@ -37,11 +56,18 @@ export interface UseSessionRestoreReturn {
 	insertLastAssistantMessage: (app: App, messages: ChatMessage[]) => boolean;
 }
 
-export function useSessionRestore(): UseSessionRestoreReturn {
+export function useSessionRestore(
+	lockGuard?: LockGuard,
+): UseSessionRestoreReturn {
 	const [isRestored, setIsRestored] = useState(false);
 	const [changeSet, setChangeSet] = useState<SessionChangeSet | null>(null);
+	const [lockViolations, setLockViolations] = useState<Record<string, number>>(
+		{},
+	);
 	const managerRef = useRef(new SnapshotManager());
 	const refreshCallIdRef = useRef(0);
+	const lockGuardRef = useRef(lockGuard);
+	lockGuardRef.current = lockGuard;
 
 	const syncState = useCallback((cs: SessionChangeSet | null) => {
 		setChangeSet(cs);
@@ -57,12 +83,43 @@ export function useSessionRestore(): UseSessionRestoreReturn {
 			if (!readFile) return;
 			const callId = ++refreshCallIdRef.current;
 			const manager = managerRef.current;
-			const result = await manager.computeChanges(
+			let result = await manager.computeChanges(
 				messages,
 				vaultBasePath,
 				readFile,
 			);
 			if (callId !== refreshCallIdRef.current) return;
+
+			const guard = lockGuardRef.current;
+			const restorations =
+				result && guard
+					? findLockRestorations(result.changes, guard.getLocks)
+					: [];
+			if (guard && restorations.length > 0) {
+				for (const restoration of restorations) {
+					await guard.writeFile(
+						restoration.vaultPath,
+						restoration.restoredText,
+					);
+					guard.onRestored?.(
+						restoration.vaultPath,
+						restoration.restoredLocks.length,
+					);
+				}
+				setLockViolations((prev) => {
+					const next = { ...prev };
+					for (const { path, restoredLocks } of restorations) {
+						next[path] = (next[path] ?? 0) + restoredLocks.length;
+					}
+					return next;
+				});
+				result = await manager.computeChanges(
+					messages,
+					vaultBasePath,
+					readFile,
+				);
+				if (callId !== refreshCallIdRef.current) return;
+			}
 			syncState(result);
 		},
 		[syncState],
@@ -78,6 +135,7 @@ export function useSessionRestore(): UseSessionRestoreReturn {
 
 	const reset = useCallback(() => {
 		managerRef.current.reset();
+		setLockViolations({});
 		syncState(null);
 	}, [syncState]);
 
@@ -103,6 +161,23 @@ export function useSessionRestore(): UseSessionRestoreReturn {
 		[changeSet],
 	);
 
+	const recordFileWrite = useCallback(
+		(write: AgentFileWrite): string | null =>
+			managerRef.current.recordWrite(
+				write.vaultPath,
+				write.rawPath,
+				write.previousContent,
+				write.content,
+			),
+		[],
+	);
+
+	const setBaseline = useCallback(
+		(vaultPath: string, content: string): boolean =>
+			managerRef.current.setBaseline(vaultPath, content),
+		[],
+	);
+
 	const revertFile = useCallback(
 		async (changePath: string, io: FileIo): Promise<RevertFileResult> => {
 			if (!changeSet) return { reverted: false, conflict: false };
@@ -180,10 +255,13 @@ export function useSessionRestore(): UseSessionRestoreReturn {
 	return {
 		isRestored,
 		changeSet,
+		lockViolations,
 		reset,
 		refreshChanges,
 		dismiss,
 		keepFile,
+		recordFileWrite,
+		setBaseline,
 		revertFile,
 		revertChanges,
 		copyLastAssistantMessage,
@@ -0,0 +1,91 @@
+import { useEffect, useRef } from "react";
+import {
+	latestAnswer,
+	type CompareReply,
+	type CompareUsage,
+} from "../application/services/chat-compare";
+import type { ErrorInfo } from "../domain/models/agent-error";
+import type { ChatInputState } from "../domain/models/chat-input-state";
+import type { ChatMessage } from "../domain/models/chat-message";
+import type { SessionModelState } from "../domain/models/chat-session";
+import type { ImagePromptContent } from "../domain/models/prompt-content";
+
+interface UseTabTurnsOptions {
+	tabId: string;
+	messages: ChatMessage[];
+	isSending: boolean;
+	errorInfo: ErrorInfo | null;
+	contextUsage: CompareUsage | null;
+	/** Session is ready and idle */
+	canSend: boolean;
+	models?: SessionModelState;
+	/** Model the tab was opened with; prompts wait until it is active */
+	configuredModel?: string;
+	send: (content: string, images?: ImagePromptContent[]) => Promise<void>;
+	/** Prompt handed to the tab from outside, e.g. by a comparison */
+	pendingPrompt?: ChatInputState;
+	onPromptSent?: (tabId: string) => void;
+	onSendComplete?: (tabId: string, reply: CompareReply) => void;
+	onUsageChange?: (tabId: string, usage: CompareUsage) => void;
+}
+
+/**
+ * Turn events of a tab for its parent view: the reply when a turn ends,
+ * context usage as it changes, and sending a prompt the tab did not get
+ * from its own input as soon as the session can take it.
+ */
+export function useTabTurns({
+	tabId,
+	messages,
+	isSending,
+	errorInfo,
+	contextUsage,
+	canSend,
+	models,
+	configuredModel,
+	send,
+	pendingPrompt,
+	onPromptSent,
+	onSendComplete,
+	onUsageChange,
+}: UseTabTurnsOptions): void {
+	const prevIsSendingRef = useRef(false);
+	useEffect(() => {
+		const wasSending = prevIsSendingRef.current;
+		prevIsSendingRef.current = isSending;
+		if (wasSending && !isSending && messages.length > 0) {
+			onSendComplete?.(tabId, {
+				answer: latestAnswer(messages),
+				usage: contextUsage,
+				failed: errorInfo !== null,
+			});
+		}
+	}, [isSending, messages, tabId, onSendComplete, contextUsage, errorInfo]);
+
+	useEffect(() => {
+		if (contextUsage) onUsageChange?.(tabId, contextUsage);
+	}, [tabId, contextUsage, onUsageChange]);
+
+	// The configured model is switched to after the session starts
+	const isModelPending =
+		!!configuredModel &&
+		models?.currentModelId !== configuredModel &&
+		!!models?.availableModels.some((m) => m.modelId === configuredModel);
+
+	const sentPromptRef = useRef<ChatInputState | null>(null);
+	useEffect(() => {
+		if (!pendingPrompt || !canSend || isModelPending) return;
+		if (sentPromptRef.current === pendingPrompt) return;
+		sentPromptRef.current = pendingPrompt;
+		onPromptSent?.(tabId);
+		const images: ImagePromptContent[] = pendingPrompt.images.map((img) => ({
+			type: "image",
+			data: img.data,
+			mimeType: img.mimeType,
+		}));
+		void send(
+			pendingPrompt.text.trim(),
+			images.length > 0 ? images : undefined,
+		);
+	}, [tabId, pendingPrompt, canSend, isModelPending, send, onPromptSent]);
+}
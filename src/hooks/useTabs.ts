@@ -1,14 +1,28 @@
 import { useCallback, useMemo, useState } from "react";
 
 import type { TabItem } from "../components/chat/TabBar";
-
-const MAX_TABS = 4;
+import type { SessionLink } from "../domain/models/session-info";
+import type { ChatCodeBlockConfig } from "../shared/chat-code-block";
+import { orderPinnedFirst, type PersistedChatTabs } from "../shared/chat-tabs";
 
 export interface ChatTab {
 	id: string;
 	agentId: string;
+	/** Session binding applied when the tab starts, e.g. a session to restore */
+	config?: ChatCodeBlockConfig;
+	/** Session this tab continues after a handoff */
+	handoffFrom?: SessionLink;
+	/** Session shown in the tab, kept so it can be restored */
+	sessionId?: string;
+	/** Name chosen by the user; the agent name is shown otherwise */
+	name?: string;
+	/** Pinned tabs stay in front and cannot be closed */
+	pinned?: boolean;
 }
 
+/** Optional start state of a tab opened with openTab */
+export type ChatTabOptions = Pick<ChatTab, "config" | "handoffFrom" | "name">;
+
 interface AgentInfo {
 	id: string;
 	displayName: string;
@@ -18,6 +32,9 @@ interface UseTabsOptions {
 	initialAgentId: string;
 	defaultAgentId: string;
 	availableAgents: AgentInfo[];
+	maxTabs: number;
+	/** Tabs saved with the workspace, used instead of a single new tab */
+	initialTabs?: PersistedChatTabs | null;
 	onTabClose?: (tabId: string) => void;
 }
 
@@ -40,6 +57,52 @@ function resolveTabAgentId(
 	return availableAgents[0]?.id ?? defaultAgentId;
 }
 
+/**
+ * Tabs from saved state. A tab whose agent is gone falls back to the
+ * default agent and starts without its session.
+ */
+function fromPersistedTabs(
+	state: PersistedChatTabs,
+	availableAgents: AgentInfo[],
+	defaultAgentId: string,
+): ChatTab[] {
+	return orderPinnedFirst(
+		state.tabs.map((tab) => {
+			const agentId = resolveTabAgentId(
+				availableAgents,
+				defaultAgentId,
+				tab.agentId,
+			);
+			const sessionId = agentId === tab.agentId ? tab.sessionId : undefined;
+			return {
+				id: tab.id,
+				agentId,
+				config: sessionId ? { session: sessionId } : undefined,
+				sessionId,
+				name: tab.name,
+				pinned: tab.pinned,
+			};
+		}),
+	);
+}
+
+/** Tab state to save with the workspace */
+export function toPersistedTabs(
+	tabs: ChatTab[],
+	activeTabId: string,
+): PersistedChatTabs {
+	return {
+		tabs: tabs.map((tab) => ({
+			id: tab.id,
+			agentId: tab.agentId,
+			sessionId: tab.sessionId,
+			name: tab.name,
+			pinned: tab.pinned,
+		})),
+		activeTabId,
+	};
+}
+
 export interface UseTabsReturn {
 	tabs: ChatTab[];
 	tabsWithLabels: TabItem[];
@@ -49,7 +112,17 @@ export interface UseTabsReturn {
 	canCloseTab: boolean;
 	handleTabClick: (tabId: string) => void;
 	handleTabClose: (tabId: string) => void;
+	/** Close several tabs at once; pinned tabs and the last tab stay */
+	closeTabs: (tabIds: string[]) => void;
 	handleNewTab: () => void;
+	/** Open and activate a tab for an agent; null when no tab can be added */
+	openTab: (agentId: string, options?: ChatTabOptions) => string | null;
+	/** Replace all tabs with saved ones, e.g. on workspace restore */
+	restoreTabs: (state: PersistedChatTabs) => void;
+	/** Set a custom name; an empty name goes back to the agent name */
+	renameTab: (tabId: string, name: string) => void;
+	togglePinTab: (tabId: string) => void;
+	setTabSession: (tabId: string, sessionId: string) => void;
 	handleAgentChangeForTab: (agentId: string) => void;
 	markTabCompleted: (tabId: string) => void;
 	completedTabIds: ReadonlySet<string>;
@@ -59,18 +132,27 @@ export function useTabs({
 	initialAgentId,
 	defaultAgentId,
 	availableAgents,
+	maxTabs,
+	initialTabs,
 	onTabClose,
 }: UseTabsOptions): UseTabsReturn {
-	const initialTabAgentId = resolveTabAgentId(
-		availableAgents,
-		defaultAgentId,
-		initialAgentId,
+	const [tabs, setTabs] = useState<ChatTab[]>(() =>
+		initialTabs
+			? fromPersistedTabs(initialTabs, availableAgents, defaultAgentId)
+			: [
+					{
+						id: crypto.randomUUID(),
+						agentId: resolveTabAgentId(
+							availableAgents,
+							defaultAgentId,
+							initialAgentId,
+						),
+					},
+				],
+	);
+	const [activeTabId, setActiveTabId] = useState(
+		() => initialTabs?.activeTabId ?? tabs[0].id,
 	);
-
-	const [tabs, setTabs] = useState<ChatTab[]>(() => [
-		{ id: crypto.randomUUID(), agentId: initialTabAgentId },
-	]);
-	const [activeTabId, setActiveTabId] = useState(() => tabs[0].id);
 	const [completedTabIds, setCompletedTabIds] = useState<ReadonlySet<string>>(
 		() => new Set(),
 	);
@@ -84,8 +166,11 @@ export function useTabs({
 		return tabs.map((tab) => ({
 			id: tab.id,
 			label:
+				tab.name ||
 				availableAgents.find((a) => a.id === tab.agentId)?.displayName ||
 				tab.agentId,
+			hasCustomName: !!tab.name,
+			pinned: tab.pinned,
 		}));
 	}, [tabs, availableAgents]);
 
@@ -119,6 +204,7 @@ export function useTabs({
 	const handleTabClose = useCallback(
 		(tabId: string) => {
 			if (tabs.length <= 1) return;
+			if (tabs.find((t) => t.id === tabId)?.pinned) return;
 			const remaining = tabs.filter((t) => t.id !== tabId);
 			setTabs(remaining);
 			onTabClose?.(tabId);
@@ -129,8 +215,24 @@ export function useTabs({
 		[tabs, activeTabId, onTabClose],
 	);
 
+	const closeTabs = useCallback(
+		(tabIds: string[]) => {
+			const closing = new Set(
+				tabs.filter((t) => tabIds.includes(t.id) && !t.pinned).map((t) => t.id),
+			);
+			const remaining = tabs.filter((t) => !closing.has(t.id));
+			if (closing.size === 0 || remaining.length === 0) return;
+			setTabs(remaining);
+			for (const tabId of closing) onTabClose?.(tabId);
+			if (closing.has(activeTabId)) {
+				setActiveTabId(remaining[0].id);
+			}
+		},
+		[tabs, activeTabId, onTabClose],
+	);
+
 	const handleNewTab = useCallback(() => {
-		if (tabs.length >= MAX_TABS) return;
+		if (tabs.length >= maxTabs) return;
 
 		const sourceAgentId =
 			tabs.find((tab) => tab.id === activeTabId)?.agentId ?? defaultAgentId;
@@ -146,12 +248,74 @@ export function useTabs({
 		};
 		setTabs((prev) => [...prev, newTab]);
 		setActiveTabId(newTab.id);
-	}, [tabs, activeTabId, availableAgents, defaultAgentId]);
+	}, [tabs, activeTabId, availableAgents, defaultAgentId, maxTabs]);
+
+	const openTab = useCallback(
+		(agentId: string, options: ChatTabOptions = {}) => {
+			if (tabs.length >= maxTabs) return null;
+			const newTab: ChatTab = {
+				id: crypto.randomUUID(),
+				agentId: resolveTabAgentId(availableAgents, defaultAgentId, agentId),
+				...options,
+			};
+			setTabs((prev) => [...prev, newTab]);
+			setActiveTabId(newTab.id);
+			return newTab.id;
+		},
+		[tabs.length, availableAgents, defaultAgentId, maxTabs],
+	);
+
+	const restoreTabs = useCallback(
+		(state: PersistedChatTabs) => {
+			const restored = fromPersistedTabs(
+				state,
+				availableAgents,
+				defaultAgentId,
+			);
+			const restoredIds = new Set(restored.map((tab) => tab.id));
+			for (const tab of tabs) {
+				if (!restoredIds.has(tab.id)) onTabClose?.(tab.id);
+			}
+			setTabs(restored);
+			setActiveTabId(state.activeTabId ?? restored[0].id);
+			setCompletedTabIds(new Set());
+		},
+		[tabs, availableAgents, defaultAgentId, onTabClose],
+	);
+
+	const renameTab = useCallback((tabId: string, name: string) => {
+		const trimmed = name.trim();
+		setTabs((prev) =>
+			prev.map((t) =>
+				t.id === tabId ? { ...t, name: trimmed || undefined } : t,
+			),
+		);
+	}, []);
+
+	const togglePinTab = useCallback((tabId: string) => {
+		setTabs((prev) =>
+			orderPinnedFirst(
+				prev.map((t) =>
+					t.id === tabId ? { ...t, pinned: t.pinned ? undefined : true } : t,
+				),
+			),
+		);
+	}, []);
+
+	const setTabSession = useCallback((tabId: string, sessionId: string) => {
+		setTabs((prev) =>
+			prev.some((t) => t.id === tabId && t.sessionId !== sessionId)
+				? prev.map((t) => (t.id === tabId ? { ...t, sessionId } : t))
+				: prev,
+		);
+	}, []);
 
 	const handleAgentChangeForTab = useCallback(
 		(agentId: string) => {
 			setTabs((prev) =>
-				prev.map((t) => (t.id === activeTabId ? { ...t, agentId } : t)),
+				prev.map((t) =>
+					t.id === activeTabId ? { ...t, agentId, sessionId: undefined } : t,
+				),
 			);
 		},
 		[activeTabId],
@@ -162,11 +326,17 @@ export function useTabs({
 		tabsWithLabels,
 		activeTabId,
 		activeTab,
-		canAddTab: tabs.length < MAX_TABS,
+		canAddTab: tabs.length < maxTabs,
 		canCloseTab: tabs.length > 1,
 		handleTabClick,
 		handleTabClose,
+		closeTabs,
 		handleNewTab,
+		openTab,
+		restoreTabs,
+		renameTab,
+		togglePinTab,
+		setTabSession,
 		handleAgentChangeForTab,
 		markTabCompleted,
 		completedTabIds,
@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { TerminalExitStatus } from "../domain/models/terminal-output";
+import type { IAgentClient } from "../domain/ports/agent-client.port";
+import { getLogger } from "../shared/logger";
+
+/** Output kept for display; older output is dropped */
+const MAX_DISPLAY_CHARS = 200_000;
+/** Chunks arriving within this window are rendered together */
+const FLUSH_INTERVAL_MS = 100;
+/** A running command silent for this long is probably waiting for input */
+const AWAITING_INPUT_AFTER_MS = 5000;
+
+export interface UseTerminalOutputReturn {
+	output: string;
+	exitStatus: TerminalExitStatus | null;
+	isRunning: boolean;
+	/** The terminal no longer exists (e.g. released before we subscribed) */
+	isMissing: boolean;
+	/** Earlier output was dropped from the display */
+	isTruncated: boolean;
+	/** Running, but no output for a while: it may be waiting for input */
+	isAwaitingInput: boolean;
+	stop: () => Promise<void>;
+	/** Write text to the command's stdin; false if it could not be sent */
+	sendInput: (text: string) => Promise<boolean>;
+}
+
+/**
+ * Follow the output of an agent terminal. Chunks are pushed by the agent
+ * client and batched, so many busy terminals cost at most one render per
+ * terminal per flush interval.
+ */
+export function useTerminalOutput(
+	agentClient: IAgentClient | null,
+	terminalId: string,
+): UseTerminalOutputReturn {
+	const [output, setOutput] = useState("");
+	const [exitStatus, setExitStatus] = useState<TerminalExitStatus | null>(null);
+	const [isMissing, setIsMissing] = useState(false);
+	const [isTruncated, setIsTruncated] = useState(false);
+	const [isSilent, setIsSilent] = useState(false);
+	const outputRef = useRef("");
+	const pendingRef = useRef("");
+	const flushTimerRef = useRef<number | null>(null);
+
+	useEffect(() => {
+		if (!terminalId || !agentClient) return;
+		const logger = getLogger();
+
+		const flush = () => {
+			flushTimerRef.current = null;
+			const pending = pendingRef.current;
+			pendingRef.current = "";
+			if (!pending) return;
+			let next = outputRef.current + pending;
+			if (next.length > MAX_DISPLAY_CHARS) {
+				next = next.slice(next.length - MAX_DISPLAY_CHARS);
+				setIsTruncated(true);
+			}
+			outputRef.current = next;
+			setOutput(next);
+		};
+
+		// A new subscription starts with the full output so far
+		outputRef.current = "";
+
+		let silenceTimer: number | null = null;
+		let silent = false;
+		let exited = false;
+		const markActive = (hasExited: boolean) => {
+			exited = exited || hasExited;
+			if (silenceTimer !== null) window.clearTimeout(silenceTimer);
+			silenceTimer = null;
+			if (silent) {
+				silent = false;
+				setIsSilent(false);
+			}
+			if (exited) return;
+			silenceTimer = window.setTimeout(() => {
+				silent = true;
+				setIsSilent(true);
+			}, AWAITING_INPUT_AFTER_MS);
+		};
+
+		let unsubscribe: (() => void) | null = null;
+		try {
+			unsubscribe = agentClient.subscribeTerminalOutput(terminalId, (event) => {
+				markActive(event.type === "exit");
+				if (event.type === "output") {
+					pendingRef.current += event.data;
+					if (flushTimerRef.current === null) {
+						flushTimerRef.current = window.setTimeout(flush, FLUSH_INTERVAL_MS);
+					}
+				} else {
+					flush();
+					setExitStatus(event.exitStatus);
+				}
+			});
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			logger.log(
+				`[useTerminalOutput] Cannot follow terminal ${terminalId}: ${errorMessage}`,
+			);
+			setIsMissing(true);
+		}
+		if (unsubscribe && !exited && silenceTimer === null) {
+			// Subscribed to a command that has not printed anything yet
+			markActive(false);
+		}
+
+		return () => {
+			unsubscribe?.();
+			if (silenceTimer !== null) window.clearTimeout(silenceTimer);
+			if (flushTimerRef.current !== null) {
+				window.clearTimeout(flushTimerRef.current);
+				flushTimerRef.current = null;
+			}
+			pendingRef.current = "";
+		};
+	}, [terminalId, agentClient]);
+
+	const stop = useCallback(async () => {
+		if (!agentClient) return;
+		try {
+			await agentClient.stopTerminal(terminalId);
+		} catch (error) {
+			getLogger().error(
+				`[useTerminalOutput] Failed to stop terminal ${terminalId}:`,
+				error,
+			);
+		}
+	}, [agentClient, terminalId]);
+
+	const sendInput = useCallback(
+		async (text: string) => {
+			if (!agentClient) return false;
+			try {
+				await agentClient.writeTerminalInput(terminalId, text);
+				return true;
+			} catch (error) {
+				getLogger().error(
+					`[useTerminalOutput] Failed to write to terminal ${terminalId}:`,
+					error,
+				);
+				return false;
+			}
+		},
+		[agentClient, terminalId],
+	);
+
+	const isRunning = !exitStatus && !isMissing;
+	return {
+		output,
+		exitStatus,
+		isRunning,
+		isMissing,
+		isTruncated,
+		isAwaitingInput: isRunning && isSilent,
+		stop,
+		sendInput,
+	};
+}
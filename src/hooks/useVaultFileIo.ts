@@ -0,0 +1,48 @@
+import { useCallback, useMemo } from "react";
+import { TFile } from "obsidian";
+import type AgentClientPlugin from "../plugin";
+
+export interface VaultFileIo {
+	writeFile: (path: string, content: string) => Promise<void>;
+	readFile: (path: string) => Promise<string>;
+	deleteFile: (path: string) => Promise<void>;
+}
+
+/** Vault file operations used to revert and restore agent changes */
+export function useVaultFileIo(plugin: AgentClientPlugin): VaultFileIo {
+	const writeFile = useCallback(
+		async (path: string, content: string) => {
+			const file = plugin.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await plugin.app.vault.modify(file, content);
+			} else {
+				await plugin.app.vault.create(path, content);
+			}
+		},
+		[plugin],
+	);
+
+	const readFile = useCallback(
+		async (path: string) => {
+			const file = plugin.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) throw new Error(`File not found: ${path}`);
+			return await plugin.app.vault.read(file);
+		},
+		[plugin],
+	);
+
+	const deleteFile = useCallback(
+		async (path: string) => {
+			const file = plugin.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await plugin.app.fileManager.trashFile(file);
+			}
+		},
+		[plugin],
+	);
+
+	return useMemo(
+		() => ({ writeFile, readFile, deleteFile }),
+		[writeFile, readFile, deleteFile],
+	);
+}
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { RefObject } from "react";
+import {
+	computeVirtualRange,
+	getRowOffset,
+	type VirtualRange,
+} from "../shared/virtual-list";
+
+/** Height assumed for rows that have not been measured yet */
+const ESTIMATED_ROW_HEIGHT = 120;
+/** Rows within this distance of the viewport stay mounted */
+const OVERSCAN_PX = 800;
+/** Viewport height assumed while the container is hidden or not laid out */
+const FALLBACK_VIEWPORT_HEIGHT = 800;
+
+export interface UseVirtualListReturn {
+	range: VirtualRange;
+	/** Ref for the element that holds the rows, inside the scroll container */
+	listRef: RefObject<HTMLDivElement | null>;
+	/** Ref callback for a row element; the row needs a `data-row-key` */
+	measureRow: (el: HTMLElement | null) => (() => void) | undefined;
+	/** Read the scroll position; call from the container's scroll handler */
+	handleScroll: () => void;
+	/** Scroll the row with this key into the rendered range; false if unknown */
+	scrollToKey: (key: string) => boolean;
+}
+
+/**
+ * Render only the rows of a long list that are near the viewport.
+ *
+ * Row heights are measured once rows mount and estimated until then. When a
+ * row above the viewport changes height, the scroll position moves with it
+ * so the visible rows stay put; with `followEnd` the list stays scrolled to
+ * its end instead.
+ */
+export function useVirtualList(
+	keys: string[],
+	scrollRef: RefObject<HTMLElement | null>,
+	followEnd: boolean,
+): UseVirtualListReturn {
+	const listRef = useRef<HTMLDivElement>(null);
+	const [measured, setMeasured] = useState<ReadonlyMap<string, number>>(
+		() => new Map(),
+	);
+	const measuredRef = useRef(measured);
+	const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+	const followEndRef = useRef(followEnd);
+	const observerRef = useRef<ResizeObserver | null>(null);
+
+	useEffect(() => {
+		followEndRef.current = followEnd;
+	}, [followEnd]);
+
+	const heights = useMemo(
+		() => keys.map((key) => measured.get(key) ?? ESTIMATED_ROW_HEIGHT),
+		[keys, measured],
+	);
+	const viewportHeight = viewport.height || FALLBACK_VIEWPORT_HEIGHT;
+	const range = useMemo(
+		() =>
+			computeVirtualRange(
+				heights,
+				viewport.scrollTop,
+				viewportHeight,
+				OVERSCAN_PX,
+			),
+		[heights, viewport.scrollTop, viewportHeight],
+	);
+
+	const handleRowResize = useCallback(
+		(entries: ResizeObserverEntry[]) => {
+			const container = scrollRef.current;
+			if (!container) return;
+			const viewportTop = container.getBoundingClientRect().top;
+			const next = new Map(measuredRef.current);
+			let changed = false;
+			let shift = 0;
+			for (const entry of entries) {
+				const row = entry.target as HTMLElement;
+				const key = row.dataset.rowKey;
+				const height = row.offsetHeight;
+				// Hidden rows (e.g. an inactive tab) report no height
+				if (!key || height === 0) continue;
+				const delta = height - (next.get(key) ?? ESTIMATED_ROW_HEIGHT);
+				if (delta === 0 && next.has(key)) continue;
+				next.set(key, height);
+				changed = true;
+				if (row.getBoundingClientRect().bottom - delta <= viewportTop) {
+					shift += delta;
+				}
+			}
+			if (!changed) return;
+			measuredRef.current = next;
+			setMeasured(next);
+
+			if (followEndRef.current) {
+				container.scrollTop = container.scrollHeight;
+			} else if (shift !== 0) {
+				container.scrollTop += shift;
+			}
+		},
+		[scrollRef],
+	);
+
+	const measureRow = useCallback(
+		(el: HTMLElement | null) => {
+			if (!el || typeof ResizeObserver === "undefined") return undefined;
+			observerRef.current ??= new ResizeObserver(handleRowResize);
+			const observer = observerRef.current;
+			observer.observe(el);
+			return () => observer.unobserve(el);
+		},
+		[handleRowResize],
+	);
+
+	const handleScroll = useCallback(() => {
+		const container = scrollRef.current;
+		const list = listRef.current;
+		if (!container || !list) return;
+		const scrollTop =
+			container.getBoundingClientRect().top - list.getBoundingClientRect().top;
+		const height = container.clientHeight;
+		setViewport((prev) =>
+			prev.scrollTop === scrollTop && prev.height === height
+				? prev
+				: { scrollTop, height },
+		);
+	}, [scrollRef]);
+
+	// Track the viewport height; drop the row observer on unmount
+	useEffect(() => {
+		const container = scrollRef.current;
+		handleScroll();
+		if (!container || typeof ResizeObserver === "undefined") {
+			return undefined;
+		}
+		const observer = new ResizeObserver(handleScroll);
+		observer.observe(container);
+		return () => {
+			observer.disconnect();
+			observerRef.current?.disconnect();
+			observerRef.current = null;
+		};
+	}, [scrollRef, handleScroll]);
+
+	const scrollToKey = useCallback(
+		(key: string) => {
+			const index = keys.indexOf(key);
+			if (index === -1) return false;
+			const top = Math.max(
+				0,
+				getRowOffset(heights, index) - (viewportHeight - heights[index]) / 2,
+			);
+			const container = scrollRef.current;
+			const list = listRef.current;
+			if (container && list) {
+				container.scrollTop +=
+					list.getBoundingClientRect().top -
+					container.getBoundingClientRect().top +
+					top;
+			}
+			setViewport((prev) => ({ ...prev, scrollTop: top }));
+			return true;
+		},
+		[keys, heights, viewportHeight, scrollRef],
+	);
+
+	return { range, listRef, measureRow, handleScroll, scrollToKey };
+}
@@ -2,7 +2,7 @@ import { useEffect } from "react";
 import type { Workspace } from "obsidian";
 import { pluginNotice } from "../shared/plugin-notice";
 
-type CustomEventCallback = (targetViewId?: string) => void;
+type CustomEventCallback = (targetViewId?: string, payload?: string) => void;
 
 /**
  * Cast helper — Obsidian's Workspace.on() is typed for known events only;
@@ -32,11 +32,14 @@ interface UseWorkspaceEventsParams {
 	approveActivePermission: () => Promise<boolean>;
 	rejectActivePermission: () => Promise<boolean>;
 	handleStopGeneration: () => Promise<void>;
+	exportChat: () => Promise<void>;
+	importTranscript: (notePath: string) => Promise<void>;
 }
 
 /**
  * Subscribes to workspace-level hotkey events: toggle-auto-mention,
- * new-chat-requested, approve/reject permission, and cancel-message.
+ * new-chat-requested, approve/reject permission, cancel-message,
+ * export-chat and import-transcript.
  */
 export function useWorkspaceEvents({
 	workspace,
@@ -47,6 +50,8 @@ export function useWorkspaceEvents({
 	approveActivePermission,
 	rejectActivePermission,
 	handleStopGeneration,
+	exportChat,
+	importTranscript,
 }: UseWorkspaceEventsParams): void {
 	useEffect(() => {
 		const ref = onCustomEvent(
@@ -124,4 +129,28 @@ export function useWorkspaceEvents({
 		handleStopGeneration,
 		viewId,
 	]);
+
+	useEffect(() => {
+		const ref = onCustomEvent(
+			workspace,
+			"obsius:export-chat",
+			(targetViewId?: string) => {
+				if (targetViewId && targetViewId !== viewId) return;
+				void exportChat();
+			},
+		);
+		return () => workspace.offref(ref);
+	}, [workspace, exportChat, viewId]);
+
+	useEffect(() => {
+		const ref = onCustomEvent(
+			workspace,
+			"obsius:import-transcript",
+			(targetViewId?: string, notePath?: string) => {
+				if (targetViewId && targetViewId !== viewId) return;
+				if (notePath) void importTranscript(notePath);
+			},
+		);
+		return () => workspace.offref(ref);
+	}, [workspace, importTranscript, viewId]);
 }
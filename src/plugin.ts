@@ -10,6 +10,7 @@ import { ObsidianVaultAdapter } from "./adapters/obsidian/vault.adapter";
 import { AgentClientSettingTab } from "./components/settings/AgentClientSettingTab";
 import { AcpAdapter } from "./adapters/acp/acp.adapter";
 import { AgentRuntimeManager } from "./adapters/acp/agent-runtime-manager";
+import { AcpTraceRecorder } from "./adapters/acp/acp-trace-recorder";
 import type { IAgentClient } from "./domain/ports/agent-client.port";
 import type { IVaultAccess } from "./domain/ports/vault-access.port";
 import {
@@ -20,8 +21,14 @@ import {
 	CodexAgentSettings,
 	OpenCodeAgentSettings,
 	CustomAgentSettings,
+	McpServerSettings,
 } from "./domain/models/agent-config";
 import type { SavedSessionInfo } from "./domain/models/session-info";
+import type { ParagraphLockMap } from "./domain/models/paragraph-lock";
+import type { InlineEditTemplate } from "./domain/models/inline-edit-template";
+import type { PathScope } from "./domain/models/path-scope";
+import type { PermissionGrant } from "./domain/models/permission-grant";
+import type { TerminalCommandRule } from "./domain/models/terminal-command-rule";
 import { initializeLogger } from "./shared/logger";
 import {
 	createDefaultSettings,
@@ -42,6 +49,13 @@ import {
 } from "./plugin/editor-context";
 import { checkForUpdates } from "./plugin/update-check";
 import { registerInlineEditCommand } from "./plugin/inline-edit";
+import { registerInlineDiffCommands } from "./plugin/inline-diff-commands";
+import { registerParagraphLocks } from "./plugin/paragraph-locks";
+import { registerVaultMcpServer } from "./plugin/vault-mcp";
+import { registerChatCodeBlock } from "./plugin/chat-code-block";
+import { registerTranscriptImport } from "./plugin/chat-transcript";
+import { registerAcpInspector } from "./plugin/acp-inspector";
+import type { VaultMcpServer } from "./adapters/mcp/vault-mcp-server";
 import type { ChatContextReference } from "./shared/chat-context-token";
 import type { IMentionService } from "./shared/mention-utils";
 import { resolveShellEnvironment } from "./shared/shell-utils";
@@ -55,6 +69,7 @@ import {
 	openNewChatViewWithAgent,
 } from "./plugin/view-actions";
 import { InlineDiffManager } from "./adapters/obsidian/inline-diff-manager";
+import { ParagraphLockManager } from "./adapters/obsidian/paragraph-lock-manager";
 
 export type { AgentEnvVar, AgentSecretBinding, CustomAgentSettings };
 
@@ -95,7 +110,17 @@ export interface AgentClientPluginSettings {
 	defaultAgentId: string;
 	/** Global environment-variable to keychain binding */
 	secretBindings: AgentSecretBinding[];
+	/** MCP servers sent to every agent (filtered by its capabilities) */
+	mcpServers?: McpServerSettings[];
+	/** Offer agents the built-in vault MCP server */
+	vaultMcpServerEnabled?: boolean;
 	terminalPermissionMode: TerminalPermissionMode;
+	/** Per-command allow/ask/deny rules that take precedence over the mode */
+	terminalCommandRules?: TerminalCommandRule[];
+	/** Files every agent may touch; agents can narrow it further */
+	pathScope?: PathScope;
+	/** Remembered "Always allow" / "Always reject" permission decisions */
+	permissionGrants?: PermissionGrant[];
 	autoMentionActiveNote: boolean;
 	debugMode: boolean;
 	nodePath: string;
@@ -114,6 +139,8 @@ export interface AgentClientPluginSettings {
 		maxSelectionLength: number;
 		fontSize: number | null;
 		completionSound: boolean;
+		/** Tabs a chat view can hold */
+		maxTabs: number;
 	};
 	// Locally saved session metadata (for agents without session/list support)
 	savedSessions: SavedSessionInfo[];
@@ -135,6 +162,12 @@ export interface AgentClientPluginSettings {
 	modeModelDefaults?: Record<string, Record<string, string>>;
 	// Auto-remembered last model per mode per agent (agentId → modeId → modelId)
 	lastModeModels?: Record<string, Record<string, string>>;
+	// Sign-in method last used per agent (agentId → auth method id)
+	preferredAuthMethods?: Record<string, string>;
+	// Passages locked against agent edits (vault path → locks)
+	paragraphLocks?: ParagraphLockMap;
+	// Prompt templates for the "AI edit selection" command
+	inlineEditTemplates?: InlineEditTemplate[];
 }
 
 export interface ChatSessionDependencies {
@@ -156,8 +189,11 @@ export default class AgentClientPlugin extends Plugin {
 	/** Registry for all chat view containers */
 	viewRegistry = new ChatViewRegistry();
 
+	/** JSON-RPC traffic of all agent connections, shown in the ACP inspector */
+	acpTrace = new AcpTraceRecorder();
+
 	/** Shared ACP runtimes — one process/connection per agent, reused across tabs */
-	runtimeManager = new AgentRuntimeManager();
+	runtimeManager = new AgentRuntimeManager(this.acpTrace);
 
 	/** Map of sessionKey (tab ID) to AcpAdapter — each tab owns one ACP session */
 	private _sessionAdapters: Map<string, AcpAdapter> = new Map();
@@ -165,6 +201,12 @@ export default class AgentClientPlugin extends Plugin {
 	/** Manages inline word-level diff decorations in Obsidian editor leaves */
 	inlineDiffManager!: InlineDiffManager;
 
+	/** Passages locked against agent edits, per note */
+	paragraphLocks!: ParagraphLockManager;
+
+	/** Built-in MCP server exposing vault tools; null until registered */
+	vaultMcpServer: VaultMcpServer | null = null;
+
 	async onload() {
 		await this.loadSettings();
 		void resolveShellEnvironment();
@@ -193,6 +235,11 @@ export default class AgentClientPlugin extends Plugin {
 		this.settingsStore = createSettingsStore(this.settings, this);
 
 		this.inlineDiffManager = new InlineDiffManager(this.app);
+		this.paragraphLocks = new ParagraphLockManager(this.app, {
+			load: () => this.settings.paragraphLocks ?? {},
+			save: (paragraphLocks) =>
+				this.settingsStore.updateSettings({ paragraphLocks }),
+		});
 
 		this.registerView(VIEW_TYPE_CHAT, (leaf) => new ChatView(leaf, this));
 
@@ -243,6 +290,12 @@ export default class AgentClientPlugin extends Plugin {
 		this.registerPermissionCommands();
 		registerEditorContextMenus(this);
 		registerInlineEditCommand(this);
+		registerInlineDiffCommands(this);
+		registerParagraphLocks(this);
+		registerVaultMcpServer(this);
+		registerChatCodeBlock(this);
+		registerTranscriptImport(this);
+		registerAcpInspector(this);
 
 		this.addSettingTab(new AgentClientSettingTab(this.app, this));
 
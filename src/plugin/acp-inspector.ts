@@ -0,0 +1,33 @@
+import {
+	AcpInspectorView,
+	VIEW_TYPE_ACP_INSPECTOR,
+} from "../components/trace/AcpInspectorView";
+import type AgentClientPlugin from "../plugin";
+
+async function openAcpInspector(plugin: AgentClientPlugin): Promise<void> {
+	const { workspace } = plugin.app;
+	const leaf =
+		workspace.getLeavesOfType(VIEW_TYPE_ACP_INSPECTOR)[0] ??
+		workspace.getLeaf("tab");
+	await leaf.setViewState({ type: VIEW_TYPE_ACP_INSPECTOR, active: true });
+	await workspace.revealLeaf(leaf);
+}
+
+/**
+ * Inspector for the JSON-RPC traffic with agents. Messages are recorded
+ * from plugin start, so the view shows what happened before it was opened.
+ */
+export function registerAcpInspector(plugin: AgentClientPlugin): void {
+	plugin.registerView(
+		VIEW_TYPE_ACP_INSPECTOR,
+		(leaf) => new AcpInspectorView(leaf, plugin),
+	);
+
+	plugin.addCommand({
+		id: "open-acp-inspector",
+		name: "Open ACP inspector", // eslint-disable-line obsidianmd/ui/sentence-case
+		callback: () => {
+			void openAcpInspector(plugin);
+		},
+	});
+}
@@ -153,4 +153,15 @@ export const registerPermissionCommands = (host: AgentOpsHost): void => {
 			);
 		},
 	});
+
+	host.addCommand({
+		id: "export-chat-to-note",
+		name: "Export chat to note",
+		callback: () => {
+			host.app.workspace.trigger(
+				"obsius:export-chat" as "quit",
+				host.lastActiveChatViewId,
+			);
+		},
+	});
 };
@@ -49,7 +49,8 @@ function getAgentSettingsById(
 	);
 }
 
-function buildAgentConfigForCatalog(
+/** Launch config for an agent, with keychain secrets resolved */
+export function buildPluginAgentConfig(
 	plugin: AgentClientPlugin,
 	agentId: string,
 ): AgentConfig | null {
@@ -131,7 +132,7 @@ export async function refreshAgentCatalogForPlugin(
 	}
 
 	const task = (async (): Promise<boolean> => {
-		const config = buildAgentConfigForCatalog(plugin, agentId);
+		const config = buildPluginAgentConfig(plugin, agentId);
 		if (!config) {
 			return false;
 		}
@@ -0,0 +1,21 @@
+import type AgentClientPlugin from "../plugin";
+import { CodeBlockChatView } from "../components/chat/CodeBlockChatView";
+import {
+	CHAT_CODE_BLOCK_LANGUAGE,
+	parseChatCodeBlock,
+} from "../shared/chat-code-block";
+
+/**
+ * Mount a chat view for every `obsius` code block. Each block registers
+ * with the view registry like a sidebar view while it is rendered.
+ */
+export function registerChatCodeBlock(plugin: AgentClientPlugin): void {
+	plugin.registerMarkdownCodeBlockProcessor(
+		CHAT_CODE_BLOCK_LANGUAGE,
+		(source, el, ctx) => {
+			ctx.addChild(
+				new CodeBlockChatView(el, plugin, parseChatCodeBlock(source), ctx),
+			);
+		},
+	);
+}
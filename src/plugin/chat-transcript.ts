@@ -0,0 +1,57 @@
+import { TFile, type TAbstractFile } from "obsidian";
+import type AgentClientPlugin from "../plugin";
+
+/** Exported chats carry the agent in their frontmatter */
+function isChatTranscript(
+	plugin: AgentClientPlugin,
+	file: TAbstractFile | null,
+): file is TFile {
+	if (!(file instanceof TFile) || file.extension !== "md") return false;
+	const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+	return typeof frontmatter?.agent_id === "string";
+}
+
+async function importTranscript(
+	plugin: AgentClientPlugin,
+	file: TFile,
+): Promise<void> {
+	await plugin.activateView();
+	plugin.app.workspace.trigger(
+		"obsius:import-transcript" as "quit",
+		plugin.lastActiveChatViewId,
+		file.path,
+	);
+}
+
+/**
+ * Continue an exported chat note in the current chat view, from the
+ * command palette or the note's file menu.
+ */
+export function registerTranscriptImport(plugin: AgentClientPlugin): void {
+	plugin.addCommand({
+		id: "import-chat-transcript",
+		name: "Continue chat from current note",
+		checkCallback: (checking) => {
+			const file = plugin.app.workspace.getActiveFile();
+			if (!isChatTranscript(plugin, file)) return false;
+			if (!checking) {
+				void importTranscript(plugin, file);
+			}
+			return true;
+		},
+	});
+
+	plugin.registerEvent(
+		plugin.app.workspace.on("file-menu", (menu, file) => {
+			if (!isChatTranscript(plugin, file)) return;
+			menu.addItem((item) =>
+				item
+					.setTitle("Continue chat from this note")
+					.setIcon("messages-square")
+					.onClick(() => {
+						void importTranscript(plugin, file);
+					}),
+			);
+		}),
+	);
+}
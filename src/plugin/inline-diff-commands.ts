@@ -0,0 +1,41 @@
+import type { EditorView } from "@codemirror/view";
+import type { Editor } from "obsidian";
+import type AgentClientPlugin from "../plugin";
+
+function getEditorView(editor: Editor): EditorView | null {
+	return (editor as unknown as { cm?: EditorView }).cm ?? null;
+}
+
+/**
+ * Keyboard-bindable commands for the per-hunk inline diff controls.
+ * Each acts on the hunk under the cursor, or the next one below it.
+ */
+export function registerInlineDiffCommands(plugin: AgentClientPlugin): void {
+	const register = (id: string, name: string, action: "accept" | "reject") => {
+		plugin.addCommand({
+			id,
+			name,
+			editorCheckCallback: (checking, editor) => {
+				const cm = getEditorView(editor);
+				if (!cm || !plugin.inlineDiffManager.hasPendingHunks(cm)) {
+					return false;
+				}
+				if (!checking) {
+					plugin.inlineDiffManager.resolveHunkAtCursor(cm, action);
+				}
+				return true;
+			},
+		});
+	};
+
+	register(
+		"accept-inline-diff-hunk",
+		"Accept inline change at cursor",
+		"accept",
+	);
+	register(
+		"reject-inline-diff-hunk",
+		"Reject inline change at cursor",
+		"reject",
+	);
+}
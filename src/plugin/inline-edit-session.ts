@@ -0,0 +1,91 @@
+import { AcpAdapter } from "../adapters/acp/acp.adapter";
+import type { SessionUpdate } from "../domain/models/session-update";
+import type AgentClientPlugin from "../plugin";
+import { buildPluginAgentConfig } from "./catalog";
+
+/**
+ * A hidden agent session for one inline edit. It never shows up in a chat
+ * view; streamed text is reported through `onText`, and any tool
+ * permission request is rejected so the agent answers in text only.
+ * Note writes and commands are refused outright, and remembered
+ * permission decisions are neither used nor saved here.
+ */
+export class InlineEditSession {
+	private adapter: AcpAdapter;
+	private sessionId: string | null = null;
+	private text = "";
+	private cancelled = false;
+	private workingDirectory: string | null = null;
+
+	constructor(
+		private plugin: AgentClientPlugin,
+		private agentId: string,
+		private onText: (text: string) => void,
+	) {
+		this.adapter = new AcpAdapter(plugin);
+		this.adapter.rememberPermissionDecisions = false;
+		this.adapter.allowWritesAndCommands = false;
+		this.adapter.onSessionUpdate((update) => this.handleUpdate(update));
+	}
+
+	/**
+	 * Run one prompt in a fresh session and resolve with the full answer.
+	 * Resolves with the partial answer when cancelled.
+	 */
+	async run(prompt: string): Promise<string> {
+		this.text = "";
+		this.cancelled = false;
+		this.sessionId = null;
+
+		if (this.workingDirectory === null) {
+			const config = buildPluginAgentConfig(this.plugin, this.agentId);
+			if (!config) {
+				throw new Error(`Agent not found: ${this.agentId}`);
+			}
+			await this.adapter.initialize(config);
+			this.workingDirectory = config.workingDirectory;
+		}
+
+		const { sessionId } = await this.adapter.newSession(this.workingDirectory);
+		if (this.cancelled) return this.text;
+		this.sessionId = sessionId;
+
+		await this.adapter.sendPrompt(sessionId, [{ type: "text", text: prompt }]);
+		return this.text;
+	}
+
+	async cancel(): Promise<void> {
+		this.cancelled = true;
+		if (this.sessionId) {
+			await this.adapter.cancel(this.sessionId);
+		}
+	}
+
+	async dispose(): Promise<void> {
+		this.cancelled = true;
+		await this.adapter.disconnect();
+	}
+
+	private handleUpdate(update: SessionUpdate): void {
+		if (update.sessionId !== this.sessionId) return;
+
+		if (update.type === "agent_message_chunk") {
+			this.text += update.text;
+			this.onText(this.text);
+			return;
+		}
+
+		if (
+			(update.type === "tool_call" || update.type === "tool_call_update") &&
+			update.permissionRequest?.isActive
+		) {
+			const { requestId, options } = update.permissionRequest;
+			const reject =
+				options.find((option) => option.kind === "reject_once") ??
+				options.find((option) => option.kind === "reject_always");
+			if (reject) {
+				void this.adapter.respondToPermission(requestId, reject.optionId);
+			}
+		}
+	}
+}
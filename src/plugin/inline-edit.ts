@@ -1,12 +1,39 @@
-import { Modal, type App, Notice } from "obsidian";
+import type { EditorView } from "@codemirror/view";
+import { Modal, type App, type Editor, Notice, type TFile } from "obsidian";
+import {
+	clearInlineEdit,
+	getInlineEdit,
+	type InlineEditActionHandler,
+	inlineEditExtension,
+	startInlineEdit,
+	updateInlineEdit,
+} from "../adapters/obsidian/inline-edit-extension";
+import type { InlineEditTemplate } from "../domain/models/inline-edit-template";
 import type AgentClientPlugin from "../plugin";
+import {
+	detectInlineEditMode,
+	extractInlineEditOutput,
+	formatFrontmatter,
+	getInlineEditTemplates,
+	getSurroundingParagraphs,
+	type InlineEditTemplateValues,
+	renderInlineEditTemplate,
+} from "../shared/inline-edit-prompt";
+import { InlineEditSession } from "./inline-edit-session";
 
 class InlineEditPromptModal extends Modal {
+	private template: InlineEditTemplate;
+
 	constructor(
 		app: App,
-		private onSubmit: (instruction: string) => void,
+		private templates: InlineEditTemplate[],
+		private onSubmit: (
+			instruction: string,
+			template: InlineEditTemplate,
+		) => void,
 	) {
 		super(app);
+		this.template = templates[0];
 	}
 
 	onOpen() {
@@ -15,6 +42,19 @@ class InlineEditPromptModal extends Modal {
 
 		contentEl.createEl("h3", { text: "AI edit instruction" });
 
+		if (this.templates.length > 1) {
+			const select = contentEl.createEl("select", {
+				cls: "dropdown obsius-inline-edit-template",
+			});
+			for (const template of this.templates) {
+				select.createEl("option", { text: template.name, value: template.id });
+			}
+			select.addEventListener("change", () => {
+				this.template =
+					this.templates.find((t) => t.id === select.value) ?? this.template;
+			});
+		}
+
 		const input = contentEl.createEl("textarea", {
 			placeholder: "Describe how to edit the selected text...",
 		});
@@ -27,7 +67,7 @@ class InlineEditPromptModal extends Modal {
 				e.preventDefault();
 				const value = input.value.trim();
 				if (value) {
-					this.onSubmit(value);
+					this.onSubmit(value, this.template);
 					this.close();
 				}
 			}
@@ -39,7 +79,7 @@ class InlineEditPromptModal extends Modal {
 		submitBtn.addEventListener("click", () => {
 			const value = input.value.trim();
 			if (value) {
-				this.onSubmit(value);
+				this.onSubmit(value, this.template);
 				this.close();
 			}
 		});
@@ -50,80 +90,202 @@ class InlineEditPromptModal extends Modal {
 	}
 }
 
+interface ActiveInlineEdit {
+	view: EditorView;
+	prompt: string;
+	original: string;
+	session: InlineEditSession;
+}
+
+function getEditorView(editor: Editor): EditorView | null {
+	return (editor as unknown as { cm?: EditorView }).cm ?? null;
+}
+
+/** Template values for the current selection, except the instruction */
+function collectTemplateValues(
+	plugin: AgentClientPlugin,
+	view: EditorView,
+	file: TFile | null,
+): Omit<InlineEditTemplateValues, "instruction"> & {
+	rawFrontmatter: Record<string, unknown> | null;
+} {
+	const { from, to } = view.state.selection.main;
+	const content = view.state.doc.toString();
+	const rawFrontmatter =
+		(file && plugin.app.metadataCache.getFileCache(file)?.frontmatter) ?? null;
+	return {
+		selection: content.slice(from, to),
+		...getSurroundingParagraphs(content, from, to),
+		title: file?.basename ?? "Untitled",
+		frontmatter: formatFrontmatter(rawFrontmatter),
+		rawFrontmatter,
+	};
+}
+
+/**
+ * Inline AI edits: each edit runs in its own hidden agent session and
+ * streams into a widget below the selection, where it can be accepted,
+ * rejected, retried or stopped. No chat view is involved.
+ */
 export function registerInlineEditCommand(plugin: AgentClientPlugin): void {
+	const active = new Map<string, ActiveInlineEdit>();
+
+	const finish = (id: string) => {
+		const entry = active.get(id);
+		if (!entry) return;
+		active.delete(id);
+		void entry.session.dispose();
+	};
+
+	const isCurrent = (view: EditorView, id: string) =>
+		active.has(id) && getInlineEdit(view.state)?.id === id;
+
+	const run = (id: string) => {
+		const entry = active.get(id);
+		if (!entry) return;
+		const { view, session, prompt, original } = entry;
+		view.dispatch({
+			effects: updateInlineEdit.of({
+				id,
+				proposed: "",
+				status: "streaming",
+				error: undefined,
+			}),
+		});
+		session
+			.run(prompt)
+			.then((text) => {
+				if (!isCurrent(view, id)) return;
+				const status = getInlineEdit(view.state)?.status;
+				view.dispatch({
+					effects: updateInlineEdit.of({
+						id,
+						proposed: extractInlineEditOutput(text, original),
+						status: status === "cancelled" ? "cancelled" : "done",
+					}),
+				});
+			})
+			.catch((error: unknown) => {
+				if (!isCurrent(view, id)) return;
+				view.dispatch({
+					effects: updateInlineEdit.of({
+						id,
+						status: "error",
+						error: error instanceof Error ? error.message : String(error),
+					}),
+				});
+			});
+	};
+
+	const onAction: InlineEditActionHandler = (view, edit, action) => {
+		switch (action) {
+			case "accept":
+				view.dispatch({
+					changes: { from: edit.from, to: edit.to, insert: edit.proposed },
+					effects: clearInlineEdit.of(edit.id),
+				});
+				finish(edit.id);
+				return;
+			case "reject":
+				view.dispatch({ effects: clearInlineEdit.of(edit.id) });
+				finish(edit.id);
+				return;
+			case "retry":
+				run(edit.id);
+				return;
+			case "stop":
+				view.dispatch({
+					effects: updateInlineEdit.of({ id: edit.id, status: "cancelled" }),
+				});
+				void active.get(edit.id)?.session.cancel();
+				return;
+		}
+	};
+
+	const start = (
+		view: EditorView,
+		range: { from: number; to: number },
+		prompt: string,
+	) => {
+		const { from, to } = range;
+		const original = view.state.sliceDoc(from, to);
+
+		const previous = getInlineEdit(view.state);
+		if (previous) finish(previous.id);
+
+		const id = `inline-edit-${Date.now().toString(36)}`;
+		const session = new InlineEditSession(
+			plugin,
+			plugin.settings.defaultAgentId,
+			(text) => {
+				if (!isCurrent(view, id)) return;
+				view.dispatch({
+					effects: updateInlineEdit.of({
+						id,
+						proposed: extractInlineEditOutput(text, original),
+					}),
+				});
+			},
+		);
+		active.set(id, { view, prompt, original, session });
+		view.dispatch({
+			effects: startInlineEdit.of({
+				id,
+				from,
+				to,
+				original,
+				proposed: "",
+				status: "streaming",
+			}),
+		});
+		run(id);
+	};
+
+	plugin.registerEditorExtension(inlineEditExtension(onAction));
+	plugin.register(() => {
+		for (const id of Array.from(active.keys())) finish(id);
+	});
+
 	plugin.addCommand({
 		id: "inline-ai-edit",
 		name: "AI edit selection",
 		editorCallback: (editor, ctx) => {
-			const selection = editor.getSelection();
-			if (!selection.trim()) {
+			const view = getEditorView(editor);
+			if (!view) return;
+			if (!editor.getSelection().trim()) {
 				new Notice("Select text first");
 				return;
 			}
 
-			const filePath = ctx.file?.path ?? "untitled";
-
-			new InlineEditPromptModal(plugin.app, (instruction: string) => {
-				const focused = plugin.viewRegistry.getFocused();
-				if (!focused) {
-					new Notice("No active chat view — open Obsius first");
-					return;
-				}
+			const file = ctx.file ?? null;
+			const range = { ...view.state.selection.main };
+			const { rawFrontmatter, ...values } = collectTemplateValues(
+				plugin,
+				view,
+				file,
+			);
+			const mode = detectInlineEditMode({
+				extension: file?.extension ?? "md",
+				frontmatter: rawFrontmatter,
+				content: view.state.doc.toString(),
+				from: range.from,
+			});
+			const templates = getInlineEditTemplates(
+				plugin.settings.inlineEditTemplates,
+				mode,
+			);
 
-				const prompt = buildInlineEditPrompt(instruction, selection);
-
-				focused.setInputState({ text: prompt, images: [] });
-
-				focused
-					.sendMessage()
-					.then((sent) => {
-						if (!sent) {
-							new Notice("Failed to send to agent");
-							return;
-						}
-
-						new Notice("Waiting for AI response...");
-
-						let attempts = 0;
-						const maxAttempts = 120;
-						const checkInterval = setInterval(() => {
-							attempts++;
-							const result = focused.getLastAssistantText?.();
-							if (result && attempts > 2) {
-								clearInterval(checkInterval);
-								const cleaned = cleanCodeFence(result);
-								editor.replaceSelection(cleaned);
-								new Notice("Edit applied");
-								void plugin.inlineDiffManager.applyDiff(
-									filePath,
-									selection,
-									cleaned,
-									{ mode: "snippet" },
-								);
-							}
-							if (attempts >= maxAttempts) {
-								clearInterval(checkInterval);
-								new Notice("AI edit timed out");
-							}
-						}, 500);
-					})
-					.catch(() => {
-						new Notice("Failed to send to agent");
+			new InlineEditPromptModal(
+				plugin.app,
+				templates,
+				(instruction, template) => {
+					const prompt = renderInlineEditTemplate(template.template, {
+						...values,
+						instruction,
 					});
-			}).open();
+					start(view, { from: range.from, to: range.to }, prompt);
+				},
+			).open();
 		},
 	});
 }
-
-function buildInlineEditPrompt(instruction: string, selection: string): string {
-	return `Edit the following code according to this instruction: "${instruction}"\n\nOriginal:\n\`\`\`\n${selection}\n\`\`\`\n\nReturn ONLY the edited code, no explanation.`;
-}
-
-function cleanCodeFence(text: string): string {
-	let cleaned = text.trim();
-	const fenceMatch = cleaned.match(/^```\w*\n([\s\S]*?)\n```$/);
-	if (fenceMatch) {
-		cleaned = fenceMatch[1];
-	}
-	return cleaned;
-}
@@ -0,0 +1,118 @@
+import { type Editor, type Menu, TFile } from "obsidian";
+import type AgentClientPlugin from "../plugin";
+import { pluginNotice } from "../shared/plugin-notice";
+
+function getSelectionOffsets(editor: Editor): { from: number; to: number } {
+	const anchor = editor.posToOffset(editor.getCursor("from"));
+	const head = editor.posToOffset(editor.getCursor("to"));
+	return { from: Math.min(anchor, head), to: Math.max(anchor, head) };
+}
+
+function lockSelection(
+	plugin: AgentClientPlugin,
+	editor: Editor,
+	filePath: string,
+): void {
+	const { from, to } = getSelectionOffsets(editor);
+	const lock = plugin.paragraphLocks.lockRange(
+		filePath,
+		editor.getValue(),
+		from,
+		to,
+	);
+	if (lock) {
+		pluginNotice("Selection locked — agents may not change it");
+	}
+}
+
+function unlockAtCursor(
+	plugin: AgentClientPlugin,
+	editor: Editor,
+	filePath: string,
+): void {
+	const { from, to } = getSelectionOffsets(editor);
+	const removed = plugin.paragraphLocks.unlockRange(
+		filePath,
+		editor.getValue(),
+		from,
+		to,
+	);
+	pluginNotice(
+		removed > 0
+			? `Removed ${removed} lock${removed === 1 ? "" : "s"}`
+			: "No locked passage here",
+	);
+}
+
+/**
+ * Paragraph locking: commands, editor menu items, editor decorations and
+ * keeping locks attached to notes that are renamed or deleted.
+ */
+export function registerParagraphLocks(plugin: AgentClientPlugin): void {
+	plugin.registerEditorExtension(plugin.paragraphLocks.createEditorExtension());
+
+	plugin.addCommand({
+		id: "lock-selection",
+		name: "Lock selection",
+		editorCheckCallback: (checking, editor, ctx) => {
+			if (!ctx.file || !editor.somethingSelected()) return false;
+			if (!checking) lockSelection(plugin, editor, ctx.file.path);
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "unlock-selection",
+		name: "Unlock passage at cursor",
+		editorCheckCallback: (checking, editor, ctx) => {
+			if (!ctx.file) return false;
+			if (plugin.paragraphLocks.getLocks(ctx.file.path).length === 0) {
+				return false;
+			}
+			if (!checking) unlockAtCursor(plugin, editor, ctx.file.path);
+			return true;
+		},
+	});
+
+	const workspace = plugin.app.workspace;
+	plugin.registerEvent(
+		workspace.on("editor-menu", (menu: Menu, editor: Editor, info) => {
+			const file = info.file;
+			if (!(file instanceof TFile)) return;
+
+			if (editor.somethingSelected()) {
+				menu.addItem((item) =>
+					item
+						.setTitle("Lock selection")
+						.setIcon("lock")
+						.onClick(() => lockSelection(plugin, editor, file.path)),
+				);
+			}
+			if (plugin.paragraphLocks.getLocks(file.path).length > 0) {
+				menu.addItem((item) =>
+					item
+						.setTitle("Unlock passage")
+						.setIcon("unlock")
+						.onClick(() => unlockAtCursor(plugin, editor, file.path)),
+				);
+			}
+		}),
+	);
+
+	plugin.registerEvent(
+		workspace.on("file-open", (file) => {
+			if (file) plugin.paragraphLocks.refreshEditors(file.path);
+		}),
+	);
+	plugin.registerEvent(
+		plugin.app.vault.on("rename", (file, oldPath) => {
+			plugin.paragraphLocks.renamePath(oldPath, file.path);
+		}),
+	);
+	plugin.registerEvent(
+		plugin.app.vault.on("delete", (file) => {
+			plugin.paragraphLocks.deletePath(file.path);
+		}),
+	);
+	workspace.onLayoutReady(() => plugin.paragraphLocks.refreshEditors());
+}
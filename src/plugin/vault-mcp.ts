@@ -0,0 +1,53 @@
+import type AgentClientPlugin from "../plugin";
+import {
+	callVaultMcpTool,
+	listVaultMcpTools,
+} from "../adapters/mcp/vault-mcp-tools";
+import { VaultMcpServer } from "../adapters/mcp/vault-mcp-server";
+import { ObsidianVaultMcpBackend } from "../adapters/obsidian/vault-mcp-backend";
+import { getLogger } from "../shared/logger";
+
+/**
+ * Built-in vault MCP server: started once the workspace (and metadata
+ * cache) is ready, and started or stopped when the setting is toggled.
+ */
+export function registerVaultMcpServer(plugin: AgentClientPlugin): void {
+	const logger = getLogger();
+	let backend: ObsidianVaultMcpBackend | null = null;
+
+	const server = new VaultMcpServer(
+		{
+			serverInfo: { name: "obsius-vault", version: plugin.manifest.version },
+			listTools: listVaultMcpTools,
+			callTool: (name, args) => {
+				backend ??= new ObsidianVaultMcpBackend(plugin);
+				return callVaultMcpTool(backend, name, args);
+			},
+		},
+		logger,
+	);
+	plugin.vaultMcpServer = server;
+
+	const stop = () => {
+		void server.stop();
+		backend?.destroy();
+		backend = null;
+	};
+
+	const sync = () => {
+		const enabled = plugin.settings.vaultMcpServerEnabled !== false;
+		if (enabled && !server.isRunning) {
+			server.start().catch((error: unknown) => {
+				logger.error("[VaultMcpServer] Failed to start:", error);
+			});
+		} else if (!enabled && server.isRunning) {
+			stop();
+		}
+	};
+
+	plugin.app.workspace.onLayoutReady(() => {
+		sync();
+		plugin.register(plugin.settingsStore.subscribe(sync));
+	});
+	plugin.register(stop);
+}
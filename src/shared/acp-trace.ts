@@ -0,0 +1,138 @@
+import type { AcpTraceEntry, AcpTraceFilter } from "../domain/models/acp-trace";
+
+/** Paths replaced by placeholders in exported traces */
+export interface AcpTraceRedaction {
+	vaultPath: string;
+	homeDir?: string;
+}
+
+const REDACTED = "[redacted]";
+
+/** Keys whose string values are credentials */
+const SECRET_KEY_PATTERN =
+	/token|secret|password|passwd|api[-_]?key|authorization|cookie|credential/i;
+
+/** Keys holding `{ name, value }` pairs that often carry credentials */
+const NAME_VALUE_LIST_KEYS = new Set(["env", "headers"]);
+
+/** Content blocks whose `data` is binary */
+const BINARY_CONTENT_TYPES = new Set(["image", "audio"]);
+
+export function filterTraceEntries(
+	entries: readonly AcpTraceEntry[],
+	filter: AcpTraceFilter,
+): AcpTraceEntry[] {
+	return entries.filter(
+		(entry) =>
+			(!filter.sessionId || entry.sessionId === filter.sessionId) &&
+			(!filter.method || entry.method === filter.method),
+	);
+}
+
+/** Distinct values of a field, sorted for the inspector's filters */
+export function listTraceValues(
+	entries: readonly AcpTraceEntry[],
+	field: "sessionId" | "method",
+): string[] {
+	const values = new Set<string>();
+	for (const entry of entries) {
+		const value = entry[field];
+		if (value) values.add(value);
+	}
+	return [...values].sort();
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function redactString(text: string, redaction: AcpTraceRedaction): string {
+	let result = text;
+	// The vault usually sits inside the home directory, so it goes first
+	const replacements: [string | undefined, string][] = [
+		[redaction.vaultPath, "<vault>"],
+		[redaction.homeDir, "~"],
+	];
+	for (const [path, placeholder] of replacements) {
+		const trimmed = path?.replace(/[\\/]+$/, "");
+		if (!trimmed) continue;
+		result = result.replace(
+			new RegExp(escapeRegExp(trimmed), "g"),
+			placeholder,
+		);
+	}
+	return result;
+}
+
+function redactNameValueList(value: unknown): unknown {
+	if (!Array.isArray(value)) return value;
+	return value.map((item: unknown) =>
+		typeof item === "object" && item !== null && "value" in item
+			? { ...item, value: REDACTED }
+			: item,
+	);
+}
+
+/**
+ * Copy of a payload that is safe to attach to a bug report: credentials,
+ * environment and header values, binary content and local paths are
+ * replaced.
+ */
+export function redactTracePayload(
+	value: unknown,
+	redaction: AcpTraceRedaction,
+): unknown {
+	if (typeof value === "string") {
+		return redactString(value, redaction);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => redactTracePayload(item, redaction));
+	}
+	if (typeof value !== "object" || value === null) {
+		return value;
+	}
+
+	const record = value as Record<string, unknown>;
+	const isBinary =
+		typeof record.type === "string" && BINARY_CONTENT_TYPES.has(record.type);
+	const result: Record<string, unknown> = {};
+	for (const [key, item] of Object.entries(record)) {
+		if (typeof item === "string" && SECRET_KEY_PATTERN.test(key)) {
+			result[key] = REDACTED;
+		} else if (NAME_VALUE_LIST_KEYS.has(key)) {
+			result[key] = redactNameValueList(item);
+		} else if (
+			typeof item === "string" &&
+			((isBinary && key === "data") || key === "blob")
+		) {
+			result[key] = `[${item.length} characters omitted]`;
+		} else {
+			result[key] = redactTracePayload(item, redaction);
+		}
+	}
+	return result;
+}
+
+/** One redacted entry per line, ready to attach to a bug report */
+export function formatTraceJsonl(
+	entries: readonly AcpTraceEntry[],
+	redaction: AcpTraceRedaction,
+): string {
+	return entries
+		.map((entry) =>
+			JSON.stringify({
+				...entry,
+				timestamp: new Date(entry.timestamp).toISOString(),
+				payload: redactTracePayload(entry.payload, redaction),
+			}),
+		)
+		.map((line) => `${line}\n`)
+		.join("");
+}
+
+export function buildTraceExportFileName(exportedAt: Date): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	const date = `${exportedAt.getFullYear()}-${pad(exportedAt.getMonth() + 1)}-${pad(exportedAt.getDate())}`;
+	const time = `${pad(exportedAt.getHours())}${pad(exportedAt.getMinutes())}${pad(exportedAt.getSeconds())}`;
+	return `acp-trace-${date}-${time}.jsonl`;
+}
@@ -0,0 +1,204 @@
+/**
+ * Minimal ANSI escape handling for terminal output: SGR colors and text
+ * attributes are turned into styled segments, other escape sequences are
+ * dropped.
+ */
+
+/** A named palette color ("red", "bright-blue") or a "#rrggbb" hex color */
+export type AnsiColor = string;
+
+export interface AnsiStyle {
+	fg?: AnsiColor;
+	bg?: AnsiColor;
+	bold?: boolean;
+	dim?: boolean;
+	italic?: boolean;
+	underline?: boolean;
+	inverse?: boolean;
+}
+
+export interface AnsiSegment {
+	text: string;
+	style: AnsiStyle;
+}
+
+const ESC = "\u001b";
+const BEL = "\u0007";
+
+const PALETTE = [
+	"black",
+	"red",
+	"green",
+	"yellow",
+	"blue",
+	"magenta",
+	"cyan",
+	"white",
+];
+
+function paletteColor(index: number): AnsiColor {
+	return index < 8 ? PALETTE[index] : `bright-${PALETTE[index - 8]}`;
+}
+
+function toHex(r: number, g: number, b: number): AnsiColor {
+	return `#${[r, g, b]
+		.map((value) =>
+			Math.max(0, Math.min(255, value)).toString(16).padStart(2, "0"),
+		)
+		.join("")}`;
+}
+
+/** Color of the xterm 256-color table */
+function extendedColor(index: number): AnsiColor | undefined {
+	if (!Number.isInteger(index) || index < 0 || index > 255) return undefined;
+	if (index < 16) return paletteColor(index);
+	if (index < 232) {
+		const cube = index - 16;
+		const level = (value: number) => (value === 0 ? 0 : 55 + value * 40);
+		return toHex(
+			level(Math.floor(cube / 36)),
+			level(Math.floor(cube / 6) % 6),
+			level(cube % 6),
+		);
+	}
+	const gray = 8 + (index - 232) * 10;
+	return toHex(gray, gray, gray);
+}
+
+/**
+ * Apply an SGR parameter list to a style.
+ * Returns a new style object; the input is not modified.
+ */
+function applySgr(style: AnsiStyle, params: number[]): AnsiStyle {
+	let next: AnsiStyle = { ...style };
+	const codes = params.length === 0 ? [0] : params;
+	for (let i = 0; i < codes.length; i++) {
+		const code = codes[i];
+		if (code === 0) next = {};
+		else if (code === 1) next.bold = true;
+		else if (code === 2) next.dim = true;
+		else if (code === 3) next.italic = true;
+		else if (code === 4) next.underline = true;
+		else if (code === 7) next.inverse = true;
+		else if (code === 22) next.bold = next.dim = undefined;
+		else if (code === 23) next.italic = undefined;
+		else if (code === 24) next.underline = undefined;
+		else if (code === 27) next.inverse = undefined;
+		else if (code >= 30 && code <= 37) next.fg = paletteColor(code - 30);
+		else if (code === 39) next.fg = undefined;
+		else if (code >= 40 && code <= 47) next.bg = paletteColor(code - 40);
+		else if (code === 49) next.bg = undefined;
+		else if (code >= 90 && code <= 97) next.fg = paletteColor(code - 90 + 8);
+		else if (code >= 100 && code <= 107) {
+			next.bg = paletteColor(code - 100 + 8);
+		} else if (code === 38 || code === 48) {
+			const key = code === 38 ? "fg" : "bg";
+			if (codes[i + 1] === 5) {
+				next[key] = extendedColor(codes[i + 2]);
+				i += 2;
+			} else if (codes[i + 1] === 2) {
+				next[key] = toHex(codes[i + 2], codes[i + 3], codes[i + 4]);
+				i += 4;
+			}
+		}
+	}
+	return next;
+}
+
+function isSameStyle(a: AnsiStyle, b: AnsiStyle): boolean {
+	return (
+		a.fg === b.fg &&
+		a.bg === b.bg &&
+		!a.bold === !b.bold &&
+		!a.dim === !b.dim &&
+		!a.italic === !b.italic &&
+		!a.underline === !b.underline &&
+		!a.inverse === !b.inverse
+	);
+}
+
+/**
+ * Keep only the text after the last carriage return of each line, so
+ * progress bars that redraw a line show their final state.
+ */
+export function applyCarriageReturns(text: string): string {
+	if (!text.includes("\r")) return text;
+	return text
+		.split("\n")
+		.map((line) => {
+			const trimmed = line.replace(/\r+$/, "");
+			return trimmed.slice(trimmed.lastIndexOf("\r") + 1);
+		})
+		.join("\n");
+}
+
+/** Split text into segments of equal style, dropping escape sequences */
+export function parseAnsi(text: string): AnsiSegment[] {
+	const segments: AnsiSegment[] = [];
+	let style: AnsiStyle = {};
+	let buffer = "";
+
+	const flush = () => {
+		if (buffer.length === 0) return;
+		const last = segments[segments.length - 1];
+		if (last && isSameStyle(last.style, style)) {
+			last.text += buffer;
+		} else {
+			segments.push({ text: buffer, style });
+		}
+		buffer = "";
+	};
+
+	let i = 0;
+	while (i < text.length) {
+		const char = text[i];
+		if (char !== ESC) {
+			buffer += char;
+			i++;
+			continue;
+		}
+
+		const kind = text[i + 1];
+		if (kind === "[") {
+			// CSI: parameters, then a final byte in @..~
+			let end = i + 2;
+			while (end < text.length) {
+				const code = text.charCodeAt(end);
+				if (code >= 0x40 && code <= 0x7e) break;
+				end++;
+			}
+			if (text[end] === "m") {
+				flush();
+				const params = text
+					.slice(i + 2, end)
+					.split(/[;:]/)
+					.filter((part) => part.length > 0)
+					.map(Number);
+				style = applySgr(style, params);
+			}
+			i = end + 1;
+		} else if (kind === "]") {
+			// OSC: terminated by BEL or ESC \
+			let end = i + 2;
+			while (
+				end < text.length &&
+				text[end] !== BEL &&
+				!(text[end] === ESC && text[end + 1] === "\\")
+			) {
+				end++;
+			}
+			i = text[end] === BEL ? end + 1 : end + 2;
+		} else {
+			i += 2;
+		}
+	}
+	flush();
+	return segments;
+}
+
+/** Text of terminal output without escape sequences */
+export function stripAnsi(text: string): string {
+	return parseAnsi(text)
+		.map((segment) => segment.text)
+		.join("");
+}
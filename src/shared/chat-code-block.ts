@@ -0,0 +1,90 @@
+/** Language of the fenced code block that embeds a chat in a note */
+export const CHAT_CODE_BLOCK_LANGUAGE = "obsius";
+
+/**
+ * Session binding stored in an embedded chat block, one `key: value`
+ * line per field:
+ *
+ * ```obsius
+ * agent: claude-code-acp
+ * model: sonnet
+ * mode: plan
+ * session: 0b6c…
+ * ```
+ */
+export interface ChatCodeBlockConfig {
+	agent?: string;
+	model?: string;
+	mode?: string;
+	session?: string;
+	/** Message to scroll to once `session` is restored; never written to a block */
+	scrollTo?: string;
+}
+
+const CONFIG_KEYS = ["agent", "model", "mode", "session"] as const;
+
+type ConfigKey = (typeof CONFIG_KEYS)[number];
+
+const isConfigKey = (key: string): key is ConfigKey =>
+	(CONFIG_KEYS as readonly string[]).includes(key);
+
+/** Read a block body; unknown keys, blank lines and `#` comments are ignored */
+export function parseChatCodeBlock(source: string): ChatCodeBlockConfig {
+	const config: ChatCodeBlockConfig = {};
+	for (const rawLine of source.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (line.length === 0 || line.startsWith("#")) continue;
+		const separator = line.indexOf(":");
+		if (separator <= 0) continue;
+		const key = line.slice(0, separator).trim().toLowerCase();
+		const value = line.slice(separator + 1).trim();
+		if (isConfigKey(key) && value.length > 0) {
+			config[key] = value;
+		}
+	}
+	return config;
+}
+
+export function serializeChatCodeBlock(config: ChatCodeBlockConfig): string {
+	return CONFIG_KEYS.flatMap((key) =>
+		config[key] ? [`${key}: ${config[key]}`] : [],
+	).join("\n");
+}
+
+export function isSameChatCodeBlockConfig(
+	a: ChatCodeBlockConfig,
+	b: ChatCodeBlockConfig,
+): boolean {
+	return CONFIG_KEYS.every((key) => (a[key] ?? "") === (b[key] ?? ""));
+}
+
+/**
+ * Replace the body of the block whose fences are on `lineStart` and
+ * `lineEnd` (0-based, as reported by Obsidian's section info). Returns
+ * null when those lines no longer hold an embedded chat block.
+ */
+export function replaceChatCodeBlockBody(
+	noteText: string,
+	lineStart: number,
+	lineEnd: number,
+	config: ChatCodeBlockConfig,
+): string | null {
+	const lines = noteText.split("\n");
+	const opening = lines[lineStart]?.trim() ?? "";
+	const closing = lines[lineEnd]?.trim() ?? "";
+	const fence = /^(`{3,}|~{3,})\s*(\S+)/.exec(opening);
+	if (
+		lineEnd <= lineStart ||
+		!fence ||
+		fence[2] !== CHAT_CODE_BLOCK_LANGUAGE ||
+		!closing.startsWith(fence[1])
+	) {
+		return null;
+	}
+	const body = serializeChatCodeBlock(config);
+	return [
+		...lines.slice(0, lineStart + 1),
+		...(body.length > 0 ? body.split("\n") : []),
+		...lines.slice(lineEnd),
+	].join("\n");
+}
@@ -0,0 +1,255 @@
+import * as Diff from "diff";
+import type {
+	ChatMessage,
+	DiffContent,
+	MessageContent,
+	PlanEntry,
+} from "../domain/models/chat-message";
+import { toRelativePath } from "./path-utils";
+import { getToolDisplayName } from "./tool-icons";
+import { getToolSummary } from "./tool-summary";
+
+/** Session details written to the exported note's frontmatter */
+export interface ChatExportMetadata {
+	title: string;
+	agentId: string;
+	agentName: string;
+	modelId?: string | null;
+	modeId?: string | null;
+	sessionId: string | null;
+	createdAt: Date;
+	updatedAt: Date;
+	exportedAt: Date;
+}
+
+/**
+ * Callout metadata (`> [!type|obsius]`) on every block the exporter writes
+ * itself. Only marked callouts are read back as structure, so callouts and
+ * checklists in message text stay text.
+ */
+export const EXPORT_CALLOUT_MARKER = "obsius";
+
+/** Opening of a marked callout, e.g. `[!example|obsius]` */
+function calloutHeader(type: string): string {
+	return `[!${type}|${EXPORT_CALLOUT_MARKER}]`;
+}
+
+type ToolCallMessageContent = Extract<MessageContent, { type: "tool_call" }>;
+
+const PLAN_STATUS_SUFFIX: Record<PlanEntry["status"], string> = {
+	pending: "",
+	in_progress: " *(in progress)*",
+	completed: "",
+};
+
+/** Prefix every line so a block of markdown sits inside a callout */
+function toCalloutBody(markdown: string): string {
+	return markdown
+		.split("\n")
+		.map((line) => (line.length > 0 ? `> ${line}` : ">"))
+		.join("\n");
+}
+
+/** Fence that is longer than any backtick run in the content */
+function fenceFor(content: string): string {
+	const longest = Math.max(
+		2,
+		...(content.match(/`+/g) ?? []).map((run) => run.length),
+	);
+	return "`".repeat(longest + 1);
+}
+
+function fenced(language: string, content: string): string {
+	const fence = fenceFor(content);
+	return `${fence}${language}\n${content.replace(/\n$/, "")}\n${fence}`;
+}
+
+function frontmatterValue(value: string): string {
+	return JSON.stringify(value);
+}
+
+function renderFrontmatter(metadata: ChatExportMetadata): string {
+	const fields: [string, string | null | undefined][] = [
+		["agent", metadata.agentName],
+		["agent_id", metadata.agentId],
+		["model", metadata.modelId],
+		["mode", metadata.modeId],
+		["session_id", metadata.sessionId],
+		["created", metadata.createdAt.toISOString()],
+		["updated", metadata.updatedAt.toISOString()],
+		["exported", metadata.exportedAt.toISOString()],
+	];
+	const lines = fields.flatMap(([key, value]) =>
+		value ? [`${key}: ${frontmatterValue(value)}`] : [],
+	);
+	return ["---", ...lines, "---"].join("\n");
+}
+
+/** Unified diff of one file change as a fenced `diff` block */
+export function renderDiffBlock(diff: DiffContent, vaultPath: string): string {
+	const path = toRelativePath(diff.path, vaultPath);
+	const patch = Diff.structuredPatch(
+		path,
+		path,
+		diff.oldText ?? "",
+		diff.newText,
+		"",
+		"",
+		{ context: 3 },
+	);
+	const lines = [
+		`--- ${diff.oldText == null ? "/dev/null" : `a/${path}`}`,
+		`+++ b/${path}`,
+	];
+	for (const hunk of patch.hunks) {
+		lines.push(
+			`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+			...hunk.lines,
+		);
+	}
+	return fenced("diff", lines.join("\n"));
+}
+
+function renderToolCall(
+	content: ToolCallMessageContent,
+	vaultPath: string,
+): string {
+	const name = getToolDisplayName(content.title, content.kind);
+	const summary = getToolSummary(
+		content.title,
+		content.kind,
+		content.rawInput,
+		content.locations,
+		vaultPath,
+	);
+	const heading = `${calloutHeader("example")}- ${name}${summary ? `: ${summary}` : ""} (${content.status})`;
+
+	const parts: string[] = [];
+	const locations = content.locations ?? [];
+	if (locations.length > 0) {
+		parts.push(
+			locations
+				.map((location) => {
+					const path = toRelativePath(location.path, vaultPath);
+					return `- \`${path}${location.line ? `:${location.line}` : ""}\``;
+				})
+				.join("\n"),
+		);
+	}
+	for (const item of content.content ?? []) {
+		parts.push(
+			item.type === "diff"
+				? renderDiffBlock(item, vaultPath)
+				: `*Terminal \`${item.terminalId}\` output is not included.*`,
+		);
+	}
+	const permission = content.permissionRequest;
+	if (permission?.selectedOptionId) {
+		const option = permission.options.find(
+			(candidate) => candidate.optionId === permission.selectedOptionId,
+		);
+		parts.push(`Permission: ${option?.name ?? permission.selectedOptionId}`);
+	} else if (permission?.isCancelled) {
+		parts.push("Permission: cancelled");
+	}
+
+	const body = parts.join("\n\n");
+	return body.length > 0
+		? `> ${heading}\n${toCalloutBody(body)}`
+		: `> ${heading}`;
+}
+
+function renderPlan(entries: PlanEntry[]): string {
+	const tasks = entries
+		.map(
+			(entry) =>
+				`- [${entry.status === "completed" ? "x" : " "}] ${entry.content}${PLAN_STATUS_SUFFIX[entry.status]}`,
+		)
+		.join("\n");
+	return `> ${calloutHeader("todo")} Plan\n${toCalloutBody(tasks)}`;
+}
+
+/** Markdown for one content block, or null when it has nothing to show */
+export function renderMessageContent(
+	content: MessageContent,
+	vaultPath: string,
+): string | null {
+	switch (content.type) {
+		case "text":
+			return content.text.trim() || null;
+		case "text_with_context": {
+			const context = content.autoMentionContext;
+			const text = content.text.trim();
+			if (!context) return text || null;
+			const lines = context.selection
+				? ` (lines ${context.selection.fromLine}-${context.selection.toLine})`
+				: "";
+			return `${text}\n\n*Context: [[${context.notePath}|${context.noteName}]]${lines}*`;
+		}
+		case "agent_thought":
+			return content.text.trim()
+				? `> ${calloutHeader("quote")}- Thinking\n${toCalloutBody(content.text.trim())}`
+				: null;
+		case "image":
+			return `![image](${content.uri ?? `data:${content.mimeType};base64,${content.data}`})`;
+		case "tool_call":
+			return renderToolCall(content, vaultPath);
+		case "plan":
+			return content.entries.length > 0 ? renderPlan(content.entries) : null;
+		case "permission_request": {
+			const selected = content.options.find(
+				(option) => option.optionId === content.selectedOptionId,
+			);
+			const title = content.toolCall.title ?? "Tool call";
+			return `> ${calloutHeader("question")} Permission: ${title}\n> ${selected?.name ?? (content.isCancelled ? "Cancelled" : "No answer")}`;
+		}
+		case "terminal":
+			return `*Terminal \`${content.terminalId}\` output is not included.*`;
+	}
+}
+
+/** Render a whole conversation as a note with frontmatter */
+export function renderChatExport(
+	messages: ChatMessage[],
+	metadata: ChatExportMetadata,
+	vaultPath: string,
+): string {
+	const sections = [renderFrontmatter(metadata), `# ${metadata.title}`];
+	for (const message of messages) {
+		const blocks = message.content
+			.map((content) => renderMessageContent(content, vaultPath))
+			.filter((block): block is string => block !== null);
+		if (blocks.length === 0) continue;
+		const author = message.role === "user" ? "User" : metadata.agentName;
+		sections.push(`## ${author}`, ...blocks);
+	}
+	return `${sections.join("\n\n")}\n`;
+}
+
+/** Title from the first user message, used when the session has none */
+export function deriveChatExportTitle(messages: ChatMessage[]): string {
+	for (const message of messages) {
+		if (message.role !== "user") continue;
+		for (const content of message.content) {
+			if (content.type === "text" || content.type === "text_with_context") {
+				const line = content.text.trim().split("\n")[0] ?? "";
+				if (line.length > 0) {
+					return line.length > 60 ? `${line.slice(0, 60).trimEnd()}…` : line;
+				}
+			}
+		}
+	}
+	return "Chat";
+}
+
+/** File name (without folder) for an exported chat */
+export function buildChatExportFileName(title: string, date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, "0");
+	const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}${pad(date.getMinutes())}`;
+	const safeTitle = title
+		.replace(/[\\/:*?"<>|#^[\]]/g, " ")
+		.replace(/\s+/g, " ")
+		.trim()
+		.slice(0, 80);
+	return `${stamp} ${safeTitle || "Chat"}.md`;
+}
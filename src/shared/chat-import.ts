@@ -0,0 +1,339 @@
+import type {
+	ChatMessage,
+	MessageContent,
+	PlanEntry,
+	ToolCallStatus,
+} from "../domain/models/chat-message";
+import { EXPORT_CALLOUT_MARKER } from "./chat-export";
+
+/** Frontmatter fields of an exported chat (see chat-export.ts) */
+export interface ChatTranscriptMetadata {
+	title: string;
+	agentId?: string;
+	agentName?: string;
+	sessionId?: string;
+	createdAt?: string;
+}
+
+export interface ChatTranscript {
+	metadata: ChatTranscriptMetadata;
+	messages: ChatMessage[];
+}
+
+const TOOL_STATUSES = new Set<ToolCallStatus>([
+	"pending",
+	"in_progress",
+	"completed",
+	"failed",
+]);
+
+const FENCE_PATTERN = /^(`{3,}|~{3,})(.*)$/;
+const TASK_PATTERN = /^- \[( |x|X)\] (.*?)( \*\(in progress\)\*)?$/;
+const IMAGE_PATTERN = /^!\[[^\]]*\]\((data:([^;]+);base64,([^)]+)|[^)]+)\)$/;
+const OMITTED_OUTPUT_PATTERN =
+	/^\*Terminal `[^`]+` output is not included\.\*$/;
+
+/** Default budget for the replay sent to the agent, in characters */
+const DEFAULT_REPLAY_CHARS = 12000;
+
+function parseFrontmatter(lines: string[]): {
+	fields: Record<string, string>;
+	bodyStart: number;
+} {
+	const fields: Record<string, string> = {};
+	if (lines[0]?.trim() !== "---") {
+		return { fields, bodyStart: 0 };
+	}
+	const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+	if (end < 0) {
+		return { fields, bodyStart: 0 };
+	}
+	for (const line of lines.slice(1, end)) {
+		const match = /^([\w-]+):\s*(.*)$/.exec(line);
+		if (!match) continue;
+		const raw = match[2].trim();
+		try {
+			const value: unknown = JSON.parse(raw);
+			fields[match[1]] = typeof value === "string" ? value : raw;
+		} catch {
+			fields[match[1]] = raw.replace(/^'(.*)'$/, "$1");
+		}
+	}
+	return { fields, bodyStart: end + 1 };
+}
+
+function stripCalloutPrefix(line: string): string {
+	return line.replace(/^> ?/, "");
+}
+
+/** Fenced `diff` blocks in a callout body, joined into one patch */
+function extractPatches(body: string[]): string {
+	const patches: string[] = [];
+	let fence: string | null = null;
+	let current: string[] = [];
+	for (const line of body) {
+		if (fence === null) {
+			const match = FENCE_PATTERN.exec(line);
+			if (match && match[2].trim() === "diff") {
+				fence = match[1];
+				current = [];
+			}
+		} else if (line.startsWith(fence) && line.trim() === fence) {
+			patches.push(current.join("\n"));
+			fence = null;
+		} else {
+			current.push(line);
+		}
+	}
+	return patches.join("\n");
+}
+
+/** Blocks the exporter wrote; any other quote or callout is message text */
+function parseCallout(lines: string[], index: number): MessageContent | null {
+	const header = /^\[!(\w+)\|([^\]]*)\][+-]?\s*(.*)$/.exec(
+		stripCalloutPrefix(lines[0]),
+	);
+	if (!header || header[2] !== EXPORT_CALLOUT_MARKER) {
+		return {
+			type: "text",
+			text: lines.join("\n"),
+		};
+	}
+	const [, calloutType, , title] = header;
+	const body = lines.slice(1).map(stripCalloutPrefix);
+
+	if (calloutType === "quote" && title === "Thinking") {
+		return { type: "agent_thought", text: body.join("\n") };
+	}
+	if (calloutType === "example") {
+		const statusMatch = /^(.*) \((\w+)\)$/.exec(title);
+		const status =
+			statusMatch && TOOL_STATUSES.has(statusMatch[2] as ToolCallStatus)
+				? (statusMatch[2] as ToolCallStatus)
+				: "completed";
+		const patch = extractPatches(body);
+		// File paths are kept out of locations and diff content so imported
+		// tool calls never count as changes made in this session
+		return {
+			type: "tool_call",
+			toolCallId: `imported-${index}`,
+			title: statusMatch ? statusMatch[1] : title,
+			status,
+			rawInput: patch ? { diff: patch } : undefined,
+		};
+	}
+	if (calloutType === "question") {
+		// Permission answers belong to the original session
+		return null;
+	}
+	if (calloutType === "todo") {
+		return parsePlan(body.filter((line) => TASK_PATTERN.test(line)));
+	}
+	return { type: "text", text: lines.join("\n") };
+}
+
+function parsePlan(lines: string[]): MessageContent {
+	const entries: PlanEntry[] = lines.map((line) => {
+		const match = TASK_PATTERN.exec(line);
+		const done = match?.[1].toLowerCase() === "x";
+		return {
+			content: match?.[2] ?? line,
+			status: done ? "completed" : match?.[3] ? "in_progress" : "pending",
+			priority: "medium",
+		};
+	});
+	return { type: "plan", entries };
+}
+
+/**
+ * Split a message section into content blocks. Callouts and images become
+ * their own blocks; everything else, including fenced code with blank
+ * lines, is collected as text.
+ */
+function parseSection(lines: string[], offset: number): MessageContent[] {
+	const content: MessageContent[] = [];
+	let text: string[] = [];
+
+	const flushText = () => {
+		const value = text.join("\n").trim();
+		if (value.length > 0) {
+			content.push({ type: "text", text: value });
+		}
+		text = [];
+	};
+
+	let i = 0;
+	while (i < lines.length) {
+		const line = lines[i];
+		const fence = FENCE_PATTERN.exec(line);
+		if (fence) {
+			const end = lines.findIndex(
+				(candidate, j) => j > i && candidate.trim() === fence[1],
+			);
+			const stop = end < 0 ? lines.length : end + 1;
+			text.push(...lines.slice(i, stop));
+			i = stop;
+			continue;
+		}
+		if (line.startsWith(">")) {
+			let end = i;
+			while (end < lines.length && lines[end].startsWith(">")) end++;
+			flushText();
+			const block = parseCallout(lines.slice(i, end), offset + i);
+			if (block) content.push(block);
+			i = end;
+			continue;
+		}
+		const image = IMAGE_PATTERN.exec(line.trim());
+		if (image) {
+			flushText();
+			content.push(
+				image[3]
+					? { type: "image", mimeType: image[2], data: image[3] }
+					: { type: "image", mimeType: "image/png", data: "", uri: image[1] },
+			);
+			i++;
+			continue;
+		}
+		if (!OMITTED_OUTPUT_PATTERN.test(line.trim())) {
+			text.push(line);
+		}
+		i++;
+	}
+	flushText();
+	return content;
+}
+
+/**
+ * Rebuild the messages of an exported chat note. Only `## User` and
+ * `## <agent name>` headings outside code fences start messages, so
+ * headings inside message text stay part of it. The agent name comes from
+ * the frontmatter; notes without one match the names in `knownAgentNames`.
+ */
+export function parseChatTranscript(
+	markdown: string,
+	knownAgentNames: string[] = [],
+): ChatTranscript {
+	const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+	const { fields, bodyStart } = parseFrontmatter(lines);
+	let agentName: string | undefined = fields.agent;
+	const agentNames = agentName ? [agentName] : knownAgentNames;
+
+	const created = fields.created ? new Date(fields.created) : new Date();
+	const baseTime = Number.isNaN(created.getTime())
+		? Date.now()
+		: created.getTime();
+
+	let title = "";
+	const messages: ChatMessage[] = [];
+	let role: ChatMessage["role"] | null = null;
+	let sectionStart = 0;
+	let fence: string | null = null;
+
+	const flushSection = (end: number) => {
+		if (role === null) return;
+		const content = parseSection(lines.slice(sectionStart, end), sectionStart);
+		if (content.length > 0) {
+			messages.push({
+				id: `imported-${messages.length}`,
+				role,
+				content,
+				timestamp: new Date(baseTime + messages.length),
+			});
+		}
+	};
+
+	for (let i = bodyStart; i < lines.length; i++) {
+		const line = lines[i];
+		if (!title && role === null && line.startsWith("# ")) {
+			title = line.slice(2).trim();
+			continue;
+		}
+		const fenceMatch = FENCE_PATTERN.exec(line);
+		if (fence === null && fenceMatch) {
+			fence = fenceMatch[1];
+			continue;
+		}
+		if (fence !== null) {
+			if (line.trim() === fence) fence = null;
+			continue;
+		}
+		const heading = /^## (.+)$/.exec(line)?.[1].trim();
+		if (heading && (heading === "User" || agentNames.includes(heading))) {
+			flushSection(i);
+			role = heading === "User" ? "user" : "assistant";
+			if (role === "assistant") agentName ??= heading;
+			sectionStart = i + 1;
+		}
+	}
+	flushSection(lines.length);
+
+	return {
+		metadata: {
+			title: title || "Imported chat",
+			agentId: fields.agent_id,
+			agentName,
+			sessionId: fields.session_id,
+			createdAt: fields.created,
+		},
+		messages,
+	};
+}
+
+function summarizeContent(content: MessageContent): string | null {
+	switch (content.type) {
+		case "text":
+		case "text_with_context":
+			return content.text.trim() || null;
+		case "tool_call":
+			return `[tool] ${content.title ?? "Tool call"} (${content.status})`;
+		case "plan":
+			return content.entries
+				.map(
+					(entry) =>
+						`[plan] ${entry.status === "completed" ? "done" : entry.status}: ${entry.content}`,
+				)
+				.join("\n");
+		case "image":
+			return "[image]";
+		default:
+			return null;
+	}
+}
+
+/**
+ * Condensed replay of a transcript for the agent that continues it.
+ * Thoughts and diffs are left out; when the budget is exceeded the oldest
+ * messages are dropped.
+ */
+export function buildTranscriptReplay(
+	transcript: ChatTranscript,
+	maxChars = DEFAULT_REPLAY_CHARS,
+): string {
+	const agentName = transcript.metadata.agentName ?? "Assistant";
+	const entries = transcript.messages.flatMap((message) => {
+		const parts = message.content
+			.map(summarizeContent)
+			.filter((part): part is string => part !== null);
+		if (parts.length === 0) return [];
+		const author = message.role === "user" ? "User" : agentName;
+		return [`${author}:\n${parts.join("\n")}`];
+	});
+
+	const kept: string[] = [];
+	let length = 0;
+	for (let i = entries.length - 1; i >= 0; i--) {
+		if (kept.length > 0 && length + entries[i].length > maxChars) break;
+		kept.unshift(entries[i]);
+		length += entries[i].length;
+	}
+	const omitted = entries.length - kept.length;
+
+	return [
+		`The conversation below ("${transcript.metadata.title}") was imported from an earlier chat with ${agentName}. Treat it as context and continue from where it left off. Tool results are only summarized, so read files again before changing them.`,
+		"<transcript>",
+		...(omitted > 0 ? [`(${omitted} earlier messages omitted)`] : []),
+		kept.join("\n\n"),
+		"</transcript>",
+	].join("\n");
+}
@@ -0,0 +1,63 @@
+/** Tab of a chat view as kept in the workspace layout */
+export interface PersistedChatTab {
+	id: string;
+	agentId: string;
+	/** Session to restore when the tab comes back */
+	sessionId?: string;
+	/** Name chosen by the user */
+	name?: string;
+	pinned?: boolean;
+}
+
+/** Tabs of a chat view as kept in the workspace layout */
+export interface PersistedChatTabs {
+	tabs: PersistedChatTab[];
+	activeTabId?: string;
+}
+
+const optionalString = (value: unknown): string | undefined =>
+	typeof value === "string" && value.length > 0 ? value : undefined;
+
+/**
+ * Read tabs from saved view state. Entries without an id or agent are
+ * dropped; null when no tab is left.
+ */
+export function parsePersistedTabs(
+	tabs: unknown,
+	activeTabId?: unknown,
+): PersistedChatTabs | null {
+	if (!Array.isArray(tabs)) return null;
+	const seen = new Set<string>();
+	const parsed: PersistedChatTab[] = [];
+	for (const raw of tabs as unknown[]) {
+		if (!raw || typeof raw !== "object") continue;
+		const entry = raw as Record<string, unknown>;
+		const id = optionalString(entry.id);
+		const agentId = optionalString(entry.agentId);
+		if (!id || !agentId || seen.has(id)) continue;
+		seen.add(id);
+		parsed.push({
+			id,
+			agentId,
+			sessionId: optionalString(entry.sessionId),
+			name: optionalString(entry.name),
+			pinned: entry.pinned === true ? true : undefined,
+		});
+	}
+	if (parsed.length === 0) return null;
+	const active = optionalString(activeTabId);
+	return {
+		tabs: parsed,
+		activeTabId: active && seen.has(active) ? active : undefined,
+	};
+}
+
+/** Pinned tabs first, each group in its current order */
+export function orderPinnedFirst<T extends { pinned?: boolean }>(
+	tabs: T[],
+): T[] {
+	return [
+		...tabs.filter((tab) => tab.pinned),
+		...tabs.filter((tab) => !tab.pinned),
+	];
+}
@@ -1,6 +1,10 @@
 export const CHAT_FONT_SIZE_MIN = 10;
 export const CHAT_FONT_SIZE_MAX = 30;
 
+export const MAX_TABS_MIN = 1;
+export const MAX_TABS_MAX = 12;
+export const DEFAULT_MAX_TABS = 4;
+
 export const parseChatFontSize = (value: unknown): number | null => {
 	if (value === null || value === undefined) {
 		return null;
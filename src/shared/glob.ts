@@ -0,0 +1,15 @@
+/**
+ * Compile a simple glob to an anchored regular expression: `*` matches any
+ * run of characters (including `/`), `?` a single character.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.split("")
+		.map((char) => {
+			if (char === "*") return ".*";
+			if (char === "?") return ".";
+			return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}$`);
+}
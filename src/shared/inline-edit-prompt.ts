@@ -0,0 +1,210 @@
+import type {
+	InlineEditMode,
+	InlineEditTemplate,
+} from "../domain/models/inline-edit-template";
+
+/** Note property that forces a mode: `obsius-edit-mode: prose | code` */
+export const INLINE_EDIT_MODE_PROPERTY = "obsius-edit-mode";
+
+const PROSE_EXTENSIONS = new Set(["md", "markdown", "txt"]);
+
+export const DEFAULT_INLINE_EDIT_TEMPLATES: InlineEditTemplate[] = [
+	{
+		id: "rewrite",
+		name: "Rewrite passage",
+		mode: "prose",
+		template: `You are editing a passage of the note "{{title}}".
+
+Note properties:
+{{frontmatter}}
+
+Text before the passage:
+<before>
+{{before}}
+</before>
+
+Passage to edit:
+<passage>
+{{selection}}
+</passage>
+
+Text after the passage:
+<after>
+{{after}}
+</after>
+
+Instruction: {{instruction}}
+
+Rewrite only the passage so it still reads naturally between the text before and after it. Keep the author's voice, language, Markdown formatting and links unless the instruction says otherwise. Reply with the rewritten passage only: no preamble, no quotes, no code fence. Do not use any tools.`,
+	},
+	{
+		id: "edit-code",
+		name: "Edit code",
+		mode: "code",
+		template: `Edit the following code from "{{title}}" according to this instruction: {{instruction}}
+
+\`\`\`
+{{selection}}
+\`\`\`
+
+Return only the edited code, no explanation. Do not use any tools.`,
+	},
+];
+
+export interface InlineEditModeInput {
+	extension: string;
+	frontmatter: Record<string, unknown> | null;
+	content: string;
+	from: number;
+}
+
+function isInsideFence(content: string, offset: number): boolean {
+	let inside = false;
+	for (const line of content.slice(0, offset).split("\n").slice(0, -1)) {
+		if (/^\s*(```|~~~)/.test(line)) inside = !inside;
+	}
+	return inside;
+}
+
+/**
+ * The note property wins; otherwise Markdown and text files are prose,
+ * except for selections inside a fenced code block, and everything else
+ * is code.
+ */
+export function detectInlineEditMode(
+	input: InlineEditModeInput,
+): InlineEditMode {
+	const property = input.frontmatter?.[INLINE_EDIT_MODE_PROPERTY];
+	if (property === "prose" || property === "code") {
+		return property;
+	}
+	if (!PROSE_EXTENSIONS.has(input.extension.toLowerCase())) {
+		return "code";
+	}
+	return isInsideFence(input.content, input.from) ? "code" : "prose";
+}
+
+/** Frontmatter as `key: value` lines; properties set by Obsius are left out */
+export function formatFrontmatter(
+	frontmatter: Record<string, unknown> | null,
+): string {
+	const lines = Object.entries(frontmatter ?? {})
+		.filter(([key]) => key !== INLINE_EDIT_MODE_PROPERTY)
+		.map(
+			([key, value]) =>
+				`${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`,
+		);
+	return lines.length > 0 ? lines.join("\n") : "(none)";
+}
+
+/**
+ * Up to `count` paragraphs (blank-line separated blocks) directly before
+ * and after the selection, including any partial paragraph it cuts.
+ */
+export function getSurroundingParagraphs(
+	content: string,
+	from: number,
+	to: number,
+	count = 2,
+): { before: string; after: string } {
+	const before = content
+		.slice(0, from)
+		.split(/\n\s*\n/)
+		.slice(-count)
+		.join("\n\n");
+	const after = content
+		.slice(to)
+		.split(/\n\s*\n/)
+		.slice(0, count)
+		.join("\n\n");
+	return { before: before.trim(), after: after.trim() };
+}
+
+export interface InlineEditTemplateValues {
+	instruction: string;
+	selection: string;
+	before: string;
+	after: string;
+	title: string;
+	frontmatter: string;
+}
+
+/** Fill `{{placeholder}}`s; unknown placeholders are left as written */
+export function renderInlineEditTemplate(
+	template: string,
+	values: InlineEditTemplateValues,
+): string {
+	return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+		Object.hasOwn(values, key)
+			? values[key as keyof InlineEditTemplateValues]
+			: match,
+	);
+}
+
+/** Templates offered for a mode, falling back to the built-in ones */
+export function getInlineEditTemplates(
+	templates: InlineEditTemplate[] | undefined,
+	mode: InlineEditMode,
+): InlineEditTemplate[] {
+	const matching = (templates ?? DEFAULT_INLINE_EDIT_TEMPLATES).filter(
+		(template) => template.mode === mode,
+	);
+	return matching.length > 0
+		? matching
+		: DEFAULT_INLINE_EDIT_TEMPLATES.filter(
+				(template) => template.mode === mode,
+			);
+}
+
+const WHOLE_FENCE = /^(`{3,}|~{3,})[^\n]*\n([\s\S]*?)(?:\n\1[ \t]*)?$/;
+const EMBEDDED_FENCE =
+	/(?:^|\n)(`{3,}|~{3,})[^\n]*\n([\s\S]*?)\n\1[ \t]*(?=\n|$)/g;
+const WRAPPING_TAG =
+	/^<(passage|result|edit|output)>\n?([\s\S]*?)(?:\n?<\/\1>)?$/;
+
+/**
+ * Pull the replacement text out of an agent answer, which may be streaming.
+ *
+ * Handles answers wrapped in a code fence (closed or not yet), fenced
+ * answers with a preamble or explanation around them, echoed prompt tags
+ * and quotes around a one-line passage. Fences and quotes that are part of
+ * the original selection are kept. The selection's leading and trailing
+ * whitespace is preserved.
+ */
+export function extractInlineEditOutput(
+	answer: string,
+	original: string,
+): string {
+	let text = answer.trim();
+	const originalCore = original.trim();
+	const originalHasFence = /(^|\n)\s*(```|~~~)/.test(originalCore);
+
+	const tagged = text.match(WRAPPING_TAG);
+	if (tagged) {
+		text = tagged[2].trim();
+	}
+
+	if (!originalHasFence) {
+		const whole = text.match(WHOLE_FENCE);
+		if (whole) {
+			text = whole[2];
+		} else {
+			const blocks = Array.from(text.matchAll(EMBEDDED_FENCE), (m) => m[2]);
+			if (blocks.length > 0) {
+				text = blocks.reduce((longest, block) =>
+					block.length > longest.length ? block : longest,
+				);
+			}
+		}
+	}
+
+	const quoted = text.match(/^(["“])([^\n]*)(["”])$/);
+	if (quoted && !/^["“]/.test(originalCore)) {
+		text = quoted[2];
+	}
+
+	if (!text || !originalCore) return text;
+	const leading = original.match(/^\s*/)?.[0] ?? "";
+	const trailing = original.match(/\s*$/)?.[0] ?? "";
+	return leading + text + trailing;
+}
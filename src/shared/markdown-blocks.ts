@@ -0,0 +1,77 @@
+const REFERENCE_DEFINITION = /^ {0,3}\[[^\]\n]+\]:/m;
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,}|\$\$)/;
+const LIST_ITEM = /^ {0,3}(?:[-*+]|\d{1,9}[.)])\s/;
+
+/**
+ * Split markdown into top-level blocks that render the same on their own
+ * as they do together.
+ *
+ * Blocks end at blank lines outside fenced code and math blocks. Indented
+ * continuations and following list items stay with the block before them.
+ * Text that defines link references or footnotes is kept whole, since
+ * those resolve across blocks.
+ */
+export function splitMarkdownBlocks(text: string): string[] {
+	if (REFERENCE_DEFINITION.test(text)) {
+		return text.trim() ? [text] : [];
+	}
+
+	const blocks: string[][] = [];
+	let current: string[] = [];
+	let fence: string | null = null;
+	let blankLines = 0;
+
+	for (const line of text.split("\n")) {
+		if (fence !== null) {
+			current.push(line);
+			if (closesFence(line, fence)) fence = null;
+			continue;
+		}
+
+		if (line.trim() === "") {
+			if (current.length > 0) blankLines++;
+			continue;
+		}
+
+		if (blankLines > 0) {
+			if (continuesBlock(current, line)) {
+				current.push(...Array<string>(blankLines).fill(""));
+			} else {
+				blocks.push(current);
+				current = [];
+			}
+			blankLines = 0;
+		}
+
+		current.push(line);
+		fence = opensFence(line);
+	}
+
+	if (current.length > 0) blocks.push(current);
+	return blocks.map((lines) => lines.join("\n"));
+}
+
+function opensFence(line: string): string | null {
+	const match = FENCE_OPEN.exec(line);
+	if (!match) return null;
+	const marker = match[1];
+	// A one-line math block ("$$x$$") opens and closes at once
+	if (marker === "$$" && line.trim().length > 2 && line.trim().endsWith("$$")) {
+		return null;
+	}
+	return marker;
+}
+
+function closesFence(line: string, fence: string): boolean {
+	const trimmed = line.trim();
+	if (fence === "$$") return trimmed.endsWith("$$");
+	return (
+		trimmed.length >= fence.length &&
+		[...trimmed].every((char) => char === fence[0])
+	);
+}
+
+function continuesBlock(block: string[], line: string): boolean {
+	if (/^\s/.test(line)) return true;
+	return LIST_ITEM.test(block[0]) && LIST_ITEM.test(line);
+}
@@ -0,0 +1,218 @@
+import * as Diff from "diff";
+import type { ParagraphLock } from "../domain/models/paragraph-lock";
+
+export interface LockedSpan {
+	from: number;
+	to: number;
+}
+
+/**
+ * Find the occurrence of a lock's text closest to its last known offset.
+ * Returns null when the text no longer appears in `content`.
+ */
+export function locateLock(
+	content: string,
+	lock: Pick<ParagraphLock, "text" | "from">,
+): LockedSpan | null {
+	if (!lock.text) return null;
+
+	let best = -1;
+	let index = content.indexOf(lock.text);
+	while (index !== -1) {
+		if (
+			best === -1 ||
+			Math.abs(index - lock.from) < Math.abs(best - lock.from)
+		) {
+			best = index;
+		}
+		if (index > lock.from) break;
+		index = content.indexOf(lock.text, index + 1);
+	}
+
+	return best === -1 ? null : { from: best, to: best + lock.text.length };
+}
+
+interface ChangeChunk {
+	fromA: number;
+	toA: number;
+	fromB: number;
+	toB: number;
+}
+
+/**
+ * Word-level change chunks between two texts. Line diffs narrow the work
+ * down first; replaced line blocks are then diffed word by word.
+ */
+function computeChangeChunks(a: string, b: string): ChangeChunk[] {
+	const chunks: ChangeChunk[] = [];
+	let posA = 0;
+	let posB = 0;
+
+	const push = (lenA: number, lenB: number) => {
+		const last = chunks[chunks.length - 1];
+		if (last && last.toA === posA && last.toB === posB) {
+			last.toA += lenA;
+			last.toB += lenB;
+		} else {
+			chunks.push({
+				fromA: posA,
+				toA: posA + lenA,
+				fromB: posB,
+				toB: posB + lenB,
+			});
+		}
+		posA += lenA;
+		posB += lenB;
+	};
+
+	const walk = (parts: Diff.Change[], refine: boolean) => {
+		for (let i = 0; i < parts.length; i++) {
+			const part = parts[i];
+			const next = parts[i + 1];
+			if (refine && part.removed && next?.added) {
+				walk(Diff.diffWords(part.value, next.value), false);
+				i++;
+			} else if (part.removed) {
+				push(part.value.length, 0);
+			} else if (part.added) {
+				push(0, part.value.length);
+			} else {
+				posA += part.value.length;
+				posB += part.value.length;
+			}
+		}
+	};
+
+	walk(Diff.diffLines(a, b), true);
+	return chunks;
+}
+
+/**
+ * Locks that were intact in `originalText` and whose span a change chunk
+ * touches. Edits are placed by position, so changing one copy of a
+ * duplicated passage, or moving it away, still counts.
+ */
+export function findViolatedLocks(
+	originalText: string,
+	finalText: string,
+	locks: ParagraphLock[],
+): ParagraphLock[] {
+	const chunks = computeChangeChunks(originalText, finalText);
+	return findViolatedSpans(chunks, originalText, locks).map(({ lock }) => lock);
+}
+
+function findViolatedSpans(
+	chunks: ChangeChunk[],
+	originalText: string,
+	locks: ParagraphLock[],
+): Array<{ lock: ParagraphLock; span: LockedSpan }> {
+	const violated: Array<{ lock: ParagraphLock; span: LockedSpan }> = [];
+	for (const lock of locks) {
+		const span = locateLock(originalText, lock);
+		if (!span) continue;
+		// Insertions right at either edge leave the passage itself intact
+		const touched = chunks.some((chunk) =>
+			chunk.fromA === chunk.toA
+				? chunk.fromA > span.from && chunk.fromA < span.to
+				: chunk.fromA < span.to && chunk.toA > span.from,
+		);
+		if (touched) violated.push({ lock, span });
+	}
+	return violated;
+}
+
+/**
+ * Map a locked span of the original text onto the final text. Chunks that
+ * straddle a span boundary are reverted as a whole, so the returned text
+ * may include original text just outside the lock.
+ */
+function mapLockedSpan(
+	chunks: ChangeChunk[],
+	originalText: string,
+	span: LockedSpan,
+): { from: number; to: number; text: string } {
+	let from = -1;
+	let prefix = "";
+	let delta = 0;
+	for (const chunk of chunks) {
+		if (chunk.toA <= span.from) {
+			delta += chunk.toB - chunk.fromB - (chunk.toA - chunk.fromA);
+			continue;
+		}
+		if (chunk.fromA < span.from) {
+			from = chunk.fromB;
+			prefix = originalText.slice(chunk.fromA, span.from);
+		}
+		break;
+	}
+	if (from === -1) from = span.from + delta;
+
+	let to = -1;
+	let suffix = "";
+	delta = 0;
+	for (const chunk of chunks) {
+		if (
+			chunk.toA < span.to ||
+			(chunk.toA === span.to && chunk.fromA < span.to)
+		) {
+			delta += chunk.toB - chunk.fromB - (chunk.toA - chunk.fromA);
+			continue;
+		}
+		if (chunk.fromA < span.to) {
+			to = chunk.toB;
+			suffix = originalText.slice(span.to, chunk.toA);
+		}
+		break;
+	}
+	if (to === -1) to = span.to + delta;
+
+	return {
+		from,
+		to: Math.max(from, to),
+		text: prefix + originalText.slice(span.from, span.to) + suffix,
+	};
+}
+
+/**
+ * Undo the parts of an edit that touched locked passages, keeping every
+ * other change. Returns null when no lock was violated.
+ */
+export function restoreLockedSpans(
+	originalText: string,
+	finalText: string,
+	locks: ParagraphLock[],
+): { text: string; restored: ParagraphLock[] } | null {
+	const chunks = computeChangeChunks(originalText, finalText);
+	const violated = findViolatedSpans(chunks, originalText, locks);
+	if (violated.length === 0) return null;
+
+	const replacements = violated
+		.map(({ span }) => mapLockedSpan(chunks, originalText, span))
+		.sort((a, b) => b.from - a.from);
+
+	let text = finalText;
+	let limit = Number.POSITIVE_INFINITY;
+	for (const replacement of replacements) {
+		// Locks sharing a straddling chunk map to overlapping spans
+		if (replacement.to > limit) continue;
+		text =
+			text.slice(0, replacement.from) +
+			replacement.text +
+			text.slice(replacement.to);
+		limit = replacement.from;
+	}
+
+	return { text, restored: violated.map(({ lock }) => lock) };
+}
+
+/** 1-based line range covered by a span */
+export function getSpanLineRange(
+	content: string,
+	span: LockedSpan,
+): { fromLine: number; toLine: number } {
+	const countLines = (end: number) => content.slice(0, end).split("\n").length;
+	return {
+		fromLine: countLines(span.from),
+		toLine: countLines(Math.max(span.from, span.to - 1)),
+	};
+}
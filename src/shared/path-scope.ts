@@ -0,0 +1,158 @@
+import type {
+	PathScope,
+	PathScopeViolation,
+	PathScopeViolationReason,
+} from "../domain/models/path-scope";
+import { globToRegExp } from "./glob";
+
+export type PathAccess = "read" | "write";
+
+/** Tool kinds that only look at files; every other kind may change them */
+const READ_ONLY_TOOL_KINDS = new Set(["read", "search", "fetch", "think"]);
+
+export function isReadOnlyToolKind(kind: string): boolean {
+	return READ_ONLY_TOOL_KINDS.has(kind);
+}
+
+export const EMPTY_PATH_SCOPE: PathScope = {
+	allowedFolders: [],
+	readOnlyFolders: [],
+	forbiddenGlobs: [],
+};
+
+function cleanEntries(entries: string[] | undefined): string[] {
+	return (entries ?? []).map((entry) => entry.trim()).filter(Boolean);
+}
+
+function normalizeFolder(folder: string): string {
+	return folder.replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+}
+
+function isInFolder(vaultPath: string, folder: string): boolean {
+	const normalized = normalizeFolder(folder);
+	return (
+		normalized.length === 0 ||
+		vaultPath === normalized ||
+		vaultPath.startsWith(`${normalized}/`)
+	);
+}
+
+/**
+ * Combine the shared scope with an agent's own: the agent's allowed folders
+ * replace the shared ones when set, read-only folders and forbidden globs
+ * add up.
+ */
+export function mergePathScopes(
+	shared: PathScope | undefined,
+	agent: PathScope | undefined,
+): PathScope {
+	const agentAllowed = cleanEntries(agent?.allowedFolders);
+	return {
+		allowedFolders:
+			agentAllowed.length > 0
+				? agentAllowed
+				: cleanEntries(shared?.allowedFolders),
+		readOnlyFolders: [
+			...cleanEntries(shared?.readOnlyFolders),
+			...cleanEntries(agent?.readOnlyFolders),
+		],
+		forbiddenGlobs: [
+			...cleanEntries(shared?.forbiddenGlobs),
+			...cleanEntries(agent?.forbiddenGlobs),
+		],
+	};
+}
+
+export function isPathScopeEmpty(scope: PathScope): boolean {
+	return (
+		scope.allowedFolders.length === 0 &&
+		scope.readOnlyFolders.length === 0 &&
+		scope.forbiddenGlobs.length === 0
+	);
+}
+
+/**
+ * Check one access against a scope. `vaultPath` is null for paths outside
+ * the vault, which only a scope without allowed folders lets through.
+ */
+export function checkPathScope(
+	scope: PathScope,
+	vaultPath: string | null,
+	access: PathAccess,
+): PathScopeViolationReason | null {
+	if (vaultPath === null) {
+		return scope.allowedFolders.length > 0 ? "outside" : null;
+	}
+	if (scope.forbiddenGlobs.some((glob) => globToRegExp(glob).test(vaultPath))) {
+		return "forbidden";
+	}
+	if (
+		scope.allowedFolders.length > 0 &&
+		!scope.allowedFolders.some((folder) => isInFolder(vaultPath, folder))
+	) {
+		return "outside";
+	}
+	if (
+		access === "write" &&
+		scope.readOnlyFolders.some((folder) => isInFolder(vaultPath, folder))
+	) {
+		return "read_only";
+	}
+	return null;
+}
+
+/** The parts of a tool call that name files */
+export interface ToolCallPaths {
+	kind?: string | null;
+	locations?: { path: string }[] | null;
+	content?: { type: string; path?: string }[] | null;
+}
+
+/**
+ * Files a tool call touches that the scope does not allow. Locations are
+ * checked as reads for read-only tool kinds and as writes otherwise; diff
+ * targets are always writes.
+ */
+export function findPathScopeViolations(
+	scope: PathScope,
+	toolCall: ToolCallPaths,
+	toVaultPath: (path: string) => string | null,
+): PathScopeViolation[] {
+	if (isPathScopeEmpty(scope)) {
+		return [];
+	}
+	const locationAccess: PathAccess = isReadOnlyToolKind(toolCall.kind ?? "")
+		? "read"
+		: "write";
+	const checks: [string, PathAccess][] = [
+		...(toolCall.locations ?? []).map((location): [string, PathAccess] => [
+			location.path,
+			locationAccess,
+		]),
+		...(toolCall.content ?? []).flatMap((item): [string, PathAccess][] =>
+			item.type === "diff" && item.path ? [[item.path, "write"]] : [],
+		),
+	];
+
+	const violations: PathScopeViolation[] = [];
+	for (const [path, access] of checks) {
+		if (violations.some((violation) => violation.path === path)) continue;
+		const reason = checkPathScope(scope, toVaultPath(path), access);
+		if (reason) {
+			violations.push({ path, reason });
+		}
+	}
+	return violations;
+}
+
+const VIOLATION_LABELS: Record<PathScopeViolationReason, string> = {
+	forbidden: "forbidden path",
+	read_only: "read-only folder",
+	outside: "outside the allowed folders",
+};
+
+export function describePathScopeViolation(
+	violation: PathScopeViolation,
+): string {
+	return `${violation.path} (${VIOLATION_LABELS[violation.reason]})`;
+}
@@ -0,0 +1,279 @@
+import type { ChatMessage } from "../domain/models/chat-message";
+import type { SavedSessionInfo } from "../domain/models/session-info";
+import type {
+	SessionSearchField,
+	SessionSearchMatch,
+	SessionSearchResult,
+	SessionSearchSnippet,
+} from "../domain/models/session-search";
+import { extractToolFilePath } from "./tool-file-path";
+
+/** Searchable text of one field of one message */
+interface SearchDocument {
+	sessionId: string;
+	messageId: string;
+	messageIndex: number;
+	field: SessionSearchField;
+	/** Text with whitespace collapsed, used for snippets */
+	text: string;
+}
+
+export interface SessionSearchOptions {
+	maxSessions?: number;
+	maxMatchesPerSession?: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const SNIPPET_RADIUS = 60;
+const DEFAULT_MAX_SESSIONS = 20;
+const DEFAULT_MAX_MATCHES_PER_SESSION = 5;
+
+/** Lower-cased words of a text, in order */
+export function tokenizeSearchText(text: string): string[] {
+	return Array.from(text.toLowerCase().matchAll(WORD_PATTERN), (m) => m[0]);
+}
+
+function collectDocuments(
+	sessionId: string,
+	messages: ChatMessage[],
+): SearchDocument[] {
+	const documents: SearchDocument[] = [];
+	messages.forEach((message, messageIndex) => {
+		const fields: Record<SessionSearchField, string[]> = {
+			user: [],
+			assistant: [],
+			tool: [],
+			path: [],
+		};
+		for (const content of message.content) {
+			switch (content.type) {
+				case "text":
+				case "text_with_context":
+					fields[message.role].push(content.text);
+					break;
+				case "tool_call": {
+					if (content.title) fields.tool.push(content.title);
+					const paths = new Set<string>();
+					for (const location of content.locations ?? []) {
+						paths.add(location.path);
+					}
+					for (const item of content.content ?? []) {
+						if (item.type === "diff") paths.add(item.path);
+					}
+					const inputPath = extractToolFilePath(content.rawInput);
+					if (inputPath) paths.add(inputPath);
+					fields.path.push(...paths);
+					break;
+				}
+				default:
+					break;
+			}
+		}
+		for (const field of Object.keys(fields) as SessionSearchField[]) {
+			const text = fields[field].join("\n").replace(/\s+/g, " ").trim();
+			if (text.length === 0) continue;
+			documents.push({
+				sessionId,
+				messageId: message.id,
+				messageIndex,
+				field,
+				text,
+			});
+		}
+	});
+	return documents;
+}
+
+/**
+ * Excerpt around the first match, with every word that starts with a query
+ * term highlighted.
+ */
+export function buildSearchSnippet(
+	text: string,
+	terms: string[],
+	radius = SNIPPET_RADIUS,
+): SessionSearchSnippet {
+	const matches: Array<[number, number]> = [];
+	for (const word of text.matchAll(WORD_PATTERN)) {
+		const lower = word[0].toLowerCase();
+		const term = terms.find((candidate) => lower.startsWith(candidate));
+		if (term && word.index !== undefined) {
+			matches.push([word.index, word.index + term.length]);
+		}
+	}
+
+	const anchor = matches[0]?.[0] ?? 0;
+	let start = Math.max(0, anchor - radius);
+	let end = Math.min(text.length, anchor + radius * 2);
+	if (start > 0) {
+		const space = text.indexOf(" ", start);
+		if (space >= 0 && space < anchor) start = space + 1;
+	}
+	if (end < text.length) {
+		const space = text.lastIndexOf(" ", end);
+		if (space > (matches[0]?.[1] ?? start)) end = space;
+	}
+
+	const prefix = start > 0 ? "…" : "";
+	const suffix = end < text.length ? "…" : "";
+	const shift = prefix.length - start;
+	return {
+		text: `${prefix}${text.slice(start, end)}${suffix}`,
+		highlights: matches
+			.filter(([from, to]) => from >= start && to <= end)
+			.map(([from, to]) => [from + shift, to + shift]),
+	};
+}
+
+/**
+ * In-memory inverted index over saved session messages. Query terms match
+ * word prefixes, and a message matches when it contains every term across
+ * its text, tool titles and file paths.
+ */
+export class SessionSearchIndex {
+	private documents = new Map<number, SearchDocument>();
+	private postings = new Map<string, Set<number>>();
+	private sessionDocuments = new Map<string, number[]>();
+	private nextDocumentId = 0;
+
+	hasSession(sessionId: string): boolean {
+		return this.sessionDocuments.has(sessionId);
+	}
+
+	/** Replace the indexed messages of a session */
+	setSession(sessionId: string, messages: ChatMessage[]): void {
+		this.removeSession(sessionId);
+		const ids: number[] = [];
+		for (const document of collectDocuments(sessionId, messages)) {
+			const id = this.nextDocumentId++;
+			this.documents.set(id, document);
+			ids.push(id);
+			for (const token of new Set(tokenizeSearchText(document.text))) {
+				let posting = this.postings.get(token);
+				if (!posting) {
+					posting = new Set();
+					this.postings.set(token, posting);
+				}
+				posting.add(id);
+			}
+		}
+		this.sessionDocuments.set(sessionId, ids);
+	}
+
+	removeSession(sessionId: string): void {
+		const ids = this.sessionDocuments.get(sessionId);
+		if (!ids) return;
+		for (const id of ids) {
+			const document = this.documents.get(id);
+			this.documents.delete(id);
+			if (!document) continue;
+			for (const token of new Set(tokenizeSearchText(document.text))) {
+				const posting = this.postings.get(token);
+				posting?.delete(id);
+				if (posting?.size === 0) this.postings.delete(token);
+			}
+		}
+		this.sessionDocuments.delete(sessionId);
+	}
+
+	/**
+	 * Search the given sessions. Sessions with the most matching messages
+	 * come first, then the most recently updated.
+	 */
+	search(
+		query: string,
+		sessions: SavedSessionInfo[],
+		options: SessionSearchOptions = {},
+	): SessionSearchResult[] {
+		const terms = [...new Set(tokenizeSearchText(query))];
+		if (terms.length === 0) return [];
+
+		const allowed = new Map(sessions.map((s) => [s.sessionId, s]));
+		// Message key → terms found in that message, and its documents
+		const hits = new Map<string, { terms: Set<string>; documents: number[] }>();
+		for (const term of terms) {
+			for (const [token, posting] of this.postings) {
+				if (!token.startsWith(term)) continue;
+				for (const id of posting) {
+					const document = this.documents.get(id);
+					if (!document || !allowed.has(document.sessionId)) continue;
+					const key = `${document.sessionId}\u0000${document.messageIndex}`;
+					let hit = hits.get(key);
+					if (!hit) {
+						hit = { terms: new Set(), documents: [] };
+						hits.set(key, hit);
+					}
+					hit.terms.add(term);
+					if (!hit.documents.includes(id)) hit.documents.push(id);
+				}
+			}
+		}
+
+		const bySession = new Map<
+			string,
+			Array<{ messageIndex: number; match: SessionSearchMatch }>
+		>();
+		for (const hit of hits.values()) {
+			if (hit.terms.size < terms.length) continue;
+			const best = this.pickBestDocument(hit.documents, terms);
+			if (!best) continue;
+			const matches = bySession.get(best.sessionId) ?? [];
+			matches.push({
+				messageIndex: best.messageIndex,
+				match: {
+					messageId: best.messageId,
+					field: best.field,
+					snippet: buildSearchSnippet(best.text, terms),
+				},
+			});
+			bySession.set(best.sessionId, matches);
+		}
+
+		const maxMatches =
+			options.maxMatchesPerSession ?? DEFAULT_MAX_MATCHES_PER_SESSION;
+		const results: SessionSearchResult[] = [];
+		for (const [sessionId, matches] of bySession) {
+			const info = allowed.get(sessionId);
+			if (!info) continue;
+			matches.sort((a, b) => a.messageIndex - b.messageIndex);
+			results.push({
+				sessionId,
+				agentId: info.agentId,
+				cwd: info.cwd,
+				title: info.title,
+				updatedAt: info.updatedAt,
+				matches: matches.slice(0, maxMatches).map((entry) => entry.match),
+				totalMatches: matches.length,
+			});
+		}
+
+		results.sort(
+			(a, b) =>
+				b.totalMatches - a.totalMatches ||
+				(b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""),
+		);
+		return results.slice(0, options.maxSessions ?? DEFAULT_MAX_SESSIONS);
+	}
+
+	/** The field of a message that contains the most query terms */
+	private pickBestDocument(
+		ids: number[],
+		terms: string[],
+	): SearchDocument | null {
+		let best: SearchDocument | null = null;
+		let bestScore = -1;
+		for (const id of ids) {
+			const document = this.documents.get(id);
+			if (!document) continue;
+			const tokens = tokenizeSearchText(document.text);
+			const score = terms.filter((term) =>
+				tokens.some((token) => token.startsWith(term)),
+			).length;
+			if (score > bestScore) {
+				best = document;
+				bestScore = score;
+			}
+		}
+		return best;
+	}
+}
@@ -1,10 +1,19 @@
 import { z } from "zod";
+import type { PathScope } from "../domain/models/path-scope";
+import type { PermissionGrant } from "../domain/models/permission-grant";
+import type { TerminalCommandRule } from "../domain/models/terminal-command-rule";
 import type {
 	AgentClientPluginSettings,
 	ChatViewLocation,
 	SendMessageShortcut,
 	TerminalPermissionMode,
 } from "../plugin";
+import {
+	DEFAULT_MAX_TABS,
+	MAX_TABS_MAX,
+	MAX_TABS_MIN,
+} from "./display-settings";
+import { DEFAULT_INLINE_EDIT_TEMPLATES } from "./inline-edit-prompt";
 
 export const SETTINGS_SCHEMA_VERSION = 8;
 
@@ -27,6 +36,33 @@ const terminalPermissionModeSchema = z.union([
 	z.literal("always_deny"),
 ]) satisfies z.ZodType<TerminalPermissionMode>;
 
+const terminalCommandRuleSchema = z.object({
+	id: z.string().min(1),
+	action: z.union([z.literal("allow"), z.literal("ask"), z.literal("deny")]),
+	matchType: z.union([
+		z.literal("command"),
+		z.literal("glob"),
+		z.literal("cwd"),
+	]),
+	pattern: z.string(),
+}) satisfies z.ZodType<TerminalCommandRule>;
+
+const permissionGrantSchema = z.object({
+	id: z.string().min(1),
+	agentId: z.string(),
+	decision: z.union([z.literal("allow"), z.literal("reject")]),
+	toolKind: z.string().nullable(),
+	titlePattern: z.string(),
+	pathPrefix: z.string().nullable(),
+	createdAt: z.number(),
+}) satisfies z.ZodType<PermissionGrant>;
+
+const pathScopeSchema = z.object({
+	allowedFolders: z.array(z.string()),
+	readOnlyFolders: z.array(z.string()),
+	forbiddenGlobs: z.array(z.string()),
+}) satisfies z.ZodType<PathScope>;
+
 const envVarSchema = z.object({
 	key: z.string().min(1),
 	value: z.string(),
@@ -37,6 +73,19 @@ const secretBindingSchema = z.object({
 	secretId: z.string().regex(/^[a-z0-9-]+$/),
 });
 
+const mcpServerSchema = z.object({
+	id: z.string().min(1),
+	name: z.string(),
+	enabled: z.boolean(),
+	transport: z.union([z.literal("stdio"), z.literal("http"), z.literal("sse")]),
+	command: z.string(),
+	args: z.array(z.string()),
+	env: z.array(envVarSchema),
+	url: z.string(),
+	headers: z.array(z.object({ name: z.string(), value: z.string() })),
+	secretBindings: z.array(secretBindingSchema),
+});
+
 const commonAgentSettingsSchema = z.object({
 	id: z.string().min(1),
 	displayName: z.string().min(1),
@@ -44,6 +93,8 @@ const commonAgentSettingsSchema = z.object({
 	args: z.array(z.string()),
 	env: z.array(envVarSchema),
 	secretBindings: z.array(secretBindingSchema),
+	mcpServers: z.array(mcpServerSchema).optional(),
+	pathScope: pathScopeSchema.optional(),
 });
 const apiKeyAgentSettingsSchema = commonAgentSettingsSchema.extend({
 	apiKeySecretId: z.string().regex(/^[a-z0-9-]+$/),
@@ -56,6 +107,12 @@ const displaySettingsSchema = z.object({
 	maxSelectionLength: z.number().int().min(1),
 	fontSize: z.number().int().min(10).max(30).nullable(),
 	completionSound: z.boolean(),
+	maxTabs: z.number().int().min(MAX_TABS_MIN).max(MAX_TABS_MAX),
+});
+
+const sessionLinkSchema = z.object({
+	agentId: z.string().min(1),
+	sessionId: z.string().min(1),
 });
 
 const savedSessionSchema = z.object({
@@ -65,6 +122,23 @@ const savedSessionSchema = z.object({
 	title: z.string().optional(),
 	createdAt: z.string().min(1),
 	updatedAt: z.string().min(1),
+	continuedIn: sessionLinkSchema.optional(),
+	continuedFrom: sessionLinkSchema.optional(),
+});
+
+const paragraphLockSchema = z.object({
+	id: z.string().min(1),
+	text: z.string().min(1),
+	from: z.number().int().min(0),
+	to: z.number().int().min(0),
+	createdAt: z.number(),
+});
+
+const inlineEditTemplateSchema = z.object({
+	id: z.string().min(1),
+	name: z.string(),
+	mode: z.union([z.literal("prose"), z.literal("code")]),
+	template: z.string(),
 });
 
 const settingsSchema = z.object({
@@ -76,7 +150,12 @@ const settingsSchema = z.object({
 	customAgents: z.array(commonAgentSettingsSchema),
 	defaultAgentId: z.string().min(1),
 	secretBindings: z.array(secretBindingSchema),
+	mcpServers: z.array(mcpServerSchema).optional(),
+	vaultMcpServerEnabled: z.boolean().optional(),
 	terminalPermissionMode: terminalPermissionModeSchema,
+	terminalCommandRules: z.array(terminalCommandRuleSchema).optional(),
+	permissionGrants: z.array(permissionGrantSchema).optional(),
+	pathScope: pathScopeSchema.optional(),
 	autoMentionActiveNote: z.boolean(),
 	debugMode: z.boolean(),
 	nodePath: z.string(),
@@ -118,6 +197,9 @@ const settingsSchema = z.object({
 	lastModeModels: z
 		.record(z.string(), z.record(z.string(), z.string()))
 		.optional(),
+	preferredAuthMethods: z.record(z.string(), z.string()).optional(),
+	paragraphLocks: z.record(z.string(), z.array(paragraphLockSchema)).optional(),
+	inlineEditTemplates: z.array(inlineEditTemplateSchema).optional(),
 }) satisfies z.ZodType<AgentClientPluginSettings>;
 
 export const createDefaultSettings = (): AgentClientPluginSettings => ({
@@ -160,7 +242,12 @@ export const createDefaultSettings = (): AgentClientPluginSettings => ({
 	customAgents: [],
 	defaultAgentId: "opencode",
 	secretBindings: [],
+	mcpServers: [],
+	vaultMcpServerEnabled: true,
 	terminalPermissionMode: "disabled",
+	terminalCommandRules: [],
+	permissionGrants: [],
+	pathScope: { allowedFolders: [], readOnlyFolders: [], forbiddenGlobs: [] },
 	autoMentionActiveNote: true,
 	debugMode: false,
 	nodePath: "",
@@ -175,6 +262,7 @@ export const createDefaultSettings = (): AgentClientPluginSettings => ({
 		maxSelectionLength: 10000,
 		fontSize: null,
 		completionSound: true,
+		maxTabs: DEFAULT_MAX_TABS,
 	},
 	savedSessions: [],
 	lastUsedModels: {},
@@ -183,6 +271,11 @@ export const createDefaultSettings = (): AgentClientPluginSettings => ({
 	cachedAgentModes: {},
 	modeModelDefaults: {},
 	lastModeModels: {},
+	preferredAuthMethods: {},
+	paragraphLocks: {},
+	inlineEditTemplates: DEFAULT_INLINE_EDIT_TEMPLATES.map((template) => ({
+		...template,
+	})),
 });
 
 export function parseStoredSettings(raw: unknown): {
@@ -224,6 +317,9 @@ export function parseStoredSettings(raw: unknown): {
 		if (ds.completionSound === undefined) {
 			ds.completionSound = true;
 		}
+		if (ds.maxTabs === undefined) {
+			ds.maxTabs = DEFAULT_MAX_TABS;
+		}
 	}
 	ensureSecretBindings(candidate.claude);
 	ensureSecretBindings(candidate.codex);
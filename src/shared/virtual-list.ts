@@ -0,0 +1,54 @@
+/** Rows of a virtualized list to render, and the space left for the rest */
+export interface VirtualRange {
+	/** Index of the first rendered row */
+	start: number;
+	/** Index after the last rendered row */
+	end: number;
+	/** Height of the rows before `start` */
+	paddingTop: number;
+	/** Height of the rows from `end` on */
+	paddingBottom: number;
+}
+
+/** Distance from the top of the list to the row at `index` */
+export function getRowOffset(heights: number[], index: number): number {
+	let offset = 0;
+	for (let i = 0; i < index && i < heights.length; i++) {
+		offset += heights[i];
+	}
+	return offset;
+}
+
+/**
+ * Rows that intersect the viewport, extended by `overscan` pixels on both
+ * sides so short scrolls do not show empty space before the rows mount.
+ */
+export function computeVirtualRange(
+	heights: number[],
+	scrollTop: number,
+	viewportHeight: number,
+	overscan: number,
+): VirtualRange {
+	const top = scrollTop - overscan;
+	const bottom = scrollTop + viewportHeight + overscan;
+
+	let start = 0;
+	let offset = 0;
+	while (start < heights.length - 1 && offset + heights[start] <= top) {
+		offset += heights[start];
+		start++;
+	}
+	const paddingTop = offset;
+
+	let end = start;
+	while (end < heights.length && (end === start || offset < bottom)) {
+		offset += heights[end];
+		end++;
+	}
+
+	let paddingBottom = 0;
+	for (let i = end; i < heights.length; i++) {
+		paddingBottom += heights[i];
+	}
+	return { start, end, paddingTop, paddingBottom };
+}
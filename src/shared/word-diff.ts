@@ -118,3 +118,83 @@ function appendWordDiffSegments(
 		}
 	}
 }
+
+/**
+ * A group of adjacent diff segments that is accepted or rejected as a unit.
+ * Offsets refer to the current (new) text.
+ */
+export interface InlineDiffHunk {
+	from: number;
+	to: number;
+	segments: InlineDiffSegment[];
+}
+
+/**
+ * Group segments into hunks. Segments that touch, or are separated only by
+ * spaces/tabs on the same line, belong to the same hunk.
+ */
+export function groupInlineDiffHunks(
+	segments: InlineDiffSegment[],
+	currentText: string,
+): InlineDiffHunk[] {
+	const sorted = [...segments].sort((a, b) => a.from - b.from || a.to - b.to);
+	const hunks: InlineDiffHunk[] = [];
+
+	for (const segment of sorted) {
+		const last = hunks[hunks.length - 1];
+		if (
+			last &&
+			(segment.from <= last.to ||
+				/^[ \t]*$/.test(currentText.slice(last.to, segment.from)))
+		) {
+			last.to = Math.max(last.to, segment.to);
+			last.segments.push(segment);
+			continue;
+		}
+		hunks.push({ from: segment.from, to: segment.to, segments: [segment] });
+	}
+
+	return hunks;
+}
+
+/**
+ * Rebuild the original text of a hunk's span: added ranges are dropped and
+ * deleted text is re-inserted at its anchor.
+ */
+export function revertInlineDiffHunk(
+	currentText: string,
+	hunk: InlineDiffHunk,
+): string {
+	let result = "";
+	let pos = hunk.from;
+
+	for (const segment of hunk.segments) {
+		result += currentText.slice(pos, segment.from);
+		if (segment.type === "deleted") {
+			result += segment.deletedText ?? "";
+			pos = Math.max(pos, segment.from);
+		} else {
+			pos = Math.max(pos, segment.to);
+		}
+	}
+
+	return result + currentText.slice(pos, hunk.to);
+}
+
+/**
+ * Revert several non-overlapping hunks in `currentText` at once.
+ */
+export function revertInlineDiffHunks(
+	currentText: string,
+	hunks: InlineDiffHunk[],
+): string {
+	let result = currentText;
+	const descending = [...hunks].sort((a, b) => b.from - a.from);
+	for (const hunk of descending) {
+		result =
+			result.slice(0, hunk.from) +
+			revertInlineDiffHunk(currentText, hunk) +
+			result.slice(hunk.to);
+	}
+	return result;
+}
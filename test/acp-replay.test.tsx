@@ -0,0 +1,160 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { createTraceReplay, parseTrace } from "../scripts/acp-replay-agent.mjs";
+import {
+	createReplayClient,
+	loadTrace,
+	REPLAY_AGENT_ID,
+	REPLAY_VAULT_PATH,
+	useReplayChat,
+} from "./helpers/acp-replay";
+
+vi.mock("../src/shared/logger", () => ({
+	getLogger: () => ({
+		log: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+	}),
+}));
+
+const TRACE = [
+	'{"direction":"outgoing","kind":"request","method":"session/prompt","timestamp":0,"payload":{"jsonrpc":"2.0","id":7,"method":"session/prompt","params":{"sessionId":"s1"}}}',
+	'{"direction":"incoming","kind":"notification","method":"session/update","timestamp":40,"payload":{"jsonrpc":"2.0","method":"session/update","params":{"sessionId":"s1","update":{"sessionUpdate":"tool_call","toolCallId":"t1","title":"Read","locations":[{"path":"<vault>/a.md"}]}}}}',
+	'{"direction":"incoming","kind":"response","method":"session/prompt","timestamp":100,"payload":{"jsonrpc":"2.0","id":7,"result":{"stopReason":"end_turn"}}}',
+].join("\n");
+
+describe("acp replay agent", () => {
+	it("rejects lines that are not trace entries", () => {
+		expect(() => parseTrace('{"direction":"outgoing"}')).toThrow(
+			"Line 1 is not an ACP trace entry",
+		);
+		expect(() => parseTrace("\nnot json")).toThrow("Line 2 is not valid JSON");
+	});
+
+	it("answers with the live request id and the session's vault", () => {
+		const replay = createTraceReplay(parseTrace(TRACE));
+
+		const step = replay.receive({
+			jsonrpc: "2.0",
+			id: 1,
+			method: "session/prompt",
+			params: { sessionId: "s1", cwd: "/notes" },
+		});
+
+		expect(step.mismatch).toBeUndefined();
+		expect(step.emissions.map((emission) => emission.delayMs)).toEqual([
+			40, 60,
+		]);
+		expect(JSON.stringify(step.emissions[0].message)).toContain(
+			'"path":"/notes/a.md"',
+		);
+		expect(step.emissions[1].message).toMatchObject({ id: 1 });
+		expect(replay.isFinished()).toBe(true);
+	});
+
+	it("fails unexpected requests without moving on", () => {
+		const replay = createTraceReplay(parseTrace(TRACE));
+
+		const step = replay.receive({
+			jsonrpc: "2.0",
+			id: 3,
+			method: "session/set_mode",
+		});
+
+		expect(step.mismatch).toBe(
+			"expected request session/prompt, got request session/set_mode",
+		);
+		expect(step.emissions[0].message).toMatchObject({
+			id: 3,
+			error: { code: -32603 },
+		});
+		expect(replay.isFinished()).toBe(false);
+	});
+});
+
+describe("replayed chat session", () => {
+	it("streams an answer with an approved edit and usage", async () => {
+		const client = createReplayClient(
+			loadTrace("acp-trace-edit-with-permission.jsonl"),
+		);
+		const { result } = renderHook(() => useReplayChat(client));
+
+		await act(async () => {
+			await result.current.session.createSession();
+		});
+		expect(result.current.session.session).toMatchObject({
+			sessionId: "sess-1",
+			state: "ready",
+			agentInfo: { name: "replay-agent" },
+		});
+		await waitFor(() =>
+			expect(result.current.session.session.availableCommands).toHaveLength(1),
+		);
+
+		let sending!: Promise<void>;
+		act(() => {
+			sending = result.current.chat.sendMessage("Fix the typo in note.md", {
+				activeNote: null,
+				vaultBasePath: REPLAY_VAULT_PATH,
+			});
+		});
+		await waitFor(() =>
+			expect(result.current.permission.activePermission).not.toBeNull(),
+		);
+		const requestId = result.current.permission.activePermission?.requestId;
+		await act(async () => {
+			await result.current.permission.approvePermission(
+				requestId ?? "",
+				"allow",
+			);
+			await sending;
+		});
+
+		await waitFor(() => expect(result.current.chat.isSending).toBe(false));
+		const answer = result.current.chat.messages
+			.filter((message) => message.role === "assistant")
+			.flatMap((message) => message.content);
+		expect(
+			answer
+				.map((content) => (content.type === "text" ? content.text : ""))
+				.join(""),
+		).toBe("I'll fix the typo. Done.");
+		expect(answer).toContainEqual(
+			expect.objectContaining({
+				type: "tool_call",
+				toolCallId: "tc-1",
+				status: "completed",
+			}),
+		);
+		expect(result.current.usage).toEqual({ size: 200000, used: 12500 });
+		expect(client.mismatches).toEqual([]);
+	});
+
+	it("signs in when the agent refuses to start a session", async () => {
+		const client = createReplayClient(loadTrace("acp-trace-sign-in.jsonl"));
+		const { result } = renderHook(() => useReplayChat(client));
+
+		await act(async () => {
+			await result.current.session.createSession();
+		});
+		expect(result.current.session.session.state).toBe("authenticating");
+		expect(
+			result.current.session.session.authMethods.map((method) => method.id),
+		).toEqual(["oauth-personal", "gemini-api-key"]);
+		expect(result.current.session.errorInfo).toBeNull();
+
+		let failure: unknown;
+		await act(async () => {
+			failure = await result.current.session.authenticate("oauth-personal");
+		});
+		expect(failure).toBeNull();
+		expect(result.current.session.session).toMatchObject({
+			sessionId: "sess-2",
+			state: "ready",
+		});
+		expect(client.settingsAccess.getSnapshot().preferredAuthMethods).toEqual({
+			[REPLAY_AGENT_ID]: "oauth-personal",
+		});
+		expect(client.mismatches).toEqual([]);
+	});
+});
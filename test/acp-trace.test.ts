@@ -0,0 +1,237 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { AcpTraceRecorder } from "../src/adapters/acp/acp-trace-recorder";
+import {
+	filterTraceEntries,
+	formatTraceJsonl,
+	listTraceValues,
+	redactTracePayload,
+} from "../src/shared/acp-trace";
+
+describe("AcpTraceRecorder", () => {
+	it("pairs responses with their request", () => {
+		const recorder = new AcpTraceRecorder();
+		recorder.record(
+			"claude",
+			"outgoing",
+			{
+				jsonrpc: "2.0",
+				id: 1,
+				method: "session/prompt",
+				params: { sessionId: "s1", prompt: [] },
+			},
+			1000,
+		);
+		recorder.record(
+			"claude",
+			"incoming",
+			{
+				jsonrpc: "2.0",
+				method: "session/update",
+				params: { sessionId: "s1", update: {} },
+			},
+			1100,
+		);
+		recorder.record(
+			"claude",
+			"incoming",
+			{ jsonrpc: "2.0", id: 1, result: { stopReason: "end_turn" } },
+			1250,
+		);
+
+		expect(
+			recorder.getEntries().map(({ kind, method, sessionId, durationMs }) => ({
+				kind,
+				method,
+				sessionId,
+				durationMs,
+			})),
+		).toEqual([
+			{
+				kind: "request",
+				method: "session/prompt",
+				sessionId: "s1",
+				durationMs: undefined,
+			},
+			{
+				kind: "notification",
+				method: "session/update",
+				sessionId: "s1",
+				durationMs: undefined,
+			},
+			{
+				kind: "response",
+				method: "session/prompt",
+				sessionId: "s1",
+				durationMs: 250,
+			},
+		]);
+	});
+
+	it("does not pair a response with a request sent the same way", () => {
+		const recorder = new AcpTraceRecorder();
+		recorder.record("claude", "incoming", {
+			id: 0,
+			method: "fs/read_text_file",
+			params: { sessionId: "s1", path: "/a" },
+		});
+		recorder.record("claude", "incoming", {
+			id: 0,
+			error: { code: -32603, message: "boom" },
+		});
+
+		const [, error] = recorder.getEntries();
+		expect(error.kind).toBe("error");
+		expect(error.method).toBeUndefined();
+	});
+
+	it("keeps only the newest entries and notifies listeners", () => {
+		const recorder = new AcpTraceRecorder(2);
+		let notified = 0;
+		recorder.subscribe(() => notified++);
+
+		for (let i = 0; i < 3; i++) {
+			recorder.record("claude", "incoming", { method: `m${i}` });
+		}
+
+		expect(recorder.getEntries().map((entry) => entry.method)).toEqual([
+			"m1",
+			"m2",
+		]);
+		expect(notified).toBe(3);
+	});
+
+	it("records messages passing through a tapped stream", async () => {
+		const recorder = new AcpTraceRecorder();
+		const sent: unknown[] = [];
+		const incoming = { jsonrpc: "2.0" as const, method: "session/update" };
+		const tapped = recorder.tap("codex", {
+			readable: new ReadableStream({
+				start(controller) {
+					controller.enqueue(incoming);
+					controller.close();
+				},
+			}),
+			writable: new WritableStream({
+				write(message) {
+					sent.push(message);
+				},
+			}),
+		});
+
+		const writer = tapped.writable.getWriter();
+		await writer.write({ jsonrpc: "2.0", id: 1, method: "initialize" });
+		await writer.close();
+		const reader = tapped.readable.getReader();
+		expect((await reader.read()).value).toEqual(incoming);
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		expect(sent).toHaveLength(1);
+		expect(
+			recorder.getEntries().map((entry) => [entry.direction, entry.method]),
+		).toEqual([
+			["outgoing", "initialize"],
+			["incoming", "session/update"],
+		]);
+	});
+});
+
+describe("acp trace helpers", () => {
+	it("filters by session and method", () => {
+		const recorder = new AcpTraceRecorder();
+		recorder.record("a", "incoming", {
+			method: "session/update",
+			params: { sessionId: "s1" },
+		});
+		recorder.record("a", "incoming", {
+			method: "session/update",
+			params: { sessionId: "s2" },
+		});
+		recorder.record("a", "outgoing", {
+			id: 1,
+			method: "session/cancel",
+			params: { sessionId: "s2" },
+		});
+		const entries = recorder.getEntries();
+
+		expect(listTraceValues(entries, "sessionId")).toEqual(["s1", "s2"]);
+		expect(
+			filterTraceEntries(entries, {
+				sessionId: "s2",
+				method: "session/update",
+			}),
+		).toHaveLength(1);
+	});
+
+	it("redacts credentials, env values, binary data and local paths", () => {
+		const payload = redactTracePayload(
+			{
+				params: {
+					cwd: "/home/me/vault/notes",
+					apiKey: "sk-123",
+					usage: { totalTokens: 42 },
+					mcpServers: [
+						{
+							env: [{ name: "GITHUB_TOKEN", value: "ghp_abc" }],
+							headers: [{ name: "Authorization", value: "Bearer x" }],
+							args: ["/home/me/bin/server"],
+						},
+					],
+					prompt: [{ type: "image", mimeType: "image/png", data: "AAAA" }],
+				},
+			},
+			{ vaultPath: "/home/me/vault/", homeDir: "/home/me" },
+		);
+
+		expect(payload).toEqual({
+			params: {
+				cwd: "<vault>/notes",
+				apiKey: "[redacted]",
+				usage: { totalTokens: 42 },
+				mcpServers: [
+					{
+						env: [{ name: "GITHUB_TOKEN", value: "[redacted]" }],
+						headers: [{ name: "Authorization", value: "[redacted]" }],
+						args: ["~/bin/server"],
+					},
+				],
+				prompt: [
+					{
+						type: "image",
+						mimeType: "image/png",
+						data: "[4 characters omitted]",
+					},
+				],
+			},
+		});
+	});
+
+	it("exports one redacted entry per line", () => {
+		const recorder = new AcpTraceRecorder();
+		recorder.record(
+			"a",
+			"outgoing",
+			{ id: 1, method: "authenticate", params: { password: "hunter2" } },
+			0,
+		);
+		recorder.record("a", "incoming", { id: 1, result: {} }, 5);
+
+		const lines = formatTraceJsonl(recorder.getEntries(), {
+			vaultPath: "/vault",
+		})
+			.trimEnd()
+			.split("\n")
+			.map(
+				(line) =>
+					JSON.parse(line) as {
+						timestamp: string;
+						payload: { params: { password: string } };
+					},
+			);
+
+		expect(lines).toHaveLength(2);
+		expect(lines[0].timestamp).toBe("1970-01-01T00:00:00.000Z");
+		expect(lines[0].payload.params.password).toBe("[redacted]");
+		expect(lines[1]).toMatchObject({ method: "authenticate", durationMs: 5 });
+	});
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from "vitest";
 import { AcpAdapter } from "../src/adapters/acp/acp.adapter";
 import type { SessionUpdate } from "../src/domain/models/session-update";
+import type { TerminalCommandRule } from "../src/domain/models/terminal-command-rule";
 import type AgentClientPlugin from "../src/plugin";
 
 vi.mock("../src/shared/logger", () => ({
@@ -17,11 +18,13 @@ function makePlugin(overrides?: {
 		| "prompt_once"
 		| "always_allow"
 		| "always_deny";
+	terminalCommandRules?: TerminalCommandRule[];
 }): AgentClientPlugin {
 	return {
 		settings: {
 			terminalPermissionMode:
 				overrides?.terminalPermissionMode ?? "prompt_once",
+			terminalCommandRules: overrides?.terminalCommandRules ?? [],
 			windowsWslMode: false,
 			nodePath: "",
 		},
@@ -422,4 +425,184 @@ describe("AcpAdapter execute tool call policy", () => {
 			),
 		).toBe(true);
 	});
+
+	describe("command rules", () => {
+		const rules: TerminalCommandRule[] = [
+			{ id: "git", action: "allow", matchType: "command", pattern: "git" },
+			{ id: "rm", action: "deny", matchType: "command", pattern: "rm" },
+			{ id: "curl", action: "ask", matchType: "command", pattern: "curl" },
+		];
+
+		const runTool = async (
+			adapter: AcpAdapter,
+			toolCallId: string,
+			command: string,
+		) => {
+			await adapter.sessionUpdate({
+				sessionId: "s1",
+				update: {
+					sessionUpdate: "tool_call",
+					toolCallId,
+					title: "Run command",
+					status: "pending",
+					kind: "execute",
+					rawInput: { command },
+				},
+			} as never);
+			await Promise.resolve();
+		};
+
+		it("runs allowed commands without prompting and blocks denied ones", async () => {
+			const adapter = new AcpAdapter(
+				makePlugin({
+					terminalPermissionMode: "prompt_once",
+					terminalCommandRules: rules,
+				}),
+			);
+			const updates: SessionUpdate[] = [];
+			adapter.onSessionUpdate((update) => {
+				updates.push(update);
+			});
+
+			await runTool(adapter, "tc-git", "git status");
+			await runTool(adapter, "tc-rm", "git status && rm -rf notes");
+
+			expect(updates).toHaveLength(2);
+			expect(updates[0]).toMatchObject({
+				toolCallId: "tc-git",
+				status: "pending",
+			});
+			expect(updates[0]).not.toHaveProperty("permissionRequest");
+			expect(updates[1]).toMatchObject({
+				toolCallId: "tc-rm",
+				status: "failed",
+				title: 'Run command (blocked by client policy: rule deny command "rm")',
+			});
+		});
+
+		it("prompts for ask rules even when the mode always allows", async () => {
+			const adapter = new AcpAdapter(
+				makePlugin({
+					terminalPermissionMode: "always_allow",
+					terminalCommandRules: rules,
+				}),
+			);
+			const updates: SessionUpdate[] = [];
+			adapter.onSessionUpdate((update) => {
+				updates.push(update);
+			});
+
+			await runTool(adapter, "tc-curl", "curl https://example.com");
+
+			expect(
+				updates.some(
+					(update) =>
+						update.type === "tool_call" &&
+						update.toolCallId === "tc-curl" &&
+						update.permissionRequest?.isActive === true,
+				),
+			).toBe(true);
+		});
+
+		it("puts the rule that decided a tool call on its updates", async () => {
+			const adapter = new AcpAdapter(
+				makePlugin({
+					terminalPermissionMode: "prompt_once",
+					terminalCommandRules: rules,
+				}),
+			);
+			const updates: SessionUpdate[] = [];
+			adapter.onSessionUpdate((update) => {
+				updates.push(update);
+			});
+
+			await runTool(adapter, "tc-git", "git status");
+			await runTool(adapter, "tc-rm", "rm -rf notes");
+			await runTool(adapter, "tc-curl", "curl https://example.com");
+			await adapter.requestPermission({
+				sessionId: "s1",
+				toolCall: {
+					toolCallId: "tc-perm-git",
+					kind: "execute",
+					rawInput: { command: "git log" },
+				},
+				options: [
+					{ optionId: "allow-once", name: "Allow once", kind: "allow_once" },
+				],
+			} as never);
+			await adapter.sessionUpdate({
+				sessionId: "s1",
+				update: {
+					sessionUpdate: "tool_call_update",
+					toolCallId: "tc-perm-git",
+					status: "completed",
+				},
+			} as never);
+
+			const ruleFor = (toolCallId: string) =>
+				updates.find(
+					(update) =>
+						(update.type === "tool_call" ||
+							update.type === "tool_call_update") &&
+						update.toolCallId === toolCallId,
+				);
+			expect(ruleFor("tc-git")).toMatchObject({
+				policyRule: 'allow command "git"',
+			});
+			expect(ruleFor("tc-rm")).toMatchObject({
+				status: "failed",
+				policyRule: 'deny command "rm"',
+			});
+			expect(ruleFor("tc-curl")).toMatchObject({
+				policyRule: 'ask command "curl"',
+				permissionRequest: { isActive: true },
+			});
+			expect(ruleFor("tc-perm-git")).toMatchObject({
+				status: "completed",
+				policyRule: 'allow command "git"',
+			});
+		});
+
+		it("answers agent permission requests by rule", async () => {
+			const adapter = new AcpAdapter(
+				makePlugin({
+					terminalPermissionMode: "prompt_once",
+					terminalCommandRules: rules,
+				}),
+			);
+			const options = [
+				{ optionId: "allow-always", name: "Always", kind: "allow_always" },
+				{ optionId: "allow-once", name: "Allow once", kind: "allow_once" },
+				{ optionId: "reject-once", name: "Reject once", kind: "reject_once" },
+			];
+
+			const allowed = await adapter.requestPermission({
+				sessionId: "s1",
+				toolCall: {
+					toolCallId: "tc-perm-git",
+					kind: "execute",
+					rawInput: { command: "git log" },
+				},
+				options,
+			} as never);
+			const denied = await adapter.requestPermission({
+				sessionId: "s1",
+				toolCall: {
+					toolCallId: "tc-perm-rm",
+					kind: "execute",
+					rawInput: { command: "rm a.md" },
+				},
+				options,
+			} as never);
+
+			expect(allowed.outcome).toEqual({
+				outcome: "selected",
+				optionId: "allow-once",
+			});
+			expect(denied.outcome).toEqual({
+				outcome: "selected",
+				optionId: "reject-once",
+			});
+		});
+	});
 });
@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from "vitest";
+import { AcpAdapter } from "../src/adapters/acp/acp.adapter";
+import type { SessionUpdate } from "../src/domain/models/session-update";
+import type AgentClientPlugin from "../src/plugin";
+
+vi.mock("../src/shared/logger", () => ({
+	getLogger: () => ({
+		log: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+	}),
+}));
+
+function makeAdapter() {
+	const adapter = new AcpAdapter({
+		settings: {
+			terminalPermissionMode: "prompt_once",
+			terminalCommandRules: [],
+			pathScope: {
+				allowedFolders: ["notes"],
+				readOnlyFolders: [],
+				forbiddenGlobs: ["private/**"],
+			},
+			windowsWslMode: false,
+			nodePath: "",
+		},
+		runtimeManager: {
+			releaseRuntime: vi.fn(),
+			forceDisconnectRuntime: vi.fn(),
+		},
+		manifest: { version: "0.0.0-test" },
+	} as unknown as AgentClientPlugin);
+	const cancel = vi.spyOn(adapter, "cancel").mockResolvedValue();
+	const updates: SessionUpdate[] = [];
+	adapter.onSessionUpdate((update) => {
+		updates.push(update);
+	});
+	return { adapter, cancel, updates };
+}
+
+function editTool(toolCallId: string, path: string, status: string) {
+	return {
+		sessionId: "s1",
+		update: {
+			sessionUpdate: "tool_call",
+			toolCallId,
+			title: "Edit file",
+			status,
+			kind: "edit",
+			locations: [{ path }],
+		},
+	} as never;
+}
+
+function statusUpdate(toolCallId: string, status: string) {
+	return {
+		sessionId: "s1",
+		update: { sessionUpdate: "tool_call_update", toolCallId, status },
+	} as never;
+}
+
+describe("AcpAdapter path scope policy", () => {
+	it("blocks forbidden paths on tool calls without a permission request", async () => {
+		const { adapter, cancel, updates } = makeAdapter();
+
+		await adapter.sessionUpdate(
+			editTool("tc-forbidden", "private/keys.md", "pending"),
+		);
+		await adapter.sessionUpdate(statusUpdate("tc-forbidden", "completed"));
+
+		expect(updates).toHaveLength(2);
+		expect(updates[0]).toMatchObject({
+			toolCallId: "tc-forbidden",
+			status: "failed",
+			title:
+				"Edit file (blocked by client policy: private/keys.md (forbidden path))",
+		});
+		expect(updates[1]).toMatchObject({ status: "failed" });
+		expect(cancel).toHaveBeenCalledTimes(1);
+		expect(cancel).toHaveBeenCalledWith("s1");
+	});
+
+	it("blocks out-of-scope changes once they run without permission", async () => {
+		const { adapter, cancel, updates } = makeAdapter();
+
+		await adapter.sessionUpdate(editTool("tc-out", "drafts/a.md", "pending"));
+		expect(updates[0]).toMatchObject({ status: "pending" });
+		expect(cancel).not.toHaveBeenCalled();
+
+		await adapter.sessionUpdate(statusUpdate("tc-out", "in_progress"));
+		expect(updates[1]).toMatchObject({
+			toolCallId: "tc-out",
+			status: "failed",
+		});
+		expect(cancel).toHaveBeenCalledTimes(1);
+	});
+
+	it("stops the session after an out-of-scope edit already ran, without undoing it", async () => {
+		const { adapter, cancel, updates } = makeAdapter();
+
+		await adapter.sessionUpdate({
+			sessionId: "s1",
+			update: {
+				sessionUpdate: "tool_call",
+				toolCallId: "tc-done",
+				title: "Edit file",
+				status: "completed",
+				kind: "edit",
+				locations: [{ path: "drafts/a.md" }],
+				content: [
+					{ type: "diff", path: "drafts/a.md", oldText: "old", newText: "new" },
+				],
+			},
+		} as never);
+
+		// The file already holds the agent's change; only the session stops
+		expect(updates).toHaveLength(1);
+		expect(updates[0]).toMatchObject({
+			toolCallId: "tc-done",
+			status: "failed",
+			title:
+				"Edit file (ran outside the path scope: change outside the path scope was not allowed; session stopped)",
+			content: [{ type: "diff", oldText: "old", newText: "new" }],
+		});
+		expect(cancel).toHaveBeenCalledWith("s1");
+	});
+
+	it("lets out-of-scope changes run after the user allows them", async () => {
+		const { adapter, cancel, updates } = makeAdapter();
+
+		await adapter.sessionUpdate(editTool("tc-ok", "drafts/a.md", "pending"));
+		const response = adapter.requestPermission({
+			sessionId: "s1",
+			toolCall: {
+				toolCallId: "tc-ok",
+				kind: "edit",
+				locations: [{ path: "drafts/a.md" }],
+			},
+			options: [
+				{ optionId: "allow", name: "Allow", kind: "allow_once" },
+				{ optionId: "reject", name: "Reject", kind: "reject_once" },
+			],
+		} as never);
+		const prompt = updates.find((update) => "permissionRequest" in update);
+		if (prompt?.type !== "tool_call" || !prompt.permissionRequest) {
+			throw new Error("expected a permission prompt");
+		}
+		(
+			adapter as unknown as {
+				handlePermissionResponse: (requestId: string, optionId: string) => void;
+			}
+		).handlePermissionResponse(prompt.permissionRequest.requestId, "allow");
+		await response;
+		await adapter.sessionUpdate(statusUpdate("tc-ok", "in_progress"));
+
+		expect(updates[updates.length - 1]).toMatchObject({
+			toolCallId: "tc-ok",
+			status: "in_progress",
+		});
+		expect(cancel).not.toHaveBeenCalled();
+	});
+
+	it("does not block reads outside the allowed folders", async () => {
+		const { adapter, updates } = makeAdapter();
+
+		await adapter.sessionUpdate({
+			sessionId: "s1",
+			update: {
+				sessionUpdate: "tool_call",
+				toolCallId: "tc-read",
+				title: "Read file",
+				status: "in_progress",
+				kind: "read",
+				locations: [{ path: "drafts/a.md" }],
+			},
+		} as never);
+
+		expect(updates[0]).toMatchObject({ status: "in_progress" });
+	});
+});
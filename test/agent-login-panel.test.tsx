@@ -0,0 +1,42 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { AgentLoginPanel } from "../src/components/chat/AgentLoginPanel";
+
+const METHODS = [
+	{ id: "oauth", name: "Log in with Google", description: "Opens a browser" },
+	{ id: "api-key", name: "Use an API key", description: null },
+];
+
+describe("AgentLoginPanel", () => {
+	it("preselects the preferred method and shows why signing in failed", async () => {
+		const signIn = vi.fn(() =>
+			Promise.resolve({
+				title: "Sign-in timed out",
+				message: "timed out",
+				suggestion: "Finish the steps in the browser window",
+			}),
+		);
+		render(
+			<AgentLoginPanel
+				agentLabel="Gemini"
+				methods={METHODS}
+				preferredMethodId="api-key"
+				signIn={signIn}
+			/>,
+		);
+
+		expect(screen.getByText("Opens a browser")).toBeInTheDocument();
+		expect(screen.getByLabelText(/Use an API key/)).toBeChecked();
+
+		fireEvent.click(screen.getByRole("button", { name: "Sign in" }));
+		expect(
+			screen.getByRole("button", { name: "Signing in..." }),
+		).toBeDisabled();
+
+		await waitFor(() =>
+			expect(screen.getByRole("alert")).toHaveTextContent("Sign-in timed out"),
+		);
+		expect(signIn).toHaveBeenCalledWith("api-key");
+		expect(screen.getByRole("button", { name: "Sign in" })).toBeEnabled();
+	});
+});
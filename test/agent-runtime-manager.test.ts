@@ -69,6 +69,8 @@ describe("RuntimeMultiplexer", () => {
 			waitForTerminalExit: vi.fn(),
 			killTerminal: vi.fn(),
 			releaseTerminal: vi.fn(),
+			readTextFile: vi.fn(),
+			writeTextFile: vi.fn(),
 			handleProcessError: vi.fn(),
 			handleStderrData: vi.fn(),
 		};
@@ -95,6 +97,8 @@ describe("RuntimeMultiplexer", () => {
 			waitForTerminalExit: vi.fn(),
 			killTerminal: vi.fn(),
 			releaseTerminal: vi.fn(),
+			readTextFile: vi.fn(),
+			writeTextFile: vi.fn(),
 			handleProcessError: vi.fn(),
 			handleStderrData: vi.fn(),
 		};
@@ -106,6 +110,8 @@ describe("RuntimeMultiplexer", () => {
 			waitForTerminalExit: vi.fn(),
 			killTerminal: vi.fn(),
 			releaseTerminal: vi.fn(),
+			readTextFile: vi.fn(),
+			writeTextFile: vi.fn(),
 			handleProcessError: vi.fn(),
 			handleStderrData: vi.fn(),
 		};
@@ -144,6 +150,8 @@ describe("RuntimeMultiplexer", () => {
 			waitForTerminalExit: vi.fn(),
 			killTerminal: vi.fn(),
 			releaseTerminal: vi.fn(),
+			readTextFile: vi.fn(),
+			writeTextFile: vi.fn(),
 			handleProcessError: vi.fn(),
 			handleStderrData: vi.fn(),
 		};
@@ -155,6 +163,8 @@ describe("RuntimeMultiplexer", () => {
 			waitForTerminalExit: vi.fn(),
 			killTerminal: vi.fn(),
 			releaseTerminal: vi.fn(),
+			readTextFile: vi.fn(),
+			writeTextFile: vi.fn(),
 			handleProcessError: vi.fn(),
 			handleStderrData: vi.fn(),
 		};
@@ -183,6 +193,8 @@ describe("RuntimeMultiplexer", () => {
 			waitForTerminalExit: vi.fn(),
 			killTerminal: vi.fn(),
 			releaseTerminal: vi.fn(),
+			readTextFile: vi.fn(),
+			writeTextFile: vi.fn(),
 			handleProcessError: vi.fn(),
 			handleStderrData: vi.fn(),
 		};
@@ -210,6 +222,8 @@ describe("RuntimeMultiplexer", () => {
 			waitForTerminalExit: vi.fn(),
 			killTerminal: vi.fn(),
 			releaseTerminal: vi.fn(),
+			readTextFile: vi.fn(),
+			writeTextFile: vi.fn(),
 			handleProcessError: vi.fn(),
 			handleStderrData: vi.fn(),
 		};
@@ -225,23 +239,45 @@ describe("RuntimeMultiplexer", () => {
 		expect(multiplexer.sessionCount).toBe(0);
 	});
 
-	it("rejects ACP fs/read_text_file when capability is disabled", async () => {
-		await expect(
-			multiplexer.readTextFile({
-				sessionId: "s1",
-				path: "notes/a.md",
-			} as never),
-		).rejects.toThrow(/fs\/read_text_file is disabled/i);
+	it("routes ACP fs/read_text_file to the session handler", async () => {
+		const handler: SessionHandler = {
+			sessionUpdate: vi.fn(),
+			requestPermission: vi.fn(),
+			createTerminal: vi.fn(),
+			terminalOutput: vi.fn(),
+			waitForTerminalExit: vi.fn(),
+			killTerminal: vi.fn(),
+			releaseTerminal: vi.fn(),
+			readTextFile: vi.fn().mockResolvedValue({ content: "body" }),
+			writeTextFile: vi.fn(),
+			handleProcessError: vi.fn(),
+			handleStderrData: vi.fn(),
+		};
+		multiplexer.registerSession("s1", handler);
+
+		const result = await multiplexer.readTextFile({
+			sessionId: "s1",
+			path: "/vault/notes/a.md",
+		});
+
+		expect(result).toEqual({ content: "body" });
+		expect(handler.readTextFile).toHaveBeenCalledWith({
+			sessionId: "s1",
+			path: "/vault/notes/a.md",
+		});
 	});
 
-	it("rejects ACP fs/write_text_file when capability is disabled", async () => {
-		await expect(
+	it("throws for ACP fs requests on unknown sessions", () => {
+		expect(() =>
+			multiplexer.readTextFile({ sessionId: "s1", path: "notes/a.md" }),
+		).toThrow(/No handler for session s1 \(readTextFile\)/);
+		expect(() =>
 			multiplexer.writeTextFile({
 				sessionId: "s1",
 				path: "notes/a.md",
 				content: "x",
-			} as never),
-		).rejects.toThrow(/fs\/write_text_file is disabled/i);
+			}),
+		).toThrow(/No handler for session s1 \(writeTextFile\)/);
 	});
 });
 
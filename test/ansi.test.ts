@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { applyCarriageReturns, parseAnsi, stripAnsi } from "../src/shared/ansi";
+
+const ESC = "\u001b";
+
+describe("parseAnsi", () => {
+	it("splits text into styled segments", () => {
+		expect(
+			parseAnsi(`ok ${ESC}[1;31mfailed${ESC}[0m done ${ESC}[92mpass${ESC}[39m`),
+		).toEqual([
+			{ text: "ok ", style: {} },
+			{ text: "failed", style: { bold: true, fg: "red" } },
+			{ text: " done ", style: {} },
+			{ text: "pass", style: { fg: "bright-green" } },
+		]);
+	});
+
+	it("reads 256-color and true-color codes", () => {
+		const [cube, rgb] = parseAnsi(`${ESC}[38;5;196mA${ESC}[48;2;0;128;255mB`);
+		expect(cube.style.fg).toBe("#ff0000");
+		expect(rgb.style).toEqual({ fg: "#ff0000", bg: "#0080ff" });
+	});
+
+	it("drops cursor and title sequences", () => {
+		expect(stripAnsi(`${ESC}]0;title\u0007a${ESC}[2Kb${ESC}[1Gc`)).toBe("abc");
+	});
+});
+
+describe("applyCarriageReturns", () => {
+	it("keeps the last redraw of each line", () => {
+		expect(applyCarriageReturns("10%\r50%\r100%\r\ndone\r\n")).toBe(
+			"100%\ndone\n",
+		);
+	});
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+	isSameChatCodeBlockConfig,
+	parseChatCodeBlock,
+	replaceChatCodeBlockBody,
+	serializeChatCodeBlock,
+} from "../src/shared/chat-code-block";
+
+describe("parseChatCodeBlock", () => {
+	it("reads known keys and ignores comments and unknown lines", () => {
+		const config = parseChatCodeBlock(
+			[
+				"# research chat",
+				"Agent: claude-code-acp",
+				"model:  sonnet ",
+				"mode:",
+				"color: blue",
+				"session: abc:123",
+				"not a pair",
+			].join("\n"),
+		);
+
+		expect(config).toEqual({
+			agent: "claude-code-acp",
+			model: "sonnet",
+			session: "abc:123",
+		});
+	});
+
+	it("round-trips through serialize", () => {
+		const config = { agent: "codex", mode: "plan", session: "s1" };
+		expect(serializeChatCodeBlock(config)).toBe(
+			"agent: codex\nmode: plan\nsession: s1",
+		);
+		expect(parseChatCodeBlock(serializeChatCodeBlock(config))).toEqual(config);
+		expect(isSameChatCodeBlockConfig(config, { ...config, model: "" })).toBe(
+			true,
+		);
+	});
+});
+
+describe("replaceChatCodeBlockBody", () => {
+	const note = ["# Note", "", "```obsius", "agent: codex", "```", "after"].join(
+		"\n",
+	);
+
+	it("rewrites the lines between the fences", () => {
+		expect(
+			replaceChatCodeBlockBody(note, 2, 4, { agent: "codex", session: "s1" }),
+		).toBe(
+			[
+				"# Note",
+				"",
+				"```obsius",
+				"agent: codex",
+				"session: s1",
+				"```",
+				"after",
+			].join("\n"),
+		);
+	});
+
+	it("returns null when the lines no longer hold a chat block", () => {
+		expect(replaceChatCodeBlockBody(note, 0, 4, { agent: "codex" })).toBeNull();
+		expect(
+			replaceChatCodeBlockBody(note.replace("```obsius", "```js"), 2, 4, {
+				agent: "codex",
+			}),
+		).toBeNull();
+	});
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildCompareTargets,
+	createComparison,
+	formatLatency,
+	latestAnswer,
+	markRunFinished,
+	markRunSent,
+	retainRuns,
+	runLatency,
+	updateRunUsage,
+} from "../src/application/services/chat-compare";
+import type { ChatMessage } from "../src/domain/models/chat-message";
+
+function makeMessage(
+	role: "user" | "assistant",
+	content: ChatMessage["content"],
+): ChatMessage {
+	return { id: crypto.randomUUID(), role, content, timestamp: new Date() };
+}
+
+const prompt = { text: "Summarize the note", images: [] };
+
+function makeComparison() {
+	return createComparison(prompt, [
+		{ tabId: "a", target: { agentId: "claude", label: "Claude Code" } },
+		{ tabId: "b", target: { agentId: "codex", label: "Codex" } },
+	]);
+}
+
+describe("comparison runs", () => {
+	it("tracks a run from sending to its answer", () => {
+		let comparison = makeComparison();
+		comparison = markRunSent(comparison, "a", 1000);
+		comparison = updateRunUsage(comparison, "a", { used: 1200, size: 200000 });
+		comparison = markRunFinished(
+			comparison,
+			"a",
+			{ answer: "Short summary", usage: null, failed: false },
+			3500,
+		);
+
+		const [run, other] = comparison.runs;
+		expect(run).toMatchObject({
+			status: "done",
+			answer: "Short summary",
+			usage: { used: 1200, size: 200000 },
+		});
+		expect(runLatency(run)).toBe(2500);
+		expect(other.status).toBe("queued");
+	});
+
+	it("ignores turns that are not part of the comparison", () => {
+		const comparison = makeComparison();
+		const reply = { answer: "x", usage: null, failed: false };
+
+		expect(markRunFinished(comparison, "a", reply, 10)).toBe(comparison);
+		expect(updateRunUsage(comparison, "a", { used: 1, size: 2 })).toBe(
+			comparison,
+		);
+
+		const sent = markRunSent(comparison, "b", 10);
+		expect(markRunSent(sent, "b", 20)).toBe(sent);
+		expect(
+			markRunFinished(sent, "b", { ...reply, failed: true }, 30).runs[1].status,
+		).toBe("failed");
+	});
+
+	it("drops runs of closed tabs", () => {
+		const comparison = makeComparison();
+
+		expect(retainRuns(comparison, new Set(["a", "b"]))).toBe(comparison);
+		expect(retainRuns(comparison, new Set(["b"]))?.runs).toHaveLength(1);
+		expect(retainRuns(comparison, new Set())).toBeNull();
+	});
+});
+
+describe("latestAnswer", () => {
+	it("joins agent text written after the last request", () => {
+		const messages = [
+			makeMessage("user", [{ type: "text", text: "First" }]),
+			makeMessage("assistant", [{ type: "text", text: "Old answer" }]),
+			makeMessage("user", [{ type: "text", text: "Second" }]),
+			makeMessage("assistant", [
+				{ type: "agent_thought", text: "thinking" },
+				{ type: "text", text: "Looking at the note. " },
+				{ type: "text", text: "It covers three topics." },
+			]),
+		];
+
+		expect(latestAnswer(messages)).toBe(
+			"Looking at the note.\n\nIt covers three topics.",
+		);
+		expect(latestAnswer(messages.slice(0, 3))).toBeNull();
+	});
+});
+
+describe("formatLatency", () => {
+	it("picks a unit for the duration", () => {
+		expect(formatLatency(850)).toBe("850 ms");
+		expect(formatLatency(12345)).toBe("12.3 s");
+		expect(formatLatency(125000)).toBe("2 min 5 s");
+	});
+});
+
+describe("buildCompareTargets", () => {
+	it("lists every agent and the current agent's models", () => {
+		expect(
+			buildCompareTargets(
+				[
+					{ id: "claude", displayName: "Claude Code" },
+					{ id: "codex", displayName: "Codex" },
+				],
+				"claude",
+				[{ modelId: "opus", name: "Opus" }],
+			),
+		).toEqual([
+			{ agentId: "claude", label: "Claude Code" },
+			{ agentId: "claude", model: "opus", label: "Claude Code · Opus" },
+			{ agentId: "codex", label: "Codex" },
+		]);
+	});
+});
@@ -0,0 +1,59 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import type { ChatSession } from "../src/domain/models/chat-session";
+import type { IAgentClient } from "../src/domain/ports/agent-client.port";
+import type { IVaultAccess } from "../src/domain/ports/vault-access.port";
+import { useChatControllerEffects } from "../src/hooks/chat-controller/controller-effects";
+import { Logger } from "../src/shared/logger";
+
+function renderEffects(sessionId: string, scrollToMessage: () => void) {
+	const restoreSession = vi.fn().mockResolvedValue(undefined);
+	renderHook(() =>
+		useChatControllerEffects({
+			logger: new Logger({ debugMode: false }),
+			config: { agent: "codex", session: "saved", scrollTo: "saved-m3" },
+			isSessionReady: true,
+			isLoadingSessionHistory: false,
+			session: { sessionId, agentId: "codex" } as ChatSession,
+			createSession: vi.fn().mockResolvedValue(undefined),
+			setModel: vi.fn(),
+			setMode: vi.fn(),
+			restoreSession,
+			scrollToMessage,
+			closeSession: vi.fn().mockResolvedValue(undefined),
+			updateAvailableCommands: vi.fn(),
+			updateCurrentMode: vi.fn(),
+			handleSessionUpdate: vi.fn(),
+			agentClient: { onSessionUpdate: vi.fn() } as unknown as IAgentClient,
+			setContextUsage: vi.fn(),
+			isSending: false,
+			messages: [],
+			saveSessionMessages: vi.fn(),
+			updateActiveNote: vi.fn().mockResolvedValue(undefined),
+			vaultAccess: {
+				subscribeSelectionChanges: () => () => {},
+			} as unknown as IVaultAccess,
+		}),
+	);
+	return restoreSession;
+}
+
+describe("useChatControllerEffects", () => {
+	it("scrolls to the configured message once the configured session is restored", async () => {
+		const scrollToMessage = vi.fn();
+		const restoreSession = renderEffects("fresh", scrollToMessage);
+
+		expect(restoreSession).toHaveBeenCalledWith("saved");
+		await waitFor(() =>
+			expect(scrollToMessage).toHaveBeenCalledWith("saved-m3"),
+		);
+	});
+
+	it("scrolls right away when the configured session is already shown", () => {
+		const scrollToMessage = vi.fn();
+		const restoreSession = renderEffects("saved", scrollToMessage);
+
+		expect(restoreSession).not.toHaveBeenCalled();
+		expect(scrollToMessage).toHaveBeenCalledWith("saved-m3");
+	});
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import type { ChatMessage } from "../src/domain/models/chat-message";
+import {
+	buildChatExportFileName,
+	deriveChatExportTitle,
+	renderChatExport,
+	renderMessageContent,
+} from "../src/shared/chat-export";
+
+const VAULT = "/vault";
+
+const messages: ChatMessage[] = [
+	{
+		id: "m1",
+		role: "user",
+		timestamp: new Date("2026-03-01T10:00:00Z"),
+		content: [{ type: "text", text: "Tidy up the intro\nof the essay" }],
+	},
+	{
+		id: "m2",
+		role: "assistant",
+		timestamp: new Date("2026-03-01T10:01:00Z"),
+		content: [
+			{ type: "agent_thought", text: "Read it first.\nThen edit." },
+			{
+				type: "plan",
+				entries: [
+					{ content: "Read essay", status: "completed", priority: "high" },
+					{ content: "Edit intro", status: "in_progress", priority: "high" },
+				],
+			},
+			{
+				type: "tool_call",
+				toolCallId: "t1",
+				title: "Edit",
+				kind: "edit",
+				status: "completed",
+				content: [
+					{
+						type: "diff",
+						path: "/vault/Essay.md",
+						oldText: "Intro\nBody\n",
+						newText: "Better intro\nBody\n",
+					},
+				],
+			},
+			{ type: "text", text: "Done." },
+		],
+	},
+];
+
+describe("renderChatExport", () => {
+	it("renders frontmatter and every message block", () => {
+		const note = renderChatExport(
+			messages,
+			{
+				title: "Tidy up the intro",
+				agentId: "claude-code-acp",
+				agentName: "Claude Code",
+				modelId: "sonnet",
+				sessionId: "s1",
+				createdAt: messages[0].timestamp,
+				updatedAt: messages[1].timestamp,
+				exportedAt: new Date("2026-03-02T08:00:00Z"),
+			},
+			VAULT,
+		);
+
+		expect(note).toContain(
+			[
+				"---",
+				'agent: "Claude Code"',
+				'agent_id: "claude-code-acp"',
+				'model: "sonnet"',
+				'session_id: "s1"',
+				'created: "2026-03-01T10:00:00.000Z"',
+			].join("\n"),
+		);
+		expect(note).not.toContain("mode:");
+		expect(note).toContain("# Tidy up the intro\n\n## User\n\nTidy up");
+		expect(note).toContain(
+			"> [!quote|obsius]- Thinking\n> Read it first.\n> Then edit.",
+		);
+		expect(note).toContain(
+			"> [!todo|obsius] Plan\n> - [x] Read essay\n> - [ ] Edit intro *(in progress)*",
+		);
+		expect(note).toContain("> [!example|obsius]- Edit");
+		expect(note).toContain(
+			[
+				"> ```diff",
+				"> --- a/Essay.md",
+				"> +++ b/Essay.md",
+				"> @@ -1,2 +1,2 @@",
+				"> -Intro",
+				"> +Better intro",
+				">  Body",
+				"> ```",
+			].join("\n"),
+		);
+		expect(note.trimEnd().endsWith("Done.")).toBe(true);
+	});
+
+	it("uses a longer fence when the diff contains backticks", () => {
+		const block = renderMessageContent(
+			{
+				type: "tool_call",
+				toolCallId: "t2",
+				title: "Write",
+				status: "completed",
+				content: [{ type: "diff", path: "a.md", newText: "```js\nx\n```\n" }],
+			},
+			VAULT,
+		);
+
+		expect(block).toContain("> ````diff\n> --- /dev/null");
+	});
+});
+
+describe("export names", () => {
+	it("derives the title from the first user line", () => {
+		expect(deriveChatExportTitle(messages)).toBe("Tidy up the intro");
+		expect(deriveChatExportTitle([])).toBe("Chat");
+	});
+
+	it("builds a file name without characters notes cannot use", () => {
+		expect(
+			buildChatExportFileName("Fix: a/b [draft]?", new Date(2026, 2, 1, 9, 5)),
+		).toBe("2026-03-01 0905 Fix a b draft.md");
+	});
+});
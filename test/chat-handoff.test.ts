@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { buildHandoffPrompt } from "../src/application/services/chat-handoff";
+import type { ChatMessage } from "../src/domain/models/chat-message";
+
+function makeMessage(
+	role: "user" | "assistant",
+	content: ChatMessage["content"],
+): ChatMessage {
+	return {
+		id: crypto.randomUUID(),
+		role,
+		content,
+		timestamp: new Date(),
+	};
+}
+
+describe("buildHandoffPrompt", () => {
+	it("returns null before the first user request", () => {
+		expect(
+			buildHandoffPrompt({ messages: [], sourceAgentName: "Claude Code" }),
+		).toBeNull();
+	});
+
+	it("summarizes the goal, turns, files and open plan entries", () => {
+		const messages: ChatMessage[] = [
+			makeMessage("user", [{ type: "text", text: "Tidy up the\ninbox notes" }]),
+			makeMessage("assistant", [
+				{ type: "text", text: "Moved three notes to the archive." },
+				{
+					type: "tool_call",
+					toolCallId: "tc1",
+					status: "completed",
+					kind: "edit",
+					content: [
+						{
+							type: "diff",
+							path: "/vault/Inbox/todo.md",
+							oldText: "a",
+							newText: "b",
+						},
+					],
+				},
+				{
+					type: "plan",
+					entries: [
+						{ content: "Archive notes", status: "completed", priority: "high" },
+						{ content: "Add tags", status: "in_progress", priority: "medium" },
+						{ content: "Update index", status: "pending", priority: "low" },
+					],
+				},
+			]),
+			makeMessage("user", [{ type: "text", text: "Now add tags" }]),
+		];
+
+		const prompt = buildHandoffPrompt({
+			messages,
+			sourceAgentName: "Claude Code",
+			vaultBasePath: "/vault",
+		});
+
+		expect(prompt).toContain("conversation that I had with Claude Code");
+		expect(prompt).toContain("## Goal\n\nTidy up the\ninbox notes");
+		expect(prompt).toContain(
+			"1. User: Tidy up the inbox notes\n   Claude Code: Moved three notes to the archive.\n2. User: Now add tags",
+		);
+		expect(prompt).toContain("## Files touched\n\n- Inbox/todo.md");
+		expect(prompt).toContain(
+			"## Open plan entries\n\n- [ ] Add tags (in progress)\n- [ ] Update index",
+		);
+		expect(prompt).not.toContain("Archive notes");
+		// The last request has no reply yet, so there is no latest state
+		expect(prompt).not.toContain("## Latest state");
+	});
+
+	it("keeps only the most recent turns", () => {
+		const messages: ChatMessage[] = [];
+		for (let i = 1; i <= 12; i++) {
+			messages.push(makeMessage("user", [{ type: "text", text: `Step ${i}` }]));
+			messages.push(
+				makeMessage("assistant", [{ type: "text", text: `Done ${i}` }]),
+			);
+		}
+
+		const prompt = buildHandoffPrompt({ messages, sourceAgentName: "Codex" });
+
+		expect(prompt).toContain("## Goal\n\nStep 1");
+		expect(prompt).toContain("(2 earlier requests omitted)");
+		expect(prompt).toContain("1. User: Step 3");
+		expect(prompt).not.toContain("User: Step 2\n");
+		expect(prompt).toContain("## Latest state\n\nDone 12");
+	});
+});
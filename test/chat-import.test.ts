@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import type { ChatMessage } from "../src/domain/models/chat-message";
+import { renderChatExport } from "../src/shared/chat-export";
+import {
+	buildTranscriptReplay,
+	parseChatTranscript,
+} from "../src/shared/chat-import";
+
+const messages: ChatMessage[] = [
+	{
+		id: "m1",
+		role: "user",
+		timestamp: new Date("2026-03-01T10:00:00Z"),
+		content: [
+			{
+				type: "text",
+				text: "Summarize this:\n\n```md\n## Not a heading\n\ntext\n```",
+			},
+		],
+	},
+	{
+		id: "m2",
+		role: "assistant",
+		timestamp: new Date("2026-03-01T10:01:00Z"),
+		content: [
+			{ type: "agent_thought", text: "Short note." },
+			{
+				type: "plan",
+				entries: [
+					{ content: "Read", status: "completed", priority: "high" },
+					{ content: "Write", status: "in_progress", priority: "low" },
+				],
+			},
+			{
+				type: "tool_call",
+				toolCallId: "t1",
+				title: "Edit",
+				kind: "edit",
+				status: "failed",
+				locations: [{ path: "/vault/a.md" }],
+				content: [
+					{ type: "diff", path: "/vault/a.md", oldText: "a\n", newText: "b\n" },
+				],
+			},
+			{ type: "text", text: "## Summary\n\nIt is short." },
+		],
+	},
+];
+
+const exported = renderChatExport(
+	messages,
+	{
+		title: "Summaries",
+		agentId: "codex",
+		agentName: "Codex",
+		sessionId: "s1",
+		createdAt: messages[0].timestamp,
+		updatedAt: messages[1].timestamp,
+		exportedAt: messages[1].timestamp,
+	},
+	"/vault",
+);
+
+describe("parseChatTranscript", () => {
+	it("rebuilds the messages of an exported chat", () => {
+		const transcript = parseChatTranscript(exported);
+
+		expect(transcript.metadata).toMatchObject({
+			title: "Summaries",
+			agentId: "codex",
+			agentName: "Codex",
+			sessionId: "s1",
+		});
+		expect(transcript.messages.map((message) => message.role)).toEqual([
+			"user",
+			"assistant",
+		]);
+		expect(transcript.messages[0].content).toEqual(messages[0].content);
+
+		const [thought, plan, tool, text] = transcript.messages[1].content;
+		expect(thought).toEqual({ type: "agent_thought", text: "Short note." });
+		expect(plan).toEqual({
+			type: "plan",
+			entries: [
+				{ content: "Read", status: "completed", priority: "medium" },
+				{ content: "Write", status: "in_progress", priority: "medium" },
+			],
+		});
+		expect(tool).toMatchObject({ type: "tool_call", status: "failed" });
+		expect(tool).not.toHaveProperty("locations");
+		expect(
+			tool.type === "tool_call" ? String(tool.rawInput?.diff) : "",
+		).toContain("-a\n+b");
+		expect(text).toEqual({
+			type: "text",
+			text: "## Summary\n\nIt is short.",
+		});
+	});
+
+	it("ignores headings inside code fences", () => {
+		const transcript = parseChatTranscript(
+			[
+				"---",
+				"agent: Codex",
+				"---",
+				"## User",
+				"Format this:",
+				"```md",
+				"## Codex",
+				"## User",
+				"```",
+				"## Codex",
+				"Done.",
+			].join("\n"),
+		);
+
+		expect(transcript.messages.map((message) => message.role)).toEqual([
+			"user",
+			"assistant",
+		]);
+		expect(transcript.messages[0].content).toEqual([
+			{
+				type: "text",
+				text: "Format this:\n```md\n## Codex\n## User\n```",
+			},
+		]);
+	});
+
+	it("only takes known agent names as headings without frontmatter", () => {
+		const transcript = parseChatTranscript(
+			[
+				"## User",
+				"Plan my week",
+				"## Notes",
+				"Busy.",
+				"## Codex",
+				"Sure.",
+			].join("\n"),
+			["Claude Code", "Codex"],
+		);
+
+		expect(transcript.metadata.agentName).toBe("Codex");
+		expect(transcript.messages.map((message) => message.role)).toEqual([
+			"user",
+			"assistant",
+		]);
+		expect(transcript.messages[0].content).toEqual([
+			{ type: "text", text: "Plan my week\n## Notes\nBusy." },
+		]);
+	});
+
+	it("keeps callouts and checklists the agent wrote as text", () => {
+		const answer = [
+			"> [!question] Which one?",
+			"> Pick a format.",
+			"",
+			"> [!example] Sample",
+			"> A short one.",
+			"",
+			"- [ ] Buy milk",
+			"- [x] Call home",
+		].join("\n");
+		const note = renderChatExport(
+			[
+				{
+					id: "m1",
+					role: "assistant",
+					timestamp: messages[0].timestamp,
+					content: [{ type: "text", text: answer }],
+				},
+			],
+			{
+				title: "Answer",
+				agentId: "codex",
+				agentName: "Codex",
+				sessionId: "s1",
+				createdAt: messages[0].timestamp,
+				updatedAt: messages[0].timestamp,
+				exportedAt: messages[0].timestamp,
+			},
+			"/vault",
+		);
+
+		const [message] = parseChatTranscript(note).messages;
+		expect(message.content.map((block) => block.type)).toEqual([
+			"text",
+			"text",
+			"text",
+		]);
+		expect(
+			message.content
+				.map((block) => (block.type === "text" ? block.text : ""))
+				.join("\n\n"),
+		).toBe(answer);
+	});
+
+	it("returns no messages for an ordinary note", () => {
+		expect(parseChatTranscript("# Groceries\n\n- milk").messages).toEqual([]);
+	});
+});
+
+describe("buildTranscriptReplay", () => {
+	it("keeps the most recent messages within the budget", () => {
+		const transcript = parseChatTranscript(exported);
+		const replay = buildTranscriptReplay(transcript, 60);
+
+		expect(replay).toContain("earlier chat with Codex");
+		expect(replay).toContain("(1 earlier messages omitted)");
+		expect(replay).toContain("[tool] Edit: a.md (failed)");
+		expect(replay).not.toContain("Short note.");
+		expect(replay).not.toContain("Summarize this");
+	});
+});
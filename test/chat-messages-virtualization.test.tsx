@@ -0,0 +1,149 @@
+import { fireEvent, render, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ChatMessages } from "../src/components/chat/ChatMessages";
+import type { ChatMessage } from "../src/domain/models/chat-message";
+import { computeVirtualRange } from "../src/shared/virtual-list";
+
+vi.mock("../src/components/chat/MessageRenderer", async () => {
+	const { CollapsibleSection } = await import(
+		"../src/components/chat/CollapsibleSection"
+	);
+	return {
+		MessageRenderer: ({ message }: { message: { id: string } }) => (
+			<div data-message-id={message.id}>
+				<CollapsibleSection stateKey={message.id} header="Details">
+					{message.id}
+				</CollapsibleSection>
+			</div>
+		),
+	};
+});
+
+const mockPlugin = {} as Parameters<typeof ChatMessages>[0]["plugin"];
+
+const mockView = {
+	registerDomEvent: () => undefined,
+} as unknown as Parameters<typeof ChatMessages>[0]["view"];
+
+function createMessages(count: number): ChatMessage[] {
+	return Array.from({ length: count }, (_, i) => ({
+		id: `m-${i}`,
+		role: i % 2 === 0 ? "user" : "assistant",
+		content: [{ type: "text", text: `Message ${i}` }],
+		timestamp: new Date("2026-03-03T00:00:00.000Z"),
+	}));
+}
+
+function renderedIds(container: HTMLElement): string[] {
+	return Array.from(
+		container.querySelectorAll<HTMLElement>("[data-message-id]"),
+		(el) => el.dataset.messageId ?? "",
+	);
+}
+
+describe("computeVirtualRange", () => {
+	it("covers the viewport plus overscan and pads the rest", () => {
+		const heights = Array<number>(10).fill(100);
+
+		expect(computeVirtualRange(heights, 450, 200, 100)).toEqual({
+			start: 3,
+			end: 8,
+			paddingTop: 300,
+			paddingBottom: 200,
+		});
+	});
+
+	it("keeps the last row when scrolled past the end", () => {
+		expect(computeVirtualRange([50, 50], 5000, 200, 0)).toMatchObject({
+			start: 1,
+			end: 2,
+			paddingTop: 50,
+			paddingBottom: 0,
+		});
+	});
+});
+
+describe("ChatMessages virtualization", () => {
+	const scrollIntoView = vi.fn();
+
+	beforeEach(() => {
+		Element.prototype.scrollIntoView = scrollIntoView;
+	});
+
+	afterEach(() => {
+		scrollIntoView.mockClear();
+	});
+
+	it("renders only the rows near the viewport", () => {
+		const { container } = render(
+			<ChatMessages
+				messages={createMessages(200)}
+				isSending={true}
+				isSessionReady={true}
+				isRestoringSession={false}
+				agentLabel="Agent"
+				plugin={mockPlugin}
+				view={mockView}
+			/>,
+		);
+
+		const ids = renderedIds(container);
+		expect(ids[0]).toBe("m-0");
+		expect(ids.length).toBeLessThan(30);
+	});
+
+	it("jumps to a message outside the rendered rows", async () => {
+		const onScrollTargetReached = vi.fn();
+		const { container } = render(
+			<ChatMessages
+				messages={createMessages(200)}
+				isSending={true}
+				isSessionReady={true}
+				isRestoringSession={false}
+				agentLabel="Agent"
+				plugin={mockPlugin}
+				view={mockView}
+				scrollTargetMessageId="m-150"
+				onScrollTargetReached={onScrollTargetReached}
+			/>,
+		);
+
+		await waitFor(() => expect(onScrollTargetReached).toHaveBeenCalled());
+		expect(renderedIds(container)).toContain("m-150");
+		expect(renderedIds(container)).not.toContain("m-0");
+		expect(scrollIntoView).toHaveBeenCalledWith({ block: "center" });
+	});
+
+	it("keeps sections expanded when their row mounts again", async () => {
+		const onScrollTargetReached = vi.fn();
+		const props = {
+			messages: createMessages(200),
+			isSending: true,
+			isSessionReady: true,
+			isRestoringSession: false,
+			agentLabel: "Agent",
+			plugin: mockPlugin,
+			view: mockView,
+			onScrollTargetReached,
+		};
+		const firstRow = (container: HTMLElement) =>
+			container.querySelector('[data-message-id="m-0"] .ac-collapsible');
+		const { container, rerender } = render(<ChatMessages {...props} />);
+
+		const header = firstRow(container)?.querySelector(
+			".ac-collapsible__header",
+		);
+		if (!header) throw new Error("expected the first row's section");
+		fireEvent.click(header);
+
+		rerender(<ChatMessages {...props} scrollTargetMessageId="m-150" />);
+		await waitFor(() => expect(onScrollTargetReached).toHaveBeenCalledTimes(1));
+		expect(firstRow(container)).toBeNull();
+
+		rerender(<ChatMessages {...props} scrollTargetMessageId="m-0" />);
+		await waitFor(() => expect(onScrollTargetReached).toHaveBeenCalledTimes(2));
+		expect(firstRow(container)?.className).toContain(
+			"ac-collapsible--expanded",
+		);
+	});
+});
@@ -0,0 +1,88 @@
+import type { MarkdownPostProcessorContext } from "obsidian";
+import { describe, expect, it, vi } from "vitest";
+import { CodeBlockChatView } from "../src/components/chat/CodeBlockChatView";
+import type AgentClientPlugin from "../src/plugin";
+import type { ChatCodeBlockConfig } from "../src/shared/chat-code-block";
+
+vi.mock("../src/components/chat/CodeBlockChatComponent", () => ({
+	CodeBlockChatComponent: () => null,
+}));
+
+const NOTE = ["# Notes", "```obsius", "agent: claude", "```", ""].join("\n");
+
+function makeView(config: ChatCodeBlockConfig = { agent: "claude" }) {
+	let text = NOTE;
+	const process = vi.fn(
+		(_file: unknown, edit: (text: string) => string): Promise<string> => {
+			text = edit(text);
+			return Promise.resolve(text);
+		},
+	);
+	const removeSessionAdapter = vi.fn(() => Promise.resolve());
+	const plugin = {
+		app: {
+			vault: { getFileByPath: () => ({ path: "chat.md" }), process },
+		},
+		viewRegistry: { register: vi.fn(), unregister: vi.fn() },
+		removeSessionAdapter,
+	} as unknown as AgentClientPlugin;
+	const ctx = {
+		sourcePath: "chat.md",
+		getSectionInfo: () => ({ text: NOTE, lineStart: 1, lineEnd: 3 }),
+	} as unknown as MarkdownPostProcessorContext;
+	const view = new CodeBlockChatView(
+		document.createElement("div"),
+		plugin,
+		config,
+		ctx,
+	);
+	return { view, process, removeSessionAdapter, getText: () => text };
+}
+
+describe("CodeBlockChatView", () => {
+	it("keeps the running session when a turn ends", () => {
+		const { view, process, removeSessionAdapter } = makeView({
+			agent: "claude",
+			session: "sess-1",
+		});
+
+		view.setBinding({ agent: "claude", model: "opus", session: "sess-1" });
+
+		expect(process).not.toHaveBeenCalled();
+		expect(removeSessionAdapter).not.toHaveBeenCalled();
+	});
+
+	it("writes a new session to the note right away", async () => {
+		const { view, process, getText } = makeView();
+
+		view.setBinding({ agent: "claude", session: "sess-1" });
+		await Promise.resolve();
+
+		expect(process).toHaveBeenCalledTimes(1);
+		expect(getText()).toContain("session: sess-1");
+	});
+
+	it("writes a changed binding to the note on unload", async () => {
+		const { view, process, getText } = makeView({
+			agent: "claude",
+			session: "sess-1",
+		});
+
+		view.setBinding({ agent: "claude", model: "opus", session: "sess-1" });
+		view.onunload();
+		await Promise.resolve();
+
+		expect(process).toHaveBeenCalledTimes(1);
+		expect(getText()).toContain("model: opus");
+	});
+
+	it("leaves the note alone when the binding did not change", async () => {
+		const { view, process } = makeView();
+
+		view.setBinding({ agent: "claude" });
+		view.onunload();
+		await Promise.resolve();
+
+		expect(process).not.toHaveBeenCalled();
+	});
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
 	extractStderrErrorHint,
+	getAuthenticationErrorInfo,
 	getSpawnErrorInfo,
 } from "../src/adapters/acp/error-diagnostics";
 
@@ -31,4 +32,19 @@ describe("error diagnostics", () => {
 		expect(info.title).toBe("Agent startup error");
 		expect(info.message).toContain("boom");
 	});
+
+	it("maps sign-in failures to actionable hints", () => {
+		expect(
+			getAuthenticationErrorInfo({ code: -32601, message: "Method not found" }),
+		).toMatchObject({
+			title: "Sign-in not supported",
+			suggestion: expect.stringContaining("login command") as string,
+		});
+		expect(
+			getAuthenticationErrorInfo(new Error("GEMINI_API_KEY is not set")).title,
+		).toBe("API key required");
+		expect(
+			getAuthenticationErrorInfo({ code: -32603, message: "boom" }),
+		).toMatchObject({ title: "Sign-in failed", message: "boom" });
+	});
 });
@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	readTextFileOperation,
+	sliceTextLines,
+	type TextFileAccess,
+	writeTextFileOperation,
+} from "../src/adapters/acp/fs-bridge";
+
+const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() } as never;
+
+function makeFiles(initial: Record<string, string> = {}): TextFileAccess & {
+	files: Record<string, string>;
+} {
+	const files = { ...initial };
+	return {
+		files,
+		toVaultPath: (path: string) =>
+			path.startsWith("/vault/") ? path.slice("/vault/".length) : null,
+		read: vi.fn(async (vaultPath: string) => {
+			if (!(vaultPath in files))
+				throw new Error(`File not found: ${vaultPath}`);
+			return files[vaultPath];
+		}),
+		write: vi.fn(async (vaultPath: string, content: string) => {
+			const previous = vaultPath in files ? files[vaultPath] : null;
+			files[vaultPath] = content;
+			return previous;
+		}),
+	};
+}
+
+describe("fs-bridge", () => {
+	it("slices content by 1-based line and limit", () => {
+		const content = "a\nb\nc\nd";
+		expect(sliceTextLines(content)).toBe(content);
+		expect(sliceTextLines(content, 2)).toBe("b\nc\nd");
+		expect(sliceTextLines(content, 2, 2)).toBe("b\nc");
+		expect(sliceTextLines(content, null, 1)).toBe("a");
+	});
+
+	it("reads vault files through the file access", async () => {
+		const files = makeFiles({ "notes/a.md": "one\ntwo\nthree" });
+
+		const result = await readTextFileOperation({
+			params: { sessionId: "s1", path: "/vault/notes/a.md", line: 2 },
+			logger,
+			files,
+		});
+
+		expect(result).toEqual({ content: "two\nthree" });
+		expect(files.read).toHaveBeenCalledWith("notes/a.md");
+	});
+
+	it("rejects paths outside the vault", async () => {
+		const files = makeFiles();
+
+		await expect(
+			readTextFileOperation({
+				params: { sessionId: "s1", path: "/etc/passwd" },
+				logger,
+				files,
+			}),
+		).rejects.toThrow(/outside the vault/);
+		await expect(
+			writeTextFileOperation({
+				params: { sessionId: "s1", path: "/etc/passwd", content: "x" },
+				logger,
+				files,
+				onFileWrite: null,
+			}),
+		).rejects.toThrow(/outside the vault/);
+		expect(files.write).not.toHaveBeenCalled();
+	});
+
+	it("reports writes with the exact previous content", async () => {
+		const files = makeFiles({ "notes/a.md": "before" });
+		const onFileWrite = vi.fn();
+
+		await writeTextFileOperation({
+			params: { sessionId: "s1", path: "/vault/notes/a.md", content: "after" },
+			logger,
+			files,
+			onFileWrite,
+		});
+		await writeTextFileOperation({
+			params: { sessionId: "s1", path: "/vault/new.md", content: "fresh" },
+			logger,
+			files,
+			onFileWrite,
+		});
+
+		expect(files.files["notes/a.md"]).toBe("after");
+		expect(onFileWrite).toHaveBeenNthCalledWith(1, {
+			sessionId: "s1",
+			vaultPath: "notes/a.md",
+			rawPath: "/vault/notes/a.md",
+			previousContent: "before",
+			content: "after",
+		});
+		expect(onFileWrite).toHaveBeenNthCalledWith(
+			2,
+			expect.objectContaining({ vaultPath: "new.md", previousContent: null }),
+		);
+	});
+
+	it("enforces the agent's path scope", async () => {
+		const files = makeFiles({
+			"Archive/a.md": "old",
+			"Private/app.json": "{}",
+		});
+		const pathScope = {
+			allowedFolders: [],
+			readOnlyFolders: ["Archive"],
+			forbiddenGlobs: ["Private/**"],
+		};
+
+		await expect(
+			readTextFileOperation({
+				params: { sessionId: "s1", path: "/vault/Archive/a.md" },
+				logger,
+				files,
+				pathScope,
+			}),
+		).resolves.toEqual({ content: "old" });
+		await expect(
+			writeTextFileOperation({
+				params: { sessionId: "s1", path: "/vault/Archive/a.md", content: "x" },
+				logger,
+				files,
+				onFileWrite: null,
+				pathScope,
+			}),
+		).rejects.toThrow("read-only folder");
+		await expect(
+			readTextFileOperation({
+				params: { sessionId: "s1", path: "/vault/Private/app.json" },
+				logger,
+				files,
+				pathScope,
+			}),
+		).rejects.toThrow("forbidden path");
+		expect(files.files["Archive/a.md"]).toBe("old");
+	});
+});
@@ -0,0 +1,235 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import * as acp from "@agentclientprotocol/sdk";
+import { FileSystemAdapter } from "obsidian";
+import { useEffect, useState } from "react";
+import {
+	createTraceReplay,
+	parseTrace,
+} from "../../scripts/acp-replay-agent.mjs";
+import { AcpAdapter } from "../../src/adapters/acp/acp.adapter";
+import type { AgentRuntime } from "../../src/adapters/acp/agent-runtime-manager";
+import { toInitializeResult } from "../../src/adapters/acp/process-lifecycle";
+import { RuntimeMultiplexer } from "../../src/adapters/acp/runtime-multiplexer";
+import type { AgentConfig } from "../../src/domain/ports/agent-client.port";
+import type { ISettingsAccess } from "../../src/domain/ports/settings-access.port";
+import type { IVaultAccess } from "../../src/domain/ports/vault-access.port";
+import { useAgentSession } from "../../src/hooks/useAgentSession";
+import { useChat } from "../../src/hooks/useChat";
+import { usePermission } from "../../src/hooks/usePermission";
+import type AgentClientPlugin from "../../src/plugin";
+import type { AgentClientPluginSettings } from "../../src/plugin";
+import { createDefaultSettings } from "../../src/shared/settings-schema";
+
+export const REPLAY_AGENT_ID = "replay";
+export const REPLAY_VAULT_PATH = "/vault";
+
+const FIXTURES_DIR = resolve(__dirname, "../fixtures");
+
+type TraceReplay = ReturnType<typeof createTraceReplay>;
+
+/** Recorded trace from `test/fixtures`, replayed by the agent script */
+export function loadTrace(fileName: string): TraceReplay {
+	return createTraceReplay(
+		parseTrace(readFileSync(resolve(FIXTURES_DIR, fileName), "utf8")),
+	);
+}
+
+/**
+ * In-memory ndJSON connection to the replay. Client messages that leave
+ * the recorded path are collected in `mismatches`.
+ */
+function connectReplay(replay: TraceReplay, mismatches: string[]): acp.Stream {
+	const encoder = new TextEncoder();
+	const decoder = new TextDecoder();
+	let toClient!: ReadableStreamDefaultController<Uint8Array>;
+	const output = new ReadableStream<Uint8Array>({
+		start(controller) {
+			toClient = controller;
+		},
+	});
+	// One message per macrotask, like stdout chunks of a real process, so
+	// the client handles a response before the notifications after it
+	let sent = Promise.resolve();
+	const emit = (emissions: { message: unknown }[]) => {
+		for (const { message } of emissions) {
+			sent = sent
+				.then(() => new Promise((done) => setTimeout(done, 0)))
+				.then(() => {
+					toClient.enqueue(encoder.encode(`${JSON.stringify(message)}\n`));
+				});
+		}
+	};
+
+	let buffered = "";
+	const input = new WritableStream<Uint8Array>({
+		write(chunk) {
+			buffered += decoder.decode(chunk, { stream: true });
+			const lines = buffered.split("\n");
+			buffered = lines.pop() ?? "";
+			for (const line of lines) {
+				if (!line.trim()) continue;
+				const step = replay.receive(
+					JSON.parse(line) as Record<string, unknown>,
+				);
+				if (step.mismatch) mismatches.push(step.mismatch);
+				emit(step.emissions);
+			}
+		},
+	});
+
+	emit(replay.start());
+	return acp.ndJsonStream(input, output);
+}
+
+function createSettingsAccess(
+	settings: AgentClientPluginSettings,
+): ISettingsAccess {
+	let snapshot = settings;
+	const listeners = new Set<() => void>();
+	return {
+		getSnapshot: () => snapshot,
+		updateSettings: (updates) => {
+			snapshot = { ...snapshot, ...updates };
+			for (const listener of listeners) listener();
+			return Promise.resolve();
+		},
+		subscribe: (listener) => {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		},
+		saveSession: () => Promise.resolve(),
+		getSavedSessions: () => [],
+		deleteSession: () => Promise.resolve(),
+		saveSessionMessages: () => Promise.resolve(),
+		loadSessionMessages: () => Promise.resolve(null),
+		deleteSessionMessages: () => Promise.resolve(),
+		linkSessionContinuation: () => Promise.resolve(),
+		searchSessions: () => Promise.resolve([]),
+	};
+}
+
+/**
+ * Real `AcpAdapter` whose runtime talks to a replayed trace instead of an
+ * agent process. The replay agent is configured as a custom agent, the way
+ * a user would add it.
+ */
+export function createReplayClient(replay: TraceReplay) {
+	const mismatches: string[] = [];
+	const settings: AgentClientPluginSettings = {
+		...createDefaultSettings(),
+		customAgents: [
+			{
+				id: REPLAY_AGENT_ID,
+				displayName: "Replay",
+				command: "node",
+				args: ["scripts/acp-replay-agent.mjs", "trace.jsonl"],
+				env: [],
+				secretBindings: [],
+			},
+		],
+		defaultAgentId: REPLAY_AGENT_ID,
+	};
+
+	const runtimeManager = {
+		acquireRuntime: async (config: AgentConfig): Promise<AgentRuntime> => {
+			const multiplexer = new RuntimeMultiplexer();
+			const connection = new acp.ClientSideConnection(
+				() => multiplexer,
+				connectReplay(replay, mismatches),
+			);
+			const initResponse = await connection.initialize({
+				protocolVersion: acp.PROTOCOL_VERSION,
+				clientCapabilities: {
+					fs: { readTextFile: true, writeTextFile: true },
+					terminal: false,
+				},
+			});
+			return {
+				agentId: config.id,
+				process: { pid: 0, kill: () => true } as never,
+				connection,
+				initResult: toInitializeResult(initResponse),
+				config,
+				multiplexer,
+				refcount: 1,
+			};
+		},
+		releaseRuntime: () => {},
+		forceDisconnectRuntime: () => {},
+	};
+
+	const plugin = {
+		settings,
+		runtimeManager,
+		manifest: { version: "0.0.0-test" },
+		app: {
+			vault: {
+				adapter: Object.assign(Object.create(FileSystemAdapter.prototype), {
+					getBasePath: () => REPLAY_VAULT_PATH,
+				}) as FileSystemAdapter,
+			},
+		},
+	} as unknown as AgentClientPlugin;
+
+	return {
+		adapter: new AcpAdapter(plugin),
+		settingsAccess: createSettingsAccess(settings),
+		mismatches,
+	};
+}
+
+/**
+ * The hooks a chat tab runs, wired to the adapter's session updates the
+ * way the chat controller does.
+ */
+export function useReplayChat(client: ReturnType<typeof createReplayClient>) {
+	const { adapter, settingsAccess } = client;
+	const session = useAgentSession(
+		adapter,
+		settingsAccess,
+		REPLAY_VAULT_PATH,
+		() => "",
+		() => ({}),
+		REPLAY_AGENT_ID,
+	);
+	const chat = useChat(
+		adapter,
+		{} as IVaultAccess,
+		{ getAllFiles: () => [] },
+		{
+			sessionId: session.session.sessionId,
+			authMethods: session.session.authMethods,
+			promptCapabilities: session.session.promptCapabilities,
+		},
+		{ windowsWslMode: false, maxNoteLength: 10000, maxSelectionLength: 2000 },
+	);
+	const permission = usePermission(adapter, chat.messages);
+	const [usage, setUsage] = useState<{ size: number; used: number } | null>(
+		null,
+	);
+
+	const { handleSessionUpdate } = chat;
+	const { updateAvailableCommands, updateCurrentMode } = session;
+	useEffect(() => {
+		adapter.onSessionUpdate((update) => {
+			if (update.type === "usage_update") {
+				setUsage({ size: update.size, used: update.used });
+				return;
+			}
+			handleSessionUpdate(update);
+			if (update.type === "available_commands_update") {
+				updateAvailableCommands(update.commands);
+			} else if (update.type === "current_mode_update") {
+				updateCurrentMode(update.currentModeId);
+			}
+		});
+	}, [
+		adapter,
+		handleSessionUpdate,
+		updateAvailableCommands,
+		updateCurrentMode,
+	]);
+
+	return { session, chat, permission, usage };
+}
@@ -0,0 +1,43 @@
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { MarkdownView } from "obsidian";
+import { describe, expect, it } from "vitest";
+import { getInlineDiffHunks } from "../src/adapters/obsidian/inline-diff-extension";
+import { InlineDiffManager } from "../src/adapters/obsidian/inline-diff-manager";
+
+function openNote(path: string, text: string) {
+	const cm = new EditorView({ state: EditorState.create({ doc: text }) });
+	// The obsidian mock's MarkdownView takes no leaf
+	const view = new (MarkdownView as unknown as new () => MarkdownView)();
+	Object.assign(view, { file: { path }, editor: { cm } });
+	return { cm, leaf: { view } };
+}
+
+function makeManager(leaves: object[]) {
+	const app = {
+		workspace: { getLeavesOfType: () => leaves },
+	};
+	return new InlineDiffManager(app as never);
+}
+
+describe("InlineDiffManager.refreshDiff", () => {
+	it("starts showing a diff for a file open in an editor", () => {
+		const note = openNote("notes/a.md", "new line\n");
+		const manager = makeManager([note.leaf]);
+
+		manager.refreshDiff("notes/a.md", "old line\n", "new line\n", {
+			mode: "document",
+		});
+
+		expect(manager.isTracked("notes/a.md")).toBe(true);
+		expect(getInlineDiffHunks(note.cm.state).length).toBeGreaterThan(0);
+	});
+
+	it("does nothing for files that are not open", () => {
+		const manager = makeManager([openNote("notes/a.md", "text").leaf]);
+
+		manager.refreshDiff("notes/b.md", "old", "new", { mode: "document" });
+
+		expect(manager.isTracked("notes/b.md")).toBe(false);
+	});
+});
@@ -0,0 +1,69 @@
+import { EditorState } from "@codemirror/state";
+import { describe, expect, it, vi } from "vitest";
+import {
+	clearInlineEdit,
+	getInlineEdit,
+	inlineEditExtension,
+	startInlineEdit,
+	updateInlineEdit,
+} from "../src/adapters/obsidian/inline-edit-extension";
+
+function createState(doc: string): EditorState {
+	return EditorState.create({ doc, extensions: inlineEditExtension(vi.fn()) });
+}
+
+const edit = {
+	id: "edit-1",
+	from: 6,
+	to: 11,
+	original: "world",
+	proposed: "",
+	status: "streaming" as const,
+};
+
+describe("inline edit extension", () => {
+	it("streams proposed text into the pending edit", () => {
+		let state = createState("hello world!").update({
+			effects: startInlineEdit.of(edit),
+		}).state;
+		state = state.update({
+			effects: updateInlineEdit.of({ id: "edit-1", proposed: "there" }),
+		}).state;
+		state = state.update({
+			effects: updateInlineEdit.of({ id: "edit-1", status: "done" }),
+		}).state;
+
+		expect(getInlineEdit(state)).toMatchObject({
+			proposed: "there",
+			status: "done",
+			from: 6,
+			to: 11,
+		});
+	});
+
+	it("keeps the selection range attached while the user types elsewhere", () => {
+		let state = createState("hello world!").update({
+			effects: startInlineEdit.of(edit),
+		}).state;
+		state = state.update({ changes: { from: 0, insert: "Oh, " } }).state;
+
+		const pending = getInlineEdit(state);
+		expect(state.sliceDoc(pending?.from, pending?.to)).toBe("world");
+	});
+
+	it("ignores updates for other edits and clears by id", () => {
+		let state = createState("hello world!").update({
+			effects: startInlineEdit.of(edit),
+		}).state;
+		state = state.update({
+			effects: [
+				updateInlineEdit.of({ id: "stale", proposed: "nope" }),
+				clearInlineEdit.of("stale"),
+			],
+		}).state;
+		expect(getInlineEdit(state)?.proposed).toBe("");
+
+		state = state.update({ effects: clearInlineEdit.of("edit-1") }).state;
+		expect(getInlineEdit(state)).toBeNull();
+	});
+});
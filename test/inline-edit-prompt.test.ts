@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_INLINE_EDIT_TEMPLATES,
+	detectInlineEditMode,
+	extractInlineEditOutput,
+	getInlineEditTemplates,
+	getSurroundingParagraphs,
+	renderInlineEditTemplate,
+} from "../src/shared/inline-edit-prompt";
+
+describe("detectInlineEditMode", () => {
+	const note = "Intro\n\n```js\nconst a = 1;\n```\n\nOutro";
+
+	it("treats Markdown as prose outside code blocks", () => {
+		const base = { extension: "md", frontmatter: null, content: note };
+		expect(detectInlineEditMode({ ...base, from: 0 })).toBe("prose");
+		expect(detectInlineEditMode({ ...base, from: note.indexOf("const") })).toBe(
+			"code",
+		);
+		expect(detectInlineEditMode({ ...base, from: note.indexOf("Outro") })).toBe(
+			"prose",
+		);
+	});
+
+	it("treats other files as code unless the note property says otherwise", () => {
+		expect(
+			detectInlineEditMode({
+				extension: "ts",
+				frontmatter: null,
+				content: "x",
+				from: 0,
+			}),
+		).toBe("code");
+		expect(
+			detectInlineEditMode({
+				extension: "md",
+				frontmatter: { "obsius-edit-mode": "code" },
+				content: "x",
+				from: 0,
+			}),
+		).toBe("code");
+	});
+});
+
+describe("inline edit templates", () => {
+	it("collects the paragraphs around the selection", () => {
+		const content =
+			"One.\n\nTwo.\n\nThree starts. Selected. Three ends.\n\nFour.";
+		const from = content.indexOf("Selected.");
+		const to = from + "Selected.".length;
+		expect(getSurroundingParagraphs(content, from, to, 1)).toEqual({
+			before: "Three starts.",
+			after: "Three ends.",
+		});
+	});
+
+	it("fills placeholders and leaves unknown ones alone", () => {
+		const prompt = renderInlineEditTemplate(
+			"{{ instruction }} / {{selection}} / {{unknown}}",
+			{
+				instruction: "Shorten",
+				selection: "Long text",
+				before: "",
+				after: "",
+				title: "Note",
+				frontmatter: "(none)",
+			},
+		);
+		expect(prompt).toBe("Shorten / Long text / {{unknown}}");
+	});
+
+	it("does not expand object prototype keys", () => {
+		const prompt = renderInlineEditTemplate("{{constructor}} {{toString}}", {
+			instruction: "",
+			selection: "",
+			before: "",
+			after: "",
+			title: "",
+			frontmatter: "",
+		});
+		expect(prompt).toBe("{{constructor}} {{toString}}");
+	});
+
+	it("falls back to built-in templates for a mode without user templates", () => {
+		const prose = getInlineEditTemplates(
+			[{ id: "mine", name: "Mine", mode: "prose", template: "x" }],
+			"prose",
+		);
+		expect(prose.map((t) => t.id)).toEqual(["mine"]);
+		const code = getInlineEditTemplates(prose, "code");
+		expect(code).toEqual(
+			DEFAULT_INLINE_EDIT_TEMPLATES.filter((t) => t.mode === "code"),
+		);
+	});
+});
+
+describe("extractInlineEditOutput", () => {
+	it("unwraps fenced answers, including an unterminated streaming fence", () => {
+		expect(extractInlineEditOutput("```md\nNew text\n```", "Old")).toBe(
+			"New text",
+		);
+		expect(extractInlineEditOutput("```\nNew te", "Old")).toBe("New te");
+	});
+
+	it("takes the fenced block out of an answer with a preamble", () => {
+		const answer = "Here is the edit:\n\n```\nNew text\n```\n\nLet me know!";
+		expect(extractInlineEditOutput(answer, "Old")).toBe("New text");
+	});
+
+	it("keeps fences that belong to the selection", () => {
+		const original = "```js\nold()\n```";
+		const answer = "```js\nnew()\n```";
+		expect(extractInlineEditOutput(answer, original)).toBe(answer);
+	});
+
+	it("strips echoed tags and quotes around a one-line passage", () => {
+		expect(
+			extractInlineEditOutput("<passage>\nBetter.\n</passage>", "Good."),
+		).toBe("Better.");
+		expect(extractInlineEditOutput('"Better."', "Good.")).toBe("Better.");
+		expect(extractInlineEditOutput('"Quoted."', '"Said."')).toBe('"Quoted."');
+	});
+
+	it("preserves the selection's surrounding whitespace", () => {
+		expect(extractInlineEditOutput("New paragraph", "Old paragraph\n\n")).toBe(
+			"New paragraph\n\n",
+		);
+	});
+});
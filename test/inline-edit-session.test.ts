@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AcpAdapter } from "../src/adapters/acp/acp.adapter";
+import type AgentClientPlugin from "../src/plugin";
+import { InlineEditSession } from "../src/plugin/inline-edit-session";
+
+vi.mock("../src/shared/logger", () => ({
+	getLogger: () => ({
+		log: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+	}),
+}));
+
+function makeSessionAdapter() {
+	const plugin = {
+		settings: {
+			terminalPermissionMode: "always_allow",
+			terminalCommandRules: [{ pattern: "npm test", action: "allow" }],
+			windowsWslMode: false,
+			nodePath: "",
+		},
+		runtimeManager: {
+			releaseRuntime: vi.fn(),
+			forceDisconnectRuntime: vi.fn(),
+		},
+		manifest: { version: "0.0.0-test" },
+	} as unknown as AgentClientPlugin;
+	const session = new InlineEditSession(plugin, "codex", vi.fn());
+	return (session as unknown as { adapter: AcpAdapter }).adapter;
+}
+
+describe("InlineEditSession", () => {
+	it("refuses note writes from the agent", async () => {
+		const adapter = makeSessionAdapter();
+
+		await expect(
+			adapter.writeTextFile({
+				sessionId: "s1",
+				path: "/vault/notes/today.md",
+				content: "rewritten",
+			}),
+		).rejects.toThrow("Note writes are turned off for this session.");
+	});
+
+	it("refuses terminals and commands that settings would allow", async () => {
+		const adapter = makeSessionAdapter();
+
+		expect(() =>
+			adapter.createTerminal({ sessionId: "s1", command: "npm test" }),
+		).toThrow();
+		const response = await adapter.requestPermission({
+			sessionId: "s1",
+			toolCall: {
+				toolCallId: "tc-npm",
+				kind: "execute",
+				rawInput: { command: "npm test" },
+			},
+			options: [
+				{ optionId: "allow-once", name: "Allow once", kind: "allow_once" },
+				{ optionId: "reject-once", name: "Reject", kind: "reject_once" },
+			],
+		} as never);
+		expect(response.outcome).toEqual({
+			outcome: "selected",
+			optionId: "reject-once",
+		});
+	});
+});
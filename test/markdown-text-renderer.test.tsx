@@ -0,0 +1,74 @@
+import { render } from "@testing-library/react";
+import { MarkdownRenderer } from "obsidian";
+import { describe, expect, it, vi } from "vitest";
+import { MarkdownTextRenderer } from "../src/components/chat/MarkdownTextRenderer";
+import type AgentClientPlugin from "../src/plugin";
+import { splitMarkdownBlocks } from "../src/shared/markdown-blocks";
+
+describe("splitMarkdownBlocks", () => {
+	it("splits at blank lines outside code and math blocks", () => {
+		expect(
+			splitMarkdownBlocks(
+				"# Title\n\nSome text\nmore\n\n```js\na\n\nb\n```\n\n$$\nx\n\ny\n$$\n\nEnd",
+			),
+		).toEqual([
+			"# Title",
+			"Some text\nmore",
+			"```js\na\n\nb\n```",
+			"$$\nx\n\ny\n$$",
+			"End",
+		]);
+	});
+
+	it("keeps an unclosed fence in the trailing block", () => {
+		expect(splitMarkdownBlocks("Intro\n\n```\ncode\n\nstill code")).toEqual([
+			"Intro",
+			"```\ncode\n\nstill code",
+		]);
+	});
+
+	it("keeps loose lists and indented continuations together", () => {
+		expect(
+			splitMarkdownBlocks(
+				"- a\n\n- b\n\n    more b\n\nAfter\n\n1. one\n\n2. two",
+			),
+		).toEqual(["- a\n\n- b\n\n    more b", "After", "1. one\n\n2. two"]);
+	});
+
+	it("does not split text with link references or footnotes", () => {
+		const text = "See [docs][1].\n\n[1]: https://example.com";
+		expect(splitMarkdownBlocks(text)).toEqual([text]);
+		expect(splitMarkdownBlocks("A[^1]\n\n[^1]: note")).toHaveLength(1);
+	});
+});
+
+describe("MarkdownTextRenderer", () => {
+	const plugin = { app: {} } as AgentClientPlugin;
+
+	it("re-renders only the blocks that changed", () => {
+		const renderSpy = vi.spyOn(MarkdownRenderer, "render");
+		const { container, rerender } = render(
+			<MarkdownTextRenderer text={"First\n\nSecond par"} plugin={plugin} />,
+		);
+		rerender(
+			<MarkdownTextRenderer
+				text={"First\n\nSecond paragraph\n\nThird"}
+				plugin={plugin}
+			/>,
+		);
+
+		expect(renderSpy.mock.calls.map((call) => call[1])).toEqual([
+			"First",
+			"Second par",
+			"Second paragraph",
+			"Third",
+		]);
+		expect(
+			Array.from(
+				container.querySelectorAll(".obsius-markdown-block"),
+				(block) => block.textContent,
+			),
+		).toEqual(["First", "Second paragraph", "Third"]);
+		renderSpy.mockRestore();
+	});
+});
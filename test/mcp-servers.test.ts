@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	buildSessionMcpServers,
+	mergeMcpServerSettings,
+} from "../src/adapters/acp/mcp-servers";
+import type { McpServerSettings } from "../src/domain/models/agent-config";
+
+const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() } as never;
+
+function server(patch: Partial<McpServerSettings>): McpServerSettings {
+	return {
+		id: patch.name ?? "server",
+		name: "server",
+		enabled: true,
+		transport: "stdio",
+		command: "",
+		args: [],
+		env: [],
+		url: "",
+		headers: [],
+		secretBindings: [],
+		...patch,
+	};
+}
+
+const secrets: Record<string, string> = { "github-token": "ghp_123" };
+const resolveSecret = (id: string) => secrets[id] ?? null;
+
+describe("mcp-servers", () => {
+	it("lets per-agent servers replace global servers with the same name", () => {
+		const merged = mergeMcpServerSettings(
+			[server({ name: "docs" }), server({ name: "search", command: "a" })],
+			[server({ name: "search", command: "b" })],
+		);
+		expect(merged.map((entry) => [entry.name, entry.command])).toEqual([
+			["docs", ""],
+			["search", "b"],
+		]);
+	});
+
+	it("builds stdio servers with env and secret bindings", () => {
+		const result = buildSessionMcpServers({
+			servers: [
+				server({
+					name: "github",
+					command: "/usr/bin/github-mcp",
+					args: ["--stdio"],
+					env: [{ key: "LOG_LEVEL", value: "debug" }],
+					secretBindings: [
+						{ envKey: "GITHUB_TOKEN", secretId: "github-token" },
+					],
+				}),
+			],
+			capabilities: undefined,
+			resolveSecret,
+			logger,
+		});
+		expect(result).toEqual([
+			{
+				name: "github",
+				command: "/usr/bin/github-mcp",
+				args: ["--stdio"],
+				env: [
+					{ name: "LOG_LEVEL", value: "debug" },
+					{ name: "GITHUB_TOKEN", value: "ghp_123" },
+				],
+			},
+		]);
+	});
+
+	it("sends secrets as headers for http servers", () => {
+		const result = buildSessionMcpServers({
+			servers: [
+				server({
+					name: "remote",
+					transport: "http",
+					url: "https://example.com/mcp",
+					headers: [{ name: "X-Client", value: "obsidian" }],
+					secretBindings: [
+						{ envKey: "Authorization", secretId: "github-token" },
+						{ envKey: "X-Missing", secretId: "missing" },
+					],
+				}),
+			],
+			capabilities: { http: true },
+			resolveSecret,
+			logger,
+		});
+		expect(result).toEqual([
+			{
+				type: "http",
+				name: "remote",
+				url: "https://example.com/mcp",
+				headers: [
+					{ name: "X-Client", value: "obsidian" },
+					{ name: "Authorization", value: "ghp_123" },
+				],
+			},
+		]);
+	});
+
+	it("skips disabled, incomplete and unsupported servers", () => {
+		const result = buildSessionMcpServers({
+			servers: [
+				server({ name: "off", command: "x", enabled: false }),
+				server({ name: "no-command" }),
+				server({ name: "", command: "x" }),
+				server({ name: "sse", transport: "sse", url: "https://a" }),
+				server({ name: "http", transport: "http", url: "https://b" }),
+				server({ name: "ok", command: "x" }),
+			],
+			capabilities: { http: true, sse: false },
+			resolveSecret,
+			logger,
+		});
+		expect(result.map((entry) => entry.name)).toEqual(["http", "ok"]);
+	});
+});
@@ -1,3 +1,5 @@
+import { StateField } from "@codemirror/state";
+
 export const Platform = {
 	isWin: false,
 	isMacOS: false,
@@ -22,6 +24,53 @@ export function setIcon(el: HTMLElement, icon: string): void {
 	el.setAttribute("data-icon", icon);
 }
 
+export function normalizePath(path: string): string {
+	return path.replace(/[\\/]+/g, "/").replace(/^\/+|\/+$/g, "");
+}
+
+export class Component {
+	load(): void {}
+
+	unload(): void {}
+}
+
+export class MarkdownRenderChild extends Component {
+	containerEl: HTMLElement;
+
+	constructor(containerEl: HTMLElement) {
+		super();
+		this.containerEl = containerEl;
+	}
+}
+
+/** Obsidian's live preview flag; always source mode in tests */
+export const editorLivePreviewField = StateField.define<boolean>({
+	create: () => false,
+	update: (value) => value,
+});
+
+export class MarkdownView {
+	file: { path: string } | null = null;
+	editor: unknown = null;
+
+	save(): Promise<void> {
+		return Promise.resolve();
+	}
+}
+
+export const MarkdownRenderer = {
+	render(
+		_app: unknown,
+		markdown: string,
+		el: HTMLElement,
+		_sourcePath: string,
+		_component: Component,
+	): Promise<void> {
+		el.textContent = markdown;
+		return Promise.resolve();
+	},
+};
+
 export class FileSystemAdapter {
 	private readonly basePath: string;
 
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { findLockRestorations } from "../src/application/services/session-restore";
+import type { ParagraphLock } from "../src/domain/models/paragraph-lock";
+import {
+	findViolatedLocks,
+	locateLock,
+	restoreLockedSpans,
+} from "../src/shared/paragraph-locks";
+
+function makeLock(content: string, text: string): ParagraphLock {
+	const from = content.indexOf(text);
+	return {
+		id: text,
+		text,
+		from,
+		to: from + text.length,
+		createdAt: 0,
+	};
+}
+
+const original = [
+	"# Draft",
+	"",
+	"Intro paragraph that may change.",
+	"",
+	"The locked paragraph stays exactly as written.",
+	"",
+	"Closing thoughts.",
+].join("\n");
+
+describe("locateLock", () => {
+	it("prefers the occurrence closest to the stored offset", () => {
+		const content = "same\nother\nsame";
+		const span = locateLock(content, { text: "same", from: 9 });
+		expect(span).toEqual({ from: 11, to: 15 });
+	});
+
+	it("returns null when the text is gone", () => {
+		expect(locateLock("abc", { text: "xyz", from: 0 })).toBeNull();
+	});
+});
+
+describe("restoreLockedSpans", () => {
+	const lock = makeLock(
+		original,
+		"The locked paragraph stays exactly as written.",
+	);
+
+	it("ignores edits that leave locked passages intact", () => {
+		const edited = original.replace("Intro", "Opening");
+		expect(findViolatedLocks(original, edited, [lock])).toEqual([]);
+		expect(restoreLockedSpans(original, edited, [lock])).toBeNull();
+	});
+
+	it("reverts only the locked span and keeps other changes", () => {
+		const edited = original
+			.replace("Intro", "Opening")
+			.replace("stays exactly", "was rewritten")
+			.replace("Closing", "Final");
+
+		const result = restoreLockedSpans(original, edited, [lock]);
+
+		expect(result?.restored).toEqual([lock]);
+		expect(result?.text).toBe(
+			original.replace("Intro", "Opening").replace("Closing", "Final"),
+		);
+	});
+
+	it("puts back a locked passage the agent deleted", () => {
+		const edited = original.replace(
+			"The locked paragraph stays exactly as written.\n\n",
+			"",
+		);
+		const result = restoreLockedSpans(original, edited, [lock]);
+		expect(result?.text).toBe(original);
+	});
+
+	it("reverts an edit to a locked passage that also appears elsewhere", () => {
+		const withCopy = `${original}\n\n${lock.text}`;
+		const duplicated = makeLock(withCopy, lock.text);
+		const edited = withCopy.replace("stays exactly", "was rewritten");
+
+		expect(findViolatedLocks(withCopy, edited, [duplicated])).toEqual([
+			duplicated,
+		]);
+		expect(restoreLockedSpans(withCopy, edited, [duplicated])?.text).toBe(
+			withCopy,
+		);
+	});
+
+	it("flags a locked passage the agent moved", () => {
+		const edited = original
+			.replace(`${lock.text}\n\n`, "")
+			.replace("Closing thoughts.", `Closing thoughts.\n\n${lock.text}`);
+
+		expect(findViolatedLocks(original, edited, [lock])).toEqual([lock]);
+	});
+
+	it("skips locks that were already broken before the edit", () => {
+		const stale = { ...lock, text: "Not in the note" };
+		expect(restoreLockedSpans(original, "anything", [stale])).toBeNull();
+	});
+});
+
+describe("findLockRestorations", () => {
+	it("restores locked spans of modified vault files only", () => {
+		const lock = makeLock(original, "Closing thoughts.");
+		const restorations = findLockRestorations(
+			[
+				{
+					path: "/vault/draft.md",
+					vaultPath: "draft.md",
+					isNewFile: false,
+					isDeleted: false,
+					canRevert: true,
+					originalText: original,
+					finalText: original.replace("Closing thoughts.", "The end."),
+				},
+				{
+					path: "/vault/other.md",
+					vaultPath: "other.md",
+					isNewFile: false,
+					isDeleted: false,
+					canRevert: true,
+					originalText: "a",
+					finalText: "b",
+				},
+			],
+			(vaultPath) => (vaultPath === "draft.md" ? [lock] : []),
+		);
+
+		expect(restorations).toHaveLength(1);
+		expect(restorations[0]).toMatchObject({
+			path: "/vault/draft.md",
+			vaultPath: "draft.md",
+			restoredText: original,
+		});
+	});
+});
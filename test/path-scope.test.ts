@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+	checkPathScope,
+	findPathScopeViolations,
+	mergePathScopes,
+} from "../src/shared/path-scope";
+
+const toVaultPath = (path: string) =>
+	path.startsWith("/vault/") ? path.slice("/vault/".length) : null;
+
+describe("path scope", () => {
+	const scope = {
+		allowedFolders: ["Projects", "Archive"],
+		readOnlyFolders: ["Archive"],
+		forbiddenGlobs: ["Private/**", "*.env"],
+	};
+
+	it("checks folders, read-only folders and forbidden globs", () => {
+		expect(checkPathScope(scope, "Projects/a.md", "write")).toBeNull();
+		expect(checkPathScope(scope, "Archive/a.md", "read")).toBeNull();
+		expect(checkPathScope(scope, "Archive/a.md", "write")).toBe("read_only");
+		expect(checkPathScope(scope, "ProjectsX/a.md", "read")).toBe("outside");
+		expect(checkPathScope(scope, "Projects/.env", "read")).toBe("forbidden");
+		expect(checkPathScope(scope, null, "read")).toBe("outside");
+	});
+
+	it("allows the whole vault and outside paths without allowed folders", () => {
+		const open = { ...scope, allowedFolders: [] };
+		expect(checkPathScope(open, "Inbox/a.md", "write")).toBeNull();
+		expect(checkPathScope(open, null, "write")).toBeNull();
+		expect(checkPathScope(open, "Private/app.json", "read")).toBe("forbidden");
+	});
+
+	it("lets an agent's allowed folders replace the shared ones", () => {
+		const merged = mergePathScopes(scope, {
+			allowedFolders: [" Drafts "],
+			readOnlyFolders: [],
+			forbiddenGlobs: ["secret/**", ""],
+		});
+		expect(merged).toEqual({
+			allowedFolders: ["Drafts"],
+			readOnlyFolders: ["Archive"],
+			forbiddenGlobs: ["Private/**", "*.env", "secret/**"],
+		});
+		expect(mergePathScopes(undefined, undefined).allowedFolders).toEqual([]);
+	});
+
+	it("finds violations in tool call locations and diff targets", () => {
+		expect(
+			findPathScopeViolations(
+				scope,
+				{
+					kind: "read",
+					locations: [{ path: "/vault/Archive/a.md" }, { path: "/tmp/x" }],
+				},
+				toVaultPath,
+			),
+		).toEqual([{ path: "/tmp/x", reason: "outside" }]);
+		expect(
+			findPathScopeViolations(
+				scope,
+				{
+					kind: "edit",
+					locations: [{ path: "/vault/Archive/a.md" }],
+					content: [{ type: "diff", path: "/vault/Archive/a.md" }],
+				},
+				toVaultPath,
+			),
+		).toEqual([{ path: "/vault/Archive/a.md", reason: "read_only" }]);
+	});
+});
@@ -0,0 +1,178 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	createPermissionGrant,
+	createPermissionMemory,
+	matchesPermissionGrant,
+} from "../src/adapters/acp/permission-grants";
+import {
+	handlePermissionResponseOperation,
+	type PermissionQueueState,
+	requestPermissionOperation,
+} from "../src/adapters/acp/permission-queue";
+import type { PermissionGrant } from "../src/domain/models/permission-grant";
+
+const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() } as never;
+
+const editCall = (path: string) => ({
+	toolCallId: `tc-${path}`,
+	kind: "edit" as const,
+	title: `Edit ${path.replace("/vault/", "")}`,
+	locations: [{ path }],
+});
+
+describe("permission grants", () => {
+	it("scopes a grant to the tool kind, a title pattern and the directory", () => {
+		const grant = createPermissionGrant({
+			agentId: "claude",
+			toolCall: editCall("/vault/notes/a.md"),
+			decision: "allow",
+			now: 1,
+		});
+
+		expect(grant).toMatchObject({
+			agentId: "claude",
+			decision: "allow",
+			toolKind: "edit",
+			titlePattern: "Edit *",
+			pathPrefix: "/vault/notes",
+		});
+		expect(
+			matchesPermissionGrant(grant, "claude", editCall("/vault/notes/b/c.md")),
+		).toBe(true);
+		expect(
+			matchesPermissionGrant(grant, "claude", editCall("/vault/other/c.md")),
+		).toBe(false);
+		expect(
+			matchesPermissionGrant(grant, "codex", editCall("/vault/notes/c.md")),
+		).toBe(false);
+		expect(
+			matchesPermissionGrant(grant, "claude", {
+				...editCall("/vault/notes/c.md"),
+				kind: "delete",
+			}),
+		).toBe(false);
+	});
+
+	it("turns only the location in the title into a wildcard", () => {
+		const grant = createPermissionGrant({
+			agentId: "claude",
+			toolCall: {
+				...editCall("/vault/notes/a.md"),
+				title: "Edit a.md from data.md",
+			},
+			decision: "allow",
+		});
+
+		expect(grant.titlePattern).toBe("Edit * from data.md");
+	});
+
+	it("prompts for commands an ask rule matches despite an always allow grant", async () => {
+		const runCall = {
+			toolCallId: "tc-rm",
+			kind: "execute" as const,
+			title: "rm notes/a.md",
+			rawInput: { command: "rm notes/a.md" },
+		};
+		const permissionMemory = createPermissionMemory({
+			agentId: "claude",
+			getGrants: () => [
+				createPermissionGrant({
+					agentId: "claude",
+					toolCall: runCall,
+					decision: "allow",
+				}),
+			],
+			saveGrants: () => Promise.resolve(),
+			logger,
+		});
+		const state: PermissionQueueState = {
+			pendingPermissionRequests: new Map(),
+			pendingPermissionQueue: [],
+			policyRules: new Map(),
+		};
+
+		void requestPermissionOperation({
+			params: {
+				sessionId: "s1",
+				toolCall: runCall,
+				options: [
+					{ optionId: "allow-always", name: "Always", kind: "allow_always" },
+					{ optionId: "reject-once", name: "Reject", kind: "reject_once" },
+				],
+			} as never,
+			logger,
+			terminalPermissionMode: "always_allow",
+			terminalRules: {
+				rules: [
+					{ id: "rm", action: "ask", matchType: "command", pattern: "rm" },
+				],
+				workingDirectory: "/vault",
+			},
+			permissionMemory,
+			state,
+			sessionUpdateCallback: null,
+		});
+		await Promise.resolve();
+
+		expect(state.pendingPermissionRequests.size).toBe(1);
+	});
+
+	it("answers a matching request and remembers new always choices", async () => {
+		let grants: PermissionGrant[] = [
+			createPermissionGrant({
+				agentId: "claude",
+				toolCall: editCall("/vault/notes/a.md"),
+				decision: "reject",
+			}),
+		];
+		const permissionMemory = createPermissionMemory({
+			agentId: "claude",
+			getGrants: () => grants,
+			saveGrants: (next) => {
+				grants = next;
+				return Promise.resolve();
+			},
+			logger,
+		});
+		const state: PermissionQueueState = {
+			pendingPermissionRequests: new Map(),
+			pendingPermissionQueue: [],
+			policyRules: new Map(),
+		};
+		const options = [
+			{ optionId: "allow-always", name: "Always", kind: "allow_always" },
+			{ optionId: "allow-once", name: "Allow", kind: "allow_once" },
+			{ optionId: "reject-once", name: "Reject", kind: "reject_once" },
+		];
+		const request = (toolCall: object) =>
+			requestPermissionOperation({
+				params: { sessionId: "s1", toolCall, options } as never,
+				logger,
+				terminalPermissionMode: "prompt_once",
+				permissionMemory,
+				state,
+				sessionUpdateCallback: null,
+			});
+
+		const answered = await request(editCall("/vault/notes/b.md"));
+		expect(answered.outcome).toEqual({
+			outcome: "selected",
+			optionId: "reject-once",
+		});
+		expect(state.pendingPermissionRequests.size).toBe(0);
+
+		const pending = request({ ...editCall("/vault/notes/b.md"), kind: "read" });
+		await Promise.resolve();
+		const requestId = [...state.pendingPermissionRequests.keys()][0];
+		handlePermissionResponseOperation({
+			state,
+			requestId,
+			optionId: "allow-always",
+			sessionUpdateCallback: null,
+		});
+		await pending;
+
+		expect(grants).toHaveLength(2);
+		expect(grants[1]).toMatchObject({ decision: "allow", toolKind: "read" });
+	});
+});
@@ -10,6 +10,7 @@ function createState(): PermissionQueueState {
 	return {
 		pendingPermissionRequests: new Map(),
 		pendingPermissionQueue: [],
+		policyRules: new Map(),
 	};
 }
 
@@ -328,4 +329,51 @@ describe("permission-queue terminal policy", () => {
 			});
 		}
 	});
+
+	it("rejects forbidden paths and escalates other path scope violations", async () => {
+		const params = {
+			sessionId: "s1",
+			toolCall: {
+				toolCallId: "tc-scope",
+				kind: "execute",
+				title: "Run command",
+				rawInput: { command: "echo hi > Archive/a.md" },
+			},
+			options: [
+				{ optionId: "allow", name: "Allow once", kind: "allow_once" },
+				{ optionId: "reject", name: "Reject once", kind: "reject_once" },
+			],
+		} as never;
+
+		const rejected = await requestPermissionOperation({
+			params,
+			logger: logger as never,
+			terminalPermissionMode: "always_allow",
+			pathViolations: [{ path: "Private/app.json", reason: "forbidden" }],
+			state: createState(),
+			sessionUpdateCallback: null,
+		});
+		expect(rejected.outcome).toEqual({
+			outcome: "selected",
+			optionId: "reject",
+		});
+
+		const state = createState();
+		const sessionUpdateCallback = vi.fn();
+		void requestPermissionOperation({
+			params,
+			logger: logger as never,
+			terminalPermissionMode: "always_allow",
+			pathViolations: [{ path: "Archive/a.md", reason: "read_only" }],
+			state,
+			sessionUpdateCallback,
+		});
+		await Promise.resolve();
+		expect(state.pendingPermissionRequests.size).toBe(1);
+		expect(sessionUpdateCallback).toHaveBeenCalledWith(
+			expect.objectContaining({
+				pathViolations: [{ path: "Archive/a.md", reason: "read_only" }],
+			}),
+		);
+	});
 });
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { sendPreparedPrompt } from "../src/application/use-cases/prompt/prompt-sending";
+import type { IAgentClient } from "../src/domain/ports/agent-client.port";
+
+const METHODS = [
+	{ id: "oauth", name: "Log in with Google", description: null },
+	{ id: "api-key", name: "Use an API key", description: null },
+];
+
+const AUTH_REQUIRED = { code: -32000, message: "Authentication required" };
+
+function makeAgentClient(signInSucceeds = true) {
+	const sendPrompt = vi
+		.fn()
+		.mockRejectedValueOnce(AUTH_REQUIRED)
+		.mockResolvedValue(undefined);
+	const authenticate = vi.fn().mockResolvedValue(
+		signInSucceeds
+			? { success: true }
+			: {
+					success: false,
+					error: { title: "Sign-in failed", message: "expired" },
+				},
+	);
+	const agentClient = { sendPrompt, authenticate } as unknown as IAgentClient;
+	return { agentClient, sendPrompt, authenticate };
+}
+
+function input(preferredAuthMethodId?: string) {
+	return {
+		sessionId: "s1",
+		agentContent: [{ type: "text" as const, text: "hi" }],
+		displayContent: [{ type: "text" as const, text: "hi" }],
+		authMethods: METHODS,
+		preferredAuthMethodId,
+	};
+}
+
+describe("sendPreparedPrompt", () => {
+	it("signs in again with the remembered method and resends", async () => {
+		const client = makeAgentClient();
+
+		const result = await sendPreparedPrompt(
+			input("api-key"),
+			client.agentClient,
+		);
+
+		expect(client.authenticate).toHaveBeenCalledWith("api-key");
+		expect(client.sendPrompt).toHaveBeenCalledTimes(2);
+		expect(result).toMatchObject({ success: true, retriedSuccessfully: true });
+	});
+
+	it("asks the user to pick a method when none is remembered", async () => {
+		const client = makeAgentClient();
+
+		const result = await sendPreparedPrompt(input(), client.agentClient);
+
+		expect(client.authenticate).not.toHaveBeenCalled();
+		expect(result).toMatchObject({ success: false, requiresAuth: true });
+	});
+
+	it("asks the user when the remembered method no longer signs in", async () => {
+		const client = makeAgentClient(false);
+
+		const result = await sendPreparedPrompt(input("oauth"), client.agentClient);
+
+		expect(client.authenticate).toHaveBeenCalledWith("oauth");
+		expect(client.sendPrompt).toHaveBeenCalledTimes(1);
+		expect(result).toMatchObject({ success: false, requiresAuth: true });
+	});
+});
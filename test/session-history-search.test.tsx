@@ -0,0 +1,78 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { SessionHistoryContent } from "../src/components/chat/SessionHistoryContent";
+import type { SessionSearchResult } from "../src/domain/models/session-search";
+
+function result(sessionId: string, agentId: string): SessionSearchResult {
+	return {
+		sessionId,
+		agentId,
+		cwd: "/vault",
+		title: `Chat ${sessionId}`,
+		matches: [
+			{
+				messageId: `${sessionId}-m1`,
+				field: "user",
+				snippet: { text: "pancake recipe", highlights: [[0, 7]] },
+			},
+		],
+		totalMatches: 1,
+	};
+}
+
+describe("SessionHistoryContent search", () => {
+	it("opens results of other agents in a tab for that agent", async () => {
+		// The tab's controller only opens sessions of its own agent
+		const onOpenSearchResult = vi.fn(
+			(found: SessionSearchResult) => found.agentId === "codex",
+		);
+		const onOpenContinuation = vi.fn();
+		render(
+			<SessionHistoryContent
+				sessions={[]}
+				loading={false}
+				error={null}
+				hasMore={false}
+				currentCwd="/vault"
+				canList={true}
+				canRestore={true}
+				canFork={false}
+				isUsingLocalSessions={true}
+				localSessionIds={new Set()}
+				isAgentReady={true}
+				debugMode={false}
+				onRestoreSession={() => Promise.resolve()}
+				onForkSession={() => Promise.resolve()}
+				onDeleteSession={vi.fn()}
+				onSearchSessions={() =>
+					Promise.resolve([result("s1", "codex"), result("s2", "gemini")])
+				}
+				onOpenSearchResult={onOpenSearchResult}
+				onOpenContinuation={onOpenContinuation}
+				resolveAgentName={(id) => (id === "gemini" ? "Gemini" : "Codex")}
+				onLoadMore={vi.fn()}
+				onFetchSessions={vi.fn()}
+				onClose={vi.fn()}
+			/>,
+		);
+
+		fireEvent.change(screen.getByLabelText("Search saved sessions"), {
+			target: { value: "pancake" },
+		});
+		expect(await screen.findByText("Gemini")).toBeInTheDocument();
+
+		const [own, other] = screen.getAllByRole("button", { name: /pancake/ });
+		fireEvent.click(own);
+		fireEvent.click(other);
+
+		expect(onOpenSearchResult).toHaveBeenCalledWith(
+			expect.objectContaining({ sessionId: "s1" }),
+			"s1-m1",
+		);
+		expect(onOpenContinuation).toHaveBeenCalledTimes(1);
+		expect(onOpenContinuation).toHaveBeenCalledWith(
+			{ agentId: "gemini", sessionId: "s2" },
+			"s2-m1",
+		);
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { ChatMessage } from "../src/domain/models/chat-message";
+import type { SavedSessionInfo } from "../src/domain/models/session-info";
+import {
+	buildSearchSnippet,
+	SessionSearchIndex,
+} from "../src/shared/session-search";
+
+function message(
+	id: string,
+	role: ChatMessage["role"],
+	content: ChatMessage["content"],
+): ChatMessage {
+	return { id, role, content, timestamp: new Date("2026-03-01T10:00:00Z") };
+}
+
+function savedSession(
+	sessionId: string,
+	updatedAt: string,
+	title = sessionId,
+): SavedSessionInfo {
+	return {
+		sessionId,
+		agentId: "codex",
+		cwd: "/vault",
+		title,
+		createdAt: updatedAt,
+		updatedAt,
+	};
+}
+
+const sessions = [
+	savedSession("s1", "2026-03-01T10:00:00Z", "Essay"),
+	savedSession("s2", "2026-03-02T10:00:00Z", "Recipes"),
+];
+
+function buildIndex(): SessionSearchIndex {
+	const index = new SessionSearchIndex();
+	index.setSession("s1", [
+		message("m1", "user", [{ type: "text", text: "Tighten the essay intro" }]),
+		message("m2", "assistant", [
+			{
+				type: "tool_call",
+				toolCallId: "t1",
+				title: "Edit file",
+				status: "completed",
+				locations: [{ path: "/vault/Drafts/Essay.md" }],
+			},
+			{ type: "agent_thought", text: "Secret reasoning about pancakes" },
+			{ type: "text", text: "The intro is shorter now." },
+		]),
+	]);
+	index.setSession("s2", [
+		message("m3", "user", [{ type: "text", text: "Pancake recipe please" }]),
+		message("m4", "assistant", [{ type: "text", text: "Mix flour and eggs." }]),
+	]);
+	return index;
+}
+
+describe("SessionSearchIndex", () => {
+	it("groups matches by session and points at the message", () => {
+		const results = buildIndex().search("intro", sessions);
+
+		expect(results).toHaveLength(1);
+		expect(results[0]).toMatchObject({
+			sessionId: "s1",
+			agentId: "codex",
+			title: "Essay",
+			cwd: "/vault",
+			totalMatches: 2,
+		});
+		expect(results[0].matches.map((match) => match.messageId)).toEqual([
+			"m1",
+			"m2",
+		]);
+	});
+
+	it("matches word prefixes across text, tool titles and paths", () => {
+		const index = buildIndex();
+
+		const [pathResult] = index.search("drafts essay.md", sessions);
+		expect(pathResult.matches[0]).toMatchObject({
+			messageId: "m2",
+			field: "path",
+		});
+		expect(index.search("edit", sessions)[0].matches[0].field).toBe("tool");
+		expect(index.search("pancake", sessions).map((r) => r.sessionId)).toEqual([
+			"s2",
+		]);
+	});
+
+	it("only searches the given sessions and forgets removed ones", () => {
+		const index = buildIndex();
+
+		expect(index.search("intro", [sessions[1]])).toEqual([]);
+		index.removeSession("s1");
+		expect(index.hasSession("s1")).toBe(false);
+		expect(index.search("intro", sessions)).toEqual([]);
+	});
+});
+
+describe("buildSearchSnippet", () => {
+	it("highlights matched prefixes within a trimmed excerpt", () => {
+		const text =
+			`${"word ".repeat(30)}needle here ${"tail ".repeat(30)}`.trim();
+		const snippet = buildSearchSnippet(text, ["need"], 20);
+
+		expect(snippet.text.startsWith("…")).toBe(true);
+		expect(snippet.text.endsWith("…")).toBe(true);
+		const [[start, end]] = snippet.highlights;
+		expect(snippet.text.slice(start, end)).toBe("need");
+	});
+});
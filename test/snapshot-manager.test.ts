@@ -530,6 +530,85 @@ describe("SnapshotManager", () => {
 		});
 	});
 
+	describe("recordWrite — client fs writes", () => {
+		it("uses the exact pre-write content as baseline", async () => {
+			const io = mockFileIo({ "notes/a.md": "full new note" });
+			manager.recordWrite(
+				"notes/a.md",
+				"/vault/notes/a.md",
+				"full old note",
+				"full new note",
+			);
+
+			const cs = await manager.computeChanges([], "/vault", io.readFile);
+			const change = requireDefined(cs).changes[0];
+			expect(change.path).toBe("/vault/notes/a.md");
+			expect(change.originalText).toBe("full old note");
+			expect(change.finalText).toBe("full new note");
+		});
+
+		it("marks files created by a write as new", async () => {
+			const io = mockFileIo({ "notes/b.md": "hello" });
+			const baseline = manager.recordWrite(
+				"notes/b.md",
+				"/vault/notes/b.md",
+				null,
+				"hello",
+			);
+
+			expect(baseline).toBeNull();
+			const cs = await manager.computeChanges([], "/vault", io.readFile);
+			expect(requireDefined(cs).changes[0].isNewFile).toBe(true);
+		});
+
+		it("keeps an earlier baseline across consecutive writes", async () => {
+			const io = mockFileIo({ "a.md": "v3" });
+			manager.recordWrite("a.md", "a.md", "v1", "v2");
+			const baseline = manager.recordWrite("a.md", "a.md", "v2", "v3");
+
+			expect(baseline).toBe("v1");
+			const cs = await manager.computeChanges([], undefined, io.readFile);
+			expect(requireDefined(cs).changes[0].originalText).toBe("v1");
+		});
+
+		it("replaces a disk snapshot taken after the write", async () => {
+			const io = mockFileIo({ "a.md": "after" });
+			await manager.captureSnapshots(
+				[makeLocationMessage("Write", [{ path: "a.md" }], "edit")],
+				undefined,
+				io.readFile,
+			);
+
+			const baseline = manager.recordWrite("a.md", "a.md", "before", "after");
+
+			expect(baseline).toBe("before");
+			const cs = await manager.computeChanges([], undefined, io.readFile);
+			expect(requireDefined(cs).changes[0].originalText).toBe("before");
+		});
+	});
+
+	describe("setBaseline — per-hunk resolution", () => {
+		it("ignores untracked files", () => {
+			expect(manager.setBaseline("a.md", "x")).toBe(false);
+		});
+
+		it("advances the baseline so accepted hunks drop out of the diff", async () => {
+			const io = mockFileIo({ "a.md": "one TWO three FOUR" });
+			manager.recordWrite(
+				"a.md",
+				"a.md",
+				"one two three four",
+				"one TWO three FOUR",
+			);
+
+			expect(manager.setBaseline("a.md", "one TWO three four")).toBe(true);
+			const cs = await manager.computeChanges([], undefined, io.readFile);
+			const change = requireDefined(cs).changes[0];
+			expect(change.originalText).toBe("one TWO three four");
+			expect(change.finalText).toBe("one TWO three FOUR");
+		});
+	});
+
 	describe("reset", () => {
 		it("clears all internal state", async () => {
 			const io = mockFileIo({ "a.ts": "new" });
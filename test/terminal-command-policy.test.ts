@@ -1,8 +1,11 @@
 import { describe, expect, it } from "vitest";
 import {
+	evaluateTerminalCommandRules,
 	extractBaseCommands,
+	getRawInputCommand,
 	isDestructiveCommand,
 } from "../src/adapters/acp/terminal-command-policy";
+import type { TerminalCommandRule } from "../src/domain/models/terminal-command-rule";
 
 describe("terminal-command-policy", () => {
 	it("extracts base command from simple command", () => {
@@ -27,4 +30,153 @@ describe("terminal-command-policy", () => {
 	it("does not flag non-destructive command", () => {
 		expect(isDestructiveCommand("echo test && ls", ["rm", "del"])).toBe(false);
 	});
+
+	describe("command rules", () => {
+		const rules: TerminalCommandRule[] = [
+			{ id: "git", action: "allow", matchType: "command", pattern: "git" },
+			{ id: "ls", action: "allow", matchType: "command", pattern: "ls" },
+			{ id: "rm", action: "ask", matchType: "command", pattern: "rm" },
+			{
+				id: "push",
+				action: "deny",
+				matchType: "glob",
+				pattern: "git push*",
+			},
+			{
+				id: "scratch",
+				action: "allow",
+				matchType: "cwd",
+				pattern: "/vault/scratch",
+			},
+		];
+
+		it("picks the matching rule for a command", () => {
+			expect(
+				evaluateTerminalCommandRules("git status", "/vault", rules)?.rule.id,
+			).toBe("git");
+			expect(
+				evaluateTerminalCommandRules("git push --force", "/vault", rules),
+			).toMatchObject({ action: "deny", rule: { id: "push" } });
+		});
+
+		it("lets the most restrictive rule win across chained commands", () => {
+			expect(
+				evaluateTerminalCommandRules(
+					"ls && sudo /bin/rm a.md",
+					"/vault",
+					rules,
+				),
+			).toMatchObject({ action: "ask", rule: { id: "rm" } });
+		});
+
+		it("only allows when every command is covered", () => {
+			expect(
+				evaluateTerminalCommandRules(
+					"git status; python x.py",
+					"/vault",
+					rules,
+				),
+			).toBeNull();
+			expect(
+				evaluateTerminalCommandRules("python x.py", "/vault/scratch/tmp", rules)
+					?.rule.id,
+			).toBe("scratch");
+			expect(
+				evaluateTerminalCommandRules("python x.py", "/vault/scratchpad", rules),
+			).toBeNull();
+		});
+
+		it("matches globs per chained command", () => {
+			const globAllow: TerminalCommandRule[] = [
+				{ id: "git-any", action: "allow", matchType: "glob", pattern: "git *" },
+			];
+			expect(
+				evaluateTerminalCommandRules("git status", "/vault", globAllow)?.action,
+			).toBe("allow");
+			expect(
+				evaluateTerminalCommandRules(
+					"git status && rm -rf ~",
+					"/vault",
+					globAllow,
+				),
+			).toBeNull();
+			expect(
+				evaluateTerminalCommandRules(
+					"true && git push --force",
+					"/vault",
+					rules,
+				),
+			).toMatchObject({ action: "deny", rule: { id: "push" } });
+			expect(
+				evaluateTerminalCommandRules(
+					"ls | git push origin",
+					"/vault/scratch",
+					rules,
+				),
+			).toMatchObject({ action: "deny", rule: { id: "push" } });
+		});
+
+		it("splits commands on newlines", () => {
+			expect(extractBaseCommands("git status\nrm -rf ~\r\nls")).toEqual([
+				"git",
+				"rm",
+				"ls",
+			]);
+			expect(
+				evaluateTerminalCommandRules("git status\nrm -rf ~", "/vault", [
+					rules[0],
+				]),
+			).toBeNull();
+		});
+
+		it("applies deny rules to commands in new lines and substitutions", () => {
+			const denyRm: TerminalCommandRule[] = [
+				{ id: "rm", action: "deny", matchType: "command", pattern: "rm" },
+			];
+			for (const command of [
+				"echo hi\nrm -rf ~",
+				"echo $(rm -rf ~)",
+				'echo "`rm -rf ~`"',
+				"diff <(rm -rf ~) a.md",
+			]) {
+				expect(
+					evaluateTerminalCommandRules(command, "/vault", denyRm),
+				).toMatchObject({ action: "deny", rule: { id: "rm" } });
+			}
+		});
+
+		it("asks instead of allowing substitutions and redirections", () => {
+			const allowGit = [rules[0]];
+			for (const command of [
+				"git status `rm x`",
+				"git log $(rm -rf ~)",
+				"git status > ~/.bashrc",
+				"git log 2>&1 | git status",
+				'git log "$(whoami)"',
+				"git log 'unterminated",
+			]) {
+				expect(
+					evaluateTerminalCommandRules(command, "/vault", allowGit),
+				).toMatchObject({ action: "ask", rule: { id: "git" } });
+			}
+			expect(
+				evaluateTerminalCommandRules(
+					"git log '$(whoami) > x'",
+					"/vault",
+					allowGit,
+				)?.action,
+			).toBe("allow");
+		});
+
+		it("reads string and argv commands from raw input", () => {
+			expect(getRawInputCommand({ command: " ls ", cwd: "/v" })).toEqual({
+				command: "ls",
+				cwd: "/v",
+			});
+			expect(
+				getRawInputCommand({ command: ["bash", "-lc", "git status"] }),
+			).toEqual({ command: "git status", cwd: null });
+			expect(getRawInputCommand({ path: "a.md" })).toBeNull();
+		});
+	});
 });
@@ -0,0 +1,150 @@
+import { EventEmitter } from "node:events";
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TerminalManager } from "../src/adapters/acp/terminal-manager";
+import type { IAgentClient } from "../src/domain/ports/agent-client.port";
+import { useTerminalOutput } from "../src/hooks/useTerminalOutput";
+import type AgentClientPlugin from "../src/plugin";
+
+const processes: FakeProcess[] = [];
+
+class FakeProcess extends EventEmitter {
+	stdout = new EventEmitter();
+	stderr = new EventEmitter();
+	stdin = null;
+	kill = vi.fn();
+}
+
+vi.mock("child_process", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("child_process")>();
+	const spawn = () => {
+		const child = new FakeProcess();
+		processes.push(child);
+		return child;
+	};
+	return { ...actual, default: { ...actual, spawn }, spawn };
+});
+
+vi.mock("obsidian", async (importOriginal) => ({
+	...(await importOriginal<typeof import("obsidian")>()),
+	Platform: { isDesktopApp: true, isWin: false, isMacOS: false, isLinux: true },
+}));
+
+vi.mock("../src/shared/shell-utils", () => ({
+	escapeShellArgWindows: (arg: string) => arg,
+	getCachedShellEnvironment: () => ({}),
+	getLoginShell: () => "/bin/sh",
+	resolveShellEnvironment: () => Promise.resolve(),
+}));
+
+vi.mock("../src/shared/logger", () => ({
+	getLogger: () => ({
+		log: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+	}),
+}));
+
+function makeManager() {
+	const manager = new TerminalManager({
+		settings: { windowsWslMode: false, nodePath: "" },
+	} as unknown as AgentClientPlugin);
+	const agentClient = {
+		subscribeTerminalOutput: (
+			terminalId: string,
+			listener: Parameters<TerminalManager["subscribe"]>[1],
+		) => {
+			const unsubscribe = manager.subscribe(terminalId, listener);
+			if (!unsubscribe) throw new Error(`Terminal ${terminalId} not found`);
+			return unsubscribe;
+		},
+	} as unknown as IAgentClient;
+	return { manager, agentClient };
+}
+
+describe("TerminalManager", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		processes.length = 0;
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("shows the final output when a row remounts after the terminal was released", () => {
+		const { manager, agentClient } = makeManager();
+		const terminalId = manager.createTerminal({
+			sessionId: "s1",
+			command: "echo done",
+		});
+		processes[0].stdout.emit("data", Buffer.from("done\n"));
+		processes[0].emit("exit", 0, null);
+
+		const first = renderHook(() => useTerminalOutput(agentClient, terminalId));
+		expect(first.result.current.output).toBe("done\n");
+		first.unmount();
+
+		manager.releaseTerminal(terminalId);
+		act(() => {
+			vi.advanceTimersByTime(30000);
+		});
+		expect(manager.getOutput(terminalId)).toBeNull();
+
+		const remounted = renderHook(() =>
+			useTerminalOutput(agentClient, terminalId),
+		);
+		expect(remounted.result.current.isMissing).toBe(false);
+		expect(remounted.result.current.output).toBe("done\n");
+		expect(remounted.result.current.exitStatus).toEqual({
+			exitCode: 0,
+			signal: null,
+		});
+	});
+
+	it("keeps the output of terminals killed with the session", () => {
+		const { manager, agentClient } = makeManager();
+		const terminalId = manager.createTerminal({
+			sessionId: "s1",
+			command: "sleep 60",
+		});
+		processes[0].stdout.emit("data", Buffer.from("waiting\n"));
+
+		manager.killAllTerminals();
+
+		const { result } = renderHook(() =>
+			useTerminalOutput(agentClient, terminalId),
+		);
+		expect(processes[0].kill).toHaveBeenCalledWith("SIGTERM");
+		expect(result.current.output).toBe("waiting\n");
+		expect(result.current.isRunning).toBe(false);
+	});
+
+	it("keeps the output of every terminal until its session closes", () => {
+		const { manager, agentClient } = makeManager();
+		const terminalIds = Array.from({ length: 60 }, (_, i) => {
+			const terminalId = manager.createTerminal({
+				sessionId: "s1",
+				command: `echo ${i}`,
+			});
+			processes[i].stdout.emit("data", Buffer.from(`${i}\n`));
+			processes[i].emit("exit", 0, null);
+			manager.releaseTerminal(terminalId);
+			return terminalId;
+		});
+		act(() => {
+			vi.advanceTimersByTime(30000);
+		});
+
+		const oldest = renderHook(() =>
+			useTerminalOutput(agentClient, terminalIds[0]),
+		);
+		expect(oldest.result.current.isMissing).toBe(false);
+		expect(oldest.result.current.output).toBe("0\n");
+
+		manager.forgetRetiredTerminals("s1");
+		expect(manager.subscribe(terminalIds[59], () => {})).not.toBeNull();
+		manager.forgetRetiredTerminals("s2");
+		expect(manager.subscribe(terminalIds[59], () => {})).toBeNull();
+	});
+});
@@ -0,0 +1,105 @@
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import type { IAgentClient } from "../src/domain/ports/agent-client.port";
+import type { IVaultAccess } from "../src/domain/ports/vault-access.port";
+import { useChat } from "../src/hooks/useChat";
+import type { IMentionService } from "../src/shared/mention-utils";
+
+describe("useChat authentication", () => {
+	it("asks for a sign-in instead of showing an error when the agent wants one", async () => {
+		const agentClient = {
+			sendPrompt: vi.fn().mockRejectedValue({
+				code: -32000,
+				message: "Authentication required",
+			}),
+		} as unknown as IAgentClient;
+		const mentionService: IMentionService = { getAllFiles: () => [] };
+		const onAuthenticationRequired = vi.fn();
+		const { result } = renderHook(() =>
+			useChat(
+				agentClient,
+				{} as IVaultAccess,
+				mentionService,
+				{
+					sessionId: "session-1",
+					authMethods: [
+						{ id: "oauth", name: "Log in", description: null },
+						{ id: "api-key", name: "API key", description: null },
+					],
+					onAuthenticationRequired,
+				},
+				{
+					windowsWslMode: false,
+					maxNoteLength: 10000,
+					maxSelectionLength: 2000,
+				},
+			),
+		);
+
+		await act(async () => {
+			await result.current.sendMessage("hello", {
+				activeNote: null,
+				vaultBasePath: "/vault",
+				isAutoMentionDisabled: true,
+			});
+		});
+
+		expect(onAuthenticationRequired).toHaveBeenCalledTimes(1);
+		expect(result.current.errorInfo).toBeNull();
+		expect(result.current.isSending).toBe(false);
+	});
+
+	it("resends the refused prompt once the user signed in", async () => {
+		const sendPrompt = vi
+			.fn()
+			.mockRejectedValueOnce({
+				code: -32000,
+				message: "Authentication required",
+			})
+			.mockResolvedValue(undefined);
+		const agentClient = { sendPrompt } as unknown as IAgentClient;
+		const mentionService: IMentionService = { getAllFiles: () => [] };
+		let resend: (() => Promise<void>) | null = null;
+		const { result } = renderHook(() =>
+			useChat(
+				agentClient,
+				{} as IVaultAccess,
+				mentionService,
+				{
+					sessionId: "session-1",
+					authMethods: [
+						{ id: "oauth", name: "Log in", description: null },
+						{ id: "api-key", name: "API key", description: null },
+					],
+					onAuthenticationRequired: (retry) => {
+						resend = retry;
+					},
+				},
+				{
+					windowsWslMode: false,
+					maxNoteLength: 10000,
+					maxSelectionLength: 2000,
+				},
+			),
+		);
+
+		await act(async () => {
+			await result.current.sendMessage("hello", {
+				activeNote: null,
+				vaultBasePath: "/vault",
+				isAutoMentionDisabled: true,
+			});
+		});
+		expect(result.current.lastUserMessage).toBe("hello");
+
+		await act(async () => {
+			await resend?.();
+		});
+
+		expect(sendPrompt).toHaveBeenCalledTimes(2);
+		expect(sendPrompt.mock.calls[1]).toEqual(sendPrompt.mock.calls[0]);
+		expect(result.current.messages).toHaveLength(1);
+		expect(result.current.lastUserMessage).toBeNull();
+		expect(result.current.isSending).toBe(false);
+	});
+});
@@ -0,0 +1,96 @@
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { usePromptQueue } from "../src/hooks/usePromptQueue";
+
+interface Props {
+	canSend: boolean;
+	isWaitingForPermission: boolean;
+}
+
+function renderQueue(
+	initial: Props,
+	sendImpl: () => Promise<void> = () => Promise.resolve(),
+) {
+	const send = vi.fn(sendImpl);
+	const hook = renderHook(
+		(props: Props) => usePromptQueue({ ...props, send }),
+		{
+			initialProps: initial,
+		},
+	);
+	return { ...hook, send };
+}
+
+const prompt = (text: string) => ({ text, images: [] });
+
+describe("usePromptQueue", () => {
+	it("sends the first prompt once the turn ends", async () => {
+		// The sent prompt's turn keeps running
+		const { result, rerender, send } = renderQueue(
+			{ canSend: false, isWaitingForPermission: false },
+			() => new Promise(() => {}),
+		);
+
+		act(() => {
+			result.current.enqueue(prompt("first"));
+			result.current.enqueue(prompt("second"));
+		});
+		expect(send).not.toHaveBeenCalled();
+
+		await act(async () => {
+			rerender({ canSend: true, isWaitingForPermission: false });
+		});
+
+		expect(send).toHaveBeenCalledTimes(1);
+		expect(send).toHaveBeenCalledWith("first", undefined);
+		expect(result.current.items.map((item) => item.text)).toEqual(["second"]);
+	});
+
+	it("holds prompts while paused or waiting for permission", async () => {
+		const { result, rerender, send } = renderQueue({
+			canSend: false,
+			isWaitingForPermission: true,
+		});
+
+		act(() => {
+			result.current.enqueue(prompt("next"));
+			result.current.pause();
+		});
+		await act(async () => {
+			rerender({ canSend: true, isWaitingForPermission: true });
+		});
+		await act(async () => {
+			rerender({ canSend: true, isWaitingForPermission: false });
+		});
+		expect(send).not.toHaveBeenCalled();
+
+		await act(async () => {
+			result.current.resume();
+		});
+		expect(send).toHaveBeenCalledWith("next", undefined);
+	});
+
+	it("edits, reorders and removes queued prompts", () => {
+		const { result } = renderQueue({
+			canSend: false,
+			isWaitingForPermission: false,
+		});
+
+		act(() => {
+			result.current.enqueue(prompt("a"));
+			result.current.enqueue(prompt("b"));
+			result.current.enqueue(prompt("  "));
+			result.current.enqueue(prompt("c"));
+		});
+		const [a, b, c] = result.current.items;
+
+		act(() => result.current.move(c.id, 0));
+		act(() => result.current.update(a.id, " a2 "));
+		act(() => result.current.update(b.id, ""));
+
+		expect(result.current.items.map((item) => item.text)).toEqual(["c", "a2"]);
+
+		act(() => result.current.remove(c.id));
+		expect(result.current.items.map((item) => item.text)).toEqual(["a2"]);
+	});
+});
@@ -0,0 +1,176 @@
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { useTabs } from "../src/hooks/useTabs";
+import { parsePersistedTabs } from "../src/shared/chat-tabs";
+
+const agents = [
+	{ id: "claude", displayName: "Claude Code" },
+	{ id: "codex", displayName: "Codex" },
+];
+
+function renderTabs(options: Partial<Parameters<typeof useTabs>[0]> = {}) {
+	return renderHook(() =>
+		useTabs({
+			initialAgentId: "claude",
+			defaultAgentId: "claude",
+			availableAgents: agents,
+			maxTabs: 3,
+			...options,
+		}),
+	);
+}
+
+describe("parsePersistedTabs", () => {
+	it("drops invalid and duplicate entries", () => {
+		expect(
+			parsePersistedTabs(
+				[
+					{ id: "a", agentId: "claude", sessionId: "s1", pinned: true },
+					{ id: "a", agentId: "codex" },
+					{ id: "b" },
+					"junk",
+					{ id: "c", agentId: "codex", name: "" },
+				],
+				"b",
+			),
+		).toEqual({
+			tabs: [
+				{
+					id: "a",
+					agentId: "claude",
+					sessionId: "s1",
+					name: undefined,
+					pinned: true,
+				},
+				{
+					id: "c",
+					agentId: "codex",
+					sessionId: undefined,
+					name: undefined,
+					pinned: undefined,
+				},
+			],
+			activeTabId: undefined,
+		});
+	});
+
+	it("returns null when no tab is left", () => {
+		expect(parsePersistedTabs(undefined)).toBeNull();
+		expect(parsePersistedTabs([{ agentId: "claude" }])).toBeNull();
+	});
+});
+
+describe("useTabs", () => {
+	it("stops adding tabs at the configured limit", () => {
+		const { result } = renderTabs({ maxTabs: 2 });
+
+		act(() => result.current.handleNewTab());
+		expect(result.current.canAddTab).toBe(false);
+		act(() => result.current.handleNewTab());
+
+		expect(result.current.tabs).toHaveLength(2);
+		expect(result.current.openTab("codex")).toBeNull();
+	});
+
+	it("restores saved tabs with their sessions", () => {
+		const { result } = renderTabs({
+			initialTabs: {
+				tabs: [
+					{ id: "t1", agentId: "codex", sessionId: "s1", name: "Review" },
+					{ id: "t2", agentId: "gone", sessionId: "s2", pinned: true },
+				],
+				activeTabId: "t1",
+			},
+		});
+
+		expect(result.current.activeTabId).toBe("t1");
+		expect(result.current.tabs).toEqual([
+			{
+				id: "t2",
+				agentId: "claude",
+				config: undefined,
+				sessionId: undefined,
+				name: undefined,
+				pinned: true,
+			},
+			{
+				id: "t1",
+				agentId: "codex",
+				config: { session: "s1" },
+				sessionId: "s1",
+				name: "Review",
+				pinned: undefined,
+			},
+		]);
+		expect(result.current.tabsWithLabels.map((tab) => tab.label)).toEqual([
+			"Claude Code",
+			"Review",
+		]);
+	});
+
+	it("replaces open tabs on restore and reports the dropped ones", () => {
+		const onTabClose = vi.fn();
+		const { result } = renderTabs({ onTabClose });
+		const openId = result.current.activeTabId;
+
+		act(() =>
+			result.current.restoreTabs({
+				tabs: [{ id: "r1", agentId: "codex" }],
+			}),
+		);
+
+		expect(onTabClose).toHaveBeenCalledWith(openId);
+		expect(result.current.tabs.map((tab) => tab.id)).toEqual(["r1"]);
+		expect(result.current.activeTabId).toBe("r1");
+	});
+
+	it("renames tabs and resets an empty name", () => {
+		const { result } = renderTabs();
+		const id = result.current.activeTabId;
+
+		act(() => result.current.renameTab(id, "  Notes  "));
+		expect(result.current.tabsWithLabels[0]).toMatchObject({
+			label: "Notes",
+			hasCustomName: true,
+		});
+
+		act(() => result.current.renameTab(id, " "));
+		expect(result.current.tabsWithLabels[0]).toMatchObject({
+			label: "Claude Code",
+			hasCustomName: false,
+		});
+	});
+
+	it("moves pinned tabs to the front and keeps them open", () => {
+		const { result } = renderTabs();
+		act(() => result.current.handleNewTab());
+		const second = result.current.activeTabId;
+
+		act(() => result.current.togglePinTab(second));
+		expect(result.current.tabs[0].id).toBe(second);
+
+		act(() => result.current.handleTabClose(second));
+		expect(result.current.tabs).toHaveLength(2);
+
+		act(() => result.current.togglePinTab(second));
+		act(() => result.current.handleTabClose(second));
+		expect(result.current.tabs).toHaveLength(1);
+	});
+
+	it("closes several tabs at once and keeps pinned ones", () => {
+		const onTabClose = vi.fn();
+		const { result } = renderTabs({ onTabClose });
+		const first = result.current.activeTabId;
+		act(() => result.current.handleNewTab());
+		const second = result.current.activeTabId;
+		act(() => result.current.handleNewTab());
+		const third = result.current.activeTabId;
+		act(() => result.current.togglePinTab(first));
+
+		act(() => result.current.closeTabs([first, third]));
+
+		expect(result.current.tabs.map((tab) => tab.id)).toEqual([first, second]);
+		expect(onTabClose).toHaveBeenCalledTimes(1);
+		expect(result.current.activeTabId).toBe(first);
+	});
+});
@@ -0,0 +1,128 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TerminalOutputListener } from "../src/domain/models/terminal-output";
+import type { IAgentClient } from "../src/domain/ports/agent-client.port";
+import { useTerminalOutput } from "../src/hooks/useTerminalOutput";
+
+function makeAgentClient() {
+	let listener: TerminalOutputListener | null = null;
+	const unsubscribe = vi.fn();
+	const stopTerminal = vi.fn().mockResolvedValue(undefined);
+	const writeTerminalInput = vi.fn().mockResolvedValue(undefined);
+	const agentClient = {
+		subscribeTerminalOutput: (_id: string, next: TerminalOutputListener) => {
+			listener = next;
+			next({ type: "output", data: "hello " });
+			return unsubscribe;
+		},
+		stopTerminal,
+		writeTerminalInput,
+	} as unknown as IAgentClient;
+	return {
+		agentClient,
+		unsubscribe,
+		stopTerminal,
+		writeTerminalInput,
+		emit: (...args: Parameters<TerminalOutputListener>) => listener?.(...args),
+	};
+}
+
+describe("useTerminalOutput", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("batches pushed chunks and reports the exit", () => {
+		const client = makeAgentClient();
+		const { result, unmount } = renderHook(() =>
+			useTerminalOutput(client.agentClient, "t1"),
+		);
+
+		act(() => {
+			client.emit({ type: "output", data: "world" });
+		});
+		expect(result.current.output).toBe("");
+
+		act(() => {
+			vi.advanceTimersByTime(100);
+		});
+		expect(result.current.output).toBe("hello world");
+		expect(result.current.isRunning).toBe(true);
+
+		act(() => {
+			client.emit({ type: "output", data: "!" });
+			client.emit({ type: "exit", exitStatus: { exitCode: 0, signal: null } });
+		});
+		expect(result.current.output).toBe("hello world!");
+		expect(result.current.isRunning).toBe(false);
+
+		unmount();
+		expect(client.unsubscribe).toHaveBeenCalled();
+	});
+
+	it("marks terminals that no longer exist", () => {
+		const agentClient = {
+			subscribeTerminalOutput: () => {
+				throw new Error("Terminal t1 not found");
+			},
+		} as unknown as IAgentClient;
+		const { result } = renderHook(() => useTerminalOutput(agentClient, "t1"));
+
+		expect(result.current.isMissing).toBe(true);
+		expect(result.current.isRunning).toBe(false);
+	});
+
+	it("stops the command through the agent client", async () => {
+		const client = makeAgentClient();
+		const { result } = renderHook(() =>
+			useTerminalOutput(client.agentClient, "t1"),
+		);
+
+		await act(() => result.current.stop());
+		expect(client.stopTerminal).toHaveBeenCalledWith("t1");
+	});
+
+	it("flags a silent command as possibly waiting for input", () => {
+		const client = makeAgentClient();
+		const { result } = renderHook(() =>
+			useTerminalOutput(client.agentClient, "t1"),
+		);
+
+		act(() => {
+			vi.advanceTimersByTime(5000);
+		});
+		expect(result.current.isAwaitingInput).toBe(true);
+
+		act(() => {
+			client.emit({ type: "output", data: "Password: " });
+		});
+		expect(result.current.isAwaitingInput).toBe(false);
+
+		act(() => {
+			client.emit({ type: "exit", exitStatus: { exitCode: 1, signal: null } });
+			vi.advanceTimersByTime(10000);
+		});
+		expect(result.current.isAwaitingInput).toBe(false);
+	});
+
+	it("writes input to the command's stdin", async () => {
+		const client = makeAgentClient();
+		const { result } = renderHook(() =>
+			useTerminalOutput(client.agentClient, "t1"),
+		);
+
+		await act(async () => {
+			expect(await result.current.sendInput("y\n")).toBe(true);
+		});
+		expect(client.writeTerminalInput).toHaveBeenCalledWith("t1", "y\n");
+
+		client.writeTerminalInput.mockRejectedValueOnce(new Error("exited"));
+		await act(async () => {
+			expect(await result.current.sendInput("n\n")).toBe(false);
+		});
+	});
+});
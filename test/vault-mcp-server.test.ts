@@ -0,0 +1,214 @@
+import { request } from "node:http";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	handleMcpMessage,
+	type McpToolHost,
+} from "../src/adapters/mcp/mcp-protocol";
+import { VaultMcpServer } from "../src/adapters/mcp/vault-mcp-server";
+import {
+	callVaultMcpTool,
+	listVaultMcpTools,
+	normalizeWikilink,
+	tagMatches,
+	type VaultMcpBackend,
+} from "../src/adapters/mcp/vault-mcp-tools";
+
+const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() } as never;
+
+function makeBackend(): VaultMcpBackend {
+	return {
+		searchNotes: vi.fn(() => [
+			{ path: "a.md", name: "a" },
+			{ path: "b.md", name: "b" },
+		]),
+		resolveWikilink: vi.fn((link: string) =>
+			link === "Target" ? "notes/Target.md" : null,
+		),
+		getBacklinks: vi.fn(() => [{ path: "a.md", count: 2 }]),
+		getNoteMetadata: vi.fn(() => null),
+		listNotesByTag: vi.fn(() => ["tagged.md"]),
+		getActiveSelection: vi.fn(async () => null),
+	};
+}
+
+function makeHost(backend = makeBackend()): McpToolHost {
+	return {
+		serverInfo: { name: "obsius-vault", version: "test" },
+		listTools: listVaultMcpTools,
+		callTool: (name, args) => callVaultMcpTool(backend, name, args),
+	};
+}
+
+function parseToolText(result: unknown): unknown {
+	const { content } = result as { content: Array<{ text: string }> };
+	return JSON.parse(content[0].text);
+}
+
+describe("vault MCP tools", () => {
+	it("normalizes wikilinks and matches nested tags", () => {
+		expect(normalizeWikilink("[[Target#Heading|shown]]")).toBe("Target");
+		expect(tagMatches("#Project/Alpha", "project")).toBe(true);
+		expect(tagMatches("#projects", "project")).toBe(false);
+	});
+
+	it("resolves wikilinks through the backend", async () => {
+		const backend = makeBackend();
+		const result = await callVaultMcpTool(backend, "resolve_wikilink", {
+			link: "[[Target|alias]]",
+			sourcePath: "index.md",
+		});
+		expect(backend.resolveWikilink).toHaveBeenCalledWith("Target", "index.md");
+		expect(parseToolText(result)).toEqual({
+			link: "Target",
+			path: "notes/Target.md",
+			resolved: true,
+		});
+	});
+
+	it("applies the search limit", async () => {
+		const result = await callVaultMcpTool(makeBackend(), "search_notes", {
+			query: "a",
+			limit: 1,
+		});
+		expect(parseToolText(result)).toEqual([{ path: "a.md", name: "a" }]);
+	});
+
+	it("reports missing notes and arguments as tool errors", async () => {
+		const backend = makeBackend();
+		const missing = await callVaultMcpTool(backend, "get_note_metadata", {
+			path: "gone.md",
+		});
+		expect(missing.isError).toBe(true);
+		expect(missing.content[0].text).toBe("Note not found: gone.md");
+
+		const noArg = await callVaultMcpTool(backend, "get_backlinks", {});
+		expect(noArg.isError).toBe(true);
+	});
+});
+
+describe("MCP protocol", () => {
+	it("negotiates the protocol version on initialize", async () => {
+		const reply = await handleMcpMessage(
+			{
+				jsonrpc: "2.0",
+				id: 1,
+				method: "initialize",
+				params: { protocolVersion: "2025-03-26" },
+			},
+			makeHost(),
+		);
+		expect(reply?.result).toMatchObject({
+			protocolVersion: "2025-03-26",
+			capabilities: { tools: {} },
+			serverInfo: { name: "obsius-vault" },
+		});
+	});
+
+	it("ignores notifications and rejects unknown methods", async () => {
+		const host = makeHost();
+		expect(
+			await handleMcpMessage(
+				{ jsonrpc: "2.0", method: "notifications/initialized" },
+				host,
+			),
+		).toBeNull();
+		const reply = await handleMcpMessage(
+			{ jsonrpc: "2.0", id: "x", method: "resources/list" },
+			host,
+		);
+		expect(reply?.error?.code).toBe(-32601);
+	});
+
+	it("lists and calls tools", async () => {
+		const host = makeHost();
+		const list = await handleMcpMessage(
+			{ jsonrpc: "2.0", id: 1, method: "tools/list" },
+			host,
+		);
+		const tools = (list?.result as { tools: Array<{ name: string }> }).tools;
+		expect(tools.map((tool) => tool.name)).toContain("get_backlinks");
+
+		const call = await handleMcpMessage(
+			{
+				jsonrpc: "2.0",
+				id: 2,
+				method: "tools/call",
+				params: { name: "list_notes_by_tag", arguments: { tag: "#todo" } },
+			},
+			host,
+		);
+		expect(parseToolText(call?.result)).toEqual(["tagged.md"]);
+	});
+});
+
+describe("VaultMcpServer", () => {
+	let server: VaultMcpServer | null = null;
+
+	afterEach(async () => {
+		await server?.stop();
+		server = null;
+	});
+
+	function post(
+		url: string,
+		body: unknown,
+		headers: Record<string, string>,
+	): Promise<{ status: number; body: string }> {
+		return new Promise((resolve, reject) => {
+			const req = request(
+				url,
+				{
+					method: "POST",
+					headers: { "Content-Type": "application/json", ...headers },
+				},
+				(res) => {
+					let data = "";
+					res.on("data", (chunk) => {
+						data += chunk;
+					});
+					res.on("end", () =>
+						resolve({ status: res.statusCode ?? 0, body: data }),
+					);
+				},
+			);
+			req.on("error", reject);
+			req.end(JSON.stringify(body));
+		});
+	}
+
+	it("is only offered to agents with http MCP support", async () => {
+		server = new VaultMcpServer(makeHost(), logger);
+		expect(server.getSessionServer({ http: true })).toBeNull();
+
+		await server.start();
+		expect(server.getSessionServer({ sse: true })).toBeNull();
+		expect(server.getSessionServer({ http: true })).toMatchObject({
+			type: "http",
+			name: "obsidian-vault",
+		});
+	});
+
+	it("serves JSON-RPC over loopback HTTP behind a bearer token", async () => {
+		server = new VaultMcpServer(makeHost(), logger);
+		await server.start();
+		const entry = server.getSessionServer({ http: true });
+		if (!entry || !("url" in entry)) throw new Error("server not offered");
+		const auth = Object.fromEntries(
+			entry.headers.map((header) => [header.name, header.value]),
+		);
+		const ping = { jsonrpc: "2.0", id: 1, method: "ping" };
+
+		expect((await post(entry.url, ping, {})).status).toBe(401);
+
+		const ok = await post(entry.url, ping, auth);
+		expect(ok.status).toBe(200);
+		expect(JSON.parse(ok.body)).toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+
+		const notification = await post(
+			entry.url,
+			{ jsonrpc: "2.0", method: "notifications/initialized" },
+			auth,
+		);
+		expect(notification.status).toBe(202);
+	});
+});
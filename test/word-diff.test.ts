@@ -2,6 +2,9 @@ import { describe, expect, it } from "vitest";
 import {
 	computeAnchoredInlineDiffSegments,
 	computeInlineDiffSegments,
+	groupInlineDiffHunks,
+	revertInlineDiffHunk,
+	revertInlineDiffHunks,
 } from "../src/shared/word-diff";
 
 describe("computeInlineDiffSegments", () => {
@@ -275,3 +278,62 @@ describe("computeInlineDiffSegments", () => {
 		expect(segments).toBeNull();
 	});
 });
+
+describe("inline diff hunks", () => {
+	const original = "The quick fox jumps.\nSecond line stays.\nThird line ends.";
+	const current =
+		"The quick brown fox leaps.\nSecond line stays.\nThird row ends.";
+
+	it("groups segments separated by other lines into separate hunks", () => {
+		const segments = computeInlineDiffSegments(original, current);
+		const hunks = groupInlineDiffHunks(segments, current);
+		expect(hunks.length).toBeGreaterThanOrEqual(2);
+		for (let i = 1; i < hunks.length; i++) {
+			expect(hunks[i].from).toBeGreaterThan(hunks[i - 1].to);
+		}
+	});
+
+	it("merges segments separated only by spaces on the same line", () => {
+		const hunks = groupInlineDiffHunks(
+			[
+				{ type: "added", from: 0, to: 3 },
+				{ type: "added", from: 4, to: 7 },
+			],
+			"abc def",
+		);
+		expect(hunks).toHaveLength(1);
+		expect(hunks[0]).toMatchObject({ from: 0, to: 7 });
+	});
+
+	it("reverts a single hunk to its original text", () => {
+		const hunk = {
+			from: 4,
+			to: 9,
+			segments: [
+				{ type: "added" as const, from: 4, to: 9 },
+				{
+					type: "deleted" as const,
+					from: 9,
+					to: 9,
+					deletedText: "slow",
+				},
+			],
+		};
+		expect(revertInlineDiffHunk("The quick fox", hunk)).toBe("slow");
+	});
+
+	it("reverting every hunk restores the original text", () => {
+		const segments = computeInlineDiffSegments(original, current);
+		const hunks = groupInlineDiffHunks(segments, current);
+		expect(revertInlineDiffHunks(current, hunks)).toBe(original);
+	});
+
+	it("reverting a subset keeps the other changes", () => {
+		const segments = computeInlineDiffSegments(original, current);
+		const hunks = groupInlineDiffHunks(segments, current);
+		const last = hunks[hunks.length - 1];
+		const result = revertInlineDiffHunks(current, [last]);
+		expect(result).toContain("Third line ends.");
+		expect(result).toContain("brown");
+	});
+});